@@ -1,9 +1,17 @@
 //  @ts-check
 
 import { tanstackConfig } from "@tanstack/eslint-config";
+import { createNodeResolver } from "eslint-plugin-import-x";
 
 export default [
   ...tanstackConfig,
+  {
+    settings: {
+      // Resolver explícito: el legacy se busca por nombre ("node") y choca
+      // con paquetes que traen una carpeta `node/` (read-excel-file)
+      "import-x/resolver-next": [createNodeResolver()],
+    },
+  },
   {
     files: ["**/*.test.ts", "**/*.test.tsx", "tests/**/*"],
     languageOptions: {
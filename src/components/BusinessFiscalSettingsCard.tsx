@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { Receipt, Save } from 'lucide-react';
+import { useBusinessFiscalData } from '../hooks/useBusinessFiscalData.ts';
+import { SAT_TAX_REGIMES } from '../lib/constants/businessTypes.ts';
+import { RFC_GENERIC_FOREIGN, RFC_GENERIC_NATIONAL, normalizeRfc, validateRfc } from '../lib/validation/rfc.ts';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from './ui/index.ts';
+import type { Business, BusinessFiscalData } from '../services/business-service.ts';
+
+type BusinessFiscalField = keyof BusinessFiscalData;
+
+const EMPTY_BUSINESS_FISCAL_DATA: BusinessFiscalData = {
+  rfc: '',
+  legalName: '',
+  taxRegimeCode: '',
+  fiscalPostalCode: ''
+};
+
+export const getBusinessFiscalData = (business: Business): BusinessFiscalData => ({
+  rfc: business.rfc || '',
+  legalName: business.legalName || business.legal_name || '',
+  taxRegimeCode: business.taxRegimeCode || business.tax_regime_code || '',
+  fiscalPostalCode: business.fiscalPostalCode || business.fiscal_postal_code || ''
+});
+
+/**
+ * ✅ Errores de los datos del emisor (opcionales hasta facturar, pero el RFC
+ * debe ser válido y no genérico: el genérico solo aplica al receptor)
+ */
+export function validateBusinessFiscalData(data: BusinessFiscalData): Partial<Record<BusinessFiscalField, string>> {
+  const errors: Partial<Record<BusinessFiscalField, string>> = {};
+  const rfc = normalizeRfc(data.rfc);
+
+  if (rfc === RFC_GENERIC_NATIONAL || rfc === RFC_GENERIC_FOREIGN) {
+    errors.rfc = 'El RFC genérico no puede emitir facturas';
+  } else if (rfc && !validateRfc(rfc)) {
+    errors.rfc = 'RFC inválido: revisa siglas, fecha y homoclave';
+  }
+
+  if (data.legalName.length > 255) {
+    errors.legalName = 'La razón social debe tener máximo 255 caracteres';
+  }
+
+  if (data.fiscalPostalCode && !/^[0-9]{5}$/.test(data.fiscalPostalCode)) {
+    errors.fiscalPostalCode = 'El código postal debe tener 5 dígitos';
+  }
+
+  return errors;
+}
+
+interface BusinessFiscalSettingsCardProps {
+  businessId: string;
+}
+
+// ✅ Emisor de las facturas: RFC, razón social, régimen y lugar de expedición
+export function BusinessFiscalSettingsCard({ businessId }: BusinessFiscalSettingsCardProps) {
+  const { business, saveFiscalData } = useBusinessFiscalData(businessId);
+  const [form, setForm] = useState<BusinessFiscalData>(EMPTY_BUSINESS_FISCAL_DATA);
+  const [errors, setErrors] = useState<Partial<Record<BusinessFiscalField, string>>>({});
+
+  useEffect(() => {
+    if (business) setForm(getBusinessFiscalData(business));
+  }, [business]);
+
+  const handleChange = (field: BusinessFiscalField, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleSave = () => {
+    const validationErrors = validateBusinessFiscalData(form);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    saveFiscalData.mutate({
+      rfc: normalizeRfc(form.rfc),
+      legalName: form.legalName.trim(),
+      taxRegimeCode: form.taxRegimeCode,
+      fiscalPostalCode: form.fiscalPostalCode
+    });
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Receipt className="w-4 h-4" />
+          Datos fiscales del negocio
+        </CardTitle>
+        <CardDescription>
+          Se usan como emisor al facturar los pedidos. Captúralos como aparecen en la constancia de situación fiscal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="business_rfc">RFC</Label>
+            <Input
+              id="business_rfc"
+              value={form.rfc}
+              onChange={(e) => handleChange('rfc', e.target.value.toUpperCase())}
+              placeholder="EKU9003173C9"
+              maxLength={13}
+              className={errors.rfc ? 'border-red-500' : ''}
+            />
+            {errors.rfc && (
+              <p className="text-sm text-red-500">{errors.rfc}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="business_fiscal_postal_code">C.P. de expedición</Label>
+            <Input
+              id="business_fiscal_postal_code"
+              value={form.fiscalPostalCode}
+              onChange={(e) => handleChange('fiscalPostalCode', e.target.value.replace(/\D/g, ''))}
+              placeholder="01000"
+              maxLength={5}
+              inputMode="numeric"
+              className={errors.fiscalPostalCode ? 'border-red-500' : ''}
+            />
+            {errors.fiscalPostalCode && (
+              <p className="text-sm text-red-500">{errors.fiscalPostalCode}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="business_legal_name">Razón social</Label>
+          <Input
+            id="business_legal_name"
+            value={form.legalName}
+            onChange={(e) => handleChange('legalName', e.target.value)}
+            placeholder="Como aparece en la constancia de situación fiscal"
+            className={errors.legalName ? 'border-red-500' : ''}
+          />
+          {errors.legalName && (
+            <p className="text-sm text-red-500">{errors.legalName}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2 sm:col-span-2">
+            <Label>Régimen fiscal</Label>
+            <Select value={form.taxRegimeCode} onValueChange={(value) => handleChange('taxRegimeCode', value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecciona el régimen fiscal" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SAT_TAX_REGIMES).map(([code, name]) => (
+                  <SelectItem key={code} value={code}>
+                    {code} - {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleSave} disabled={!business || saveFiscalData.isPending}>
+            <Save className="w-4 h-4 mr-2" />
+            Guardar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,224 @@
+import { useMemo, useRef, useState } from 'react';
+import { Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { useCatalogTransfer } from '../hooks/useCatalogTransfer.ts';
+import { CATALOG_FILE_ACCEPT, readCatalogFile } from '../lib/products/catalogFile.ts';
+import {
+  CATALOG_FIELDS,
+  buildCatalogImportPlan,
+  detectColumnMapping,
+  getMissingRequiredFields
+} from '../lib/products/catalogTransfer.ts';
+import { formatCurrency } from '../lib/utils.ts';
+import {
+  Badge,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from './ui/index.ts';
+import type { CatalogImportRow, ColumnMapping } from '../lib/products/catalogTransfer.ts';
+
+interface CatalogImportExportProps {
+  businessId: string;
+}
+
+const NO_COLUMN = 'none';
+const PREVIEW_LIMIT = 200;
+
+const ACTION_BADGES: Record<CatalogImportRow['action'], { label: string; className: string }> = {
+  create: { label: 'Nuevo', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Actualiza', className: 'bg-blue-100 text-blue-800' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-800' }
+};
+
+// Importar el catálogo desde CSV/Excel (con vista previa) y exportarlo
+export function CatalogImportExport({ businessId }: CatalogImportExportProps) {
+  const { products, categories, importCatalog, exportCatalog } = useCatalogTransfer(businessId);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<Array<Array<string>>>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const headers = sheet[0] ?? [];
+  const missingFields = getMissingRequiredFields(mapping);
+  const plan = useMemo(
+    () => buildCatalogImportPlan(sheet, mapping, { products, categories }),
+    [sheet, mapping, products, categories]
+  );
+  const importable = plan.creates + plan.updates;
+
+  const close = () => {
+    setFileName(null);
+    setSheet([]);
+    setMapping({});
+    setReadError(null);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setReadError(null);
+    try {
+      const rows = await readCatalogFile(file);
+      if (rows.length < 2) throw new Error('El archivo no tiene productos');
+      setSheet(rows);
+      setMapping(detectColumnMapping(rows[0] ?? []));
+    } catch (error) {
+      setSheet([]);
+      setReadError(error instanceof Error ? error.message : 'No se pudo leer el archivo');
+    }
+  };
+
+  const handleImport = () => {
+    importCatalog.mutate(plan, { onSuccess: close });
+  };
+
+  const setColumn = (field: keyof ColumnMapping, value: string) => {
+    setMapping(prev => {
+      const { [field]: _previous, ...rest } = prev;
+      return value === NO_COLUMN ? rest : { ...rest, [field]: Number(value) };
+    });
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-1" />
+          Importar
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => void exportCatalog('xlsx')} disabled={products.length === 0}>
+          <FileSpreadsheet className="w-4 h-4 mr-1" />
+          Exportar Excel
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => void exportCatalog('csv')} disabled={products.length === 0}>
+          <Download className="w-4 h-4 mr-1" />
+          CSV
+        </Button>
+        <input ref={inputRef} type="file" accept={CATALOG_FILE_ACCEPT} className="hidden" onChange={handleFile} />
+      </div>
+
+      <Dialog open={fileName !== null} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Importar catálogo</DialogTitle>
+            <DialogDescription>
+              {fileName} · Revisa las columnas y la vista previa; nada se guarda hasta confirmar.
+            </DialogDescription>
+          </DialogHeader>
+
+          {readError && <p className="text-sm text-red-600">{readError}</p>}
+
+          {sheet.length > 0 && (
+            <div className="space-y-5">
+              {/* Column mapping */}
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {CATALOG_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <Label className="text-xs">{label}{required && ' *'}</Label>
+                    <Select
+                      value={mapping[field] === undefined ? NO_COLUMN : String(mapping[field])}
+                      onValueChange={(value) => setColumn(field, value)}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>Sin columna</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Columna ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {missingFields.length > 0 ? (
+                <p className="text-sm text-amber-700">Elige la columna de: {missingFields.join(', ')}</p>
+              ) : (
+                <>
+                  {/* Summary */}
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    <Badge className={ACTION_BADGES.create.className}>{plan.creates} nuevos</Badge>
+                    <Badge className={ACTION_BADGES.update.className}>{plan.updates} actualizados</Badge>
+                    {plan.errors > 0 && <Badge className={ACTION_BADGES.error.className}>{plan.errors} con errores (se omiten)</Badge>}
+                    {plan.newCategories.length > 0 && (
+                      <Badge variant="secondary">
+                        Categorías nuevas: {plan.newCategories.map(category => category.categoryName).join(', ')}
+                      </Badge>
+                    )}
+                  </div>
+
+                  {/* Preview */}
+                  <div className="overflow-x-auto rounded-md border">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 text-left text-gray-600">
+                        <tr>
+                          <th className="px-2 py-1.5">Fila</th>
+                          <th className="px-2 py-1.5">Producto</th>
+                          <th className="px-2 py-1.5 text-right">Precio</th>
+                          <th className="px-2 py-1.5">Clave SAT</th>
+                          <th className="px-2 py-1.5 text-right">IVA</th>
+                          <th className="px-2 py-1.5">Resultado</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {plan.rows.slice(0, PREVIEW_LIMIT).map(row => (
+                          <tr key={row.rowNumber} className={row.action === 'error' ? 'bg-red-50' : undefined}>
+                            <td className="px-2 py-1.5 text-gray-500">{row.rowNumber}</td>
+                            <td className="px-2 py-1.5">{row.product?.name ?? '—'}</td>
+                            <td className="px-2 py-1.5 text-right">{row.product ? formatCurrency(row.product.price) : '—'}</td>
+                            <td className="px-2 py-1.5 font-mono text-xs">{row.product?.satCode ?? '—'}</td>
+                            <td className="px-2 py-1.5 text-right">{row.product ? `${Math.round(row.product.taxRate * 100)}%` : '—'}</td>
+                            <td className="px-2 py-1.5">
+                              <Badge className={ACTION_BADGES[row.action].className}>{ACTION_BADGES[row.action].label}</Badge>
+                              {row.errors.length > 0 && (
+                                <ul className="mt-1 text-xs text-red-700">
+                                  {row.errors.map(error => <li key={error}>{error}</li>)}
+                                </ul>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {plan.rows.length > PREVIEW_LIMIT && (
+                    <p className="text-xs text-gray-500">Mostrando {PREVIEW_LIMIT} de {plan.rows.length} filas</p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={close}>Cancelar</Button>
+            <Button
+              type="button"
+              onClick={handleImport}
+              disabled={missingFields.length > 0 || importable === 0 || importCatalog.isPending}
+            >
+              {importCatalog.isPending ? 'Importando...' : `Importar ${importable} productos`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
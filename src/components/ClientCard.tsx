@@ -1,3 +1,4 @@
+import { Link } from '@tanstack/react-router';
 import { Calendar, DollarSign, FileText, Mail, MapPin, Phone, ShoppingBag, User } from 'lucide-react';
 import { Card } from './ui/index.ts';
 import { Badge } from './ui/index.ts';
@@ -35,7 +36,11 @@ export function ClientCard({ client, onEdit, onDelete }: ClientCardProps) {
             <User className="w-5 h-5 text-blue-600" />
           </div>
           <div>
-            <h3 className="text-lg font-semibold text-gray-900">{client.name}</h3>
+            <h3 className="text-lg font-semibold text-gray-900">
+              <Link to="/clients/$clientId" params={{ clientId: client.id }} className="hover:underline">
+                {client.name}
+              </Link>
+            </h3>
             <p className="text-sm text-gray-500">
               Cliente desde {formatDate(client.created_at)}
             </p>
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { Link } from '@tanstack/react-router';
+import { toast } from 'sonner';
+import { ArrowLeft, Calendar, DollarSign, FileText, Mail, MapPin, MessageCircle, Phone, Receipt, Repeat, ShoppingBag, User } from 'lucide-react';
+import { useClientOrders, useClients } from '../hooks/useClients.ts';
+import { useOrders } from '../hooks/useOrders.ts';
+import { toLocalDateKey } from '../lib/offline/orderMapper.ts';
+import { getClientInsights, toRepeatOrderData } from '../lib/orders/clientInsights.ts';
+import { getFolioLabel } from '../lib/orders/folio.ts';
+import { getOrderItemLabel } from '../lib/orders/productOptions.ts';
+import { fromOrderItems } from '../lib/orders/templates.ts';
+import { formatCurrency, formatDate } from '../lib/utils.ts';
+import { RecurringOrdersCard } from './orders/RecurringOrdersCard.tsx';
+import { Badge, Button, Card, EmptyState, StatusBadge } from './ui/index.ts';
+import type { Order } from '../types/index.ts';
+
+interface ClientDetailProps {
+  clientId: string;
+  businessId: string;
+}
+
+export function ClientDetail({ clientId, businessId }: ClientDetailProps) {
+  const { clients, isLoading } = useClients();
+  const { orders, isLoading: ordersLoading } = useClientOrders(clientId);
+  const { createOrder } = useOrders(businessId);
+  const [repeatingId, setRepeatingId] = useState<string | null>(null);
+
+  const client = clients.find(c => c.id === clientId);
+
+  if (isLoading) {
+    return (
+      <Card className="p-6 animate-pulse">
+        <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+        <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+      </Card>
+    );
+  }
+
+  if (!client) {
+    return (
+      <EmptyState
+        icon={<User className="w-12 h-12" />}
+        title="Cliente no encontrado"
+        description="Puede que se haya eliminado o que aún no se haya descargado a este dispositivo."
+      />
+    );
+  }
+
+  const insights = getClientInsights(client, orders);
+  const lastOrder = orders.find(order => order.status !== 'cancelled');
+
+  const handleWhatsApp = () => {
+    if (!client.phone) return;
+    globalThis.open(`https://wa.me/${client.phone.replace(/\D/g, '')}`, '_blank');
+  };
+
+  // ✅ Repetir un pedido anterior: mismas partidas, entrega hoy
+  const handleRepeat = async (order: Order) => {
+    const deliveryDate = toLocalDateKey();
+    if (!globalThis.confirm(`¿Crear un pedido igual a ${getFolioLabel(order)} para entregar el ${formatDate(deliveryDate)}?`)) {
+      return;
+    }
+
+    setRepeatingId(order.id);
+    try {
+      await createOrder.mutateAsync(toRepeatOrderData(order, deliveryDate));
+    } catch (error) {
+      console.error('Error repeating order:', error);
+      toast.error('No se pudo repetir el pedido');
+    } finally {
+      setRepeatingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <Link to="/clients" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-2">
+            <ArrowLeft className="w-4 h-4" />
+            Clientes
+          </Link>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{client.name}</h1>
+            <Badge variant={client.is_active ? 'default' : 'secondary'}>
+              {client.is_active ? 'Activo' : 'Inactivo'}
+            </Badge>
+          </div>
+          <div className="mt-2 flex flex-wrap gap-4 text-sm text-gray-600 dark:text-gray-400">
+            {client.phone && (
+              <span className="flex items-center gap-1"><Phone className="w-4 h-4" />{client.phone}</span>
+            )}
+            {client.email && (
+              <span className="flex items-center gap-1"><Mail className="w-4 h-4" />{client.email}</span>
+            )}
+            {client.address && (
+              <span className="flex items-center gap-1"><MapPin className="w-4 h-4" />{client.address}</span>
+            )}
+            {client.rfc && (
+              <span className="flex items-center gap-1"><FileText className="w-4 h-4" />RFC {client.rfc}</span>
+            )}
+          </div>
+        </div>
+
+        {/* Quick actions */}
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleWhatsApp} disabled={!client.phone}>
+            <MessageCircle className="w-4 h-4 mr-2" />
+            WhatsApp
+          </Button>
+          <Button
+            onClick={() => lastOrder && handleRepeat(lastOrder)}
+            disabled={!lastOrder || repeatingId !== null}
+          >
+            <Repeat className="w-4 h-4 mr-2" />
+            Repetir último pedido
+          </Button>
+        </div>
+      </div>
+
+      {/* Metrics */}
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+        <Card className="p-4">
+          <div className="flex items-center gap-2 text-sm text-gray-600"><ShoppingBag className="w-4 h-4 text-green-600" />Pedidos</div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{client.total_orders}</p>
+        </Card>
+        <Card className="p-4">
+          <div className="flex items-center gap-2 text-sm text-gray-600"><DollarSign className="w-4 h-4 text-green-600" />Total gastado</div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatCurrency(client.total_spent)}</p>
+        </Card>
+        <Card className="p-4">
+          <div className="flex items-center gap-2 text-sm text-gray-600"><Receipt className="w-4 h-4 text-purple-600" />Ticket promedio</div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatCurrency(insights.averageTicket)}</p>
+        </Card>
+        <Card className="p-4">
+          <div className="flex items-center gap-2 text-sm text-gray-600"><Repeat className="w-4 h-4 text-blue-600" />Frecuencia</div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+            {insights.averageDaysBetweenOrders === undefined
+              ? '—'
+              : `cada ${insights.averageDaysBetweenOrders} días`}
+          </p>
+        </Card>
+        <Card className="p-4">
+          <div className="flex items-center gap-2 text-sm text-gray-600"><Calendar className="w-4 h-4 text-blue-600" />Último contacto</div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+            {insights.lastContact ? formatDate(insights.lastContact) : 'Nunca'}
+          </p>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Favourite products */}
+        <Card className="p-4">
+          <h2 className="font-semibold text-gray-900 dark:text-white mb-3">Productos favoritos</h2>
+          {insights.favoriteProducts.length === 0 ? (
+            <p className="text-sm text-gray-500">Sin pedidos recientes</p>
+          ) : (
+            <ul className="space-y-2">
+              {insights.favoriteProducts.map(product => (
+                <li key={product.key} className="flex justify-between text-sm">
+                  <span className="text-gray-700 dark:text-gray-300">{product.product_name}</span>
+                  <span className="text-gray-500">{product.quantity} en {product.orderCount} pedidos</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        {/* Order history */}
+        <Card className="p-4 lg:col-span-2">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="font-semibold text-gray-900 dark:text-white">Historial de pedidos</h2>
+            {insights.openOrders > 0 && (
+              <Badge variant="secondary">{insights.openOrders} en curso</Badge>
+            )}
+          </div>
+          {ordersLoading ? (
+            <div className="h-16 bg-gray-100 rounded animate-pulse"></div>
+          ) : orders.length === 0 ? (
+            <p className="text-sm text-gray-500">No hay pedidos de este cliente en el dispositivo</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {orders.map(order => (
+                <li key={order.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 dark:text-white">{getFolioLabel(order)}</span>
+                      <StatusBadge status={order.status} size="sm" />
+                    </div>
+                    <p className="text-sm text-gray-500 truncate">
+                      {formatDate(order.delivery_date)} · {order.items?.map(item => `${item.quantity}x ${getOrderItemLabel(item)}`).join(', ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(order.total)}</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRepeat(order)}
+                      disabled={repeatingId !== null}
+                    >
+                      <Repeat className="w-4 h-4 mr-1" />
+                      Repetir
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+
+      <RecurringOrdersCard
+        businessId={businessId}
+        clientId={client.id}
+        {...(lastOrder?.items && { defaultItems: fromOrderItems(lastOrder.items) })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { Receipt } from 'lucide-react';
+import { SAT_TAX_REGIMES } from '../lib/constants/businessTypes.ts';
+import { CFDI_USES } from '../lib/invoicing/catalogs.ts';
+import { normalizeRfc, validateRfcWithDetails } from '../lib/validation/rfc.ts';
+import { Input, Label, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/index.ts';
+import type { Client } from '../types/index.ts';
+
+export type ClientFiscalField = 'rfc' | 'legal_name' | 'tax_regime_code' | 'cfdi_use' | 'fiscal_postal_code';
+export type ClientFiscalData = Record<ClientFiscalField, string>;
+
+export const EMPTY_FISCAL_DATA: ClientFiscalData = {
+  rfc: '',
+  legal_name: '',
+  tax_regime_code: '',
+  cfdi_use: '',
+  fiscal_postal_code: ''
+};
+
+export const getClientFiscalData = (client: Client): ClientFiscalData => ({
+  rfc: client.rfc || '',
+  legal_name: client.legal_name || '',
+  tax_regime_code: client.tax_regime_code || '',
+  cfdi_use: client.cfdi_use || '',
+  fiscal_postal_code: client.fiscal_postal_code || ''
+});
+
+/**
+ * ✅ Errores de los datos fiscales (todos opcionales, pero el RFC debe ser válido si se captura)
+ */
+export function validateClientFiscalData(data: ClientFiscalData): Partial<Record<ClientFiscalField, string>> {
+  const errors: Partial<Record<ClientFiscalField, string>> = {};
+
+  if (data.rfc.trim()) {
+    const result = validateRfcWithDetails(data.rfc);
+    if (!result.isValid) {
+      errors.rfc = `RFC inválido: ${result.reason}`;
+    }
+  }
+
+  if (data.legal_name.length > 255) {
+    errors.legal_name = 'La razón social debe tener máximo 255 caracteres';
+  }
+
+  if (data.fiscal_postal_code && !/^[0-9]{5}$/.test(data.fiscal_postal_code)) {
+    errors.fiscal_postal_code = 'El código postal debe tener 5 dígitos';
+  }
+
+  return errors;
+}
+
+/**
+ * ✅ Datos fiscales limpios para guardar (sin campos vacíos). Al editar (clearEmpty)
+ * los campos vaciados se envían como '' para que se borren en vez de conservarse
+ */
+export function toClientFiscalFields(data: ClientFiscalData, clearEmpty = false): Partial<Pick<Client, ClientFiscalField>> {
+  return {
+    ...(clearEmpty && EMPTY_FISCAL_DATA),
+    ...(data.rfc.trim() && { rfc: normalizeRfc(data.rfc) }),
+    ...(data.legal_name.trim() && { legal_name: data.legal_name.trim() }),
+    ...(data.tax_regime_code && { tax_regime_code: data.tax_regime_code }),
+    ...(data.cfdi_use && { cfdi_use: data.cfdi_use }),
+    ...(data.fiscal_postal_code && { fiscal_postal_code: data.fiscal_postal_code })
+  };
+}
+
+interface ClientFiscalFieldsProps {
+  values: ClientFiscalData;
+  errors: Record<string, string>;
+  onChange: (field: ClientFiscalField, value: string) => void;
+}
+
+export function ClientFiscalFields({ values, errors, onChange }: ClientFiscalFieldsProps) {
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <Receipt className="w-4 h-4" />
+        Datos fiscales (para facturar)
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="rfc">RFC</Label>
+          <Input
+            id="rfc"
+            value={values.rfc}
+            onChange={(e) => onChange('rfc', e.target.value.toUpperCase())}
+            placeholder="XAXX010101000"
+            maxLength={13}
+            className={errors.rfc ? 'border-red-500' : ''}
+          />
+          {errors.rfc && (
+            <p className="text-sm text-red-500">{errors.rfc}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="fiscal_postal_code">C.P. fiscal</Label>
+          <Input
+            id="fiscal_postal_code"
+            value={values.fiscal_postal_code}
+            onChange={(e) => onChange('fiscal_postal_code', e.target.value.replace(/\D/g, ''))}
+            placeholder="01000"
+            maxLength={5}
+            inputMode="numeric"
+            className={errors.fiscal_postal_code ? 'border-red-500' : ''}
+          />
+          {errors.fiscal_postal_code && (
+            <p className="text-sm text-red-500">{errors.fiscal_postal_code}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="legal_name">Razón social</Label>
+        <Input
+          id="legal_name"
+          value={values.legal_name}
+          onChange={(e) => onChange('legal_name', e.target.value)}
+          placeholder="Como aparece en la constancia de situación fiscal"
+          className={errors.legal_name ? 'border-red-500' : ''}
+        />
+        {errors.legal_name && (
+          <p className="text-sm text-red-500">{errors.legal_name}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Régimen fiscal</Label>
+        <Select value={values.tax_regime_code} onValueChange={(value) => onChange('tax_regime_code', value)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Selecciona el régimen fiscal" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SAT_TAX_REGIMES).map(([code, name]) => (
+              <SelectItem key={code} value={code}>
+                {code} - {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Uso de CFDI</Label>
+        <Select value={values.cfdi_use} onValueChange={(value) => onChange('cfdi_use', value)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Gastos en general (G03)" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CFDI_USES).map(([code, name]) => (
+              <SelectItem key={code} value={code}>
+                {code} - {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
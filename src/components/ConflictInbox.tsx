@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import { AlertTriangle, CheckCircle, ChevronRight } from 'lucide-react'
+import { useConflicts } from '../hooks/useConflicts.ts'
+import { Card, CardContent } from './ui/index.ts'
+import { ConflictResolver, getConflictTitle } from './ConflictResolver.tsx'
+import type { FieldChoice, StoredConflict } from '../lib/offline/conflictResolver.ts'
+
+export function ConflictInbox() {
+  const { conflicts, isLoading, resolveConflict } = useConflicts()
+  const [selectedConflict, setSelectedConflict] = useState<StoredConflict | null>(null)
+
+  const handleResolve = async (choices: Partial<Record<string, FieldChoice>>) => {
+    if (!selectedConflict) return
+    await resolveConflict.mutateAsync({ conflict: selectedConflict, choices })
+    setSelectedConflict(null)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Conflictos de sincronización</h1>
+        <p className="text-gray-600">
+          Cambios hechos aquí y en otro dispositivo sobre los mismos campos. No se envían hasta que elijas qué conservar.
+        </p>
+      </div>
+
+      {conflicts.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <CheckCircle className="w-12 h-12 mx-auto text-green-500 mb-4" />
+            <h3 className="text-lg font-semibold text-gray-600">Todo sincronizado</h3>
+            <p className="text-gray-500">No hay conflictos pendientes</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {conflicts.map(conflict => (
+            <button
+              key={conflict.id}
+              type="button"
+              onClick={() => setSelectedConflict(conflict)}
+              className="w-full text-left"
+            >
+              <Card className="hover:shadow-md transition-shadow">
+                <CardContent className="p-4 flex items-center gap-4">
+                  <AlertTriangle className="h-5 w-5 text-yellow-500 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{getConflictTitle(conflict)}</p>
+                    <p className="text-sm text-gray-500">
+                      {conflict.fieldConflicts.length} campo(s) en conflicto · detectado {new Date(conflict.detectedAt).toLocaleString('es-MX')}
+                    </p>
+                  </div>
+                  <ChevronRight className="h-5 w-5 text-gray-400" />
+                </CardContent>
+              </Card>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selectedConflict && (
+        <ConflictResolver
+          conflict={selectedConflict}
+          onResolve={handleResolve}
+          onDismiss={() => setSelectedConflict(null)}
+        />
+      )}
+    </div>
+  )
+}
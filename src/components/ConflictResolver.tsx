@@ -1,72 +1,115 @@
 import { useState } from 'react'
-import { AlertTriangle, CheckCircle, RefreshCw, XCircle } from 'lucide-react'
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react'
+import { describePayment } from '../lib/orders/payments.ts'
+import { getOrderItemLabel } from '../lib/orders/productOptions.ts'
 import { Button } from './ui/index.ts'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/index.ts'
-import type { ConflictInfo } from '../lib/offline/conflictResolver.ts'
+import type { ConflictInfo, FieldChoice, FieldConflict } from '../lib/offline/conflictResolver.ts'
+import type { Order, OrderItem, OrderPayment, Product } from '../types/index.ts'
 
 interface ConflictResolverProps {
   conflict: ConflictInfo
-  onResolve: (winner: 'local' | 'server' | 'merge') => void
+  onResolve: (choices: Partial<Record<string, FieldChoice>>) => void | Promise<void>
   onDismiss: () => void
 }
 
+const FIELD_LABELS: Record<string, string> = {
+  client_name: 'Cliente',
+  client_phone: 'Teléfono',
+  status: 'Estado',
+  delivery_date: 'Fecha de entrega',
+  delivery_time: 'Hora de entrega',
+  notes: 'Notas',
+  total: 'Total',
+  payments: 'Pagos',
+  name: 'Nombre',
+  price: 'Precio',
+  description: 'Descripción',
+  category: 'Categoría',
+  stock: 'Existencias'
+}
+
+const STATUS_LABELS: Record<Order['status'], string> = {
+  pending: 'Pendiente',
+  preparing: 'Preparando',
+  ready: 'Listo',
+  delivered: 'Entregado',
+  cancelled: 'Cancelado'
+}
+
+export const getConflictTitle = (conflict: ConflictInfo) => {
+  if (conflict.entityType === 'order') {
+    const order = conflict.localVersion as Order
+    return `Pedido de ${order.client_name} - ${order.delivery_date}`
+  }
+  return `Producto: ${(conflict.localVersion as Product).name}`
+}
+
+const getFieldLabel = ({ field, local, server, base }: FieldConflict) => {
+  if (field.startsWith('items.')) {
+    const item = (local ?? server ?? base) as OrderItem | undefined
+    return `Producto: ${item ? getOrderItemLabel(item) : field.slice('items.'.length)}`
+  }
+  return FIELD_LABELS[field] ?? field
+}
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—'
+  if (field.startsWith('items.')) {
+    const item = value as OrderItem
+    return `${item.quantity} x ${item.product_name} ($${item.subtotal || item.quantity * item.unit_price})`
+  }
+  if (field === 'status') return STATUS_LABELS[value as Order['status']]
+  if (field === 'payments') {
+    return (value as Array<OrderPayment>).map(payment => `$${payment.amount} ${describePayment(payment)}`).join(', ') || '—'
+  }
+  if (field === 'total' || field === 'price') return `$${String(value)}`
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
 export function ConflictResolver({ conflict, onResolve, onDismiss }: ConflictResolverProps) {
+  const fieldConflicts = conflict.fieldConflicts ?? []
   const [isResolving, setIsResolving] = useState(false)
+  const [choices, setChoices] = useState<Partial<Record<string, FieldChoice>>>(() =>
+    Object.fromEntries(fieldConflicts.map(({ field }) => [field, 'local' as const]))
+  )
 
-  const handleResolve = async (winner: 'local' | 'server' | 'merge') => {
+  const chooseAll = (choice: FieldChoice) => {
+    setChoices(Object.fromEntries(fieldConflicts.map(({ field }) => [field, choice])))
+  }
+
+  const handleResolve = async () => {
     setIsResolving(true)
     try {
-      await onResolve(winner)
+      await onResolve(choices)
     } finally {
       setIsResolving(false)
     }
   }
 
-  const formatTimestamp = (timestamp: string) => {
-    return new Date(timestamp).toLocaleString()
-  }
+  const renderOption = (fieldConflict: FieldConflict, choice: FieldChoice) => {
+    const isSelected = choices[fieldConflict.field] === choice
+    const value = choice === 'local' ? fieldConflict.local : fieldConflict.server
+    const colors = choice === 'local'
+      ? 'border-blue-300 bg-blue-50 dark:border-blue-700 dark:bg-blue-900/20'
+      : 'border-green-300 bg-green-50 dark:border-green-700 dark:bg-green-900/20'
 
-  const getEntityTitle = () => {
-    if (conflict.entityType === 'order') {
-      const order = conflict.localVersion as unknown as { clientGeneratedId: string; clientName: string }
-      return `Pedido #${order.clientGeneratedId} - ${order.clientName}`
-    } else {
-      const product = conflict.localVersion as unknown as { name: string }
-      return `Producto: ${product.name}`
-    }
-  }
-
-  const renderEntityDetails = (entity: unknown, title: string) => {
-    if (conflict.entityType === 'order') {
-      const order = entity as { clientName: string; status: string; total: number; deliveryDate: string; lastModifiedAt?: string; updatedAt?: string; notes?: string }
-      return (
-        <div className="space-y-2">
-          <h4 className="font-medium">{title}</h4>
-          <div className="text-sm space-y-1">
-            <p><strong>Cliente:</strong> {order.clientName}</p>
-            <p><strong>Estado:</strong> {order.status}</p>
-            <p><strong>Total:</strong> ${order.total}</p>
-            <p><strong>Fecha:</strong> {formatTimestamp(order.deliveryDate)}</p>
-            <p><strong>Modificado:</strong> {formatTimestamp(order.lastModifiedAt || order.updatedAt || '')}</p>
-            {order.notes && <p><strong>Notas:</strong> {order.notes}</p>}
-          </div>
-        </div>
-      )
-    } else {
-      const product = entity as { name: string; price: number; category?: string; lastModifiedAt?: string; updatedAt?: string; description?: string }
-      return (
-        <div className="space-y-2">
-          <h4 className="font-medium">{title}</h4>
-          <div className="text-sm space-y-1">
-            <p><strong>Nombre:</strong> {product.name}</p>
-            <p><strong>Precio:</strong> ${product.price}</p>
-            <p><strong>Categoría:</strong> {product.category || 'Sin categoría'}</p>
-            <p><strong>Modificado:</strong> {formatTimestamp(product.lastModifiedAt || product.updatedAt || '')}</p>
-            {product.description && <p><strong>Descripción:</strong> {product.description}</p>}
-          </div>
-        </div>
-      )
-    }
+    return (
+      <button
+        type="button"
+        onClick={() => setChoices(prev => ({ ...prev, [fieldConflict.field]: choice }))}
+        className={`flex-1 text-left rounded-lg border p-3 text-sm transition-all ${
+          isSelected ? `${colors} ring-2 ring-offset-1 ring-gray-400` : 'border-gray-200 dark:border-gray-700 opacity-70'
+        }`}
+      >
+        <span className="flex items-center gap-1 text-xs font-medium text-gray-500 mb-1">
+          {isSelected && <CheckCircle className="h-3 w-3" />}
+          {choice === 'local' ? 'Este dispositivo' : 'Servidor'}
+        </span>
+        <span className="break-words">{formatValue(fieldConflict.field, value)}</span>
+      </button>
+    )
   }
 
   return (
@@ -78,57 +121,39 @@ export function ConflictResolver({ conflict, onResolve, onDismiss }: ConflictRes
             Conflicto de Sincronización
           </CardTitle>
           <CardDescription>
-            Se detectó un conflicto en {getEntityTitle()}. 
-            Elige qué versión mantener o fusiona los datos.
+            {getConflictTitle(conflict)} cambió aquí y en otro dispositivo.
+            Elige qué valor conservar en cada campo; el resto de cambios ya se combinó.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          {/* Versión Local */}
-          <div className="border border-blue-200 dark:border-blue-800 rounded-lg p-4 bg-blue-50 dark:bg-blue-900/20">
-            {renderEntityDetails(conflict.localVersion, 'Versión Local')}
-          </div>
-
-          {/* Versión del Servidor */}
-          <div className="border border-green-200 dark:border-green-800 rounded-lg p-4 bg-green-50 dark:bg-green-900/20">
-            {renderEntityDetails(conflict.serverVersion, 'Versión del Servidor')}
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Button onClick={() => chooseAll('local')} disabled={isResolving} variant="outline" className="flex-1">
+              Todo de este dispositivo
+            </Button>
+            <Button onClick={() => chooseAll('server')} disabled={isResolving} variant="outline" className="flex-1">
+              Todo del servidor
+            </Button>
           </div>
 
-          {/* Opciones de Resolución */}
-          <div className="space-y-3">
-            <h4 className="font-medium">¿Qué versión quieres mantener?</h4>
-            <div className="flex flex-col sm:flex-row gap-3">
-              <Button
-                onClick={() => handleResolve('local')}
-                disabled={isResolving}
-                variant="outline"
-                className="flex-1"
-              >
-                <CheckCircle className="h-4 w-4 mr-2" />
-                Mantener Local
-              </Button>
-              <Button
-                onClick={() => handleResolve('server')}
-                disabled={isResolving}
-                variant="outline"
-                className="flex-1"
-              >
-                <CheckCircle className="h-4 w-4 mr-2" />
-                Usar Servidor
-              </Button>
-              <Button
-                onClick={() => handleResolve('merge')}
-                disabled={isResolving}
-                variant="outline"
-                className="flex-1"
-              >
-                <RefreshCw className="h-4 w-4 mr-2" />
-                Fusionar Datos
-              </Button>
-            </div>
+          {/* Diferencias campo por campo */}
+          <div className="space-y-4">
+            {fieldConflicts.map(fieldConflict => (
+              <div key={fieldConflict.field} className="space-y-2">
+                <div className="flex items-baseline justify-between gap-2">
+                  <h4 className="font-medium">{getFieldLabel(fieldConflict)}</h4>
+                  <span className="text-xs text-gray-500">
+                    Antes: {formatValue(fieldConflict.field, fieldConflict.base)}
+                  </span>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  {renderOption(fieldConflict, 'local')}
+                  {renderOption(fieldConflict, 'server')}
+                </div>
+              </div>
+            ))}
           </div>
 
-          {/* Botón Cancelar */}
-          <div className="flex justify-end">
+          <div className="flex justify-end gap-3">
             <Button
               onClick={onDismiss}
               disabled={isResolving}
@@ -137,9 +162,13 @@ export function ConflictResolver({ conflict, onResolve, onDismiss }: ConflictRes
               <XCircle className="h-4 w-4 mr-2" />
               Cancelar
             </Button>
+            <Button onClick={handleResolve} disabled={isResolving}>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Guardar resolución
+            </Button>
           </div>
         </CardContent>
       </Card>
     </div>
   )
-} 
\ No newline at end of file
+}
@@ -1,11 +1,13 @@
 import React from 'react'
 import { offlineAuthManager } from '../services/offline-auth-manager.ts'
+import { syncEngine } from '../services/sync-engine.ts'
 
 // Types for connection banner
 export type AuthMode = 'online' | 'offline_grace' | 'offline_strict' | 'sync_pending'
 
 interface ConnectionBannerProps {
   authMode: AuthMode
+  pendingCount?: number
   className?: string | undefined
 }
 
@@ -21,12 +23,16 @@ interface ConnectionBannerProps {
  * En móvil: Indicador compacto en la esquina superior derecha
  * En desktop: Banner completo en la parte superior
  */
-export function ConnectionBanner({ authMode, className = '' }: ConnectionBannerProps) {
+export function ConnectionBanner({ authMode, pendingCount = 0, className = '' }: ConnectionBannerProps) {
   // No mostrar nada si está online
   if (authMode === 'online') {
     return null
   }
 
+  const pendingSuffix = pendingCount > 0
+    ? ` · ${pendingCount} ${pendingCount === 1 ? 'cambio pendiente' : 'cambios pendientes'}`
+    : ''
+
   const getBannerConfig = () => {
     switch (authMode) {
       case 'offline_grace':
@@ -36,7 +42,7 @@ export function ConnectionBanner({ authMode, className = '' }: ConnectionBannerP
           mobileBgColor: 'bg-orange-100',
           icon: '⚠️',
           title: 'Sin conexión',
-          message: 'Trabajando offline',
+          message: `Trabajando offline${pendingSuffix}`,
           showAction: true
         }
 
@@ -58,7 +64,7 @@ export function ConnectionBanner({ authMode, className = '' }: ConnectionBannerP
           mobileBgColor: 'bg-blue-100',
           icon: '🔄',
           title: 'Sincronizando',
-          message: 'Sincronizando datos...',
+          message: `Sincronizando datos...${pendingSuffix}`,
           showAction: false
         }
 
@@ -74,6 +80,7 @@ export function ConnectionBanner({ authMode, className = '' }: ConnectionBannerP
     try {
       console.log('🔄 Manual sync retry initiated...')
       await offlineAuthManager.syncPendingVerifications()
+      await syncEngine.sync()
       console.log('✅ Manual sync completed successfully')
     } catch (error) {
       console.error('❌ Failed to retry sync:', error)
@@ -224,7 +231,7 @@ export function ConnectionBanner({ authMode, className = '' }: ConnectionBannerP
  */
 export function useAuthMode(): AuthMode {
   const [authMode, setAuthMode] = React.useState<AuthMode>('online')
-  const [isSyncing, setIsSyncing] = React.useState(false)
+  const { isSyncing } = React.useSyncExternalStore(syncEngine.subscribe, syncEngine.getStatus)
 
   React.useEffect(() => {
     const updateAuthMode = async () => {
@@ -250,29 +257,13 @@ export function useAuthMode(): AuthMode {
 
     updateAuthMode()
 
-    // Actualizar cuando cambie la conectividad
-    const handleOnline = () => {
-      setIsSyncing(true)
-      updateAuthMode()
-      
-      // Simular sincronización
-      setTimeout(() => {
-        setIsSyncing(false)
-        updateAuthMode()
-      }, 2000)
-    }
-
-    const handleOffline = () => {
-      setIsSyncing(false)
-      updateAuthMode()
-    }
-
-    globalThis.window.addEventListener('online', handleOnline)
-    globalThis.window.addEventListener('offline', handleOffline)
+    // Actualizar cuando cambie la conectividad; el sync engine drena la cola al reconectar
+    globalThis.window.addEventListener('online', updateAuthMode)
+    globalThis.window.addEventListener('offline', updateAuthMode)
 
     return () => {
-      globalThis.window.removeEventListener('online', handleOnline)
-      globalThis.window.removeEventListener('offline', handleOffline)
+      globalThis.window.removeEventListener('online', updateAuthMode)
+      globalThis.window.removeEventListener('offline', updateAuthMode)
     }
   }, [isSyncing])
 
@@ -284,10 +275,12 @@ export function useAuthMode(): AuthMode {
  */
 export function AutoConnectionBanner({ className }: { className?: string }) {
   const authMode = useAuthMode()
+  const { pendingCount } = React.useSyncExternalStore(syncEngine.subscribe, syncEngine.getStatus)
   
   return (
     <ConnectionBanner 
       authMode={authMode} 
+      pendingCount={pendingCount}
       className={className} 
     />
   )
@@ -6,6 +6,7 @@ import { Input } from './ui/index.ts';
 import { Label } from './ui/index.ts';
 import { Textarea } from './ui/index.ts';
 import { PhoneInput } from './ui/index.ts';
+import { ClientFiscalFields, EMPTY_FISCAL_DATA, toClientFiscalFields, validateClientFiscalData } from './ClientFiscalFields.tsx';
 import type { Client } from '../types/index.ts';
 
 interface CreateClientModalProps {
@@ -21,7 +22,8 @@ export function CreateClientModal({ isOpen, onClose, onSave, isLoading = false }
     email: '',
     phone: '',
     address: '',
-    notes: ''
+    notes: '',
+    ...EMPTY_FISCAL_DATA
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -60,6 +62,8 @@ export function CreateClientModal({ isOpen, onClose, onSave, isLoading = false }
       newErrors.notes = 'Las notas deben tener máximo 1000 caracteres';
     }
 
+    Object.assign(newErrors, validateClientFiscalData(formData));
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -77,7 +81,8 @@ export function CreateClientModal({ isOpen, onClose, onSave, isLoading = false }
         email: formData.email.trim(),
         phone: formData.phone.trim(),
         address: formData.address.trim(),
-        notes: formData.notes.trim()
+        notes: formData.notes.trim(),
+        ...toClientFiscalFields(formData)
       });
       
       // Reset form
@@ -86,7 +91,8 @@ export function CreateClientModal({ isOpen, onClose, onSave, isLoading = false }
         email: '',
         phone: '',
         address: '',
-        notes: ''
+        notes: '',
+        ...EMPTY_FISCAL_DATA
       });
       setErrors({});
       onClose();
@@ -106,7 +112,7 @@ export function CreateClientModal({ isOpen, onClose, onSave, isLoading = false }
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <User className="w-5 h-5" />
@@ -183,6 +189,13 @@ export function CreateClientModal({ isOpen, onClose, onSave, isLoading = false }
             )}
           </div>
 
+          {/* Fiscal data */}
+          <ClientFiscalFields
+            values={formData}
+            errors={errors}
+            onChange={handleInputChange}
+          />
+
           {/* Notes */}
           <div className="space-y-2">
             <Label htmlFor="notes" className="flex items-center gap-2">
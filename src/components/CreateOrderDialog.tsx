@@ -2,6 +2,7 @@ import React from 'react';
 import { Copy, MessageCircle, Plus, X } from 'lucide-react';
 import { toast } from 'sonner';
 import { useOrders } from '../hooks/useOrders.ts';
+import { toLocalDateKey } from '../lib/offline/orderMapper.ts';
 import { Button } from './ui/index.ts';
 import { Card, CardContent } from './ui/index.ts';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/index.ts';
@@ -23,7 +24,7 @@ export function CreateOrderDialog({ open, onOpenChange, businessId }: CreateOrde
   const [formData, setFormData] = React.useState<OrderFormData>({
     clientName: '',
     clientPhone: '',
-    deliveryDate: new Date().toISOString().split('T')[0] || '',
+    deliveryDate: toLocalDateKey(),
     deliveryTime: '',
     notes: '',
     items: [
@@ -127,7 +128,7 @@ _${new Date().toLocaleString('es-MX')}_`;
       setFormData({
         clientName: '',
         clientPhone: '',
-        deliveryDate: new Date().toISOString().split('T')[0] || '',
+        deliveryDate: toLocalDateKey(),
         deliveryTime: '',
         notes: '',
         items: [{ productName: '', quantity: 1, unitPrice: 0, notes: '' }]
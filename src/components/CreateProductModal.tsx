@@ -1,9 +1,13 @@
 import React, { useState } from 'react'
+import { useAuth } from '../hooks/useAuth.ts'
+import { useSatCatalog } from '../hooks/useSatCatalog.ts'
+import { validateProductSatCodes } from '../lib/invoicing/satCatalog.ts'
 import { Button } from './ui/index.ts'
 import { Input } from './ui/index.ts'
 import { Label } from './ui/index.ts'
 import { Textarea } from './ui/index.ts'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/index.ts'
+import { ProductSatFields } from './ProductSatFields.tsx'
 import type { Product } from '../types/index.ts'
 
 interface CreateProductModalProps {
@@ -21,10 +25,14 @@ export function CreateProductModal({ onClose, onSave, isLoading, product }: Crea
     cost: product?.cost || 0,
     category: product?.category || '',
     stock: product?.stock || 0,
-    is_active: product?.isActive ?? true
+    is_active: product?.isActive ?? true,
+    satCode: product?.satCode || '',
+    satUnitCode: product?.satUnitCode || ''
   })
 
   const [errors, setErrors] = useState<Record<string, string>>({})
+  const { user } = useAuth()
+  const satCatalog = useSatCatalog(user?.businessId || '')
 
   const categories = [
     'Bebidas',
@@ -40,6 +48,7 @@ export function CreateProductModal({ onClose, onSave, isLoading, product }: Crea
     if (!formData.name.trim()) newErrors.name = 'El nombre es requerido'
     if (formData.price <= 0) newErrors.price = 'El precio debe ser mayor a 0'
     if (!formData.category) newErrors.category = 'La categoría es requerida'
+    Object.assign(newErrors, validateProductSatCodes(satCatalog, formData))
     
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -162,6 +171,17 @@ export function CreateProductModal({ onClose, onSave, isLoading, product }: Crea
             </div>
           </div>
 
+          <ProductSatFields
+            productName={formData.name}
+            satCode={formData.satCode}
+            satUnitCode={formData.satUnitCode}
+            productCodes={satCatalog.productCodes}
+            unitCodes={satCatalog.unitCodes}
+            businessType={satCatalog.businessType}
+            errors={errors}
+            onChange={handleInputChange}
+          />
+
           <div className="flex justify-end gap-3 pt-4">
             <Button type="button" variant="outline" onClick={onClose}>
               Cancelar
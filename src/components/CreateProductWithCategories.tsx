@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
-import { useBusinessCategories } from '../hooks/useBusinessCategories.ts';
 import { AlertCircle, Save, Package, Plus, Tag } from 'lucide-react';
-import { Button } from './ui/index.ts';
-import { Input } from './ui/index.ts';
-import { Label } from './ui/index.ts';
 import { toast } from 'sonner';
 import { v4 as uuidv4 } from 'uuid';
+import { useBusinessCategories } from '../hooks/useBusinessCategories.ts';
+import { CFDI_DEFAULT_PRODUCT_CODE } from '../lib/invoicing/catalogs.ts';
 import { db } from '../lib/offline/db.ts';
+import { ProductImageService } from '../services/product-image-service.ts';
+import { Button, Input, Label } from './ui/index.ts';
+import { ProductImageField } from './ProductImageField.tsx';
 
 interface CreateProductWithCategoriesProps {
   businessId: string;
@@ -30,6 +31,7 @@ export function CreateProductWithCategories({
     stock: 0
   });
 
+  const [imageFile, setImageFile] = useState<File | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isCreating, setIsCreating] = useState(false);
   const [showCustomCategory, setShowCustomCategory] = useState(false);
@@ -37,7 +39,7 @@ export function CreateProductWithCategories({
     categoryId: '',
     categoryName: '',
     icon: '📦',
-    satCode: '50000000'
+    satCode: CFDI_DEFAULT_PRODUCT_CODE
   });
 
   const selectedCategory = categories.find(cat => cat.categoryId === product.categoryId);
@@ -68,7 +70,7 @@ export function CreateProductWithCategories({
       const productData = {
         ...product,
         businessId,
-        satCode: category?.satCode || '50000000',
+        satCode: category?.satCode || CFDI_DEFAULT_PRODUCT_CODE,
         taxRate: 0.16,
         isActive: true,
         clientGeneratedId,
@@ -79,15 +81,26 @@ export function CreateProductWithCategories({
       };
 
       // Save to IndexedDB
-      await db.products.add(productData);
+      const productId = await db.products.add(productData);
 
       // Add to sync queue
       await db.addToSyncQueue({
         entityType: 'product',
-        entityId: clientGeneratedId,
+        entityId: String(productId),
         action: 'create'
       });
 
+      // La foto se encola: se sube ahora si hay conexión o al reconectar
+      if (imageFile) {
+        try {
+          const prepared = await ProductImageService.prepare(imageFile);
+          await ProductImageService.queueForLocalProduct({ id: productId, businessId }, prepared);
+        } catch (imageError) {
+          console.error('Error al preparar la foto del producto:', imageError);
+          toast.warning('El producto se creó, pero no se pudo procesar la foto');
+        }
+      }
+
       toast.success('Producto creado exitosamente');
       onProductCreated?.();
       onClose();
@@ -113,7 +126,7 @@ export function CreateProductWithCategories({
         categoryId: '',
         categoryName: '',
         icon: '📦',
-        satCode: '50000000'
+        satCode: CFDI_DEFAULT_PRODUCT_CODE
       });
     } catch (error) {
       console.error('Error al crear categoría personalizada:', error);
@@ -254,6 +267,9 @@ export function CreateProductWithCategories({
           />
         </div>
 
+        {/* Foto */}
+        <ProductImageField file={imageFile} onFileChange={setImageFile} />
+
         {/* Selector de Categorías */}
         <div>
           <div className="flex items-center justify-between mb-3">
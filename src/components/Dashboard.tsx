@@ -1,10 +1,14 @@
 import React from 'react';
 import { AlertCircle, CheckCircle, Clock, Package, Plus } from 'lucide-react';
-import type { Order } from '../types/index.ts';
+import type { Order, OrderQuery } from '../types/index.ts';
 import { useOrders } from '../hooks/useOrders.ts';
+import { useMaterializeRecurringOrders } from '../hooks/useRecurringOrders.ts';
+import { toLocalDateKey } from '../lib/offline/orderMapper.ts';
+import { getTaxTotal, summarizeOrderTaxes } from '../lib/orders/taxes.ts';
 import { Button } from './ui/index.ts';
-import { Card, CardContent } from './ui/index.ts';
+import { Card, CardContent, Dialog, DialogContent } from './ui/index.ts';
 import { CreateOrderDialog } from './CreateOrderDialog.tsx';
+import { CreateOrder } from './orders/CreateOrder.tsx';
 import { OrderCard } from './orders/OrderCard.tsx';
 import { OrderDetails } from './orders/OrderDetails.tsx';
 import { TrialExtensionBanner } from './TrialExtensionBanner.tsx';
@@ -13,16 +17,50 @@ interface DashboardProps {
   businessId: string;
 }
 
+type OrderPeriod = 'today' | 'upcoming' | 'all';
+
+const PERIOD_LABELS: Record<OrderPeriod, string> = {
+  today: 'Hoy',
+  upcoming: 'Próximos 7 días',
+  all: 'Todos',
+};
+
+// Rango de fechas por periodo; la consulta es la misma online y offline
+const getPeriodQuery = (period: OrderPeriod): OrderQuery => {
+  const today = new Date();
+  if (period === 'today') {
+    return { fromDate: toLocalDateKey(today), toDate: toLocalDateKey(today) };
+  }
+  if (period === 'upcoming') {
+    const nextWeek = new Date(today);
+    nextWeek.setDate(today.getDate() + 7);
+    return { fromDate: toLocalDateKey(today), toDate: toLocalDateKey(nextWeek) };
+  }
+  return {};
+};
+
 export function Dashboard({ businessId }: DashboardProps) {
-  const { orders, isLoading, updateOrderStatus, deleteOrder } = useOrders(businessId);
+  const [period, setPeriod] = React.useState<OrderPeriod>('all');
+  const orderQuery = React.useMemo(() => getPeriodQuery(period), [period]);
+  const { orders, isLoading, updateOrderStatus, addPayment, deleteOrder } = useOrders(businessId, orderQuery);
   const [showCreateDialog, setShowCreateDialog] = React.useState(false);
   const [selectedOrder, setSelectedOrder] = React.useState<Order | null>(null);
   const [showOrderDetails, setShowOrderDetails] = React.useState(false);
+  const [duplicateOrder, setDuplicateOrder] = React.useState<Order | null>(null);
+
+  // Pedidos recurrentes que ya entran en la anticipación configurada
+  useMaterializeRecurringOrders(businessId);
+
+  const handleDuplicate = (order: Order) => {
+    setSelectedOrder(null);
+    setShowOrderDetails(false);
+    setDuplicateOrder(order);
+  };
 
   // Calculate stats from orders
   const stats = React.useMemo(() => {
     const today = orders.filter((order: Order) => 
-      order.delivery_date === new Date().toISOString().split('T')[0]
+      order.delivery_date === toLocalDateKey()
     );
     
     return {
@@ -33,6 +71,7 @@ export function Dashboard({ businessId }: DashboardProps) {
       delivered: today.filter((o: Order) => o.status === 'delivered').length,
       cancelled: today.filter((o: Order) => o.status === 'cancelled').length,
       totalAmount: today.reduce((sum: number, order: Order) => sum + order.total, 0),
+      taxAmount: getTaxTotal(summarizeOrderTaxes(today).taxes),
     };
   }, [orders]);
 
@@ -65,7 +104,7 @@ export function Dashboard({ businessId }: DashboardProps) {
       {/* Header */}
       <div className="flex justify-between items-center">
         <div>
-          <h1 className="text-2xl font-bold">Pedidos de Hoy</h1>
+          <h1 className="text-2xl font-bold">{period === 'today' ? 'Pedidos de Hoy' : 'Pedidos'}</h1>
           <p className="text-gray-600">
             {new Date().toLocaleDateString('es-ES', { 
               weekday: 'long', 
@@ -76,6 +115,18 @@ export function Dashboard({ businessId }: DashboardProps) {
           </p>
         </div>
         <div className="flex gap-3">
+          <div className="flex rounded-md border">
+            {(Object.keys(PERIOD_LABELS) as Array<OrderPeriod>).map(option => (
+              <Button
+                key={option}
+                variant={period === option ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setPeriod(option)}
+              >
+                {PERIOD_LABELS[option]}
+              </Button>
+            ))}
+          </div>
           <Button 
             onClick={() => setShowCreateDialog(true)}
             className="bg-blue-600 hover:bg-blue-700"
@@ -156,6 +207,9 @@ export function Dashboard({ businessId }: DashboardProps) {
               <p className="text-2xl font-bold text-green-600">
                 ${stats.totalAmount.toFixed(2)}
               </p>
+              {stats.taxAmount > 0 && (
+                <p className="text-xs text-gray-500">IVA ${stats.taxAmount.toFixed(2)}</p>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -169,7 +223,7 @@ export function Dashboard({ businessId }: DashboardProps) {
             <CardContent className="p-8 text-center">
               <Package className="w-12 h-12 mx-auto text-gray-400 mb-4" />
               <h3 className="text-lg font-semibold text-gray-600 mb-2">
-                No hay pedidos para hoy
+                {period === 'today' ? 'No hay pedidos para hoy' : 'No hay pedidos en este periodo'}
               </h3>
               <p className="text-gray-500 mb-4">
                 Crea tu primer pedido para empezar
@@ -188,12 +242,13 @@ export function Dashboard({ businessId }: DashboardProps) {
             <OrderCard
               key={order.id || order.clientGeneratedId}
               order={order}
-              onStatusChange={(orderId, status) =>
-                updateOrderStatus.mutate({ orderId, status })
+              onStatusChange={(orderId, status, _reason, payment) =>
+                updateOrderStatus.mutate({ orderId, status, ...(payment && { payment }) })
               }
               onDelete={(orderId) =>
                 deleteOrder.mutate(orderId)
               }
+              onDuplicate={handleDuplicate}
               onViewDetails={(orderToView) => {
                 setSelectedOrder(orderToView);
                 setShowOrderDetails(true);
@@ -213,16 +268,31 @@ export function Dashboard({ businessId }: DashboardProps) {
       {/* Order Details Dialog */}
       {selectedOrder && showOrderDetails && (
         <OrderDetails
-          order={selectedOrder}
-          onStatusChange={(orderId, status) => 
-            updateOrderStatus.mutate({ orderId, status })
+          order={orders.find(order => order.id === selectedOrder.id) ?? selectedOrder}
+          onStatusChange={(orderId, status, reason, payment) =>
+            updateOrderStatus.mutate({ orderId, status, ...(reason && { reason }), ...(payment && { payment }) })
           }
+          onAddPayment={(orderId, payment) => addPayment.mutate({ orderId, payment })}
+          onDuplicate={handleDuplicate}
           onClose={() => {
             setSelectedOrder(null);
             setShowOrderDetails(false);
           }}
         />
       )}
+
+      {/* Duplicate Order Dialog */}
+      <Dialog open={!!duplicateOrder} onOpenChange={(open) => !open && setDuplicateOrder(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto p-0">
+          {duplicateOrder && (
+            <CreateOrder
+              businessId={businessId}
+              duplicateFrom={duplicateOrder}
+              onCancel={() => setDuplicateOrder(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 } 
\ No newline at end of file
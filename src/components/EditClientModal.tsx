@@ -6,6 +6,7 @@ import { Input } from './ui/index.ts';
 import { Label } from './ui/index.ts';
 import { Textarea } from './ui/index.ts';
 import { PhoneInput } from './ui/index.ts';
+import { ClientFiscalFields, EMPTY_FISCAL_DATA, getClientFiscalData, toClientFiscalFields, validateClientFiscalData } from './ClientFiscalFields.tsx';
 import type { Client } from '../types/index.ts';
 
 interface EditClientModalProps {
@@ -22,7 +23,8 @@ export function EditClientModal({ client, isOpen, onClose, onSave, isLoading = f
     email: '',
     phone: '',
     address: '',
-    notes: ''
+    notes: '',
+    ...EMPTY_FISCAL_DATA
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -33,7 +35,8 @@ export function EditClientModal({ client, isOpen, onClose, onSave, isLoading = f
       email: client.email || '',
       phone: client.phone || '',
       address: client.address || '',
-      notes: client.notes || ''
+      notes: client.notes || '',
+      ...getClientFiscalData(client)
     });
     setErrors({});
   }, [client]);
@@ -70,6 +73,8 @@ export function EditClientModal({ client, isOpen, onClose, onSave, isLoading = f
       newErrors.notes = 'Las notas deben tener máximo 1000 caracteres';
     }
 
+    Object.assign(newErrors, validateClientFiscalData(formData));
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -85,6 +90,7 @@ export function EditClientModal({ client, isOpen, onClose, onSave, isLoading = f
       const updateData: Partial<Client> & { id: string } = {
         id: client.id,
         name: formData.name.trim(),
+        ...toClientFiscalFields(formData, true)
       };
       
       if (formData.email.trim()) updateData.email = formData.email.trim();
@@ -111,7 +117,7 @@ export function EditClientModal({ client, isOpen, onClose, onSave, isLoading = f
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <User className="w-5 h-5" />
@@ -188,6 +194,13 @@ export function EditClientModal({ client, isOpen, onClose, onSave, isLoading = f
             )}
           </div>
 
+          {/* Fiscal data */}
+          <ClientFiscalFields
+            values={formData}
+            errors={errors}
+            onChange={handleInputChange}
+          />
+
           {/* Notes */}
           <div className="space-y-2">
             <Label htmlFor="notes" className="flex items-center gap-2">
@@ -1,9 +1,18 @@
 import React, { useState } from 'react'
+import { toast } from 'sonner'
+import { useAuth } from '../hooks/useAuth.ts'
+import { useSatCatalog } from '../hooks/useSatCatalog.ts'
+import { validateProductSatCodes } from '../lib/invoicing/satCatalog.ts'
+import { validateProductOptions } from '../lib/orders/productOptions.ts'
+import { ProductImageService } from '../services/product-image-service.ts'
 import { Button } from './ui/index.ts'
 import { Input } from './ui/index.ts'
 import { Label } from './ui/index.ts'
 import { Textarea } from './ui/index.ts'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/index.ts'
+import { ProductImageField } from './ProductImageField.tsx'
+import { ProductOptionsEditor } from './ProductOptionsEditor.tsx'
+import { ProductSatFields } from './ProductSatFields.tsx'
 import type { Product } from '../types/index.ts'
 
 interface EditProductModalProps {
@@ -21,10 +30,17 @@ export function EditProductModal({ product, onClose, onSave, isLoading }: EditPr
     cost: product.cost || 0,
     category: product.category || '',
     stock: product.stock,
-    is_active: product.isActive
+    is_active: product.isActive,
+    variants: product.variants ?? [],
+    modifierGroups: product.modifierGroups ?? [],
+    satCode: product.satCode || '',
+    satUnitCode: product.satUnitCode || ''
   })
 
+  const [imageFile, setImageFile] = useState<File | null>(null)
   const [errors, setErrors] = useState<Record<string, string>>({})
+  const { user } = useAuth()
+  const satCatalog = useSatCatalog(user?.businessId || '')
 
   const categories = [
     'Bebidas',
@@ -40,6 +56,13 @@ export function EditProductModal({ product, onClose, onSave, isLoading }: EditPr
     if (!formData.name.trim()) newErrors.name = 'El nombre es requerido'
     if (formData.price <= 0) newErrors.price = 'El precio debe ser mayor a 0'
     if (!formData.category) newErrors.category = 'La categoría es requerida'
+    // Solo se validan las claves que se cambian (hay productos con claves anteriores al catálogo)
+    Object.assign(newErrors, validateProductSatCodes(satCatalog, {
+      ...(formData.satCode !== (product.satCode || '') && { satCode: formData.satCode }),
+      ...(formData.satUnitCode !== (product.satUnitCode || '') && { satUnitCode: formData.satUnitCode })
+    }))
+    const optionsError = validateProductOptions(formData)
+    if (optionsError) newErrors.options = optionsError
     
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -56,10 +79,24 @@ export function EditProductModal({ product, onClose, onSave, isLoading }: EditPr
         isActive: formData.is_active,
         updatedAt: new Date().toISOString()
       }
-      await onSave(updatedProduct)
+
+      // Con conexión la foto se sube ya; sin ella queda en cola y se sube después
+      if (imageFile) {
+        const uploaded = await ProductImageService.saveForProduct(
+          product,
+          await ProductImageService.prepare(imageFile),
+          (imageUrls) => onSave({ ...updatedProduct, ...imageUrls })
+        )
+        if (!uploaded) {
+          toast.info('La foto se subirá cuando haya conexión')
+        }
+      } else {
+        await onSave(updatedProduct)
+      }
       onClose()
     } catch (error) {
       console.error('Error updating product:', error)
+      if (error instanceof Error) toast.error(error.message)
     }
   }
 
@@ -91,6 +128,8 @@ export function EditProductModal({ product, onClose, onSave, isLoading }: EditPr
             )}
           </div>
 
+          <ProductImageField currentUrl={product.image_url} file={imageFile} onFileChange={setImageFile} />
+
           <div>
             <Label htmlFor="description">Descripción</Label>
             <Textarea
@@ -166,6 +205,29 @@ export function EditProductModal({ product, onClose, onSave, isLoading }: EditPr
             </div>
           </div>
 
+          <ProductSatFields
+            productName={formData.name}
+            satCode={formData.satCode}
+            satUnitCode={formData.satUnitCode}
+            productCodes={satCatalog.productCodes}
+            unitCodes={satCatalog.unitCodes}
+            businessType={satCatalog.businessType}
+            errors={errors}
+            onChange={handleInputChange}
+          />
+
+          <ProductOptionsEditor
+            value={{ variants: formData.variants, modifierGroups: formData.modifierGroups }}
+            basePrice={formData.price}
+            onChange={(options) => {
+              setFormData(prev => ({ ...prev, ...options }))
+              if (errors.options) setErrors(prev => ({ ...prev, options: '' }))
+            }}
+          />
+          {errors.options && (
+            <p className="text-sm text-red-600">{errors.options}</p>
+          )}
+
           <div className="flex justify-end gap-3 pt-4">
             <Button type="button" variant="outline" onClick={onClose}>
               Cancelar
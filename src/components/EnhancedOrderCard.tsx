@@ -8,16 +8,22 @@ import {
   Share2,
   Trash2
 } from 'lucide-react'
+import { useState } from 'react'
 import { toast } from 'sonner'
-import type { Order } from '../types/index.ts'
+import { getFolioLabel } from '../lib/orders/folio.ts'
+import { getOrderItemLabel } from '../lib/orders/productOptions.ts'
+import { formatPaymentsForReceipt, getBalanceDue } from '../lib/orders/payments.ts'
+import { cn } from '../lib/ui-utils.ts'
+import { PaymentDialog } from './orders/PaymentDialog.tsx'
+import { PaymentStatusBadge } from './orders/PaymentStatusBadge.tsx'
 import { StatusBadge } from './ui/index.ts'
 import { EnhancedButton } from './ui/index.ts'
 import { Card, CardContent, CardHeader } from './ui/index.ts'
-import { cn } from '../lib/ui-utils.ts'
+import type { NewOrderPayment, Order } from '../types/index.ts'
 
 interface EnhancedOrderCardProps {
   order: Order
-  onStatusChange: (orderId: string, status: Order['status']) => void
+  onStatusChange: (orderId: string, status: Order['status'], payment?: NewOrderPayment) => void
   onEdit?: (orderId: string) => void
   onDelete?: (orderId: string) => void
   className?: string
@@ -45,14 +51,26 @@ export function EnhancedOrderCard({
 
   const currentFlow = statusFlow[order.status]
   const canAdvance = currentFlow.next !== null
+  // Al entregar con saldo pendiente se ofrece cobrarlo antes
+  const [collecting, setCollecting] = useState(false)
 
   const handleStatusChange = () => {
+    if (currentFlow.next === 'delivered' && getBalanceDue(order) > 0) {
+      setCollecting(true)
+      return
+    }
     if (canAdvance && currentFlow.next) {
       const orderId = order.id || order.clientGeneratedId || order.client_generated_id || ''
       onStatusChange(orderId, currentFlow.next)
     }
   }
 
+  const handleDeliver = (payment: NewOrderPayment | undefined) => {
+    setCollecting(false)
+    const orderId = order.id || order.clientGeneratedId || order.client_generated_id || ''
+    onStatusChange(orderId, 'delivered', payment)
+  }
+
   const handleShareWhatsApp = () => {
     const message = generateWhatsAppMessage(order)
     const whatsappUrl = `https://wa.me/${order.client_phone?.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`
@@ -89,6 +107,7 @@ export function EnhancedOrderCard({
           <div className="flex-1">
             <h3 className="text-xl font-semibold text-gray-900 mb-2">
               {order.client_name}
+              <span className="ml-2 text-sm font-normal text-gray-500">{getFolioLabel(order)}</span>
             </h3>
             <div className="flex flex-wrap gap-4 text-sm text-gray-600">
               {order.client_phone && (
@@ -116,6 +135,7 @@ export function EnhancedOrderCard({
             <p className="text-2xl font-bold text-gray-900">
               ${order.total.toFixed(2)}
             </p>
+            <PaymentStatusBadge order={order} className="mt-1" />
           </div>
         </div>
       </CardHeader>
@@ -129,7 +149,7 @@ export function EnhancedOrderCard({
                 <span className="bg-gray-100 text-gray-700 px-2 py-1 rounded-md text-sm font-medium">
                   {item.quantity}x
                 </span>
-                <span className="text-gray-700">{item.product_name}</span>
+                <span className="text-gray-700">{getOrderItemLabel(item)}</span>
               </div>
               <span className="font-semibold text-gray-900">
                 ${item.subtotal.toFixed(2)}
@@ -204,6 +224,13 @@ export function EnhancedOrderCard({
           )}
         </div>
       </CardContent>
+
+      <PaymentDialog
+        order={collecting ? order : null}
+        mode="delivery"
+        onConfirm={handleDeliver}
+        onClose={() => setCollecting(false)}
+      />
     </Card>
   )
 }
@@ -211,11 +238,11 @@ export function EnhancedOrderCard({
 // ✅ AÑADIR: Función helper para generar mensaje WhatsApp
 function generateWhatsAppMessage(order: Order): string {
   const items = order.items?.map(item => 
-    `• ${item.quantity}x ${item.product_name} - $${item.subtotal.toFixed(2)}`
+    `• ${item.quantity}x ${getOrderItemLabel(item)} - $${item.subtotal.toFixed(2)}`
   ).join('\n') || ''
 
   return `
-🧾 *Resumen de Pedido*
+🧾 *Resumen de Pedido ${getFolioLabel(order)}*
 
 👤 *Cliente:* ${order.client_name}
 📅 *Fecha:* ${new Date(order.delivery_date).toLocaleDateString('es-ES')}
@@ -225,7 +252,7 @@ function generateWhatsAppMessage(order: Order): string {
 ${items}
 
 💰 *Total: $${order.total.toFixed(2)}*
-
+${order.payments?.length ? `\n${formatPaymentsForReceipt(order)}\n` : ''}
 ${order.notes ? `📝 *Notas:* ${order.notes}` : ''}
   `.trim()
 } 
\ No newline at end of file
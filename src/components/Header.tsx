@@ -9,12 +9,33 @@
  */
 
 import { Link, useLocation } from '@tanstack/react-router'
-import { Loader2, LogOut, User, Key, Home } from 'lucide-react'
+import { AlertTriangle, Loader2, LogOut, User, Key, Home } from 'lucide-react'
 import { useAuth } from '../hooks/useAuth.ts'
+import { useConflicts } from '../hooks/useConflicts.ts'
 import { useMobileAuth } from '../hooks/useMobileAuth.ts'
 import { Button } from './ui/index.ts'
 import { TrialExtensionCompact } from './TrialExtensionBanner.tsx'
 
+// Acceso a la bandeja de conflictos; solo aparece si hay alguno pendiente
+function ConflictBadge() {
+  const { conflictCount } = useConflicts()
+
+  if (conflictCount === 0) return null
+
+  return (
+    <Link
+      to="/conflicts"
+      title="Conflictos de sincronización"
+      className="relative flex items-center text-yellow-600 hover:text-yellow-700 transition-colors duration-300"
+    >
+      <AlertTriangle className="h-5 w-5" />
+      <span className="absolute -top-2 -right-2 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+        {conflictCount}
+      </span>
+    </Link>
+  )
+}
+
 export default function Header() {
   const { user, logout } = useAuth()
   const { shouldHideHeader, isAuthenticated, isLoading } = useMobileAuth()
@@ -46,6 +67,8 @@ export default function Header() {
               </Link>
             </div>
 
+            {isAuthenticated && <ConflictBadge />}
+
             {/* Mobile Authentication Section */}
             {!isAuthenticated && (
               <div className="flex items-center justify-center">
@@ -96,6 +119,22 @@ export default function Header() {
                     <span className="absolute bottom-0 left-0 w-0 h-0.5 bg-gray-900 dark:bg-white transition-all duration-300 group-hover:w-full"></span>
                   </Link>
 
+                  <Link
+                    to="/kitchen"
+                    className="font-medium text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors duration-300 py-2 relative group"
+                  >
+                    Cocina
+                    <span className="absolute bottom-0 left-0 w-0 h-0.5 bg-gray-900 dark:bg-white transition-all duration-300 group-hover:w-full"></span>
+                  </Link>
+
+                  <Link
+                    to="/calendar"
+                    className="font-medium text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors duration-300 py-2 relative group"
+                  >
+                    Calendario
+                    <span className="absolute bottom-0 left-0 w-0 h-0.5 bg-gray-900 dark:bg-white transition-all duration-300 group-hover:w-full"></span>
+                  </Link>
+
                   <Link
                     to="/clients"
                     className="font-medium text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors duration-300 py-2 relative group"
@@ -132,6 +171,7 @@ export default function Header() {
                 </div>
               ) : isAuthenticated ? (
                 <div className="flex items-center space-x-4">
+                  <ConflictBadge />
                   <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-300">
                     <User className="h-4 w-4" />
                     <span className="hidden lg:inline">{user?.name || user?.email}</span>
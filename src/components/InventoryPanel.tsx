@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, History, PackagePlus, Save, Settings } from 'lucide-react';
+import { toast } from 'sonner';
+import { useInventory, useStockMovements } from '../hooks/useInventory.ts';
+import { DEDUCT_STATUS_OPTIONS, STOCK_MOVEMENT_LABELS, getLowStockThreshold } from '../lib/orders/inventory.ts';
+import { ORDER_STATUS_LABELS } from '../lib/orders/statusWorkflow.ts';
+import { formatDate } from '../lib/utils.ts';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from './ui/index.ts';
+import type { InventorySettings, Product } from '../types/index.ts';
+
+interface InventoryPanelProps {
+  businessId: string;
+}
+
+// Kardex de un producto (últimos movimientos)
+function StockMovementsList({ productId }: { productId: string }) {
+  const { movements, isLoading } = useStockMovements(productId);
+
+  if (isLoading) return <div className="h-10 bg-gray-100 rounded animate-pulse"></div>;
+  if (movements.length === 0) return <p className="text-sm text-gray-500">Sin movimientos registrados</p>;
+
+  return (
+    <ul className="divide-y divide-gray-100 text-sm">
+      {movements.slice(0, 10).map(movement => (
+        <li key={movement.id ?? movement.clientGeneratedId} className="flex justify-between gap-3 py-1.5">
+          <span className="text-gray-600">
+            {formatDate(movement.createdAt)} · {STOCK_MOVEMENT_LABELS[movement.type]}
+            {movement.notes && ` · ${movement.notes}`}
+          </span>
+          <span className="shrink-0 font-mono">
+            <span className={movement.quantity > 0 ? 'text-green-600' : 'text-red-600'}>
+              {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+            </span>
+            <span className="text-gray-400"> → {movement.stockAfter}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ✅ Productos con pocas existencias, entradas de mercancía y configuración
+// de cuándo descuentan los pedidos
+export function InventoryPanel({ businessId }: InventoryPanelProps) {
+  const { settings, lowStockProducts, saveSettings, recordMovement, setLowStockThreshold } = useInventory(businessId);
+  const [form, setForm] = useState<InventorySettings>(settings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    setForm(settings);
+  }, [settings.updatedAt]);
+
+  // Entrada de mercancía (compra)
+  const handlePurchase = (productId: string, productName: string) => {
+    const answer = globalThis.prompt(`¿Cuántas piezas de ${productName} entraron?`);
+    if (answer === null) return;
+
+    const quantity = parseInt(answer, 10);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      toast.error('Indica una cantidad mayor a 0');
+      return;
+    }
+    recordMovement.mutate(
+      { productId, type: 'purchase', quantity },
+      { onSuccess: () => toast.success(`Se agregaron ${quantity} a ${productName}`) }
+    );
+  };
+
+  // Campo vacío = usar el umbral del negocio
+  const handleThresholdChange = (product: Product, value: string) => {
+    const parsed = parseInt(value, 10);
+    const threshold = Number.isNaN(parsed) || parsed < 0 ? null : parsed;
+    if (product.id === undefined || threshold === (product.lowStockThreshold ?? null)) return;
+    setLowStockThreshold.mutate({ productId: product.id, threshold });
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-base flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-amber-600" />
+            Existencias bajas
+          </CardTitle>
+          <CardDescription>
+            Los pedidos descuentan al pasar a {ORDER_STATUS_LABELS[settings.deductOnStatus]} y devuelven al cancelarse.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setShowSettings(prev => !prev)}>
+          <Settings className="w-4 h-4 mr-1" />
+          Configurar
+        </Button>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {showSettings && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end rounded-md border p-3">
+            <div className="space-y-2">
+              <Label>Descontar cuando el pedido esté</Label>
+              <Select
+                value={form.deductOnStatus}
+                onValueChange={(value) => setForm(prev => ({ ...prev, deductOnStatus: value as InventorySettings['deductOnStatus'] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEDUCT_STATUS_OPTIONS.map(status => (
+                    <SelectItem key={status} value={status}>{ORDER_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="defaultLowStockThreshold">Avisar con (por defecto)</Label>
+              <Input
+                id="defaultLowStockThreshold"
+                type="number"
+                min={0}
+                value={form.defaultLowStockThreshold}
+                onChange={(event) => setForm(prev => ({ ...prev, defaultLowStockThreshold: Math.max(0, parseInt(event.target.value, 10) || 0) }))}
+              />
+            </div>
+            <Button
+              onClick={() => saveSettings.mutate({
+                deductOnStatus: form.deductOnStatus,
+                defaultLowStockThreshold: form.defaultLowStockThreshold
+              })}
+              disabled={saveSettings.isPending}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Guardar
+            </Button>
+          </div>
+        )}
+
+        {lowStockProducts.length === 0 ? (
+          <p className="text-sm text-gray-500">Todos los productos tienen existencias suficientes</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {lowStockProducts.map(product => {
+              const productId = String(product.id);
+              return (
+                <li key={productId} className="py-3 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{product.name}</p>
+                      <Badge variant={product.stock <= 0 ? 'destructive' : 'secondary'}>
+                        {product.stock} en existencia
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`threshold-${productId}`} className="text-xs text-gray-500">Avisar con</Label>
+                      <Input
+                        id={`threshold-${productId}`}
+                        type="number"
+                        min={0}
+                        className="w-20"
+                        defaultValue={product.lowStockThreshold ?? ''}
+                        placeholder={String(getLowStockThreshold(product, settings))}
+                        onBlur={(event) => handleThresholdChange(product, event.target.value)}
+                      />
+                      <Button size="sm" variant="outline" onClick={() => handlePurchase(productId, product.name)}>
+                        <PackagePlus className="w-4 h-4 mr-1" />
+                        Entrada
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setHistoryFor(prev => prev === productId ? null : productId)}
+                        aria-label={`Movimientos de ${product.name}`}
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {historyFor === productId && <StockMovementsList productId={productId} />}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,7 @@ import {
   Share2 
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { getOrderItemLabel } from '../lib/orders/productOptions.ts';
 import type { Order } from '../types/index.ts';
 import { Badge } from './ui/index.ts';
 import { Button } from './ui/index.ts';
@@ -91,7 +92,7 @@ export function OrderCard({ order, onStatusChange }: OrderCardProps) {
             <div key={index} className="flex justify-between items-center text-sm">
               <div className="flex-1">
                 <span className="font-medium">{item.quantity}x</span>
-                <span className="ml-2">{item.product_name}</span>
+                <span className="ml-2">{getOrderItemLabel(item)}</span>
               </div>
               <span className="font-medium">
                 ${(item.quantity * item.unit_price).toFixed(2)}
@@ -152,7 +153,7 @@ export function OrderCard({ order, onStatusChange }: OrderCardProps) {
 // Función para generar mensaje de WhatsApp
 function generateWhatsAppMessage(order: Order): string {
   const items = order.items?.map(item => 
-    `${item.quantity}x ${item.product_name} - $${(item.quantity * item.unit_price).toFixed(2)}`
+    `${item.quantity}x ${getOrderItemLabel(item)} - $${(item.quantity * item.unit_price).toFixed(2)}`
   ).join('\n') || '';
 
   return `🧾 *Pedido Confirmado*
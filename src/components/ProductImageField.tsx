@@ -0,0 +1,80 @@
+import { useEffect, useRef, useState } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import { PRODUCT_IMAGE_TYPES, validateProductImage } from '../services/product-image-service.ts';
+import { Button, Label } from './ui/index.ts';
+
+interface ProductImageFieldProps {
+  currentUrl?: string | undefined; // Foto ya guardada del producto
+  file: File | null;
+  onFileChange: (file: File | null) => void;
+}
+
+// Selector de foto con vista previa; la optimización y subida ocurren al guardar
+export function ProductImageField({ currentUrl, file, onFileChange }: ProductImageFieldProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | undefined>(undefined);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl(undefined);
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+
+    const validationError = validateProductImage(selected);
+    setError(validationError);
+    if (!validationError) onFileChange(selected);
+  };
+
+  const src = previewUrl ?? currentUrl;
+
+  return (
+    <div>
+      <Label>Foto</Label>
+      <div className="mt-1 flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="flex h-20 w-20 items-center justify-center overflow-hidden rounded-md border border-dashed border-gray-300 bg-gray-50 hover:bg-gray-100"
+          aria-label={src ? 'Cambiar foto' : 'Agregar foto'}
+        >
+          {src ? (
+            <img src={src} alt="" className="h-full w-full object-cover" />
+          ) : (
+            <ImagePlus className="h-6 w-6 text-gray-400" />
+          )}
+        </button>
+        <div className="space-y-1 text-sm">
+          <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+            {src ? 'Cambiar foto' : 'Agregar foto'}
+          </Button>
+          {file && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => onFileChange(null)}>
+              <X className="mr-1 h-4 w-4" />
+              Descartar
+            </Button>
+          )}
+          <p className="text-xs text-gray-500">Se optimiza antes de subirla; sin conexión se sube después.</p>
+        </div>
+      </div>
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={PRODUCT_IMAGE_TYPES.join(',')}
+        className="hidden"
+        onChange={handleChange}
+      />
+    </div>
+  );
+}
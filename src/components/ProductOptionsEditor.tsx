@@ -0,0 +1,211 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button, Input, Label, Switch } from './ui/index.ts';
+import type { ModifierGroup, Product, ProductVariant } from '../types/index.ts';
+
+type ProductOptions = Required<Pick<Product, 'variants' | 'modifierGroups'>>;
+
+interface ProductOptionsEditorProps {
+  value: ProductOptions;
+  basePrice: number; // Precio sugerido para una variante nueva
+  onChange: (value: ProductOptions) => void;
+}
+
+const toNumber = (value: string) => parseFloat(value) || 0;
+
+// Variantes (tamaños) y grupos de extras de un producto
+export function ProductOptionsEditor({ value, basePrice, onChange }: ProductOptionsEditorProps) {
+  const { variants, modifierGroups } = value;
+
+  const updateVariant = (id: string, changes: Partial<ProductVariant>) => {
+    onChange({ ...value, variants: variants.map(v => v.id === id ? { ...v, ...changes } : v) });
+  };
+
+  const updateGroup = (id: string, changes: Partial<ModifierGroup>) => {
+    onChange({ ...value, modifierGroups: modifierGroups.map(g => g.id === id ? { ...g, ...changes } : g) });
+  };
+
+  const addVariant = () => {
+    onChange({
+      ...value,
+      variants: [...variants, { id: uuidv4(), name: '', price: basePrice, stock: 0, isActive: true }]
+    });
+  };
+
+  const addGroup = () => {
+    onChange({
+      ...value,
+      modifierGroups: [...modifierGroups, {
+        id: uuidv4(), name: '', required: false, minSelections: 0, maxSelections: 1, modifiers: []
+      }]
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Variants */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Variantes</Label>
+          <Button type="button" variant="outline" size="sm" onClick={addVariant}>
+            <Plus className="w-4 h-4 mr-1" />
+            Variante
+          </Button>
+        </div>
+        {variants.length > 0 && (
+          <p className="text-xs text-gray-500">Con variantes, el precio y las existencias son los de cada una.</p>
+        )}
+        {variants.map(variant => (
+          <div key={variant.id} className="grid grid-cols-12 gap-2 items-center">
+            <Input
+              className="col-span-4"
+              value={variant.name}
+              onChange={(event) => updateVariant(variant.id, { name: event.target.value })}
+              placeholder="Grande"
+            />
+            <Input
+              className="col-span-3"
+              type="number"
+              min={0}
+              step="0.01"
+              value={variant.price}
+              onChange={(event) => updateVariant(variant.id, { price: toNumber(event.target.value) })}
+              aria-label="Precio"
+            />
+            <Input
+              className="col-span-3"
+              value={variant.sku ?? ''}
+              onChange={(event) => {
+                const { sku: _previous, ...rest } = variant;
+                const sku = event.target.value.trim();
+                onChange({ ...value, variants: variants.map(v => v.id === variant.id ? { ...rest, ...(sku && { sku }) } : v) });
+              }}
+              placeholder="SKU"
+            />
+            <div className="col-span-2 flex items-center justify-end gap-1">
+              <Switch
+                checked={variant.isActive}
+                onCheckedChange={(checked) => updateVariant(variant.id, { isActive: checked })}
+                aria-label="Activa"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-red-600"
+                onClick={() => onChange({ ...value, variants: variants.filter(v => v.id !== variant.id) })}
+                aria-label={`Quitar ${variant.name}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Modifier groups */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Extras</Label>
+          <Button type="button" variant="outline" size="sm" onClick={addGroup}>
+            <Plus className="w-4 h-4 mr-1" />
+            Grupo
+          </Button>
+        </div>
+        {modifierGroups.map(group => (
+          <div key={group.id} className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                value={group.name}
+                onChange={(event) => updateGroup(group.id, { name: event.target.value })}
+                placeholder="Relleno"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-red-600"
+                onClick={() => onChange({ ...value, modifierGroups: modifierGroups.filter(g => g.id !== group.id) })}
+                aria-label={`Quitar ${group.name}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <label className="flex items-center gap-2">
+                <Switch
+                  checked={group.required}
+                  onCheckedChange={(checked) => updateGroup(group.id, { required: checked })}
+                />
+                Obligatorio
+              </label>
+              <label className="flex items-center gap-1">
+                Mínimo
+                <Input
+                  className="w-16"
+                  type="number"
+                  min={0}
+                  value={group.minSelections}
+                  onChange={(event) => updateGroup(group.id, { minSelections: Math.max(0, parseInt(event.target.value, 10) || 0) })}
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                Máximo
+                <Input
+                  className="w-16"
+                  type="number"
+                  min={1}
+                  value={group.maxSelections}
+                  onChange={(event) => updateGroup(group.id, { maxSelections: Math.max(1, parseInt(event.target.value, 10) || 1) })}
+                />
+              </label>
+            </div>
+            {group.modifiers.map(modifier => (
+              <div key={modifier.id} className="grid grid-cols-12 gap-2 items-center">
+                <Input
+                  className="col-span-7"
+                  value={modifier.name}
+                  onChange={(event) => updateGroup(group.id, {
+                    modifiers: group.modifiers.map(m => m.id === modifier.id ? { ...m, name: event.target.value } : m)
+                  })}
+                  placeholder="Velas"
+                />
+                <Input
+                  className="col-span-4"
+                  type="number"
+                  step="0.01"
+                  value={modifier.priceDelta}
+                  onChange={(event) => updateGroup(group.id, {
+                    modifiers: group.modifiers.map(m => m.id === modifier.id ? { ...m, priceDelta: toNumber(event.target.value) } : m)
+                  })}
+                  aria-label="Precio adicional"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="col-span-1 h-8 w-8 p-0 text-red-600"
+                  onClick={() => updateGroup(group.id, { modifiers: group.modifiers.filter(m => m.id !== modifier.id) })}
+                  aria-label={`Quitar ${modifier.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={() => updateGroup(group.id, {
+                modifiers: [...group.modifiers, { id: uuidv4(), name: '', priceDelta: 0 }]
+              })}
+            >
+              Agregar opción
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { isSatProductCode, suggestSatProductCodes } from '../lib/invoicing/satCatalog.ts'
+import { SatCodePicker } from './SatCodePicker.tsx'
+import type { BusinessTypeId } from '../lib/constants/businessTypes.ts'
+import type { SatCatalogEntry } from '../types/index.ts'
+
+interface ProductSatFieldsProps {
+  productName: string
+  satCode: string
+  satUnitCode: string
+  productCodes: Array<SatCatalogEntry>
+  unitCodes: Array<SatCatalogEntry>
+  businessType?: BusinessTypeId | undefined
+  errors: Record<string, string>
+  onChange: (field: 'satCode' | 'satUnitCode', code: string) => void
+}
+
+// Claves del SAT para facturar el producto, con sugerencias por nombre y giro
+export function ProductSatFields({
+  productName,
+  satCode,
+  satUnitCode,
+  productCodes,
+  unitCodes,
+  businessType,
+  errors,
+  onChange
+}: ProductSatFieldsProps) {
+  const suggestions = suggestSatProductCodes(productCodes, productName, businessType)
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <SatCodePicker
+        id="satCode"
+        label="Clave SAT"
+        entries={productCodes}
+        value={satCode}
+        onChange={(code) => onChange('satCode', code)}
+        suggestions={suggestions}
+        placeholder="Ej: pastel, refresco, 5018"
+        error={errors.satCode}
+        acceptsCode={isSatProductCode}
+      />
+      <SatCodePicker
+        id="satUnitCode"
+        label="Unidad SAT"
+        entries={unitCodes}
+        value={satUnitCode}
+        onChange={(code) => onChange('satUnitCode', code)}
+        suggestions={unitCodes.slice(0, 6)}
+        placeholder="Pieza (H87)"
+        error={errors.satUnitCode}
+      />
+    </div>
+  )
+}
@@ -1,12 +1,18 @@
 import { useState } from 'react';
 import { Edit, Package, Plus, Search, Trash2 } from 'lucide-react';
-import { useProductsAPI } from '../hooks/useProductsAPI.ts';
+import { useAuth } from '../hooks/useAuth.ts';
+import { useProductImage } from '../hooks/useProductImage.ts';
+import { useProducts } from '../hooks/useProducts.ts';
 import { Button } from './ui/index.ts';
 import { Input } from './ui/index.ts';
 import { Card } from './ui/index.ts';
 import { Badge } from './ui/index.ts';
+import { BusinessFiscalSettingsCard } from './BusinessFiscalSettingsCard.tsx';
+import { CatalogImportExport } from './CatalogImportExport.tsx';
 import { CreateProductModal } from './CreateProductModal.tsx';
 import { EditProductModal } from './EditProductModal.tsx';
+import { InventoryPanel } from './InventoryPanel.tsx';
+import { TaxSettingsCard } from './TaxSettingsCard.tsx';
 import type { Product } from '../types/index.ts';
 
 interface ProductCardProps {
@@ -16,10 +22,21 @@ interface ProductCardProps {
 }
 
 function ProductCard({ product, onEdit, onDelete }: ProductCardProps) {
+  const image = useProductImage(product);
+
   return (
     <Card className="p-4 hover:shadow-md transition-shadow">
-      <div className="flex justify-between items-start mb-3">
-        <div className="flex-1">
+      <div className="flex justify-between items-start gap-3 mb-3">
+        {image.src && (
+          <img
+            src={image.src}
+            alt=""
+            loading="lazy"
+            className={`h-14 w-14 flex-shrink-0 rounded-md object-cover ${image.isPendingUpload ? 'opacity-70' : ''}`}
+            title={image.isPendingUpload ? 'Foto pendiente de subir' : undefined}
+          />
+        )}
+        <div className="flex-1 min-w-0">
           <h3 className="font-semibold text-gray-900 truncate">{product.name}</h3>
           {product.category && (
             <Badge variant="secondary" className="mt-1">
@@ -61,6 +78,11 @@ function ProductCard({ product, onEdit, onDelete }: ProductCardProps) {
           </span>
         </div>
         
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-gray-500">Existencias:</span>
+          <span className="font-medium text-gray-900">{product.stock}</span>
+        </div>
+        
         <div className="flex justify-between items-center">
           <span className="text-sm text-gray-500">Estado:</span>
           <span className={`font-medium ${product.isActive ? 'text-green-600' : 'text-red-600'}`}>
@@ -86,16 +108,18 @@ export function ProductsList() {
   const [searchTerm, setSearchTerm] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const { user } = useAuth();
   
+  // Mismo catálogo offline que el inventario, el selector de pedidos y la factura
   const {
     products,
     isLoading,
-    createProduct,
+    createProductWithCategory,
     updateProduct,
     deleteProduct,
     isCreating,
-    isDeleting
-  } = useProductsAPI();
+    isUpdating
+  } = useProducts({ businessId: user?.businessId || '' });
 
   const filteredProducts = products.filter((product: Product) =>
     product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -110,15 +134,27 @@ export function ProductsList() {
           <h1 className="text-2xl font-bold text-gray-900">Productos</h1>
           <p className="text-gray-600">{products.length} productos registrados</p>
         </div>
-        <Button 
-          onClick={() => setShowCreateModal(true)}
-          className="flex items-center gap-2"
-        >
-          <Plus className="w-4 h-4" />
-          Agregar Producto
-        </Button>
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {user?.businessId && <CatalogImportExport businessId={user.businessId} />}
+          <Button 
+            onClick={() => setShowCreateModal(true)}
+            className="flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Agregar Producto
+          </Button>
+        </div>
       </div>
 
+      {/* Low stock */}
+      {user?.businessId && <InventoryPanel businessId={user.businessId} />}
+
+      {/* Taxes */}
+      {user?.businessId && <TaxSettingsCard businessId={user.businessId} />}
+
+      {/* Invoicing issuer */}
+      {user?.businessId && <BusinessFiscalSettingsCard businessId={user.businessId} />}
+
       {/* Search and Filters */}
       <div className="mb-6">
         <div className="relative">
@@ -152,7 +188,7 @@ export function ProductsList() {
               key={product.id}
               product={product}
               onEdit={() => setSelectedProduct(product)}
-              onDelete={() => product.id !== undefined && deleteProduct(product.id.toString())}
+              onDelete={() => product.id !== undefined && deleteProduct(product.id)}
             />
           ))}
         </div>
@@ -182,11 +218,16 @@ export function ProductsList() {
         <CreateProductModal
           onClose={() => setShowCreateModal(false)}
           onSave={async (productData: any) => {
-            await createProduct({
+            // Las existencias iniciales entran al kardex como movimiento
+            await createProductWithCategory({
               name: productData.name,
               price: productData.price,
               category: productData.category,
-              description: productData.description
+              description: productData.description,
+              cost: productData.cost,
+              stock: productData.stock,
+              ...(productData.satCode && { satCode: productData.satCode }),
+              ...(productData.satUnitCode && { satUnitCode: productData.satUnitCode })
             });
           }}
           isLoading={isCreating}
@@ -199,16 +240,26 @@ export function ProductsList() {
           onClose={() => setSelectedProduct(null)}
           onSave={async (productData: any) => {
             if (selectedProduct.id !== undefined) {
+              // Un cambio de existencias queda como ajuste en el kardex
               await updateProduct({
-                id: selectedProduct.id.toString(),
+                id: selectedProduct.id,
                 name: productData.name,
                 price: productData.price,
+                cost: productData.cost,
                 category: productData.category,
-                description: productData.description
+                description: productData.description,
+                // Solo si se cambió: la copia abierta puede tener existencias viejas
+                ...(productData.stock !== selectedProduct.stock && { stock: productData.stock }),
+                isActive: productData.isActive,
+                satCode: productData.satCode,
+                satUnitCode: productData.satUnitCode,
+                variants: productData.variants,
+                modifierGroups: productData.modifierGroups,
+                ...(productData.image_url && { image_url: productData.image_url, thumbnail_url: productData.thumbnail_url })
               });
             }
           }}
-          isLoading={isDeleting}
+          isLoading={isUpdating}
         />
       )}
     </div>
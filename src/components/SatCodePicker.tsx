@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { AlertTriangle, Search } from 'lucide-react';
+import { findSatEntry, searchSatCatalog } from '../lib/invoicing/satCatalog.ts';
+import { Input, Label } from './ui/index.ts';
+import type { SatCatalogEntry } from '../types/index.ts';
+
+interface SatCodePickerProps {
+  id: string;
+  label: string;
+  entries: Array<SatCatalogEntry>;
+  value: string;
+  onChange: (code: string) => void;
+  suggestions?: Array<SatCatalogEntry>; // Se muestran mientras no se busca nada
+  placeholder?: string;
+  error?: string | undefined;
+  acceptsCode?: (code: string) => boolean; // Claves válidas que pueden faltar en el catálogo local
+}
+
+// Buscador de claves del SAT por descripción o clave. Funciona sin conexión
+// con los catálogos guardados en IndexedDB
+export function SatCodePicker({ id, label, entries, value, onChange, suggestions = [], placeholder, error, acceptsCode }: SatCodePickerProps) {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const selected = value ? findSatEntry(entries, value) : undefined;
+  const results = !isOpen ? [] : query.trim() ? searchSatCatalog(entries, query) : suggestions;
+  // Clave escrita completa que no aparece en el catálogo local: se puede usar tal cual
+  const customCode = query.trim();
+  const canUseCustomCode = isOpen && !!acceptsCode?.(customCode) && !findSatEntry(entries, customCode);
+
+  const select = (code: string) => {
+    onChange(code);
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (canUseCustomCode && results.length === 0 && event.key === 'Enter') {
+      event.preventDefault();
+      select(customCode);
+      return;
+    }
+    if (!isOpen || results.length === 0) return;
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setHighlighted(prev => (prev + 1) % results.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setHighlighted(prev => (prev - 1 + results.length) % results.length);
+    } else if (event.key === 'Enter') {
+      const entry = results[highlighted];
+      if (entry) {
+        event.preventDefault();
+        select(entry.code);
+      }
+    } else if (event.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <div className="relative">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <Input
+          id={id}
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setHighlighted(0);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder ?? 'Buscar por descripción o clave'}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={results.length > 0 || canUseCustomCode}
+          className={`pl-8 ${error ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+        />
+
+        {(results.length > 0 || canUseCustomCode) && (
+          <div role="listbox" className="absolute z-20 mt-1 w-full max-h-60 overflow-y-auto rounded-md border bg-white dark:bg-gray-900 shadow-lg">
+            {!query.trim() && (
+              <p className="px-3 pt-2 text-xs font-medium text-gray-500">Sugeridas</p>
+            )}
+            {results.map((entry, index) => (
+              <button
+                key={entry.code}
+                type="button"
+                role="option"
+                aria-selected={index === highlighted}
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => select(entry.code)}
+                className={`flex w-full items-baseline gap-3 px-3 py-2 text-left text-sm ${
+                  index === highlighted ? 'bg-gray-100 dark:bg-gray-800' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                }`}
+              >
+                <span className="shrink-0 font-mono text-xs text-gray-500">{entry.code}</span>
+                <span className="min-w-0 truncate">{entry.description}</span>
+              </button>
+            ))}
+            {canUseCustomCode && (
+              <button
+                type="button"
+                role="option"
+                aria-selected={results.length === 0}
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => select(customCode)}
+                className="flex w-full items-baseline gap-3 px-3 py-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-800"
+              >
+                <span className="shrink-0 font-mono text-xs text-gray-500">{customCode}</span>
+                <span className="min-w-0 truncate">Usar esta clave (no está en el catálogo local)</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {value && (
+        selected ? (
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            <span className="font-mono">{selected.code}</span> · {selected.description}
+          </p>
+        ) : (
+          <p className="mt-1 flex items-center gap-1 text-sm text-amber-600">
+            <AlertTriangle className="w-4 h-4" />
+            <span className="font-mono">{value}</span> no está en el catálogo local
+          </p>
+        )
+      )}
+      {error && (
+        <p className="text-sm text-red-600 mt-1">{error}</p>
+      )}
+    </div>
+  );
+}
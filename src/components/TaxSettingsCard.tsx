@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { Percent, Save } from 'lucide-react';
+import { useTaxSettings } from '../hooks/useTaxSettings.ts';
+import { TAX_MODE_LABELS, TAX_RATE_OPTIONS, formatTaxRate } from '../lib/orders/taxes.ts';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from './ui/index.ts';
+import type { TaxMode, TaxSettings } from '../types/index.ts';
+
+interface TaxSettingsCardProps {
+  businessId: string;
+}
+
+// ✅ Cómo se capturan los precios (con o sin IVA) y la tasa para partidas sin producto
+export function TaxSettingsCard({ businessId }: TaxSettingsCardProps) {
+  const { settings, saveSettings } = useTaxSettings(businessId);
+  const [form, setForm] = useState<TaxSettings>(settings);
+
+  useEffect(() => {
+    setForm(settings);
+  }, [settings.updatedAt]);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Percent className="w-4 h-4" />
+          Impuestos
+        </CardTitle>
+        <CardDescription>
+          Cada partida usa la tasa de IVA de su producto. Los pedidos ya creados conservan su desglose.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Precios de los productos</Label>
+            <Select
+              value={form.taxMode}
+              onValueChange={(value) => setForm(prev => ({ ...prev, taxMode: value as TaxMode }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TAX_MODE_LABELS) as Array<TaxMode>).map(mode => (
+                  <SelectItem key={mode} value={mode}>{TAX_MODE_LABELS[mode]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>IVA por defecto</Label>
+            <Select
+              value={String(form.defaultTaxRate)}
+              onValueChange={(value) => setForm(prev => ({ ...prev, defaultTaxRate: Number(value) }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TAX_RATE_OPTIONS.map(rate => (
+                  <SelectItem key={rate} value={String(rate)}>{formatTaxRate(rate)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={() => saveSettings.mutate({ taxMode: form.taxMode, defaultTaxRate: form.defaultTaxRate })}
+            disabled={saveSettings.isPending}
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Guardar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
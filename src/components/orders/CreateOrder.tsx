@@ -3,7 +3,10 @@ import { useFieldArray, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { 
+  AlertTriangle,
   ArrowLeft,
+  Banknote,
+  Bookmark,
   Calculator,
   Calendar,
   Copy,
@@ -16,7 +19,15 @@ import {
   X
 } from 'lucide-react';
 import { toast } from 'sonner';
-import type { Order, OrderFormData } from '../../types/index.ts';
+import { fromLocalDateKey, toLocalDateKey } from '../../lib/offline/orderMapper.ts';
+import { getFolioLabel } from '../../lib/orders/folio.ts';
+import { PAYMENT_METHOD_LABELS, formatPaymentsForReceipt } from '../../lib/orders/payments.ts';
+import { calculateOrderTotals, formatTaxesForReceipt, getTaxLineLabel } from '../../lib/orders/taxes.ts';
+import { findExistingClient, searchClients } from '../../lib/orders/clientLink.ts';
+import { getProductId, getStockWarnings } from '../../lib/orders/productPicker.ts';
+import { describeItemOptions, getOrderItemLabel, hasProductOptions } from '../../lib/orders/productOptions.ts';
+import { toDuplicateFormData, toFormItems, toTemplateItems } from '../../lib/orders/templates.ts';
+import { convertFormDataToCreateOrderData } from '../../types/index.ts';
 import { Badge } from '../ui/index.ts';
 import { Button } from '../ui/index.ts';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/index.ts';
@@ -26,10 +37,20 @@ import { Separator } from '../ui/index.ts';
 import { Textarea } from '../ui/index.ts';
 import { useOrders } from '../../hooks/useOrders.ts';
 import { useProducts } from '../../hooks/useProducts.ts';
-import { formatCurrency } from '../../lib/utils.ts';
+import { useDeliveryAvailability } from '../../hooks/useDeliveryCapacity.ts';
+import { useClients } from '../../hooks/useClients.ts';
+import { useOrderTemplates } from '../../hooks/useOrderTemplates.ts';
+import { useTaxSettings } from '../../hooks/useTaxSettings.ts';
+import { formatCurrency, formatDate } from '../../lib/utils.ts';
+import { ProductCombobox } from './ProductCombobox.tsx';
+import { ProductOptionsDialog } from './ProductOptionsDialog.tsx';
+import type { CatalogProduct } from '../../lib/orders/productPicker.ts';
+import type { ProductOptionsChoice } from '../../lib/orders/productOptions.ts';
+import type { Client, Order, OrderFormData, OrderTemplate, PaymentMethod } from '../../types/index.ts';
 
 // ✅ ACTUALIZADO: Schema de validación usando OrderFormData
 const orderSchema = z.object({
+  clientId: z.string().optional(),
   clientName: z.string()
     .min(2, 'Nombre del cliente debe tener al menos 2 caracteres')
     .max(100, 'Nombre muy largo'),
@@ -40,12 +61,13 @@ const orderSchema = z.object({
     }),
   deliveryDate: z.string()
     .min(1, 'Fecha de entrega requerida')
-    .refine((date) => new Date(date) >= new Date(new Date().setHours(0,0,0,0)), {
+    .refine((date) => date >= toLocalDateKey(), {
       message: 'La fecha no puede ser anterior a hoy'
     }),
   deliveryTime: z.string().optional(),
   notes: z.string().max(500, 'Notas muy largas').optional(),
   items: z.array(z.object({
+    productId: z.string().optional(),
     productName: z.string().min(1, 'Nombre del producto requerido'),
     quantity: z.number()
       .min(1, 'Cantidad mínima: 1')
@@ -53,14 +75,38 @@ const orderSchema = z.object({
     unitPrice: z.number()
       .min(0, 'Precio debe ser mayor o igual a 0')
       .max(999999, 'Precio muy alto'),
+    taxRate: z.number().optional(),
+    variantId: z.string().optional(),
+    variantName: z.string().optional(),
+    modifiers: z.array(z.object({
+      modifier_id: z.string(),
+      group_name: z.string(),
+      name: z.string(),
+      price_delta: z.number()
+    })).optional(),
     notes: z.string().optional()
-  })).min(1, 'Agrega al menos un producto')
+  })).min(1, 'Agrega al menos un producto'),
+  // Anticipo (solo al crear)
+  depositAmount: z.number().min(0, 'El anticipo no puede ser negativo').optional(),
+  depositMethod: z.enum(['cash', 'card', 'transfer']).optional(),
+  depositReference: z.string().optional()
+});
+
+const PAYMENT_METHODS = Object.keys(PAYMENT_METHOD_LABELS) as Array<PaymentMethod>;
+
+type FormItem = z.infer<typeof orderSchema>['items'][number];
+
+// Variante y extras de la partida del formulario con los nombres de OrderItem
+const toItemOptions = (item: FormItem | undefined) => ({
+  ...(item?.variantName && { variant_name: item.variantName }),
+  ...(item?.modifiers && { modifiers: item.modifiers })
 });
 
 interface CreateOrderProps {
   onSuccess?: (order: Order) => void;
   onCancel?: () => void;
   editOrder?: Order | null;
+  duplicateFrom?: Order | null; // Pedido a copiar en uno nuevo
   className?: string;
   businessId: string;
 }
@@ -69,16 +115,21 @@ export function CreateOrder({
   onSuccess, 
   onCancel, 
   editOrder,
+  duplicateFrom,
   className,
   businessId
 }: CreateOrderProps) {
   const [isCreating, setIsCreating] = useState(false);
   const [showReceipt, setShowReceipt] = useState(false);
   const [lastReceipt, setLastReceipt] = useState('');
+  const [showClientSuggestions, setShowClientSuggestions] = useState(false);
+  // Producto con variantes o extras esperando a que se elijan
+  const [optionsFor, setOptionsFor] = useState<{ index: number; product: CatalogProduct } | null>(null);
 
   // Hooks
-  const { createOrderFromForm } = useOrders(businessId);
+  const { createOrderFromForm, updateOrder } = useOrders(businessId);
   const { products, isLoading: _productsLoading } = useProducts({ businessId: businessId });
+  const { clients, createClientAsync, discardUnsyncedClientAsync } = useClients();
 
   const isEditing = !!editOrder;
 
@@ -90,75 +141,199 @@ export function CreateOrder({
     formState: { errors },
     watch,
     reset,
-    getValues
+    getValues,
+    setValue
   } = useForm<z.infer<typeof orderSchema>>({
     resolver: zodResolver(orderSchema),
     defaultValues: {
       items: [{ productName: '', quantity: 1, unitPrice: 0, notes: '' }],
-      deliveryDate: new Date().toISOString().split('T')[0] || '',
+      deliveryDate: toLocalDateKey(),
       deliveryTime: undefined,
+      clientId: undefined,
       clientName: '',
       clientPhone: undefined,
-      notes: undefined
+      notes: undefined,
+      depositMethod: 'cash'
     }
   });
 
   // Field array for items
-  const { fields, append, remove } = useFieldArray({
+  const { fields, append, remove, replace } = useFieldArray({
     control,
     name: 'items'
   });
 
   // Watch values for calculations
   const items = watch('items');
+  const clientId = watch('clientId');
+  const clientName = watch('clientName');
+  const linkedClient = clients.find(client => client.id === clientId);
+  const clientSuggestions = linkedClient ? [] : searchClients(clients, clientName);
+  const { templates, saveTemplate, deleteTemplate } = useOrderTemplates(businessId, linkedClient?.id);
+  const deliveryDate = watch('deliveryDate');
+  const deliveryTime = watch('deliveryTime');
+  const depositMethod = watch('depositMethod') ?? 'cash';
+
+  // ✅ Capacidad de entregas para la fecha/hora elegida
+  const { check: capacityCheck, suggestion, isBlocked } = useDeliveryAvailability(
+    businessId,
+    deliveryDate,
+    deliveryTime || undefined,
+    editOrder?.id
+  );
 
-  // Calculate total
-  const total = items.reduce((sum: number, item: unknown) => {
-    const quantity = Number((item as { quantity: number }).quantity) || 0;
-    const price = Number((item as { unitPrice: number }).unitPrice) || 0;
-    return sum + (quantity * price);
-  }, 0);
+  // ✅ Subtotal, IVA por tasa y total con la forma de captura del negocio
+  // (al editar, la que ya tenía el pedido)
+  const { settings: taxSettings } = useTaxSettings(businessId);
+  const totals = calculateOrderTotals(
+    items.map(item => ({
+      quantity: Number(item.quantity) || 0,
+      unit_price: Number(item.unitPrice) || 0,
+      ...(item.taxRate !== undefined && { tax_rate: item.taxRate })
+    })),
+    editOrder?.tax_mode ?? taxSettings.taxMode,
+    taxSettings.defaultTaxRate
+  );
+  const total = totals.total;
 
   // Load edit data
   useEffect(() => {
     if (editOrder) {
       reset({
+        clientId: editOrder.client_id,
         clientName: editOrder.client_name,
         clientPhone: editOrder.client_phone || undefined,
-        deliveryDate: editOrder.delivery_date?.split('T')[0] || new Date().toISOString().split('T')[0] || '',
+        deliveryDate: editOrder.delivery_date?.split('T')[0] || toLocalDateKey(),
         deliveryTime: editOrder.delivery_time || undefined,
         notes: editOrder.notes || undefined,
-        items: editOrder.items?.map((item: unknown) => ({
-          productName: (item as { product_name: string }).product_name,
-          quantity: (item as { quantity: number }).quantity,
-          unitPrice: (item as { unit_price: number }).unit_price,
-          notes: (item as { notes: string }).notes || ''
-        })) || []
+        items: toFormItems(editOrder.items ?? [])
       });
     }
   }, [editOrder, reset]);
 
+  // ✅ Duplicar: mismo cliente y partidas, entrega a partir de hoy
+  useEffect(() => {
+    if (duplicateFrom && !editOrder) {
+      reset(toDuplicateFormData(duplicateFrom, toLocalDateKey()));
+    }
+  }, [duplicateFrom, editOrder, reset]);
+
+  // Existencias insuficientes, sumando las partidas del mismo producto
+  const stockWarnings = getStockWarnings(items, products);
+  const getStockWarning = (index: number) => {
+    const item = items[index];
+    return stockWarnings.find(warning => warning.productId === item?.productId && warning.variantId === item.variantId);
+  };
+  // Producto de la partida, si tiene variantes o extras que se puedan cambiar
+  const getOptionsProduct = (index: number) => {
+    const productId = items[index]?.productId;
+    const product = productId ? products.find(p => getProductId(p) === productId) : undefined;
+    return product && hasProductOptions(product) ? product : undefined;
+  };
+
+  // ✅ Producto del catálogo: toma su precio y tasa de IVA. Si tiene variantes
+  // o extras, primero se eligen en el diálogo
+  const selectProduct = (index: number, product: CatalogProduct) => {
+    if (hasProductOptions(product)) {
+      setOptionsFor({ index, product });
+      return;
+    }
+    applyProduct(index, product, { modifiers: [], unitPrice: product.price });
+  };
+
+  const applyProduct = (index: number, product: CatalogProduct, choice: ProductOptionsChoice) => {
+    setValue(`items.${index}.productName`, product.name, { shouldValidate: true });
+    setValue(`items.${index}.productId`, getProductId(product));
+    setValue(`items.${index}.unitPrice`, choice.unitPrice, { shouldValidate: true });
+    setValue(`items.${index}.taxRate`, product.taxRate);
+    setValue(`items.${index}.variantId`, choice.variant?.id);
+    setValue(`items.${index}.variantName`, choice.variant?.name);
+    setValue(`items.${index}.modifiers`, choice.modifiers.length > 0 ? choice.modifiers : undefined);
+  };
+
+  // Texto libre: la partida deja de estar vinculada al catálogo
+  const changeProductName = (index: number, name: string) => {
+    setValue(`items.${index}.productName`, name, { shouldValidate: true });
+    setValue(`items.${index}.productId`, undefined);
+    setValue(`items.${index}.taxRate`, undefined);
+    setValue(`items.${index}.variantId`, undefined);
+    setValue(`items.${index}.variantName`, undefined);
+    setValue(`items.${index}.modifiers`, undefined);
+  };
+
   const addItem = () => {
     append({ productName: '', quantity: 1, unitPrice: 0, notes: '' });
   };
 
+  const selectClient = (client: Client) => {
+    setValue('clientId', client.id);
+    setValue('clientName', client.name, { shouldValidate: true });
+    setValue('clientPhone', client.phone || undefined, { shouldValidate: true });
+    setShowClientSuggestions(false);
+  };
+
+  // ✅ Todo pedido queda vinculado a un cliente: se reutiliza el existente o se crea uno
+  const resolveClient = async (data: z.infer<typeof orderSchema>): Promise<{ id: string; created: boolean }> => {
+    if (data.clientId) return { id: data.clientId, created: false };
+
+    const existing = findExistingClient(clients, data.clientName, data.clientPhone);
+    if (existing) return { id: existing.id, created: false };
+
+    const created = await createClientAsync({
+      name: data.clientName.trim(),
+      ...(data.clientPhone && { phone: data.clientPhone })
+    });
+    return { id: created.id, created: true };
+  };
+
+  const applyTemplate = (template: OrderTemplate) => {
+    replace(toFormItems(template.items));
+    if (template.deliveryTime && !getValues('deliveryTime')) setValue('deliveryTime', template.deliveryTime);
+    if (template.notes && !getValues('notes')) setValue('notes', template.notes);
+    toast.info(`Plantilla "${template.name}" aplicada`);
+  };
+
+  const handleSaveTemplate = () => {
+    const templateItems = toTemplateItems(getValues('items'));
+    if (templateItems.length === 0) {
+      toast.error('Agrega al menos un producto para guardar la plantilla');
+      return;
+    }
+
+    const name = globalThis.prompt('Nombre de la plantilla (ej. "Pedido semanal")')?.trim();
+    if (!name) return;
+
+    const { deliveryTime: templateTime, notes: templateNotes } = getValues();
+    saveTemplate.mutate({
+      name,
+      items: templateItems,
+      ...(templateTime && { deliveryTime: templateTime }),
+      ...(templateNotes && { notes: templateNotes })
+    });
+  };
+
   const removeItem = (index: number) => {
     if (fields.length > 1) {
       remove(index);
     }
   };
 
-  const generateReceipt = (data: z.infer<typeof orderSchema>) => {
+  const generateReceipt = (data: z.infer<typeof orderSchema>, order: Order) => {
     const itemsList = data.items
-      .map(item => `• ${item.quantity}x ${item.productName} - ${formatCurrency(item.quantity * item.unitPrice)}`)
+      .map(item => `• ${item.quantity}x ${getOrderItemLabel({
+        product_name: item.productName,
+        ...toItemOptions(item)
+      })} - ${formatCurrency(item.quantity * item.unitPrice)}`)
       .join('\n');
 
-    const receipt = `🧾 *PEDIDO CONFIRMADO*
+    const taxes = formatTaxesForReceipt(order);
+    const payments = formatPaymentsForReceipt(order);
+    const receipt = `🧾 *PEDIDO ${getFolioLabel(order)} CONFIRMADO*
     
 Cliente: ${data.clientName}
 ${data.clientPhone ? `Teléfono: ${data.clientPhone}` : ''}
 
-📅 Entrega: ${new Date(data.deliveryDate).toLocaleDateString('es-MX', {
+📅 Entrega: ${fromLocalDateKey(data.deliveryDate).toLocaleDateString('es-MX', {
   weekday: 'long',
   year: 'numeric',
   month: 'long',
@@ -167,9 +342,9 @@ ${data.clientPhone ? `Teléfono: ${data.clientPhone}` : ''}
 
 📦 *Productos:*
 ${itemsList}
-
-💰 *TOTAL: ${formatCurrency(total)}*
-
+${taxes ? `\n${taxes}` : ''}
+💰 *TOTAL: ${formatCurrency(order.total)}*
+${payments ? `\n${payments}\n` : ''}
 ${data.notes ? `\n📝 Notas: ${data.notes}` : ''}
 
 ✅ Gracias por su preferencia
@@ -198,20 +373,45 @@ _${new Date().toLocaleString('es-MX')}_`;
 
   // ✅ ACTUALIZADO: Usar createOrderFromForm con tipos unificados
   const onSubmit = async (data: z.infer<typeof orderSchema>) => {
+    if (isBlocked) {
+      toast.error('No hay capacidad para esa fecha u horario, elige otro');
+      return;
+    }
+
+    const { depositAmount, depositMethod: method = 'cash', depositReference, ...orderData } = data;
+    const deposit = !editOrder && depositAmount ? depositAmount : 0;
+    if (deposit > total) {
+      toast.error(`El anticipo no puede ser mayor al total (${formatCurrency(total)})`);
+      return;
+    }
+
     setIsCreating(true);
-    
+    // Cliente creado para este pedido; se descarta si el pedido no se guarda
+    let createdClientId: string | undefined;
+
     try {
+      const client = await resolveClient(data);
+      if (client.created) createdClientId = client.id;
+
+      const formData: OrderFormData = {
+        ...orderData,
+        clientId: client.id,
+        ...(deposit > 0 && {
+          deposit: { amount: deposit, method, ...(depositReference?.trim() && { reference: depositReference.trim() }) }
+        })
+      } as OrderFormData;
       let result;
-      if (isEditing) {
-        // For now, we'll just create a new order since updateOrder is not implemented
-        // You can implement updateOrder in useOrders hook if needed
-        result = await createOrderFromForm.mutateAsync(data as OrderFormData);
+      if (editOrder) {
+        result = await updateOrder.mutateAsync({
+          orderId: editOrder.id,
+          data: convertFormDataToCreateOrderData(formData)
+        });
       } else {
-        result = await createOrderFromForm.mutateAsync(data as OrderFormData);
+        result = await createOrderFromForm.mutateAsync(formData);
       }
 
       // Generate and show receipt
-      const receipt = generateReceipt(data as OrderFormData);
+      const receipt = generateReceipt(data, result);
       setLastReceipt(receipt);
       setShowReceipt(true);
 
@@ -231,6 +431,7 @@ _${new Date().toLocaleString('es-MX')}_`;
 
     } catch (error) {
       console.error('Error creating/updating order:', error);
+      if (createdClientId) await discardUnsyncedClientAsync(createdClientId).catch(() => undefined);
       toast.error(isEditing ? 'Error al actualizar el pedido' : 'Error al crear el pedido');
     } finally {
       setIsCreating(false);
@@ -296,7 +497,7 @@ _${new Date().toLocaleString('es-MX')}_`;
         <div className="flex items-center justify-between">
           <CardTitle className="flex items-center gap-2">
             <Package className="w-5 h-5" />
-            {isEditing ? 'Editar Pedido' : 'Crear Nuevo Pedido'}
+            {isEditing ? 'Editar Pedido' : duplicateFrom ? `Duplicar ${getFolioLabel(duplicateFrom)}` : 'Crear Nuevo Pedido'}
           </CardTitle>
           
           {onCancel && (
@@ -318,14 +519,57 @@ _${new Date().toLocaleString('es-MX')}_`;
             </h3>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
+              <div className="space-y-2 relative">
                 <Label htmlFor="clientName">Nombre del Cliente *</Label>
                 <Input
                   id="clientName"
-                  {...register('clientName')}
-                  placeholder="Nombre completo"
+                  {...register('clientName', {
+                    onChange: () => {
+                      setValue('clientId', undefined);
+                      setShowClientSuggestions(true);
+                    },
+                    onBlur: () => setTimeout(() => setShowClientSuggestions(false), 150)
+                  })}
+                  placeholder="Buscar o escribir nombre"
+                  autoComplete="off"
                   className={errors.clientName ? 'border-red-500' : ''}
                 />
+                {showClientSuggestions && clientSuggestions.length > 0 && (
+                  <div className="absolute z-20 mt-1 w-full rounded-md border bg-white dark:bg-gray-900 shadow-lg">
+                    {clientSuggestions.map(client => (
+                      <button
+                        key={client.id}
+                        type="button"
+                        onMouseDown={(event) => event.preventDefault()}
+                        onClick={() => selectClient(client)}
+                        className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+                      >
+                        <span>
+                          {client.name}
+                          {client.phone && <span className="ml-2 text-gray-500">{client.phone}</span>}
+                        </span>
+                        <span className="text-xs text-gray-500">{client.total_orders} pedidos</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {linkedClient ? (
+                  <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <Badge variant="secondary">Cliente vinculado</Badge>
+                    <span>{linkedClient.total_orders} pedidos · {formatCurrency(linkedClient.total_spent)}</span>
+                    <button
+                      type="button"
+                      onClick={() => setValue('clientId', undefined)}
+                      className="text-blue-600 hover:underline"
+                    >
+                      Cambiar
+                    </button>
+                  </div>
+                ) : clientName.trim().length >= 2 && (
+                  <p className="text-xs text-gray-500">
+                    Se creará un cliente nuevo si no eliges uno de la lista
+                  </p>
+                )}
                 {errors.clientName && (
                   <p className="text-sm text-red-500">{errors.clientName.message}</p>
                 )}
@@ -335,7 +579,7 @@ _${new Date().toLocaleString('es-MX')}_`;
                 <Label htmlFor="clientPhone">Teléfono (Opcional)</Label>
                 <Input
                   id="clientPhone"
-                  {...register('clientPhone')}
+                  {...register('clientPhone', { onChange: () => setShowClientSuggestions(true) })}
                   placeholder="+52 555 123 4567"
                   className={errors.clientPhone ? 'border-red-500' : ''}
                 />
@@ -382,6 +626,39 @@ _${new Date().toLocaleString('es-MX')}_`;
                 )}
               </div>
             </div>
+
+            {capacityCheck.isFull && (
+              <div
+                className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border p-3 text-sm ${
+                  isBlocked
+                    ? 'border-red-300 bg-red-50 text-red-800 dark:border-red-800 dark:bg-red-900/20 dark:text-red-300'
+                    : 'border-amber-300 bg-amber-50 text-amber-800 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-300'
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span>
+                    {capacityCheck.dayFull
+                      ? `Este día ya tiene ${capacityCheck.dayCount} de ${capacityCheck.dayLimit} pedidos.`
+                      : `La franja de las ${capacityCheck.slot} ya tiene ${capacityCheck.slotCount} de ${capacityCheck.slotLimit} pedidos.`}
+                    {isBlocked && ' No se pueden tomar más pedidos.'}
+                  </span>
+                </div>
+                {suggestion && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setValue('deliveryDate', suggestion.date, { shouldValidate: true });
+                      if (suggestion.time) setValue('deliveryTime', suggestion.time);
+                    }}
+                  >
+                    Usar {formatDate(fromLocalDateKey(suggestion.date).toISOString())}{suggestion.time ? ` ${suggestion.time}` : ''}
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
 
           <Separator />
@@ -393,17 +670,59 @@ _${new Date().toLocaleString('es-MX')}_`;
                 <Package className="w-4 h-4" />
                 Productos ({fields.length})
               </h3>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={addItem}
-              >
-                <Plus className="w-4 h-4 mr-2" />
-                Agregar Producto
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSaveTemplate}
+                  disabled={!linkedClient || saveTemplate.isPending}
+                  title={linkedClient ? undefined : 'Vincula un cliente para guardar plantillas'}
+                >
+                  <Bookmark className="w-4 h-4 mr-2" />
+                  Guardar como plantilla
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addItem}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Agregar Producto
+                </Button>
+              </div>
             </div>
 
+            {/* Plantillas del cliente */}
+            {templates.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-500">Plantillas:</span>
+                {templates.map(template => (
+                  <span
+                    key={template.id}
+                    className="inline-flex items-center rounded-full border bg-gray-50 dark:bg-gray-800"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => applyTemplate(template)}
+                      className="px-3 py-1 hover:text-blue-600"
+                    >
+                      {template.name} ({template.items.length})
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => template.id !== undefined && deleteTemplate.mutate(template.id)}
+                      className="pr-2 text-gray-400 hover:text-red-600"
+                      aria-label={`Eliminar plantilla ${template.name}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
             <div className="space-y-3">
               {fields.map((field, index) => (
                 <Card key={field.id} className="p-4">
@@ -411,25 +730,45 @@ _${new Date().toLocaleString('es-MX')}_`;
                     {/* Product Name */}
                     <div className="md:col-span-5 space-y-2">
                       <Label>Producto *</Label>
-                      <Input
-                        {...register(`items.${index}.productName`)}
-                        placeholder="Nombre del producto"
-                        className={errors.items?.[index]?.productName ? 'border-red-500' : ''}
-                        list={`products-${index}`}
+                      <ProductCombobox
+                        products={products}
+                        value={items[index]?.productName ?? ''}
+                        linked={!!items[index]?.productId}
+                        onChange={(name) => changeProductName(index, name)}
+                        onSelect={(product) => selectProduct(index, product)}
+                        invalid={!!errors.items?.[index]?.productName}
                       />
-                      
-                      {/* Product suggestions datalist */}
-                      <datalist id={`products-${index}`}>
-                        {products?.map((product: unknown) => (
-                          <option key={(product as { id: string }).id} value={(product as { name: string }).name} />
-                        ))}
-                      </datalist>
-                      
+
                       {errors.items?.[index]?.productName && (
                         <p className="text-sm text-red-500">
                           {errors.items[index].productName.message}
                         </p>
                       )}
+                      {getOptionsProduct(index) && (
+                        <div className="flex items-center justify-between gap-2 text-sm text-gray-600">
+                          <span className="truncate">
+                            {describeItemOptions(toItemOptions(items[index])) || 'Sin opciones elegidas'}
+                          </span>
+                          <Button
+                            type="button"
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0"
+                            onClick={() => {
+                              const product = getOptionsProduct(index);
+                              if (product) setOptionsFor({ index, product });
+                            }}
+                          >
+                            Cambiar opciones
+                          </Button>
+                        </div>
+                      )}
+                      {getStockWarning(index) && (
+                        <p className="flex items-center gap-1 text-sm text-amber-600">
+                          <AlertTriangle className="w-3 h-3" />
+                          Solo hay {getStockWarning(index)?.available} en existencia (pides {getStockWarning(index)?.requested})
+                        </p>
+                      )}
                     </div>
 
                     {/* Quantity */}
@@ -498,7 +837,21 @@ _${new Date().toLocaleString('es-MX')}_`;
 
           {/* Total */}
           <Card className="bg-muted/50">
-            <CardContent className="p-4">
+            <CardContent className="p-4 space-y-1">
+              {totals.taxes.length > 0 && (
+                <>
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <span>Subtotal</span>
+                    <span>{formatCurrency(totals.subtotal)}</span>
+                  </div>
+                  {totals.taxes.map(line => (
+                    <div key={line.rate} className="flex justify-between text-sm text-muted-foreground">
+                      <span>{getTaxLineLabel(line)}</span>
+                      <span>{formatCurrency(line.amount)}</span>
+                    </div>
+                  ))}
+                </>
+              )}
               <div className="flex items-center justify-between text-lg font-bold">
                 <span className="flex items-center gap-2">
                   <Calculator className="w-5 h-5" />
@@ -511,6 +864,52 @@ _${new Date().toLocaleString('es-MX')}_`;
             </CardContent>
           </Card>
 
+          {/* Anticipo */}
+          {!isEditing && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="depositAmount" className="flex items-center gap-2">
+                  <Banknote className="w-4 h-4" />
+                  Anticipo (Opcional)
+                </Label>
+                <Input
+                  id="depositAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  {...register('depositAmount', { setValueAs: (value: string) => (value === '' ? undefined : Number(value)) })}
+                  placeholder="0.00"
+                  className={errors.depositAmount ? 'border-red-500' : ''}
+                />
+                {errors.depositAmount && (
+                  <p className="text-sm text-red-500">{errors.depositAmount.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Forma de pago</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {PAYMENT_METHODS.map(option => (
+                    <Button
+                      key={option}
+                      type="button"
+                      size="sm"
+                      variant={depositMethod === option ? 'default' : 'outline'}
+                      onClick={() => setValue('depositMethod', option)}
+                    >
+                      {PAYMENT_METHOD_LABELS[option]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {depositMethod !== 'cash' && (
+                <div className="space-y-2">
+                  <Label htmlFor="depositReference">Referencia (Opcional)</Label>
+                  <Input id="depositReference" {...register('depositReference')} placeholder="Folio o terminación" />
+                </div>
+              )}
+            </div>
+          )}
+
           <Separator />
 
           {/* Notas */}
@@ -555,6 +954,17 @@ _${new Date().toLocaleString('es-MX')}_`;
             </Button>
           </div>
         </form>
+
+        <ProductOptionsDialog
+          product={optionsFor?.product ?? null}
+          initialVariantId={optionsFor ? items[optionsFor.index]?.variantId : undefined}
+          initialModifierIds={optionsFor ? items[optionsFor.index]?.modifiers?.map(m => m.modifier_id) ?? [] : []}
+          onConfirm={(choice) => {
+            if (optionsFor) applyProduct(optionsFor.index, optionsFor.product, choice);
+            setOptionsFor(null);
+          }}
+          onClose={() => setOptionsFor(null)}
+        />
       </CardContent>
     </Card>
   );
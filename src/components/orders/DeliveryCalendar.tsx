@@ -0,0 +1,325 @@
+import { useMemo, useState } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight, Settings } from 'lucide-react';
+import { useOrders } from '../../hooks/useOrders.ts';
+import { useDeliveryCapacity } from '../../hooks/useDeliveryCapacity.ts';
+import { toLocalDateKey } from '../../lib/offline/orderMapper.ts';
+import { addDays, checkDeliveryCapacity, getCapacityLevel, getDaySlots, getSlotStart } from '../../lib/orders/capacity.ts';
+import { getFolioLabel } from '../../lib/orders/folio.ts';
+import { Badge, Button, Card, CardContent, Dialog, DialogContent } from '../ui/index.ts';
+import { CreateOrder } from './CreateOrder.tsx';
+import { DeliveryCapacitySettings } from './DeliveryCapacitySettings.tsx';
+import { OrderDetails } from './OrderDetails.tsx';
+import type { CapacityLevel } from '../../lib/orders/capacity.ts';
+import type { Order, OrderQuery } from '../../types/index.ts';
+
+interface DeliveryCalendarProps {
+  businessId: string;
+}
+
+type CalendarView = 'month' | 'week' | 'day';
+
+const VIEW_LABELS: Record<CalendarView, string> = {
+  month: 'Mes',
+  week: 'Semana',
+  day: 'Día',
+};
+
+const WEEKDAY_LABELS = ['Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb', 'Dom'];
+const NO_TIME_SLOT = 'Sin hora';
+
+const LEVEL_COLORS: Record<CapacityLevel, string> = {
+  free: 'bg-white dark:bg-gray-900',
+  busy: 'bg-amber-50 dark:bg-amber-900/20',
+  full: 'bg-red-50 dark:bg-red-900/20',
+};
+
+const LEVEL_BADGES: Record<CapacityLevel, string> = {
+  free: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  busy: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  full: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+};
+
+// Las fechas de entrega son YYYY-MM-DD: se formatean en UTC para no correr el día
+const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('es-MX', { ...options, timeZone: 'UTC' });
+
+const getWeekStart = (date: string) => {
+  const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7; // Lunes = 0
+  return addDays(date, -weekday);
+};
+
+const getVisibleRange = (view: CalendarView, date: string): Required<Pick<OrderQuery, 'fromDate' | 'toDate'>> => {
+  if (view === 'day') return { fromDate: date, toDate: date };
+  if (view === 'week') {
+    const fromDate = getWeekStart(date);
+    return { fromDate, toDate: addDays(fromDate, 6) };
+  }
+  // Mes: 6 semanas completas desde el lunes anterior al día 1
+  const fromDate = getWeekStart(`${date.slice(0, 7)}-01`);
+  return { fromDate, toDate: addDays(fromDate, 41) };
+};
+
+const shiftDate = (view: CalendarView, date: string, direction: 1 | -1) => {
+  if (view === 'day') return addDays(date, direction);
+  if (view === 'week') return addDays(date, 7 * direction);
+  const month = new Date(`${date.slice(0, 7)}-01T00:00:00Z`);
+  month.setUTCMonth(month.getUTCMonth() + direction);
+  return month.toISOString().slice(0, 10);
+};
+
+const byDeliveryTime = (a: Order, b: Order) =>
+  (a.delivery_time ?? '99:99').localeCompare(b.delivery_time ?? '99:99');
+
+export function DeliveryCalendar({ businessId }: DeliveryCalendarProps) {
+  const today = toLocalDateKey();
+  const [view, setView] = useState<CalendarView>('month');
+  const [date, setDate] = useState(today);
+  const [showSettings, setShowSettings] = useState(false);
+  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [duplicateOrder, setDuplicateOrder] = useState<Order | null>(null);
+
+  const range = useMemo(() => getVisibleRange(view, date), [view, date]);
+  const { orders, isLoading, updateOrderStatus, addPayment } = useOrders(businessId, range);
+  const { capacity } = useDeliveryCapacity(businessId);
+
+  const ordersByDate = useMemo(() => {
+    const grouped = new Map<string, Array<Order>>();
+    for (const order of orders) {
+      const day = order.delivery_date.slice(0, 10);
+      grouped.set(day, [...(grouped.get(day) ?? []), order]);
+    }
+    for (const dayOrders of grouped.values()) dayOrders.sort(byDeliveryTime);
+    return grouped;
+  }, [orders]);
+
+  const title = view === 'month'
+    ? formatDay(date, { month: 'long', year: 'numeric' })
+    : view === 'week'
+      ? `${formatDay(range.fromDate, { day: 'numeric', month: 'short' })} – ${formatDay(range.toDate, { day: 'numeric', month: 'short', year: 'numeric' })}`
+      : formatDay(date, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+  const handleDuplicate = (order: Order) => {
+    setSelectedOrder(null);
+    setDuplicateOrder(order);
+  };
+
+  const openDay = (day: string) => {
+    setDate(day);
+    setView('day');
+  };
+
+  const renderOrderChip = (order: Order) => (
+    <button
+      key={order.id}
+      type="button"
+      onClick={() => setSelectedOrder(order)}
+      className={`w-full text-left rounded px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 truncate ${
+        order.status === 'cancelled' ? 'line-through opacity-60' : ''
+      }`}
+    >
+      {order.delivery_time && <span className="font-medium mr-1">{order.delivery_time}</span>}
+      {order.client_name}
+      <span className="ml-1 text-gray-500">{getFolioLabel(order)}</span>
+    </button>
+  );
+
+  const renderMonth = () => {
+    const days = Array.from({ length: 42 }, (_, index) => addDays(range.fromDate, index));
+    const month = date.slice(0, 7);
+
+    return (
+      <div className="grid grid-cols-7 gap-px rounded-lg overflow-hidden border bg-gray-200 dark:bg-gray-700">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label} className="bg-gray-50 dark:bg-gray-800 p-2 text-center text-xs font-medium text-gray-600 dark:text-gray-400">
+            {label}
+          </div>
+        ))}
+        {days.map(day => {
+          const check = checkDeliveryCapacity(ordersByDate.get(day) ?? [], capacity, day);
+          const level = getCapacityLevel(check.dayCount, check.dayLimit);
+          return (
+            <button
+              key={day}
+              type="button"
+              onClick={() => openDay(day)}
+              className={`min-h-[5rem] p-2 text-left align-top transition-colors hover:ring-2 hover:ring-inset hover:ring-blue-300 ${LEVEL_COLORS[level]} ${
+                day.startsWith(month) ? '' : 'opacity-50'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className={`text-sm ${day === today ? 'font-bold text-blue-600' : ''}`}>
+                  {Number(day.slice(8))}
+                </span>
+                {check.dayCount > 0 && (
+                  <span className={`rounded-full px-2 text-xs font-medium ${LEVEL_BADGES[level]}`}>
+                    {check.dayLimit === null ? check.dayCount : `${check.dayCount}/${check.dayLimit}`}
+                  </span>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderWeek = () => {
+    const days = Array.from({ length: 7 }, (_, index) => addDays(range.fromDate, index));
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
+        {days.map((day, index) => {
+          const dayOrders = ordersByDate.get(day) ?? [];
+          const check = checkDeliveryCapacity(dayOrders, capacity, day);
+          const level = getCapacityLevel(check.dayCount, check.dayLimit);
+          return (
+            <Card key={day} className={LEVEL_COLORS[level]}>
+              <CardContent className="p-3 space-y-2">
+                <button type="button" onClick={() => openDay(day)} className="flex w-full items-center justify-between">
+                  <span className={`text-sm font-medium ${day === today ? 'text-blue-600' : ''}`}>
+                    {WEEKDAY_LABELS[index]} {Number(day.slice(8))}
+                  </span>
+                  <span className={`rounded-full px-2 text-xs font-medium ${LEVEL_BADGES[level]}`}>
+                    {check.dayLimit === null ? check.dayCount : `${check.dayCount}/${check.dayLimit}`}
+                  </span>
+                </button>
+                <div className="space-y-1">{dayOrders.map(renderOrderChip)}</div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderDay = () => {
+    const dayOrders = ordersByDate.get(date) ?? [];
+    const slots = new Map<string, Array<Order>>(getDaySlots(capacity).map(slot => [slot, []]));
+    for (const order of dayOrders) {
+      const slot = order.delivery_time ? getSlotStart(order.delivery_time, capacity) : NO_TIME_SLOT;
+      slots.set(slot, [...(slots.get(slot) ?? []), order]);
+    }
+    const slotKeys = [...slots.keys()].sort((a, b) => (a === NO_TIME_SLOT ? 1 : b === NO_TIME_SLOT ? -1 : a.localeCompare(b)));
+    const dayCheck = checkDeliveryCapacity(dayOrders, capacity, date);
+
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {dayCheck.dayLimit === null
+            ? `${dayCheck.dayCount} pedidos`
+            : `${dayCheck.dayCount} de ${dayCheck.dayLimit} pedidos del día`}
+        </p>
+        {slotKeys.map(slot => {
+          const slotOrders = slots.get(slot) ?? [];
+          const check = slot === NO_TIME_SLOT ? undefined : checkDeliveryCapacity(dayOrders, capacity, date, slot);
+          const level = check ? getCapacityLevel(check.slotCount, check.slotLimit) : 'free';
+          return (
+            <div key={slot} className={`flex gap-4 rounded-lg border p-3 ${LEVEL_COLORS[level]}`}>
+              <div className="w-20 shrink-0">
+                <p className="font-medium">{slot}</p>
+                {check && (
+                  <span className={`rounded-full px-2 text-xs font-medium ${LEVEL_BADGES[level]}`}>
+                    {check.slotLimit === null ? check.slotCount : `${check.slotCount}/${check.slotLimit}`}
+                  </span>
+                )}
+              </div>
+              <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-1">
+                {slotOrders.length === 0
+                  ? <span className="text-sm text-gray-400">Libre</span>
+                  : slotOrders.map(renderOrderChip)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="w-6 h-6 text-gray-700 dark:text-gray-300" />
+          <h1 className="text-2xl font-bold capitalize">{title}</h1>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="sm" onClick={() => setDate(shiftDate(view, date, -1))} aria-label="Anterior">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setDate(today)}>
+              Hoy
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setDate(shiftDate(view, date, 1))} aria-label="Siguiente">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex rounded-md border">
+            {(Object.keys(VIEW_LABELS) as Array<CalendarView>).map(option => (
+              <Button
+                key={option}
+                variant={view === option ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setView(option)}
+              >
+                {VIEW_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+          <Button variant={showSettings ? 'default' : 'outline'} size="sm" onClick={() => setShowSettings(prev => !prev)}>
+            <Settings className="w-4 h-4 mr-2" />
+            Capacidad
+          </Button>
+        </div>
+      </div>
+
+      {showSettings && <DeliveryCapacitySettings businessId={businessId} />}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          {view === 'month' && renderMonth()}
+          {view === 'week' && renderWeek()}
+          {view === 'day' && renderDay()}
+        </>
+      )}
+
+      {capacity.maxOrdersPerDay === null && capacity.maxOrdersPerSlot === null && (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Badge variant="outline">Sin límites</Badge>
+          Configura la capacidad para ver qué días y horarios están llenos.
+        </div>
+      )}
+
+      {/* Order Details Dialog */}
+      {selectedOrder && (
+        <OrderDetails
+          order={orders.find(order => order.id === selectedOrder.id) ?? selectedOrder}
+          onStatusChange={(orderId, status, reason, payment) =>
+            updateOrderStatus.mutate({ orderId, status, ...(reason && { reason }), ...(payment && { payment }) })
+          }
+          onAddPayment={(orderId, payment) => addPayment.mutate({ orderId, payment })}
+          onDuplicate={handleDuplicate}
+          onClose={() => setSelectedOrder(null)}
+        />
+      )}
+
+      {/* Duplicate Order Dialog */}
+      <Dialog open={!!duplicateOrder} onOpenChange={(open) => !open && setDuplicateOrder(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto p-0">
+          {duplicateOrder && (
+            <CreateOrder
+              businessId={businessId}
+              duplicateFrom={duplicateOrder}
+              onCancel={() => setDuplicateOrder(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { useDeliveryCapacity } from '../../hooks/useDeliveryCapacity.ts';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '../ui/index.ts';
+import type { DeliveryCapacity } from '../../types/index.ts';
+
+interface DeliveryCapacitySettingsProps {
+  businessId: string;
+}
+
+const SLOT_OPTIONS = [30, 60, 120];
+
+// Campo vacío = sin límite
+const toLimit = (value: string): number | null => {
+  const limit = parseInt(value, 10);
+  return Number.isNaN(limit) || limit <= 0 ? null : limit;
+};
+
+export function DeliveryCapacitySettings({ businessId }: DeliveryCapacitySettingsProps) {
+  const { capacity, saveCapacity } = useDeliveryCapacity(businessId);
+  const [form, setForm] = useState<DeliveryCapacity>(capacity);
+
+  // Cargar los valores guardados cuando termina la consulta o se vuelven a guardar
+  useEffect(() => {
+    setForm(capacity);
+  }, [capacity.updatedAt]);
+
+  const updateField = <TField extends keyof DeliveryCapacity>(field: TField, value: DeliveryCapacity[TField]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = () => {
+    if (form.closingTime <= form.openingTime) {
+      toast.error('La última entrega debe ser después de la primera');
+      return;
+    }
+
+    saveCapacity.mutate({
+      maxOrdersPerDay: form.maxOrdersPerDay,
+      maxOrdersPerSlot: form.maxOrdersPerSlot,
+      slotMinutes: form.slotMinutes,
+      openingTime: form.openingTime,
+      closingTime: form.closingTime,
+      enforcement: form.enforcement
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Capacidad de entregas</CardTitle>
+        <CardDescription>
+          Deja un límite vacío para no restringirlo. Se aplica al crear o editar pedidos.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="maxOrdersPerDay">Pedidos por día</Label>
+            <Input
+              id="maxOrdersPerDay"
+              type="number"
+              min={1}
+              value={form.maxOrdersPerDay ?? ''}
+              onChange={(event) => updateField('maxOrdersPerDay', toLimit(event.target.value))}
+              placeholder="Sin límite"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="maxOrdersPerSlot">Pedidos por franja</Label>
+            <Input
+              id="maxOrdersPerSlot"
+              type="number"
+              min={1}
+              value={form.maxOrdersPerSlot ?? ''}
+              onChange={(event) => updateField('maxOrdersPerSlot', toLimit(event.target.value))}
+              placeholder="Sin límite"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Duración de la franja</Label>
+            <Select
+              value={String(form.slotMinutes)}
+              onValueChange={(value) => updateField('slotMinutes', Number(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SLOT_OPTIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="openingTime">Primera entrega</Label>
+            <Input
+              id="openingTime"
+              type="time"
+              value={form.openingTime}
+              onChange={(event) => updateField('openingTime', event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="closingTime">Última entrega</Label>
+            <Input
+              id="closingTime"
+              type="time"
+              value={form.closingTime}
+              onChange={(event) => updateField('closingTime', event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Al llenarse</Label>
+            <Select
+              value={form.enforcement}
+              onValueChange={(value) => updateField('enforcement', value as DeliveryCapacity['enforcement'])}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warn">Solo avisar</SelectItem>
+                <SelectItem value="block">Impedir nuevos pedidos</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saveCapacity.isPending}>
+            <Save className="w-4 h-4 mr-2" />
+            Guardar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
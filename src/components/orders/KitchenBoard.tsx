@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChefHat, Timer } from 'lucide-react';
+import { toast } from 'sonner';
+import { useOrders } from '../../hooks/useOrders.ts';
+import { toLocalDateKey } from '../../lib/offline/orderMapper.ts';
+import { KITCHEN_COLUMNS, formatElapsed, getItemsToPrepare, groupOrdersByStatus } from '../../lib/orders/kitchenBoard.ts';
+import { getBalanceDue } from '../../lib/orders/payments.ts';
+import { ORDER_STATUS_LABELS, canTransition } from '../../lib/orders/statusWorkflow.ts';
+import { Badge, Card, CardContent, CardHeader, CardTitle, Dialog, DialogContent, Input } from '../ui/index.ts';
+import { CreateOrder } from './CreateOrder.tsx';
+import { OrderCard } from './OrderCard.tsx';
+import { OrderDetails } from './OrderDetails.tsx';
+import { PaymentDialog } from './PaymentDialog.tsx';
+import type { DragEvent } from 'react';
+import type { OrderStatus } from '../../lib/orders/statusWorkflow.ts';
+import type { Order } from '../../types/index.ts';
+
+interface KitchenBoardProps {
+  businessId: string;
+}
+
+const TIMER_REFRESH_MS = 30 * 1000;
+const ACTIVE_STATUSES = new Set<OrderStatus>(['pending', 'preparing', 'ready']);
+
+const COLUMN_COLORS: Record<OrderStatus, string> = {
+  pending: 'border-t-orange-400',
+  preparing: 'border-t-blue-500',
+  ready: 'border-t-green-500',
+  delivered: 'border-t-gray-400',
+  cancelled: 'border-t-red-400'
+};
+
+
+// Minutos de espera a partir de los cuales el temporizador cambia de color
+const getTimerColor = (createdAt: string, now: number) => {
+  const minutes = (now - new Date(createdAt).getTime()) / 60000;
+  if (minutes >= 60) return 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300';
+  if (minutes >= 30) return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300';
+  return 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300';
+};
+
+// Reloj compartido por todos los temporizadores del tablero
+function useNow(intervalMs: number) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+}
+
+export function KitchenBoard({ businessId }: KitchenBoardProps) {
+  const [date, setDate] = useState(() => toLocalDateKey());
+  const orderQuery = useMemo(() => ({ fromDate: date, toDate: date }), [date]);
+  const { orders, isLoading, updateOrderStatus, addPayment, deleteOrder } = useOrders(businessId, orderQuery);
+  const now = useNow(TIMER_REFRESH_MS);
+  const [draggedOrder, setDraggedOrder] = useState<Order | null>(null);
+  const [dropTarget, setDropTarget] = useState<OrderStatus | null>(null);
+  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [duplicateOrder, setDuplicateOrder] = useState<Order | null>(null);
+  // Pedido arrastrado a Entregado con saldo pendiente
+  const [collectingFor, setCollectingFor] = useState<Order | null>(null);
+
+  const columns = useMemo(() => groupOrdersByStatus(orders), [orders]);
+  const itemsToPrepare = useMemo(() => getItemsToPrepare(orders), [orders]);
+
+  // ✅ Toda transición pasa por el flujo de estados; cancelar exige motivo
+  const moveOrder = (order: Order, status: OrderStatus) => {
+    if (order.status === status) return;
+    if (!canTransition(order.status, status)) {
+      toast.error(`No se puede mover un pedido de ${ORDER_STATUS_LABELS[order.status]} a ${ORDER_STATUS_LABELS[status]}`);
+      return;
+    }
+
+    let reason: string | undefined;
+    if (status === 'cancelled') {
+      reason = globalThis.prompt('Motivo de la cancelación')?.trim();
+      if (!reason) return;
+    }
+    if (status === 'delivered' && getBalanceDue(order) > 0) {
+      setCollectingFor(order);
+      return;
+    }
+
+    updateOrderStatus.mutate({ orderId: order.id, status, ...(reason && { reason }) });
+  };
+
+  const handleDuplicate = (order: Order) => {
+    setSelectedOrder(null);
+    setDuplicateOrder(order);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>, status: OrderStatus) => {
+    event.preventDefault();
+    setDropTarget(null);
+    if (draggedOrder) moveOrder(draggedOrder, status);
+    setDraggedOrder(null);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>, status: OrderStatus) => {
+    if (!draggedOrder || !canTransition(draggedOrder.status, status)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setDropTarget(status);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex items-center gap-2">
+          <ChefHat className="w-6 h-6 text-gray-700 dark:text-gray-300" />
+          <h1 className="text-2xl font-bold">Cocina</h1>
+        </div>
+        <Input
+          type="date"
+          value={date}
+          onChange={(event) => setDate(event.target.value)}
+          className="w-auto"
+          aria-label="Día de entrega"
+        />
+      </div>
+
+      {/* Totales por producto */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Por preparar</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0">
+          {itemsToPrepare.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No hay productos pendientes para este día</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {itemsToPrepare.map(item => (
+                <Badge key={item.key} variant="secondary" className="text-sm py-1">
+                  <span className="font-bold mr-1">{item.quantity}×</span>
+                  {item.product_name}
+                  <span className="ml-1 text-muted-foreground">
+                    ({item.orderCount} {item.orderCount === 1 ? 'pedido' : 'pedidos'})
+                  </span>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Columnas por estado */}
+      <div className="grid grid-flow-col auto-cols-[minmax(18rem,1fr)] gap-4 overflow-x-auto pb-4">
+        {KITCHEN_COLUMNS.map(status => (
+          <div
+            key={status}
+            onDragOver={(event) => handleDragOver(event, status)}
+            onDragLeave={() => setDropTarget(current => (current === status ? null : current))}
+            onDrop={(event) => handleDrop(event, status)}
+            className={`rounded-lg border-t-4 bg-gray-100 dark:bg-gray-800/50 p-3 space-y-3 min-h-[12rem] transition-colors ${COLUMN_COLORS[status]} ${
+              dropTarget === status ? 'ring-2 ring-blue-400 bg-blue-50 dark:bg-blue-900/20' : ''
+            } ${draggedOrder && !canTransition(draggedOrder.status, status) && draggedOrder.status !== status ? 'opacity-50' : ''}`}
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold">{ORDER_STATUS_LABELS[status]}</h2>
+              <Badge variant="outline">{columns[status].length}</Badge>
+            </div>
+
+            {columns[status].map(order => (
+              <div
+                key={order.id || order.clientGeneratedId}
+                draggable={ACTIVE_STATUSES.has(order.status)}
+                onDragStart={(event) => {
+                  event.dataTransfer.effectAllowed = 'move';
+                  setDraggedOrder(order);
+                }}
+                onDragEnd={() => {
+                  setDraggedOrder(null);
+                  setDropTarget(null);
+                }}
+                className={ACTIVE_STATUSES.has(order.status) ? 'cursor-grab active:cursor-grabbing' : ''}
+              >
+                {ACTIVE_STATUSES.has(order.status) && (
+                  <div className={`inline-flex items-center gap-1 rounded-t-md px-2 py-0.5 text-xs font-medium ${getTimerColor(order.created_at, now)}`}>
+                    <Timer className="w-3 h-3" />
+                    {formatElapsed(order.created_at, now)}
+                  </div>
+                )}
+                <OrderCard
+                  order={order}
+                  onStatusChange={(orderId, nextStatus, _reason, payment) =>
+                    updateOrderStatus.mutate({ orderId, status: nextStatus, ...(payment && { payment }) })
+                  }
+                  onDelete={(orderId) => deleteOrder.mutate(orderId)}
+                  onDuplicate={handleDuplicate}
+                  onViewDetails={setSelectedOrder}
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {/* Order Details Dialog */}
+      {selectedOrder && (
+        <OrderDetails
+          order={orders.find(order => order.id === selectedOrder.id) ?? selectedOrder}
+          onStatusChange={(orderId, status, reason, payment) =>
+            updateOrderStatus.mutate({ orderId, status, ...(reason && { reason }), ...(payment && { payment }) })
+          }
+          onAddPayment={(orderId, payment) => addPayment.mutate({ orderId, payment })}
+          onDuplicate={handleDuplicate}
+          onClose={() => setSelectedOrder(null)}
+        />
+      )}
+
+      {/* Duplicate Order Dialog */}
+      <Dialog open={!!duplicateOrder} onOpenChange={(open) => !open && setDuplicateOrder(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto p-0">
+          {duplicateOrder && (
+            <CreateOrder
+              businessId={businessId}
+              duplicateFrom={duplicateOrder}
+              onCancel={() => setDuplicateOrder(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <PaymentDialog
+        order={collectingFor}
+        mode="delivery"
+        onConfirm={(payment) => {
+          if (collectingFor) {
+            updateOrderStatus.mutate({ orderId: collectingFor.id, status: 'delivered', ...(payment && { payment }) });
+          }
+          setCollectingFor(null);
+        }}
+        onClose={() => setCollectingFor(null)}
+      />
+    </div>
+  );
+}
@@ -1,16 +1,24 @@
-import { Calendar, Clock, MoreVertical, Phone, User, Trash2 } from 'lucide-react';
-import type { Order } from '../../types/index.ts';
+import { useState } from 'react';
+import { Calendar, Clock, Copy, MoreVertical, Phone, User, Trash2 } from 'lucide-react';
+import { getFolioLabel } from '../../lib/orders/folio.ts';
+import { getOrderItemLabel } from '../../lib/orders/productOptions.ts';
+import { getBalanceDue } from '../../lib/orders/payments.ts';
 import { Badge } from '../ui/index.ts';
 import { Button } from '../ui/index.ts';
 import { Card, CardContent, CardHeader } from '../ui/index.ts';
 import { StatusBadge } from '../ui/index.ts';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from '../ui/index.ts';
 import { formatCurrency, formatDate, formatTime } from '../../lib/utils.ts';
+import { getNextStatus } from '../../lib/orders/statusWorkflow.ts';
+import { PaymentDialog } from './PaymentDialog.tsx';
+import { PaymentStatusBadge } from './PaymentStatusBadge.tsx';
+import type { NewOrderPayment, Order } from '../../types/index.ts';
 
 interface OrderCardProps {
   order: Order;
-  onStatusChange?: (orderId: string, newStatus: Order['status']) => void;
+  onStatusChange?: (orderId: string, newStatus: Order['status'], reason?: string, payment?: NewOrderPayment) => void;
   onEdit?: (order: Order) => void;
+  onDuplicate?: (order: Order) => void;
   onDelete?: (orderId: string) => void;
   onViewDetails?: (order: Order) => void;
   className?: string;
@@ -20,6 +28,7 @@ export function OrderCard({
   order,
   onStatusChange,
   onEdit,
+  onDuplicate,
   onDelete,
   onViewDetails,
   className
@@ -28,22 +37,27 @@ export function OrderCard({
     sum + (item.quantity * item.unit_price), 0
   ) || 0;
 
+  // Al entregar con saldo pendiente se ofrece cobrarlo antes
+  const [collecting, setCollecting] = useState(false);
+
   const handleStatusClick = () => {
-    const statusFlow: Record<Order['status'], Order['status']> = {
-      'pending': 'preparing',
-      'preparing': 'ready',
-      'ready': 'delivered',
-      'delivered': 'delivered', // No change
-      'cancelled': 'cancelled'  // No change
-    };
-    
-    const nextStatus = statusFlow[order.status];
-    if (nextStatus !== order.status && onStatusChange) {
+    const nextStatus = getNextStatus(order.status);
+    if (nextStatus === 'delivered' && getBalanceDue(order) > 0) {
+      setCollecting(true);
+      return;
+    }
+    if (nextStatus && onStatusChange) {
       const orderId = order.id || order.client_generated_id || '';
       onStatusChange(orderId, nextStatus);
     }
   };
 
+  const handleDeliver = (payment: NewOrderPayment | undefined) => {
+    setCollecting(false);
+    const orderId = order.id || order.client_generated_id || '';
+    onStatusChange?.(orderId, 'delivered', undefined, payment);
+  };
+
   const getStatusAction = () => {
     switch (order.status) {
       case 'pending': return 'Iniciar Preparación';
@@ -55,7 +69,7 @@ export function OrderCard({
     }
   };
 
-  const canAdvanceStatus = order.status !== 'delivered' && order.status !== 'cancelled';
+  const canAdvanceStatus = getNextStatus(order.status) !== undefined;
 
   return (
     <Card className={`transition-all duration-200 hover:shadow-md ${className}`}>
@@ -63,8 +77,9 @@ export function OrderCard({
         <div className="flex items-start justify-between">
           <div className="space-y-1">
             <div className="flex items-center gap-2">
-              <h3 className="font-semibold text-lg text-foreground">#{order.client_generated_id}</h3>
+              <h3 className="font-semibold text-lg text-foreground">{getFolioLabel(order)}</h3>
               <StatusBadge status={order.status} />
+              <PaymentStatusBadge order={order} />
             </div>
             <div className="flex items-center text-sm text-muted-foreground">
               <User className="w-4 h-4 mr-1" />
@@ -99,6 +114,12 @@ export function OrderCard({
                     Editar
                   </DropdownMenuItem>
                 )}
+                {onDuplicate && (
+                  <DropdownMenuItem onClick={() => onDuplicate(order)}>
+                    <Copy className="w-4 h-4 mr-2" />
+                    Duplicar
+                  </DropdownMenuItem>
+                )}
                 {(order.status === 'pending' || order.status === 'cancelled') && onDelete && (
                   <>
                     <DropdownMenuSeparator />
@@ -141,7 +162,7 @@ export function OrderCard({
         <div className="space-y-1">
           {order.items?.slice(0, 2).map((item, index) => (
             <div key={index} className="flex justify-between text-sm">
-              <span className="text-foreground">{item.quantity}x {item.product_name}</span>
+              <span className="text-foreground">{item.quantity}x {getOrderItemLabel(item)}</span>
               <span className="text-foreground font-medium">{formatCurrency(item.quantity * item.unit_price)}</span>
             </div>
           ))}
@@ -173,6 +194,13 @@ export function OrderCard({
           )}
         </div>
       </CardContent>
+
+      <PaymentDialog
+        order={collecting ? order : null}
+        mode="delivery"
+        onConfirm={handleDeliver}
+        onClose={() => setCollecting(false)}
+      />
     </Card>
   );
 } 
\ No newline at end of file
@@ -1,51 +1,93 @@
-import { Calendar, Clock, MessageCircle, Phone, Share2, Trash2, User } from 'lucide-react';
-import type { Order } from '../../types/index.ts';
-import { Button } from '../ui/index.ts';
-import { Card, CardContent, CardHeader, CardTitle } from '../ui/index.ts';
-import { Separator } from '../ui/index.ts';
+import { useState } from 'react';
+import { Banknote, Calendar, Clock, Copy, FileText, History, MessageCircle, Phone, Share2, Trash2, User, XCircle } from 'lucide-react';
+import { useOrderEvents } from '../../hooks/useOrderEvents.ts';
+import { useOrderInvoice } from '../../hooks/useOrderInvoice.ts';
+import { ORDER_STATUS_LABELS, canCancel, getNextStatus } from '../../lib/orders/statusWorkflow.ts';
+import { getFolioLabel } from '../../lib/orders/folio.ts';
+import { describeItemOptions, getOrderItemLabel } from '../../lib/orders/productOptions.ts';
+import { describePayment, formatPaymentsForReceipt, getAmountPaid, getBalanceDue } from '../../lib/orders/payments.ts';
+import { formatTaxesForReceipt, getOrderTotals, getTaxLineLabel } from '../../lib/orders/taxes.ts';
+import { Button, Card, CardContent, CardHeader, CardTitle, Separator, Textarea } from '../ui/index.ts';
 import { formatCurrency, formatDate, formatTime } from '../../lib/utils.ts';
+import { PaymentDialog } from './PaymentDialog.tsx';
+import { PaymentStatusBadge } from './PaymentStatusBadge.tsx';
+import type { NewOrderPayment, Order, OrderEvent } from '../../types/index.ts';
 
 interface OrderDetailsProps {
   order: Order;
-  onStatusChange?: (orderId: string, newStatus: Order['status']) => void;
+  onStatusChange?: (orderId: string, newStatus: Order['status'], reason?: string, payment?: NewOrderPayment) => void;
+  onAddPayment?: (orderId: string, payment: NewOrderPayment) => void;
   onDelete?: (orderId: string) => void;
+  onDuplicate?: (order: Order) => void;
   onClose?: () => void;
 }
 
 export function OrderDetails({ 
   order, 
   onStatusChange, 
+  onAddPayment,
   onDelete,
+  onDuplicate,
   onClose 
 }: OrderDetailsProps) {
-  const totalAmount = order.items?.reduce((sum, item) =>
-    sum + (item.quantity * item.unit_price), 0
-  ) || 0;
+  const totals = getOrderTotals(order);
 
-  const handleStatusChange = async (newStatus: Order['status']) => {
+  const { events } = useOrderEvents(order.id);
+  const { invoiceOrder, isInvoicing } = useOrderInvoice();
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const nextStatus = getNextStatus(order.status);
+  const balance = getBalanceDue(order);
+  const payments = order.payments ?? [];
+  // payment: registrar un abono; delivery: cobrar el saldo al entregar
+  const [paymentMode, setPaymentMode] = useState<'payment' | 'delivery' | null>(null);
+
+  const handleStatusChange = async (newStatus: Order['status'], reason?: string, payment?: NewOrderPayment) => {
     if (onStatusChange) {
       const orderId = order.id || order.client_generated_id || '';
-      await onStatusChange(orderId, newStatus);
+      await onStatusChange(orderId, newStatus, reason, payment);
     }
   };
 
-  const getStatusText = (status: Order['status']) => {
-    switch (status) {
-      case 'pending': return 'Pendiente';
-      case 'preparing': return 'En Preparación';
-      case 'ready': return 'Listo';
-      case 'delivered': return 'Entregado';
-      case 'cancelled': return 'Cancelado';
-      default: return status;
+  const handleAdvance = async (newStatus: Order['status']) => {
+    if (newStatus === 'delivered' && balance > 0) {
+      setPaymentMode('delivery');
+      return;
     }
+    await handleStatusChange(newStatus);
+  };
+
+  const handlePaymentConfirm = async (payment: NewOrderPayment | undefined) => {
+    const mode = paymentMode;
+    setPaymentMode(null);
+    if (mode === 'delivery') {
+      await handleStatusChange('delivered', undefined, payment);
+    } else if (payment && onAddPayment) {
+      onAddPayment(order.id || order.client_generated_id || '', payment);
+    }
+  };
+
+  const handleConfirmCancel = async () => {
+    await handleStatusChange('cancelled', cancelReason);
+    setIsCancelling(false);
+    setCancelReason('');
+  };
+
+  const getStatusText = (status: Order['status']) => ORDER_STATUS_LABELS[status];
+
+  const getEventText = (event: OrderEvent) => {
+    if (event.type === 'created') return 'Pedido creado';
+    if (event.type === 'updated') return 'Pedido editado';
+    if (event.to_status === 'cancelled') return 'Pedido cancelado';
+    return event.to_status ? `Cambió a ${getStatusText(event.to_status)}` : 'Estado actualizado';
   };
 
   const generateWhatsAppMessage = () => {
     const itemsList = order.items
-      ?.map(item => `• ${item.quantity}x ${item.product_name} - ${formatCurrency(item.quantity * item.unit_price)}`)
+      ?.map(item => `• ${item.quantity}x ${getOrderItemLabel(item)} - ${formatCurrency(item.quantity * item.unit_price)}`)
       .join('\n') || '';
 
-    const receipt = `🧾 *PEDIDO #${order.client_generated_id}*
+    const receipt = `🧾 *PEDIDO ${getFolioLabel(order)}*
 
 Cliente: ${order.client_name}
 ${order.client_phone ? `Teléfono: ${order.client_phone}` : ''}
@@ -54,9 +96,9 @@ ${order.client_phone ? `Teléfono: ${order.client_phone}` : ''}
 
 📦 *Productos:*
 ${itemsList}
-
-💰 *TOTAL: ${formatCurrency(totalAmount)}*
-
+${totals.taxes.length > 0 ? `\n${formatTaxesForReceipt(order)}` : ''}
+💰 *TOTAL: ${formatCurrency(totals.total)}*
+${payments.length > 0 ? `\n${formatPaymentsForReceipt(order)}\n` : ''}
 ${order.notes ? `\n📝 Notas: ${order.notes}` : ''}
 
 ✅ Gracias por su preferencia
@@ -73,10 +115,10 @@ _${new Date().toLocaleString('es-MX')}_`;
 
     const message = `Hola ${order.client_name}! 👋
 
-Tu pedido #${order.client_generated_id} está *${getStatusText(order.status).toUpperCase()}*
+Tu pedido ${getFolioLabel(order)} está *${getStatusText(order.status).toUpperCase()}*
 
 📅 Entrega: ${formatDate(order.delivery_date)}
-
+${payments.length > 0 ? `\n${formatPaymentsForReceipt(order)}\n` : ''}
 ¡Gracias por tu pedido! 🎉`;
 
     const whatsappUrl = `https://wa.me/${order.client_phone.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
@@ -95,7 +137,7 @@ Tu pedido #${order.client_generated_id} está *${getStatusText(order.status).toU
         <div className="flex items-center justify-between">
           <CardTitle className="flex items-center gap-2">
             <User className="w-5 h-5" />
-            <span>Pedido #{order.client_generated_id}</span>
+            <span>Pedido {getFolioLabel(order)}</span>
           </CardTitle>
           
           {onClose && (
@@ -160,6 +202,9 @@ Tu pedido #${order.client_generated_id} está *${getStatusText(order.status).toU
               >
                 <div className="flex-1">
                   <p className="font-medium">{item.product_name}</p>
+                  {describeItemOptions(item) && (
+                    <p className="text-sm text-muted-foreground">{describeItemOptions(item)}</p>
+                  )}
                   <p className="text-sm text-muted-foreground">
                     Cantidad: {item.quantity} × {formatCurrency(item.unit_price)}
                   </p>
@@ -177,9 +222,68 @@ Tu pedido #${order.client_generated_id} está *${getStatusText(order.status).toU
         <Separator />
 
         {/* Total */}
-        <div className="flex justify-between items-center text-lg font-bold">
-          <span>Total:</span>
-          <span>{formatCurrency(totalAmount)}</span>
+        <div className="space-y-1">
+          {totals.taxes.length > 0 && (
+            <>
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>Subtotal:</span>
+                <span>{formatCurrency(totals.subtotal)}</span>
+              </div>
+              {totals.taxes.map(line => (
+                <div key={line.rate} className="flex justify-between text-sm text-muted-foreground">
+                  <span>{getTaxLineLabel(line)}:</span>
+                  <span>{formatCurrency(line.amount)}</span>
+                </div>
+              ))}
+            </>
+          )}
+          <div className="flex justify-between items-center text-lg font-bold">
+            <span>Total:</span>
+            <span>{formatCurrency(totals.total)}</span>
+          </div>
+          {order.invoice_uuid && (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <FileText className="w-3 h-3" />
+              Facturado · UUID {order.invoice_uuid}
+            </p>
+          )}
+        </div>
+
+        {/* Payments */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-lg flex items-center gap-2">
+              <Banknote className="w-4 h-4" />
+              Pagos
+            </h3>
+            <PaymentStatusBadge order={order} />
+          </div>
+          {payments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Sin anticipo registrado</p>
+          ) : (
+            <ul className="space-y-1">
+              {payments.map(payment => (
+                <li key={payment.id} className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {new Date(payment.paid_at).toLocaleDateString('es-MX')} · {describePayment(payment)}
+                  </span>
+                  <span className="font-medium">{formatCurrency(payment.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-between text-sm">
+            <span>Pagado: {formatCurrency(getAmountPaid(order))}</span>
+            <span className={balance > 0 ? 'font-semibold text-red-600' : 'text-muted-foreground'}>
+              Saldo: {formatCurrency(balance)}
+            </span>
+          </div>
+          {onAddPayment && balance > 0 && order.status !== 'cancelled' && (
+            <Button variant="outline" size="sm" onClick={() => setPaymentMode('payment')}>
+              <Banknote className="w-4 h-4 mr-2" />
+              Registrar pago
+            </Button>
+          )}
         </div>
 
         {/* Notes */}
@@ -193,14 +297,78 @@ Tu pedido #${order.client_generated_id} está *${getStatusText(order.status).toU
           </>
         )}
 
+        {/* Timeline */}
+        {events.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <h3 className="font-semibold text-lg flex items-center gap-2">
+                <History className="w-4 h-4" />
+                Historial
+              </h3>
+              <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-3">
+                {events.map(event => (
+                  <li key={event.id} className="ml-4">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300 dark:border-gray-900" />
+                    <p className="text-sm font-medium">{getEventText(event)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(event.created_at).toLocaleString('es-MX')}
+                      {event.employee_name && ` · ${event.employee_name}`}
+                    </p>
+                    {event.reason && (
+                      <p className="text-xs text-muted-foreground">Motivo: {event.reason}</p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </>
+        )}
+
+        {/* Cancel with reason */}
+        {isCancelling && (
+          <div className="space-y-2 rounded-lg border border-red-200 p-3 dark:border-red-800">
+            <p className="text-sm font-medium">Motivo de la cancelación</p>
+            <Textarea
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="Ej. El cliente ya no lo necesita"
+              rows={2}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setIsCancelling(false)}>
+                Volver
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={!cancelReason.trim()}
+                onClick={handleConfirmCancel}
+              >
+                Confirmar cancelación
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex gap-2 flex-wrap">
-          {onStatusChange && (
+          {onStatusChange && nextStatus && (
             <Button 
-              onClick={() => handleStatusChange('delivered')}
+              onClick={() => handleAdvance(nextStatus)}
               className="flex-1"
             >
-              Marcar como Entregado
+              Marcar como {getStatusText(nextStatus)}
+            </Button>
+          )}
+
+          {onStatusChange && canCancel(order.status) && !isCancelling && (
+            <Button
+              variant="outline"
+              onClick={() => setIsCancelling(true)}
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              Cancelar Pedido
             </Button>
           )}
           
@@ -212,6 +380,27 @@ Tu pedido #${order.client_generated_id} está *${getStatusText(order.status).toU
             Copiar Recibo
           </Button>
           
+          {onDuplicate && (
+            <Button
+              variant="outline"
+              onClick={() => onDuplicate(order)}
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Duplicar
+            </Button>
+          )}
+
+          {order.client_id && order.status !== 'cancelled' && !order.invoice_uuid && (
+            <Button
+              variant="outline"
+              onClick={() => invoiceOrder(order)}
+              disabled={isInvoicing}
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              {isInvoicing ? 'Facturando...' : 'Facturar'}
+            </Button>
+          )}
+
           {order.client_phone && (
             <Button 
               variant="outline" 
@@ -236,6 +425,13 @@ Tu pedido #${order.client_generated_id} está *${getStatusText(order.status).toU
           )}
         </div>
       </CardContent>
+
+      <PaymentDialog
+        order={paymentMode ? order : null}
+        mode={paymentMode ?? 'payment'}
+        onConfirm={handlePaymentConfirm}
+        onClose={() => setPaymentMode(null)}
+      />
     </Card>
   );
 } 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react';
 import { Search, SortAsc, SortDesc } from 'lucide-react';
-import type { Order } from '../../types/index.ts';
+import type { NewOrderPayment, Order } from '../../types/index.ts';
+import { parseFolioNumber } from '../../lib/orders/folio.ts';
 import { OrderCard } from './OrderCard.tsx';
 import { Input } from '../ui/index.ts';
 import { Button } from '../ui/index.ts';
@@ -9,8 +10,9 @@ import { Badge } from '../ui/index.ts';
 
 interface OrdersListProps {
   orders: Order[];
-  onStatusChange?: (orderId: string, status: Order['status']) => void;
+  onStatusChange?: (orderId: string, status: Order['status'], reason?: string, payment?: NewOrderPayment) => void;
   onEdit?: (order: Order) => void;
+  onDuplicate?: (order: Order) => void;
   onDelete?: (orderId: string) => void;
   onViewDetails?: (order: Order) => void;
   className?: string;
@@ -23,6 +25,7 @@ export function OrdersList({
   orders, 
   onStatusChange, 
   onEdit, 
+  onDuplicate,
   onDelete,
   onViewDetails,
   className 
@@ -35,7 +38,7 @@ export function OrdersList({
   const filteredOrders = useMemo(() => {
     return orders.filter(order => 
       order.client_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (order.client_generated_id && order.client_generated_id.toLowerCase().includes(searchTerm.toLowerCase())) ||
+      (order.folio && order.folio.toLowerCase().includes(searchTerm.toLowerCase())) ||
       (order.client_phone && order.client_phone.includes(searchTerm))
     );
   }, [orders, searchTerm]);
@@ -51,8 +54,8 @@ export function OrdersList({
           bValue = new Date(b.delivery_date).getTime();
           break;
         case 'folio':
-          aValue = a.client_generated_id ?? undefined;
-          bValue = b.client_generated_id ?? undefined;
+          aValue = parseFolioNumber(a.folio) ?? 0;
+          bValue = parseFolioNumber(b.folio) ?? 0;
           break;
         case 'client':
           aValue = a.client_name.toLowerCase();
@@ -189,6 +192,7 @@ export function OrdersList({
               order={order}
               onStatusChange={onStatusChange || (() => {})}
               onEdit={onEdit || (() => {})}
+              {...(onDuplicate && { onDuplicate })}
               onDelete={onDelete || (() => {})}
               onViewDetails={onViewDetails || (() => {})}
             />
@@ -84,6 +84,11 @@ export function OrdersListDemo() {
     // Aquí podrías implementar la lógica de eliminación
   };
 
+  const handleDuplicate = (order: Order) => {
+    console.log('Duplicate order:', order);
+    // Aquí podrías abrir el formulario con los datos del pedido copiado
+  };
+
   const handleViewDetails = (order: Order) => {
     console.log('View details:', order);
     // Aquí podrías abrir un modal de detalles
@@ -97,6 +102,7 @@ export function OrdersListDemo() {
         onStatusChange={handleStatusChange}
         onEdit={handleEdit}
         onDelete={handleDelete}
+        onDuplicate={handleDuplicate}
         onViewDetails={handleViewDetails}
       />
     </div>
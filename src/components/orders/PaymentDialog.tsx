@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { PAYMENT_METHOD_LABELS, getBalanceDue } from '../../lib/orders/payments.ts';
+import { formatCurrency } from '../../lib/utils.ts';
+import { Button, Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, Input, Label } from '../ui/index.ts';
+import type { NewOrderPayment, Order, PaymentMethod } from '../../types/index.ts';
+
+interface PaymentDialogProps {
+  order: Order | null; // null = cerrado
+  // delivery: se abre al marcar Entregado con saldo pendiente y permite entregar sin cobrar
+  mode?: 'payment' | 'delivery';
+  onConfirm: (payment: NewOrderPayment | undefined) => void;
+  onClose: () => void;
+}
+
+const PAYMENT_METHODS = Object.keys(PAYMENT_METHOD_LABELS) as Array<PaymentMethod>;
+
+// ✅ Registrar un anticipo/abono o cobrar el saldo al entregar
+export function PaymentDialog({ order, mode = 'payment', onConfirm, onClose }: PaymentDialogProps) {
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  // Proponer el saldo completo cada vez que se abre
+  useEffect(() => {
+    if (!order) return;
+    setAmount(String(getBalanceDue(order)));
+    setMethod('cash');
+    setReference('');
+    setError(undefined);
+  }, [order]);
+
+  if (!order) return null;
+
+  const balance = getBalanceDue(order);
+  const isDelivery = mode === 'delivery';
+
+  const handleConfirm = () => {
+    const value = Number(amount);
+    if (!(value > 0)) {
+      setError('Escribe un monto mayor a cero');
+      return;
+    }
+    if (value > balance) {
+      setError(`El saldo pendiente es ${formatCurrency(balance)}`);
+      return;
+    }
+    onConfirm({ amount: value, method, ...(reference.trim() && { reference: reference.trim() }) });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{isDelivery ? 'Cobrar saldo y entregar' : 'Registrar pago'}</DialogTitle>
+          <DialogDescription>
+            {order.client_name} · Saldo pendiente {formatCurrency(balance)} de {formatCurrency(order.total)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="payment-amount">Monto</Label>
+            <Input
+              id="payment-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => {
+                setAmount(e.target.value);
+                setError(undefined);
+              }}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Forma de pago</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {PAYMENT_METHODS.map(option => (
+                <Button
+                  key={option}
+                  type="button"
+                  size="sm"
+                  variant={method === option ? 'default' : 'outline'}
+                  onClick={() => setMethod(option)}
+                >
+                  {PAYMENT_METHOD_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {method !== 'cash' && (
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">Referencia (Opcional)</Label>
+              <Input
+                id="payment-reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder={method === 'card' ? 'Terminación o autorización' : 'Folio o clave de rastreo'}
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {isDelivery ? (
+            <Button type="button" variant="outline" onClick={() => onConfirm(undefined)}>
+              Entregar sin cobrar
+            </Button>
+          ) : (
+            <Button type="button" variant="outline" onClick={onClose}>Cancelar</Button>
+          )}
+          <Button type="button" onClick={handleConfirm}>
+            {isDelivery ? 'Cobrar y entregar' : 'Registrar pago'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
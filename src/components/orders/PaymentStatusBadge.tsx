@@ -0,0 +1,32 @@
+import { PAYMENT_STATUS_LABELS, getBalanceDue, getPaymentStatus } from '../../lib/orders/payments.ts';
+import { formatCurrency } from '../../lib/utils.ts';
+import { Badge } from '../ui/index.ts';
+import type { PaymentStatus } from '../../lib/orders/payments.ts';
+import type { Order } from '../../types/index.ts';
+
+interface PaymentStatusBadgeProps {
+  order: Pick<Order, 'status' | 'total' | 'payments'>;
+  className?: string;
+}
+
+const PAYMENT_STATUS_COLORS: Record<PaymentStatus, string> = {
+  unpaid: 'border-red-200 bg-red-50 text-red-700 dark:border-red-800 dark:bg-red-950 dark:text-red-300',
+  partial: 'border-amber-200 bg-amber-50 text-amber-700 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-300',
+  paid: 'border-green-200 bg-green-50 text-green-700 dark:border-green-800 dark:bg-green-950 dark:text-green-300'
+};
+
+// ✅ Pagado / Anticipo / Sin pagar, con el saldo que falta por cobrar
+export function PaymentStatusBadge({ order, className }: PaymentStatusBadgeProps) {
+  const status = getPaymentStatus(order);
+  // Un pedido cancelado sin pagos no tiene nada que cobrar
+  if (order.status === 'cancelled' && status === 'unpaid') return null;
+
+  const balance = getBalanceDue(order);
+
+  return (
+    <Badge variant="outline" className={`${PAYMENT_STATUS_COLORS[status]} ${className ?? ''}`}>
+      {PAYMENT_STATUS_LABELS[status]}
+      {status === 'partial' && ` · Resta ${formatCurrency(balance)}`}
+    </Badge>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { AlertTriangle, Package } from 'lucide-react';
+import { getProductStock } from '../../lib/orders/inventory.ts';
+import { getActiveVariants } from '../../lib/orders/productOptions.ts';
+import { searchProducts } from '../../lib/orders/productPicker.ts';
+import { formatCurrency } from '../../lib/utils.ts';
+import { Input } from '../ui/index.ts';
+import type { CatalogProduct } from '../../lib/orders/productPicker.ts';
+
+interface ProductComboboxProps {
+  products: Array<CatalogProduct>;
+  value: string;
+  linked: boolean; // La partida está vinculada a un producto del catálogo
+  onChange: (name: string) => void; // Texto libre: la partida deja de estar vinculada
+  onSelect: (product: CatalogProduct) => void;
+  invalid?: boolean;
+}
+
+// Con variantes se muestra el precio más bajo ("desde")
+const formatPrice = (product: CatalogProduct) => {
+  const prices = getActiveVariants(product).map(variant => variant.price);
+  return prices.length > 0 ? `desde ${formatCurrency(Math.min(...prices))}` : formatCurrency(product.price);
+};
+
+// Buscador de productos por nombre, categoría o clave SAT. Si no se elige
+// ninguno, lo escrito queda como partida libre
+export function ProductCombobox({ products, value, linked, onChange, onSelect, invalid }: ProductComboboxProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const results = isOpen ? searchProducts(products, linked ? '' : value) : [];
+
+  const select = (product: CatalogProduct) => {
+    onSelect(product);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || results.length === 0) return;
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setHighlighted(prev => (prev + 1) % results.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setHighlighted(prev => (prev - 1 + results.length) % results.length);
+    } else if (event.key === 'Enter') {
+      const product = results[highlighted];
+      if (product) {
+        event.preventDefault();
+        select(product);
+      }
+    } else if (event.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        value={value}
+        onChange={(event) => {
+          onChange(event.target.value);
+          setHighlighted(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        placeholder="Buscar producto o escribir uno nuevo"
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={results.length > 0}
+        className={`${linked ? 'pl-8' : ''} ${invalid ? 'border-red-500' : ''}`}
+      />
+      {linked && <Package className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-blue-600" />}
+
+      {results.length > 0 && (
+        <div role="listbox" className="absolute z-20 mt-1 w-full max-h-72 overflow-y-auto rounded-md border bg-white dark:bg-gray-900 shadow-lg">
+          {results.map((product, index) => (
+            <button
+              key={product.id}
+              type="button"
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => select(product)}
+              className={`flex w-full items-center justify-between gap-3 px-3 py-2 text-left text-sm ${
+                index === highlighted ? 'bg-gray-100 dark:bg-gray-800' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+              }`}
+            >
+              <span className="min-w-0">
+                <span className="block truncate font-medium">{product.name}</span>
+                <span className="block truncate text-xs text-gray-500">
+                  {[product.categoryName ?? product.category, product.satCode && `SAT ${product.satCode}`]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </span>
+              </span>
+              <span className="shrink-0 text-right">
+                <span className="block">{formatPrice(product)}</span>
+                <span className={`flex items-center justify-end gap-1 text-xs ${getProductStock(product) > 0 ? 'text-gray-500' : 'text-amber-600'}`}>
+                  {getProductStock(product) <= 0 && <AlertTriangle className="w-3 h-3" />}
+                  {getProductStock(product)} en existencia
+                </span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
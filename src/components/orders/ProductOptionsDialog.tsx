@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Check } from 'lucide-react';
+import { getProductStock } from '../../lib/orders/inventory.ts';
+import { getActiveVariants, getMinSelections, resolveProductOptions } from '../../lib/orders/productOptions.ts';
+import { formatCurrency } from '../../lib/utils.ts';
+import { Button, Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/index.ts';
+import type { ModifierSelection, ProductOptionsChoice } from '../../lib/orders/productOptions.ts';
+import type { ModifierGroup, Product } from '../../types/index.ts';
+
+interface ProductOptionsDialogProps {
+  product: Product | null; // null = cerrado
+  initialVariantId?: string | undefined;
+  initialModifierIds?: Array<string>; // Al cambiar las opciones de una partida ya agregada
+  onConfirm: (choice: ProductOptionsChoice) => void;
+  onClose: () => void;
+}
+
+const describeLimits = (group: ModifierGroup) => {
+  const min = getMinSelections(group);
+  const parts = [min > 0 ? 'Obligatorio' : 'Opcional'];
+  if (group.maxSelections > 1) parts.push(`hasta ${group.maxSelections}`);
+  if (min > 1) parts.push(`mínimo ${min}`);
+  return parts.join(' · ');
+};
+
+// ✅ Elegir variante y extras de un producto al agregarlo a un pedido
+export function ProductOptionsDialog({
+  product,
+  initialVariantId,
+  initialModifierIds = [],
+  onConfirm,
+  onClose
+}: ProductOptionsDialogProps) {
+  const [variantId, setVariantId] = useState<string | undefined>(undefined);
+  const [selection, setSelection] = useState<ModifierSelection>({});
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  // Partir de lo ya elegido (o de la primera variante) cada vez que se abre
+  useEffect(() => {
+    if (!product) return;
+
+    const variants = getActiveVariants(product);
+    setVariantId(variants.some(v => v.id === initialVariantId) ? initialVariantId : variants[0]?.id);
+    setSelection(Object.fromEntries((product.modifierGroups ?? []).map(group => [
+      group.id,
+      group.modifiers.filter(m => initialModifierIds.includes(m.id)).map(m => m.id)
+    ])));
+    setError(undefined);
+  }, [product]);
+
+  if (!product) return null;
+
+  const variants = getActiveVariants(product);
+  const { choice } = resolveProductOptions(product, variantId, selection);
+  const previewPrice = choice?.unitPrice ?? variants.find(v => v.id === variantId)?.price ?? product.price;
+
+  // Grupos de una sola opción funcionan como radio; el resto como casillas
+  const toggleModifier = (group: ModifierGroup, modifierId: string) => {
+    setError(undefined);
+    setSelection(prev => {
+      const current = prev[group.id] ?? [];
+      if (current.includes(modifierId)) return { ...prev, [group.id]: current.filter(id => id !== modifierId) };
+      if (group.maxSelections === 1) return { ...prev, [group.id]: [modifierId] };
+      if (current.length >= group.maxSelections) return prev;
+      return { ...prev, [group.id]: [...current, modifierId] };
+    });
+  };
+
+  const handleConfirm = () => {
+    const result = resolveProductOptions(product, variantId, selection);
+    if (!result.choice) {
+      setError(result.error);
+      return;
+    }
+    onConfirm(result.choice);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{product.name}</DialogTitle>
+          <DialogDescription>
+            {getProductStock(product)} en existencia
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {variants.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Variante</p>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {variants.map(variant => (
+                  <button
+                    key={variant.id}
+                    type="button"
+                    onClick={() => {
+                      setVariantId(variant.id);
+                      setError(undefined);
+                    }}
+                    className={`rounded-md border px-3 py-2 text-left text-sm ${
+                      variantId === variant.id ? 'border-blue-600 bg-blue-50 dark:bg-blue-950' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    <span className="block font-medium">{variant.name}</span>
+                    <span className="block text-gray-600">{formatCurrency(variant.price)}</span>
+                    <span className={`block text-xs ${variant.stock > 0 ? 'text-gray-500' : 'text-amber-600'}`}>
+                      {variant.stock} en existencia
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(product.modifierGroups ?? []).map(group => (
+            <div key={group.id} className="space-y-2">
+              <div className="flex items-baseline justify-between">
+                <p className="text-sm font-medium">{group.name}</p>
+                <span className="text-xs text-gray-500">{describeLimits(group)}</span>
+              </div>
+              <div className="space-y-1">
+                {group.modifiers.map(modifier => {
+                  const selected = (selection[group.id] ?? []).includes(modifier.id);
+                  return (
+                    <button
+                      key={modifier.id}
+                      type="button"
+                      onClick={() => toggleModifier(group, modifier.id)}
+                      className={`flex w-full items-center justify-between rounded-md border px-3 py-2 text-sm ${
+                        selected ? 'border-blue-600 bg-blue-50 dark:bg-blue-950' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                      }`}
+                    >
+                      <span className="flex items-center gap-2">
+                        <Check className={`w-4 h-4 ${selected ? 'text-blue-600' : 'invisible'}`} />
+                        {modifier.name}
+                      </span>
+                      {modifier.priceDelta !== 0 && (
+                        <span className="text-gray-600">
+                          {modifier.priceDelta > 0 ? '+' : '-'}{formatCurrency(Math.abs(modifier.priceDelta))}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        <DialogFooter className="items-center sm:justify-between">
+          <span className="font-semibold">{formatCurrency(previewPrice)} c/u</span>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>Cancelar</Button>
+            <Button type="button" onClick={handleConfirm}>Agregar</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,329 @@
+import { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DEFAULT_DAYS_AHEAD,
+  MAX_DAYS_AHEAD,
+  WEEKDAY_LABELS,
+  parseMonthDays,
+  validateRecurringOrder
+} from '../../lib/orders/recurrence.ts';
+import { toLocalDateKey } from '../../lib/offline/orderMapper.ts';
+import { toFormItems, toTemplateItems } from '../../lib/orders/templates.ts';
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Textarea
+} from '../ui/index.ts';
+import type { RecurringOrderInput } from '../../hooks/useRecurringOrders.ts';
+import type { OrderFormData, RecurrenceRule, RecurringOrder } from '../../types/index.ts';
+
+interface RecurringOrderFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clientId: string;
+  recurringOrder?: RecurringOrder | null; // Al editar
+  defaultItems?: RecurringOrder['items']; // Partidas sugeridas al crear (último pedido)
+  onSave: (recurring: RecurringOrderInput) => void;
+  isSaving?: boolean;
+}
+
+type FormItem = OrderFormData['items'][number];
+
+const emptyItem = (): FormItem => ({ productName: '', quantity: 1, unitPrice: 0, notes: '' });
+
+export function RecurringOrderForm({
+  open,
+  onOpenChange,
+  clientId,
+  recurringOrder,
+  defaultItems = [],
+  onSave,
+  isSaving
+}: RecurringOrderFormProps) {
+  const [name, setName] = useState('');
+  const [rule, setRule] = useState<RecurrenceRule>({
+    frequency: 'weekly', weekdays: [], monthDays: [], startDate: toLocalDateKey(), skipDates: []
+  });
+  const [monthDaysText, setMonthDaysText] = useState('');
+  const [skipDate, setSkipDate] = useState('');
+  const [deliveryTime, setDeliveryTime] = useState('');
+  const [notes, setNotes] = useState('');
+  const [daysAhead, setDaysAhead] = useState(DEFAULT_DAYS_AHEAD);
+  const [items, setItems] = useState<Array<FormItem>>([emptyItem()]);
+
+  // Cargar los datos al abrir (edición) o partir del último pedido (nuevo)
+  useEffect(() => {
+    if (!open) return;
+
+    const source = recurringOrder?.items ?? defaultItems;
+    setName(recurringOrder?.name ?? '');
+    setRule(recurringOrder?.rule ?? {
+      frequency: 'weekly', weekdays: [], monthDays: [], startDate: toLocalDateKey(), skipDates: []
+    });
+    setMonthDaysText(recurringOrder?.rule.monthDays.join(', ') ?? '');
+    setDeliveryTime(recurringOrder?.deliveryTime ?? '');
+    setNotes(recurringOrder?.notes ?? '');
+    setDaysAhead(recurringOrder?.daysAhead ?? DEFAULT_DAYS_AHEAD);
+    setItems(source.length > 0 ? toFormItems(source) : [emptyItem()]);
+  }, [open, recurringOrder]);
+
+  const toggleWeekday = (day: number) => {
+    setRule(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(day)
+        ? prev.weekdays.filter(d => d !== day)
+        : [...prev.weekdays, day].sort((a, b) => a - b)
+    }));
+  };
+
+  const addSkipDate = () => {
+    if (!skipDate || rule.skipDates.includes(skipDate)) return;
+    setRule(prev => ({ ...prev, skipDates: [...prev.skipDates, skipDate].sort() }));
+    setSkipDate('');
+  };
+
+  const updateItem = (index: number, changes: Partial<FormItem>) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const handleSave = () => {
+    const { endDate, ...baseRule } = rule;
+    const recurring: RecurringOrderInput = {
+      ...(recurringOrder?.id !== undefined && { id: recurringOrder.id }),
+      clientId,
+      name: name.trim(),
+      rule: {
+        ...baseRule,
+        monthDays: parseMonthDays(monthDaysText),
+        ...(endDate && { endDate })
+      },
+      items: toTemplateItems(items),
+      ...(deliveryTime && { deliveryTime }),
+      ...(notes.trim() && { notes: notes.trim() }),
+      daysAhead
+    };
+
+    const error = validateRecurringOrder(recurring);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    onSave(recurring);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{recurringOrder ? 'Editar pedido recurrente' : 'Nuevo pedido recurrente'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurringName">Nombre</Label>
+              <Input
+                id="recurringName"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="Pan de la semana"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Se repite</Label>
+              <Select
+                value={rule.frequency}
+                onValueChange={(value) => setRule(prev => ({ ...prev, frequency: value as RecurrenceRule['frequency'] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">Cada semana</SelectItem>
+                  <SelectItem value="monthly">Cada mes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {rule.frequency === 'weekly' ? (
+            <div className="space-y-2">
+              <Label>Días de entrega</Label>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={rule.weekdays.includes(day) ? 'default' : 'outline'}
+                    onClick={() => toggleWeekday(day)}
+                  >
+                    {label.slice(0, 3)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="monthDays">Días del mes</Label>
+              <Input
+                id="monthDays"
+                value={monthDaysText}
+                onChange={(event) => setMonthDaysText(event.target.value)}
+                placeholder="1, 15"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurringStart">Desde</Label>
+              <Input
+                id="recurringStart"
+                type="date"
+                value={rule.startDate}
+                onChange={(event) => setRule(prev => ({ ...prev, startDate: event.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurringEnd">Hasta (opcional)</Label>
+              <Input
+                id="recurringEnd"
+                type="date"
+                value={rule.endDate ?? ''}
+                onChange={(event) => {
+                  const { endDate: _previous, ...rest } = rule;
+                  setRule(event.target.value ? { ...rest, endDate: event.target.value } : rest);
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurringTime">Hora de entrega</Label>
+              <Input
+                id="recurringTime"
+                type="time"
+                value={deliveryTime}
+                onChange={(event) => setDeliveryTime(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="daysAhead">Generar con (días)</Label>
+              <Input
+                id="daysAhead"
+                type="number"
+                min={0}
+                max={MAX_DAYS_AHEAD}
+                value={daysAhead}
+                onChange={(event) => setDaysAhead(parseInt(event.target.value, 10) || 0)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="skipDate">Fechas sin entrega</Label>
+            <div className="flex gap-2">
+              <Input
+                id="skipDate"
+                type="date"
+                value={skipDate}
+                onChange={(event) => setSkipDate(event.target.value)}
+              />
+              <Button type="button" variant="outline" onClick={addSkipDate} disabled={!skipDate}>
+                Agregar
+              </Button>
+            </div>
+            {rule.skipDates.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {rule.skipDates.map(date => (
+                  <span key={date} className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-sm">
+                    {date}
+                    <button
+                      type="button"
+                      onClick={() => setRule(prev => ({ ...prev, skipDates: prev.skipDates.filter(d => d !== date) }))}
+                      className="text-gray-400 hover:text-red-600"
+                      aria-label={`Quitar ${date}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Productos</Label>
+              <Button type="button" variant="outline" size="sm" onClick={() => setItems(prev => [...prev, emptyItem()])}>
+                <Plus className="w-4 h-4 mr-1" />
+                Agregar
+              </Button>
+            </div>
+            {items.map((item, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2">
+                <Input
+                  className="col-span-6"
+                  value={item.productName}
+                  onChange={(event) => updateItem(index, { productName: event.target.value })}
+                  placeholder="Producto"
+                />
+                <Input
+                  className="col-span-2"
+                  type="number"
+                  min={1}
+                  value={item.quantity}
+                  onChange={(event) => updateItem(index, { quantity: parseInt(event.target.value, 10) || 1 })}
+                />
+                <Input
+                  className="col-span-3"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={item.unitPrice}
+                  onChange={(event) => updateItem(index, { unitPrice: parseFloat(event.target.value) || 0 })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="col-span-1"
+                  onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                  disabled={items.length === 1}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurringNotes">Notas</Label>
+            <Textarea
+              id="recurringNotes"
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button onClick={handleSave} disabled={isSaving}>Guardar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Pause, Pencil, Play, Plus, Repeat, Trash2 } from 'lucide-react';
+import { useRecurringOrders } from '../../hooks/useRecurringOrders.ts';
+import { toLocalDateKey } from '../../lib/offline/orderMapper.ts';
+import { describeRecurrence, getNextOccurrence } from '../../lib/orders/recurrence.ts';
+import { formatCurrency, formatDate } from '../../lib/utils.ts';
+import { Badge, Button, Card } from '../ui/index.ts';
+import { RecurringOrderForm } from './RecurringOrderForm.tsx';
+import type { RecurringOrder } from '../../types/index.ts';
+
+interface RecurringOrdersCardProps {
+  businessId: string;
+  clientId: string;
+  defaultItems?: RecurringOrder['items'];
+}
+
+
+// Pedidos recurrentes del cliente: pausar, editar o eliminar no modifica los
+// pedidos que ya se generaron
+export function RecurringOrdersCard({ businessId, clientId, defaultItems }: RecurringOrdersCardProps) {
+  const {
+    recurringOrders,
+    saveRecurringOrder,
+    setRecurringStatus,
+    deleteRecurringOrder
+  } = useRecurringOrders(businessId, clientId);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<RecurringOrder | null>(null);
+
+  const openForm = (recurring: RecurringOrder | null) => {
+    setEditing(recurring);
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = (recurring: RecurringOrder) => {
+    if (recurring.id === undefined) return;
+    if (globalThis.confirm(`¿Eliminar "${recurring.name}"? Los pedidos ya generados se conservan.`)) {
+      deleteRecurringOrder.mutate(recurring.id);
+    }
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Repeat className="w-4 h-4" />
+          Pedidos recurrentes
+        </h2>
+        <Button size="sm" variant="outline" onClick={() => openForm(null)}>
+          <Plus className="w-4 h-4 mr-1" />
+          Nuevo
+        </Button>
+      </div>
+
+      {recurringOrders.length === 0 ? (
+        <p className="text-sm text-gray-500">Sin pedidos recurrentes</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {recurringOrders.map(recurring => {
+            const nextDate = getNextOccurrence(recurring.rule, toLocalDateKey());
+            const total = recurring.items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
+
+            return (
+              <li key={recurring.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900 dark:text-white">{recurring.name}</span>
+                    <Badge variant={recurring.status === 'active' ? 'default' : 'secondary'}>
+                      {recurring.status === 'active' ? 'Activo' : 'Pausado'}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {describeRecurrence(recurring.rule)}
+                    {recurring.deliveryTime && ` a las ${recurring.deliveryTime}`} · {formatCurrency(total)}
+                  </p>
+                  {recurring.status === 'active' && (
+                    <p className="text-xs text-gray-500">
+                      {nextDate ? `Próxima entrega: ${formatDate(nextDate)}` : 'Sin entregas próximas'}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  {recurring.id !== undefined && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => recurring.id !== undefined && setRecurringStatus.mutate({
+                        id: recurring.id,
+                        status: recurring.status === 'active' ? 'paused' : 'active'
+                      })}
+                      aria-label={recurring.status === 'active' ? 'Pausar' : 'Reanudar'}
+                    >
+                      {recurring.status === 'active' ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" onClick={() => openForm(recurring)} aria-label="Editar">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(recurring)} aria-label="Eliminar">
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <RecurringOrderForm
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        clientId={clientId}
+        recurringOrder={editing}
+        {...(defaultItems && { defaultItems })}
+        onSave={(recurring) => saveRecurringOrder.mutate(recurring, { onSuccess: () => setIsFormOpen(false) })}
+        isSaving={saveRecurringOrder.isPending}
+      />
+    </Card>
+  );
+}
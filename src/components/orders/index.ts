@@ -3,4 +3,12 @@ export { OrderCardDemo } from './OrderCardDemo.tsx';
 export { OrderDetails } from './OrderDetails.tsx';
 export { OrdersList } from './OrdersList.tsx';
 export { OrdersListDemo } from './OrdersListDemo.tsx';
-export { CreateOrder } from './CreateOrder.tsx'; 
\ No newline at end of file
+export { CreateOrder } from './CreateOrder.tsx';
+export { KitchenBoard } from './KitchenBoard.tsx';
+export { DeliveryCalendar } from './DeliveryCalendar.tsx';
+export { DeliveryCapacitySettings } from './DeliveryCapacitySettings.tsx';
+export { RecurringOrdersCard } from './RecurringOrdersCard.tsx';
+export { ProductCombobox } from './ProductCombobox.tsx';
+export { ProductOptionsDialog } from './ProductOptionsDialog.tsx';
+export { PaymentDialog } from './PaymentDialog.tsx';
+export { PaymentStatusBadge } from './PaymentStatusBadge.tsx';
@@ -43,6 +43,8 @@ export const SYNC_MESSAGES = {
 export const ENTITY_TYPES = {
   ORDER: 'order',
   PRODUCT: 'product',
+  BUSINESS_CATEGORY: 'business_category',
+  CLIENT: 'client',
 } as const
 
 // Sync actions
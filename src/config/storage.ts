@@ -7,8 +7,8 @@ export const STORAGE_CONFIG = {
   // Bucket names
   BUCKETS: {
     USER_AVATARS: 'user_avatars',
+    PRODUCT_IMAGES: 'product_images',
     // Add other buckets here as needed
-    // PRODUCT_IMAGES: 'product_images',
     // BUSINESS_LOGOS: 'business_logos',
   },
   
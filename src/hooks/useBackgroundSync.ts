@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { syncEngine } from '../services/sync-engine.ts'
 import { useAuth } from './useAuth.ts'
 
 export interface BackgroundSyncStatus {
@@ -122,6 +123,19 @@ export function useBackgroundSync() {
     }
   }, [])
 
+  // ✅ Reflejar el estado del sync engine (la cola real en IndexedDB)
+  useEffect(() => {
+    return syncEngine.subscribe((engineStatus) => {
+      safeSetSyncStatus(prev => ({
+        ...prev,
+        isSyncing: engineStatus.isSyncing,
+        lastSyncTime: engineStatus.lastSyncTime ?? prev.lastSyncTime,
+        lastSyncError: engineStatus.lastSyncError,
+        itemsSynced: engineStatus.itemsSynced
+      }))
+    })
+  }, [safeSetSyncStatus])
+
   // ✅ Service Worker message listener setup
   useEffect(() => {
     if (!(navigator.serviceWorker as unknown as ServiceWorkerContainer)) {
@@ -157,6 +171,9 @@ export function useBackgroundSync() {
       return false
     }
 
+    // El service worker solo despierta la app; quien drena la cola es el sync engine
+    void syncEngine.sync()
+
     try {
       if (!('sync' in globalThis.ServiceWorkerRegistration.prototype)) {
         console.log('⚠️ Background sync not supported')
@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { db } from '../lib/offline/db.ts';
 import { toast } from 'sonner';
 import { v4 as uuidv4 } from 'uuid';
+import { syncEngine } from '../services/sync-engine.ts';
 import type { BusinessCategory } from '../types/index.ts';
 
 export function useBusinessCategories(businessId: string) {
@@ -46,9 +47,7 @@ export function useBusinessCategories(businessId: string) {
       };
 
       await db.addBusinessCategory(category);
-
-      // TODO: Add Supabase sync when client is configured
-      console.log('Categoría creada en modo offline. Sincronización pendiente.');
+      syncEngine.requestSync();
 
       return category;
     },
@@ -76,9 +75,7 @@ export function useBusinessCategories(businessId: string) {
       for (const category of categoriesToAdd) {
         await db.addBusinessCategory(category);
       }
-
-      // TODO: Add Supabase sync when client is configured
-      console.log('Categorías por defecto creadas en modo offline.');
+      syncEngine.requestSync();
 
       return categoriesToAdd;
     },
@@ -107,14 +104,8 @@ export function useBusinessCategories(businessId: string) {
         syncStatus: 'pending' as const
       };
 
-      await db.businessCategories
-        .where('businessId')
-        .equals(businessId)
-        .and(cat => cat.categoryId === categoryId)
-        .modify(updatedData);
-
-      // TODO: Add Supabase sync when client is configured
-      console.log('Categoría actualizada en modo offline.');
+      await db.updateBusinessCategory(businessId, categoryId, updatedData);
+      syncEngine.requestSync();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['businessCategories', businessId] });
@@ -125,18 +116,12 @@ export function useBusinessCategories(businessId: string) {
   // Eliminar categoría (soft delete)
   const deleteCategory = useMutation({
     mutationFn: async (categoryId: string) => {
-      await db.businessCategories
-        .where('businessId')
-        .equals(businessId)
-        .and(cat => cat.categoryId === categoryId)
-        .modify({ 
-          isActive: false, 
-          lastModifiedAt: new Date().toISOString(),
-          syncStatus: 'pending'
-        });
-
-      // TODO: Add Supabase sync when client is configured
-      console.log('Categoría eliminada en modo offline.');
+      await db.updateBusinessCategory(businessId, categoryId, {
+        isActive: false,
+        lastModifiedAt: new Date().toISOString(),
+        syncStatus: 'pending'
+      });
+      syncEngine.requestSync();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['businessCategories', businessId] });
@@ -0,0 +1,28 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { BusinessService } from '../services/business-service.ts';
+import type { BusinessFiscalData } from '../services/business-service.ts';
+
+// Datos fiscales del negocio como emisor de las facturas
+export function useBusinessFiscalData(businessId: string) {
+  const queryClient = useQueryClient();
+
+  const { data: business, isLoading } = useQuery({
+    queryKey: ['current-business', businessId],
+    queryFn: () => BusinessService.getCurrentBusiness(),
+    enabled: !!businessId,
+  });
+
+  const saveFiscalData = useMutation({
+    mutationFn: (data: BusinessFiscalData) => BusinessService.updateFiscalData(businessId, data),
+    onSuccess: () => {
+      toast.success('Datos fiscales del negocio actualizados');
+      queryClient.invalidateQueries({ queryKey: ['current-business', businessId] });
+    },
+    onError: (saveError) => {
+      toast.error(saveError instanceof Error ? saveError.message : 'No se pudieron guardar los datos fiscales');
+    }
+  });
+
+  return { business, isLoading, saveFiscalData };
+}
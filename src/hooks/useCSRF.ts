@@ -152,101 +152,125 @@ export function useCSRF(): CSRFConfig {
   };
 }
 
-/**
- * Hook para hacer peticiones con CSRF
- */
-export function useCSRFRequest() {
-  const { sessionId, token, refreshToken } = useCSRF();
+interface CSRFRequestContext {
+  sessionId: string;
+  token: string | null;
+  refreshToken: () => Promise<string | null>;
+}
 
-  const csrfRequest = async (
-    url: string, 
-    options: RequestInit = {}
-  ): Promise<Response> => {
-    let authToken = localStorage.getItem('authToken');
-    
-    // ✅ FIX: If no auth token in localStorage, try to get from Supabase session
-    if (!authToken && supabase) {
-      try {
-        const { data: { session }, error } = await supabase.auth.getSession();
-        if (!error && session?.access_token) {
-          authToken = session.access_token;
-          console.log('✅ Using Supabase session token for request');
-        }
-      } catch (error) {
-        console.error('Error getting Supabase session for request:', error);
+async function performCSRFRequest(
+  url: string,
+  options: RequestInit,
+  { sessionId, token, refreshToken }: CSRFRequestContext
+): Promise<Response> {
+  let authToken = localStorage.getItem('authToken');
+  
+  // ✅ FIX: If no auth token in localStorage, try to get from Supabase session
+  if (!authToken && supabase) {
+    try {
+      const { data: { session }, error } = await supabase.auth.getSession();
+      if (!error && session?.access_token) {
+        authToken = session.access_token;
+        console.log('✅ Using Supabase session token for request');
       }
+    } catch (error) {
+      console.error('Error getting Supabase session for request:', error);
     }
-    
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'X-Session-ID': sessionId,
-      ...(options.headers as Record<string, string>)
-    };
-    
-    // ✅ FIX: Only include Authorization if we have a valid token
-    if (authToken) {
-      headers['Authorization'] = `Bearer ${authToken}`;
-    } else {
-      console.log('⚠️ No auth token available for request to:', url);
-      // Return a mock 401 response to prevent the request from being made
-      return new Response(JSON.stringify({ error: 'No authentication token available' }), {
-        status: 401,
-        statusText: 'Unauthorized',
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
+  }
+  
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Session-ID': sessionId,
+    ...(options.headers as Record<string, string>)
+  };
+  
+  // ✅ FIX: Only include Authorization if we have a valid token
+  if (authToken) {
+    headers['Authorization'] = `Bearer ${authToken}`;
+  } else {
+    console.log('⚠️ No auth token available for request to:', url);
+    // Return a mock 401 response to prevent the request from being made
+    return new Response(JSON.stringify({ error: 'No authentication token available' }), {
+      status: 401,
+      statusText: 'Unauthorized',
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 
-    // Agregar token CSRF SOLO para métodos que modifican datos
-    if (['POST', 'PUT', 'PATCH', 'DELETE'].includes(options.method || 'GET')) {
-      if (token) {
-        headers['X-CSRF-Token'] = token;
-        console.log('🔒 Using existing CSRF token for', options.method, url)
+  // Agregar token CSRF SOLO para métodos que modifican datos
+  if (['POST', 'PUT', 'PATCH', 'DELETE'].includes(options.method || 'GET')) {
+    if (token) {
+      headers['X-CSRF-Token'] = token;
+      console.log('🔒 Using existing CSRF token for', options.method, url)
+    } else {
+      // Si no hay token, intentar obtener uno nuevo
+      console.log('🔄 No CSRF token available, fetching new one...')
+      const newToken = await refreshToken();
+      if (newToken) {
+        headers['X-CSRF-Token'] = newToken;
+        console.log('✅ Using new CSRF token for', options.method, url)
       } else {
-        // Si no hay token, intentar obtener uno nuevo
-        console.log('🔄 No CSRF token available, fetching new one...')
-        const newToken = await refreshToken();
-        if (newToken) {
-          headers['X-CSRF-Token'] = newToken;
-          console.log('✅ Using new CSRF token for', options.method, url)
-        } else {
-          console.warn('⚠️ Still no CSRF token available after refresh')
-        }
+        console.warn('⚠️ Still no CSRF token available after refresh')
       }
     }
+  }
 
-    console.log('📤 Making request to:', url)
-    console.log('📋 Request headers:', headers)
+  console.log('📤 Making request to:', url)
+  console.log('📋 Request headers:', headers)
 
-    const response = await fetch(url, {
-      ...options,
-      headers
-    });
+  const response = await fetch(url, {
+    ...options,
+    headers
+  });
 
-    console.log('📥 Response received:', {
-      status: response.status,
-      statusText: response.statusText,
-      ok: response.ok
-    })
+  console.log('📥 Response received:', {
+    status: response.status,
+    statusText: response.statusText,
+    ok: response.ok
+  })
 
-    // Si el token expiró, refrescar y reintentar
-    if (response.status === 403 && 
-        response.headers.get('X-CSRF-Expired') === 'true') {
-      console.log('🔄 CSRF token expired, refreshing and retrying...')
-      const newToken = await refreshToken();
-      
-      // Reintentar con nuevo token
-      if (newToken) {
-        headers['X-CSRF-Token'] = newToken;
-        console.log('🔄 Retrying request with new CSRF token...');
-        return fetch(url, {
-          ...options,
-          headers
-        });
-      }
+  // Si el token expiró, refrescar y reintentar
+  if (response.status === 403 && 
+      response.headers.get('X-CSRF-Expired') === 'true') {
+    console.log('🔄 CSRF token expired, refreshing and retrying...')
+    const newToken = await refreshToken();
+    
+    // Reintentar con nuevo token
+    if (newToken) {
+      headers['X-CSRF-Token'] = newToken;
+      console.log('🔄 Retrying request with new CSRF token...');
+      return fetch(url, {
+        ...options,
+        headers
+      });
     }
+  }
 
-    return response;
-  };
+  return response;
+}
+
+/**
+ * Petición con CSRF fuera de componentes React (servicios, sync engine).
+ * Usa el mismo sessionId y token compartidos que useCSRFRequest.
+ */
+export function csrfFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  return performCSRFRequest(url, options, {
+    sessionId: getSharedSessionId(),
+    token: sharedToken,
+    refreshToken: refreshCSRFTokenSingleton
+  });
+}
+
+/**
+ * Hook para hacer peticiones con CSRF
+ */
+export function useCSRFRequest() {
+  const { sessionId, token, refreshToken } = useCSRF();
+
+  const csrfRequest = (
+    url: string, 
+    options: RequestInit = {}
+  ): Promise<Response> => performCSRFRequest(url, options, { sessionId, token, refreshToken });
 
   return { csrfRequest, token, refreshToken };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { db } from '../lib/offline/db.ts';
+import { toLocalDateKey } from '../lib/offline/orderMapper.ts';
+import { downloadCatalogFile } from '../lib/products/catalogFile.ts';
+import { getCatalogExportRows } from '../lib/products/catalogTransfer.ts';
+import { syncEngine } from '../services/sync-engine.ts';
+import { useProducts } from './useProducts.ts';
+import type { CatalogFileFormat } from '../lib/products/catalogFile.ts';
+import type { CatalogImportPlan } from '../lib/products/catalogTransfer.ts';
+
+// Importar y exportar el catálogo completo (productos locales + categorías).
+// La importación escribe offline y se sincroniza con la cola normal
+export function useCatalogTransfer(businessId: string) {
+  const queryClient = useQueryClient();
+
+  // Catálogo hidratado por el backend: la importación reconoce por nombre y
+  // la exportación incluye también los productos creados en otros dispositivos
+  const { products } = useProducts({ businessId });
+
+  // Misma clave que useBusinessCategories para compartir caché
+  const { data: categories = [] } = useQuery({
+    queryKey: ['businessCategories', businessId],
+    queryFn: () => db.getBusinessCategories(businessId),
+    enabled: !!businessId,
+  });
+
+  const importCatalog = useMutation({
+    mutationFn: async (plan: CatalogImportPlan) => {
+      const result = await db.importCatalog(businessId, plan);
+      syncEngine.requestSync();
+      return result;
+    },
+    onSuccess: ({ created, updated }) => {
+      toast.success(`Catálogo importado: ${created} nuevos, ${updated} actualizados`);
+      queryClient.invalidateQueries({ queryKey: ['products', businessId] });
+      queryClient.invalidateQueries({ queryKey: ['businessCategories', businessId] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+    },
+    onError: (importError) => {
+      toast.error(importError instanceof Error ? importError.message : 'No se pudo importar el catálogo');
+    }
+  });
+
+  const exportCatalog = async (format: CatalogFileFormat) => {
+    try {
+      await downloadCatalogFile(
+        getCatalogExportRows(products, categories),
+        format,
+        `catalogo-${toLocalDateKey()}`
+      );
+    } catch (exportError) {
+      console.error('❌ Failed to export catalog:', exportError);
+      toast.error('No se pudo exportar el catálogo');
+    }
+  };
+
+  return {
+    products,
+    categories,
+    importCatalog,
+    exportCatalog
+  };
+}
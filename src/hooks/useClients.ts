@@ -1,56 +1,90 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import { v4 as uuidv4 } from 'uuid';
+import { syncEngine } from '../services/sync-engine.ts';
+import { db } from '../lib/offline/db.ts';
 import { useOfflineSync } from './useOfflineSync.ts';
 import { useAuth } from './useAuth.ts';
 import { useCSRFRequest } from './useCSRF.ts';
-import type { Client } from '../types/index.ts';
+import type { Client, LocalClient } from '../types/index.ts';
 
 // ===== API FUNCTIONS =====
 
 const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || '';
 
+type NewClient = Omit<Client, 'id' | 'created_at' | 'updated_at' | 'business_id' | 'total_orders' | 'total_spent' | 'last_order_date' | 'is_active'>;
+
+// La UI trabaja con el id local como string, igual que con los pedidos
+const toClient = (client: LocalClient): Client => ({ ...client, id: String(client.id) });
+
 // ===== MAIN HOOK =====
 
 export function useClients() {
   const { user } = useAuth();
-  const { addPendingChange } = useOfflineSync();
+  const { isOnline } = useOfflineSync();
   const queryClient = useQueryClient();
   const { csrfRequest } = useCSRFRequest();
+  const businessId = user?.businessId || '';
 
-  // Get clients
+  // Get clients (offline-first: IndexedDB es la fuente, el backend la hidrata)
   const clientsQuery = useQuery({
-    queryKey: ['clients', user?.businessId],
+    queryKey: ['clients', businessId],
     queryFn: async () => {
-      const response = await csrfRequest(`${BACKEND_URL}/api/clients`);
-      if (!response.ok) throw new Error('Error fetching clients');
-      return response.json();
+      if (isOnline) {
+        try {
+          const response = await csrfRequest(`${BACKEND_URL}/api/clients`);
+          if (response.ok) {
+            await db.hydrateClients(businessId, await response.json());
+          } else {
+            console.warn('⚠️ Error fetching clients, using offline data:', response.status);
+          }
+        } catch (error) {
+          console.warn('⚠️ Error fetching clients, using offline data:', error);
+        }
+      }
+
+      const localClients = await db.getClientsByBusiness(businessId);
+      return localClients.map(toClient);
     },
     enabled: !!user?.businessId && !!user?.id // ✅ FIX: Ensure both user and businessId are available
   });
 
   // Create client
   const createMutation = useMutation({
-    mutationFn: async (client: Omit<Client, 'id' | 'created_at' | 'updated_at' | 'business_id' | 'total_orders' | 'total_spent' | 'last_order_date' | 'is_active'>) => {
-      const response = await csrfRequest(`${BACKEND_URL}/api/clients`, {
-        method: 'POST',
-        body: JSON.stringify(client)
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Error creating client');
+    mutationFn: async (client: NewClient) => {
+      if (!businessId) {
+        throw new Error('Business ID is required');
       }
-      return response.json();
+
+      const now = new Date().toISOString();
+      const clientGeneratedId = uuidv4();
+      const localClient: LocalClient = {
+        ...client,
+        business_id: businessId,
+        total_orders: 0,
+        total_spent: 0,
+        is_active: true,
+        created_at: now,
+        updated_at: now,
+        clientGeneratedId,
+        syncStatus: 'pending'
+      };
+
+      const id = await db.clients.add(localClient);
+      await db.addToSyncQueue({
+        entityType: 'client',
+        entityId: String(id),
+        action: 'create'
+      });
+      syncEngine.requestSync();
+
+      return toClient({ ...localClient, id });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['clients'] });
       toast.success('Cliente creado exitosamente');
     },
-    onError: (error: Error, client: Omit<Client, 'id' | 'created_at' | 'updated_at' | 'business_id' | 'total_orders' | 'total_spent' | 'last_order_date' | 'is_active'>) => {
-      // Add to offline sync if failed
-      addPendingChange({
-        type: 'create',
-        data: client
-      });
+    onError: (error: Error) => {
       toast.error(`Error al crear cliente: ${error.message}`);
     }
   });
@@ -58,26 +92,25 @@ export function useClients() {
   // Update client
   const updateMutation = useMutation({
     mutationFn: async ({ id, ...client }: Partial<Client> & { id: string }) => {
-      const response = await csrfRequest(`${BACKEND_URL}/api/clients/${id}`, {
-        method: 'PUT',
-        body: JSON.stringify(client)
+      await db.clients.update(parseInt(id), {
+        ...client,
+        updated_at: new Date().toISOString(),
+        syncStatus: 'pending'
       });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Error updating client');
-      }
-      return response.json();
+      await db.addToSyncQueue({
+        entityType: 'client',
+        entityId: id,
+        action: 'update'
+      });
+      syncEngine.requestSync();
+
+      return { id, ...client };
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['clients'] });
       toast.success('Cliente actualizado exitosamente');
     },
-    onError: (error: Error, variables: Partial<Client> & { id: string }) => {
-      const { id, ...clientData } = variables;
-      addPendingChange({
-        type: 'update',
-        data: { id, ...clientData }
-      });
+    onError: (error: Error) => {
       toast.error(`Error al actualizar cliente: ${error.message}`);
     }
   });
@@ -85,28 +118,37 @@ export function useClients() {
   // Delete client
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
-      const response = await csrfRequest(`${BACKEND_URL}/api/clients/${id}`, {
-        method: 'DELETE'
+      // Keep the server ID before the local row disappears
+      const existing = await db.clients.get(parseInt(id));
+
+      await db.clients.delete(parseInt(id));
+      await db.addToSyncQueue({
+        entityType: 'client',
+        entityId: id,
+        action: 'delete',
+        ...(existing?.serverId && { serverId: existing.serverId })
       });
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Error deleting client');
-      }
-      return response.json();
+      syncEngine.requestSync();
+
+      return id;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['clients'] });
       toast.success('Cliente eliminado exitosamente');
     },
-    onError: (error: Error, id: string) => {
-      addPendingChange({
-        type: 'delete',
-        data: { id }
-      });
+    onError: (error: Error) => {
       toast.error(`Error al eliminar cliente: ${error.message}`);
     }
   });
 
+  // Quitar un cliente recién creado cuyo pedido no se pudo guardar
+  const discardMutation = useMutation({
+    mutationFn: (id: string) => db.discardUnsyncedClient(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+    }
+  });
+
   // Get client stats
   const statsQuery = useQuery({
     queryKey: ['clients-stats', user?.businessId],
@@ -130,8 +172,10 @@ export function useClients() {
     
     // Mutations
     createClient: createMutation.mutate,
+    createClientAsync: createMutation.mutateAsync,
     updateClient: updateMutation.mutate,
     deleteClient: deleteMutation.mutate,
+    discardUnsyncedClientAsync: discardMutation.mutateAsync,
     
     // Mutation states
     isCreating: createMutation.isPending,
@@ -142,4 +186,19 @@ export function useClients() {
     refetch: clientsQuery.refetch,
     refetchStats: statsQuery.refetch,
   };
-} 
\ No newline at end of file
+}
+
+// ✅ Pedidos del cliente guardados offline. La clave empieza con 'orders' para
+// refrescarse cuando se crea, edita o cancela un pedido
+export function useClientOrders(clientId: string) {
+  const { user } = useAuth();
+  const businessId = user?.businessId || '';
+
+  const { data: orders = [], isLoading } = useQuery({
+    queryKey: ['orders', businessId, 'client', clientId],
+    queryFn: () => db.getOrdersByClient(clientId),
+    enabled: !!businessId && !!clientId,
+  });
+
+  return { orders, isLoading };
+}
@@ -0,0 +1,55 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { syncEngine } from '../services/sync-engine.ts';
+import { db } from '../lib/offline/db.ts';
+import { ConflictResolver } from '../lib/offline/conflictResolver.ts';
+import type { FieldChoice, StoredConflict } from '../lib/offline/conflictResolver.ts';
+
+interface ResolveConflictInput {
+  conflict: StoredConflict;
+  choices: Partial<Record<string, FieldChoice>>;
+}
+
+// Bandeja de conflictos de sincronización guardados en IndexedDB
+export function useConflicts() {
+  const queryClient = useQueryClient();
+
+  const { data: conflicts = [], isLoading } = useQuery({
+    queryKey: ['conflicts'],
+    queryFn: () => db.getConflicts(),
+    staleTime: 30 * 1000,
+  });
+
+  // Los conflictos de cambios enviados desde este dispositivo los detecta el SyncEngine
+  const { conflictCount: detectedCount } = useSyncExternalStore(syncEngine.subscribe, syncEngine.getStatus);
+  useEffect(() => {
+    void queryClient.invalidateQueries({ queryKey: ['conflicts'] });
+  }, [detectedCount, queryClient]);
+
+  // ✅ Aplicar la elección por campo y volver a encolar el registro resuelto
+  const resolveConflict = useMutation({
+    mutationFn: async ({ conflict, choices }: ResolveConflictInput) => {
+      const resolved = ConflictResolver.resolveFieldConflicts(conflict, choices);
+      await db.resolveConflict(conflict, resolved);
+      syncEngine.requestSync();
+      return resolved;
+    },
+    onSuccess: () => {
+      toast.success('Conflicto resuelto, los cambios se sincronizarán');
+      queryClient.invalidateQueries({ queryKey: ['conflicts'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'No se pudo resolver el conflicto');
+    }
+  });
+
+  return {
+    conflicts,
+    conflictCount: conflicts.length,
+    isLoading,
+    resolveConflict,
+  };
+}
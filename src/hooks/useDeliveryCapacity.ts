@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { BACKEND_URL } from '../config.ts';
+import { db } from '../lib/offline/db.ts';
+import {
+  CAPACITY_SEARCH_DAYS,
+  addDays,
+  checkDeliveryCapacity,
+  findNearestOpenSlot,
+  getDefaultDeliveryCapacity
+} from '../lib/orders/capacity.ts';
+import { syncEngine } from '../services/sync-engine.ts';
+import { csrfFetch } from './useCSRF.ts';
+import { useOfflineSync } from './useOfflineSync.ts';
+import type { DeliveryCapacity } from '../types/index.ts';
+
+// Traer la capacidad configurada en otro dispositivo; si el backend falla (o
+// nunca se configuró) se sigue con la local
+async function hydrateDeliveryCapacity(businessId: string): Promise<void> {
+  try {
+    const response = await csrfFetch(`${BACKEND_URL}/api/delivery-capacity/${businessId}`);
+    if (response.ok) {
+      await db.hydrateDeliveryCapacity({ ...await response.json(), businessId });
+    } else if (response.status !== 404) {
+      console.warn('⚠️ Error fetching delivery capacity, using offline data:', response.status);
+    }
+  } catch (error) {
+    console.warn('⚠️ Error fetching delivery capacity, using offline data:', error);
+  }
+}
+
+// Capacidad de entregas configurada para el negocio (offline-first: IndexedDB es la fuente)
+export function useDeliveryCapacity(businessId: string) {
+  const queryClient = useQueryClient();
+  const { isOnline } = useOfflineSync();
+
+  const { data: capacity = getDefaultDeliveryCapacity(businessId), isLoading } = useQuery({
+    queryKey: ['delivery-capacity', businessId],
+    queryFn: async () => {
+      if (isOnline) await hydrateDeliveryCapacity(businessId);
+      return await db.getDeliveryCapacity(businessId);
+    },
+    enabled: !!businessId,
+  });
+
+  const saveCapacity = useMutation({
+    mutationFn: (changes: Partial<Omit<DeliveryCapacity, 'businessId' | 'updatedAt'>>) =>
+      db.saveDeliveryCapacity({ ...capacity, ...changes, businessId }),
+    onSuccess: () => {
+      syncEngine.requestSync();
+      toast.success('Capacidad de entregas actualizada');
+      queryClient.invalidateQueries({ queryKey: ['delivery-capacity', businessId] });
+    },
+    onError: (saveError) => {
+      toast.error(saveError instanceof Error ? saveError.message : 'No se pudo guardar la capacidad');
+    }
+  });
+
+  return { capacity, isLoading, saveCapacity };
+}
+
+// ✅ Ocupación de la fecha/hora elegida y sugerencia del lugar libre más cercano.
+// La clave empieza con 'orders' para refrescarse cuando se crea o edita un pedido
+export function useDeliveryAvailability(businessId: string, date: string, time?: string, ignoreOrderId?: string) {
+  const { capacity } = useDeliveryCapacity(businessId);
+
+  const { data: orders = [] } = useQuery({
+    queryKey: ['orders', businessId, 'availability', date],
+    queryFn: () => db.queryOrders(businessId, { fromDate: date, toDate: addDays(date, CAPACITY_SEARCH_DAYS) }),
+    enabled: !!businessId && !!date,
+  });
+
+  const check = checkDeliveryCapacity(orders, capacity, date, time, ignoreOrderId);
+  const suggestion = check.isFull
+    ? findNearestOpenSlot(orders, capacity, date, time, ignoreOrderId)
+    : undefined;
+
+  return {
+    capacity,
+    check,
+    suggestion,
+    isBlocked: check.isFull && capacity.enforcement === 'block'
+  };
+}
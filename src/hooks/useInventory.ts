@@ -0,0 +1,85 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { db } from '../lib/offline/db.ts';
+import { getDefaultInventorySettings, getLowStockProducts } from '../lib/orders/inventory.ts';
+import { syncEngine } from '../services/sync-engine.ts';
+import { useProducts } from './useProducts.ts';
+import type { StockChange } from '../lib/orders/inventory.ts';
+import type { InventorySettings } from '../types/index.ts';
+
+// Inventario del negocio: configuración, productos con pocas existencias y
+// movimientos manuales (compras y ajustes). Todo funciona offline
+export function useInventory(businessId: string) {
+  const queryClient = useQueryClient();
+
+  const { data: settings = getDefaultInventorySettings(businessId) } = useQuery({
+    queryKey: ['inventory-settings', businessId],
+    queryFn: () => db.getInventorySettings(businessId),
+    enabled: !!businessId,
+  });
+
+  // Mismo catálogo que la lista de productos (IndexedDB hidratada por el backend)
+  const { products, isLoading } = useProducts({ businessId });
+
+  const lowStockProducts = getLowStockProducts(products, settings);
+
+  const saveSettings = useMutation({
+    mutationFn: (changes: Partial<Omit<InventorySettings, 'businessId' | 'updatedAt'>>) =>
+      db.saveInventorySettings({ ...settings, ...changes, businessId }),
+    onSuccess: () => {
+      toast.success('Configuración de inventario actualizada');
+      queryClient.invalidateQueries({ queryKey: ['inventory-settings', businessId] });
+    },
+    onError: (saveError) => {
+      toast.error(saveError instanceof Error ? saveError.message : 'No se pudo guardar la configuración');
+    }
+  });
+
+  const recordMovement = useMutation({
+    mutationFn: async (change: StockChange) => {
+      await db.recordStockMovements(businessId, [change]);
+      syncEngine.requestSync();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['products', businessId] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+    },
+    onError: (recordError) => {
+      toast.error(recordError instanceof Error ? recordError.message : 'No se pudo registrar el movimiento');
+    }
+  });
+
+  // Umbral propio del producto (null = usar el del negocio)
+  const setLowStockThreshold = useMutation({
+    mutationFn: async ({ productId, threshold }: { productId: number; threshold: number | null }) => {
+      const product = await db.products.get(productId);
+      if (!product) throw new Error('Producto no encontrado');
+
+      const { lowStockThreshold: _previous, ...rest } = product;
+      await db.products.put({
+        ...rest,
+        ...(threshold !== null && { lowStockThreshold: threshold }),
+        lastModifiedAt: new Date().toISOString(),
+        syncStatus: 'pending'
+      });
+      await db.addToSyncQueue({ entityType: 'product', entityId: String(productId), action: 'update' });
+      syncEngine.requestSync();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['products', businessId] });
+    }
+  });
+
+  return { settings, products, lowStockProducts, isLoading, saveSettings, recordMovement, setLowStockThreshold };
+}
+
+// Kardex de un producto
+export function useStockMovements(productId: string | undefined) {
+  const { data: movements = [], isLoading } = useQuery({
+    queryKey: ['stock-movements', productId],
+    queryFn: () => db.getStockMovements(productId ?? ''),
+    enabled: !!productId,
+  });
+
+  return { movements, isLoading };
+}
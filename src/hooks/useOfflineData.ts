@@ -1,21 +1,21 @@
 import { useCallback } from 'react'
 import { db } from '../lib/offline/db.ts'
+import { toLocalOrder, toLocalOrderChanges } from '../lib/offline/orderMapper.ts'
 import type { Order, Product } from '../types/index.ts'
 
 export function useOfflineData() {
   // Operaciones de pedidos
   const createOrder = useCallback(async (order: Omit<Order, 'id' | 'syncStatus' | 'created_at' | 'updatedAt' | 'version' | 'last_modified_at'>) => {
     const now = new Date().toISOString()
-    const newOrder: Omit<Order, 'id'> & { id?: string } = {
+    const newOrder = toLocalOrder({
       ...order,
       syncStatus: 'pending',
       created_at: now,
-      updatedAt: now,
       version: 1,
       last_modified_at: now
-    }
+    })
 
-    const id = await db.orders.add(newOrder as unknown as Order)
+    const id = await db.orders.add(newOrder)
     
     // Agregar a la cola de sincronización
     await db.addToSyncQueue({
@@ -29,12 +29,11 @@ export function useOfflineData() {
 
   const updateOrder = useCallback(async (id: number, updates: Partial<Order>) => {
     const now = new Date().toISOString()
-    const updatedOrder = {
+    const updatedOrder = toLocalOrderChanges({
       ...updates,
-      updatedAt: now,
       last_modified_at: now,
-      syncStatus: 'pending' as const
-    }
+      syncStatus: 'pending'
+    })
 
     await db.orders.update(id, updatedOrder)
     
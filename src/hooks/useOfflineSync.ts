@@ -1,178 +1,34 @@
-import { useCallback, useEffect, useRef, useState } from 'react'
-import { generateUUID } from '../lib/utils.ts'
-
-interface OfflineSyncItem {
-  id: string
-  type: 'create' | 'update' | 'delete'
-  data: unknown
-  timestamp: number
-  retries: number
-}
-
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react'
+import { db } from '../lib/offline/db.ts'
+import { syncEngine } from '../services/sync-engine.ts'
+import { ProductImageService } from '../services/product-image-service.ts'
+
+/**
+ * Estado de conexión y de la cola de sincronización.
+ *
+ * Los cambios se encolan de forma durable en `db.syncQueue` desde cada hook
+ * (useOrders, useProducts, useClients...); aquí solo se reporta el estado
+ * del sync engine y se exponen los disparadores manuales.
+ */
 export function useOfflineSync() {
-  const [pendingChanges, setPendingChanges] = useState<Array<OfflineSyncItem>>([])
-  const [pendingCount, setPendingCount] = useState(0)
+  const engineStatus = useSyncExternalStore(syncEngine.subscribe, syncEngine.getStatus)
   const [isOnline, setIsOnline] = useState(navigator.onLine)
-  const [isSyncing, setIsSyncing] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  
-  // ✅ BEST PRACTICE: Memory leak prevention
-  const isMountedRef = useRef(true)
-  // ✅ BEST PRACTICE: Prevent duplicate sync calls
-  const syncInProgressRef = useRef(false)
-
-  // ✅ BEST PRACTICE: Proper pending count management
-  const addPendingChange = useCallback((change: Omit<OfflineSyncItem, 'id' | 'timestamp' | 'retries'>) => {
-    const newItem: OfflineSyncItem = {
-      id: generateUUID(),
-      timestamp: Date.now(),
-      retries: 0,
-      ...change
-    }
 
-    setPendingChanges(prev => {
-      const updated = [...prev, newItem]
-      setPendingCount(updated.length)
-      return updated
-    })
-  }, [])
-
-  // ✅ CRITICAL FIX: Enhanced syncPendingChanges with proper guard clauses
+  // ✅ BEST PRACTICE: Guard clauses live in the engine (offline, sync in progress)
   const syncPendingChanges = useCallback(async () => {
-    // ✅ GUARD CLAUSE 1: Don't sync when offline
     if (!isOnline) {
       console.log('⚠️ Cannot sync while offline')
       return
     }
 
-    // ✅ GUARD CLAUSE 2: Don't sync when no pending changes
-    if (pendingChanges.length === 0) {
-      console.log('📝 No pending changes to sync')
-      return
-    }
-
-    // ✅ GUARD CLAUSE 3: Don't sync when already syncing (CRITICAL FIX)
-    if (isSyncing || syncInProgressRef.current) {
-      console.log('🔄 Sync already in progress, skipping duplicate sync call')
-      return
-    }
-
-    // ✅ BEST PRACTICE: Set both state and ref for immediate protection
-    setIsSyncing(true)
-    syncInProgressRef.current = true
-    setError(null)
-
-    try {
-      console.log(`🔄 Syncing ${pendingChanges.length} pending changes...`)
-
-      // ✅ BEST PRACTICE: Process each pending change with proper error handling
-      const syncPromises = pendingChanges.map(async (item) => {
-        try {
-          // ✅ BEST PRACTICE: Simulate API call with proper authentication
-          const response = await fetch(`/api/sync/${item.type}`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${localStorage.getItem('authToken')}`
-            },
-            body: JSON.stringify({
-              id: item.id,
-              data: item.data,
-              timestamp: item.timestamp
-            })
-          })
-
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-          }
-
-          const result = await response.json()
-          console.log(`✅ Synced item ${item.id}:`, result)
-          return { success: true, item, result }
-        } catch (err) {
-          console.error(`❌ Failed to sync item ${item.id}:`, err)
-          return { 
-            success: false, 
-            item, 
-            error: err instanceof Error ? err.message : 'Unknown error' 
-          }
-        }
-      })
-
-      // ✅ BEST PRACTICE: Handle results with proper error aggregation
-      const results = await Promise.allSettled(syncPromises)
-      const successful = results
-        .filter((result): result is PromiseFulfilledResult<{ success: true; item: OfflineSyncItem; result: unknown }> => 
-          result.status === 'fulfilled' && result.value.success)
-        .map(result => result.value.item)
-
-      const failed = results
-        .filter((result): result is PromiseFulfilledResult<{ success: false; item: OfflineSyncItem; error: string }> => 
-          result.status === 'fulfilled' && !result.value.success)
-        .map(result => result.value)
-
-      // ✅ BEST PRACTICE: Update state only if component is still mounted
-      if (!isMountedRef.current) return
-
-      // Remove successful items from pending list
-      if (successful.length > 0) {
-        setPendingChanges(prev => {
-          const successfulIds = new Set(successful.map(item => item.id))
-          const updated = prev.filter(item => !successfulIds.has(item.id))
-          setPendingCount(updated.length)
-          return updated
-        })
-
-        console.log(`✅ Successfully synced ${successful.length} items`)
-      }
-
-      // Handle failed items
-      if (failed.length > 0) {
-        const errorMessage = `Failed to sync ${failed.length} items`
-        setError(errorMessage)
-        console.error(`❌ ${errorMessage}:`, failed.map(f => f.error))
-        
-        // ✅ BEST PRACTICE: Increment retry count for failed items
-        setPendingChanges(prev => 
-          prev.map(item => {
-            const failedItem = failed.find(f => f.item.id === item.id)
-            if (failedItem) {
-              return { ...item, retries: item.retries + 1 }
-            }
-            return item
-          })
-        )
-      } else {
-        // ✅ CRITICAL FIX: Clear error when all items sync successfully
-        setError(null)
-      }
-
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Sync operation failed'
-      setError(errorMessage)
-      console.error('❌ Sync operation failed:', err)
-    } finally {
-      // ✅ CRITICAL FIX: Always clear both state and ref
-      if (isMountedRef.current) {
-        setIsSyncing(false)
-      }
-      syncInProgressRef.current = false
-    }
-  }, [isOnline, pendingChanges, isSyncing]) // ✅ BEST PRACTICE: Include isSyncing in dependencies
+    await syncEngine.sync()
+  }, [isOnline])
 
   // ✅ BEST PRACTICE: Network status monitoring with proper cleanup
   useEffect(() => {
     const handleOnline = () => {
-      console.log('🌐 Back online - attempting to sync pending changes')
+      console.log('🌐 Back online - sync engine will drain pending changes')
       setIsOnline(true)
-      setError(null)
-      
-      // ✅ BEST PRACTICE: Debounced sync to ensure connection stability
-      setTimeout(() => {
-        if (isMountedRef.current && pendingChanges.length > 0 && !syncInProgressRef.current) {
-          syncPendingChanges()
-        }
-      }, 1000)
     }
 
     const handleOffline = () => {
@@ -187,66 +43,42 @@ export function useOfflineSync() {
       globalThis.removeEventListener('online', handleOnline)
       globalThis.removeEventListener('offline', handleOffline)
     }
-  }, [pendingChanges, syncPendingChanges])
-
-  // ✅ BEST PRACTICE: Component cleanup
-  useEffect(() => {
-    isMountedRef.current = true
-    
-    return () => {
-      isMountedRef.current = false
-      syncInProgressRef.current = false
-    }
   }, [])
 
-  // ✅ BEST PRACTICE: Auto-sync when conditions are met
+  // ✅ El engine es un singleton: start() es idempotente (igual la cola de fotos)
   useEffect(() => {
-    if (isOnline && pendingChanges.length > 0 && !isSyncing && !syncInProgressRef.current) {
-      const timer = setTimeout(() => {
-        if (isMountedRef.current) {
-          syncPendingChanges()
-        }
-      }, 2000) // ✅ BEST PRACTICE: Wait for connection to stabilize
-
-      return () => clearTimeout(timer)
-    }
-    
-    return undefined
-  }, [isOnline, pendingChanges.length, isSyncing, syncPendingChanges])
+    syncEngine.start()
+    ProductImageService.start()
+  }, [])
 
   // ✅ BEST PRACTICE: Cleanup utility for failed items
-  const clearFailedItems = useCallback(() => {
-    setPendingChanges(prev => {
-      const cleaned = prev.filter(item => item.retries < 5) // Remove items that failed 5+ times
-      setPendingCount(cleaned.length)
-      return cleaned
-    })
+  const clearFailedItems = useCallback(async () => {
+    const removed = await db.clearFailedSyncItems()
+    console.log(`🧹 Removed ${removed} failed sync items`)
+    await syncEngine.refreshCounts()
   }, [])
 
   // ✅ BEST PRACTICE: Force sync utility (for manual triggers)
   const forceSyncPendingChanges = useCallback(async () => {
-    // Reset the sync lock and force a sync
-    syncInProgressRef.current = false
-    setIsSyncing(false)
-    await syncPendingChanges()
-  }, [syncPendingChanges])
+    await syncEngine.sync()
+  }, [])
 
   return {
     // State
-    pendingChanges,
-    pendingCount,
+    pendingCount: engineStatus.pendingCount,
+    failedCount: engineStatus.failedCount,
     isOnline,
-    isSyncing,
-    error,
-    
+    isSyncing: engineStatus.isSyncing,
+    error: engineStatus.lastSyncError,
+    lastSyncTime: engineStatus.lastSyncTime,
+
     // Actions
-    addPendingChange,
     syncPendingChanges,
-    forceSyncPendingChanges, // ✅ NEW: Force sync utility
+    forceSyncPendingChanges,
     clearFailedItems,
-    
+
     // Utilities
-    hasPendingChanges: pendingCount > 0,
-    canSync: isOnline && !isSyncing && !syncInProgressRef.current
+    hasPendingChanges: engineStatus.pendingCount > 0,
+    canSync: isOnline && !engineStatus.isSyncing
   }
-} 
\ No newline at end of file
+}
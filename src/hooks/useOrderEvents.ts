@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { db } from '../lib/offline/db.ts';
+
+// Historial (timeline) de un pedido guardado en IndexedDB
+export function useOrderEvents(orderId: string | undefined) {
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: ['order-events', orderId],
+    queryFn: () => db.getOrderEvents(orderId ?? ''),
+    enabled: !!orderId,
+  });
+
+  return { events, isLoading };
+}
@@ -0,0 +1,95 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { db } from '../lib/offline/db.ts';
+import { getCfdiIssuer, getCfdiReceiver } from '../lib/invoicing/cfdi.ts';
+import { BusinessService } from '../services/business-service.ts';
+import { InvoiceService } from '../services/invoice-service.ts';
+import { syncEngine } from '../services/sync-engine.ts';
+import { useAuth } from './useAuth.ts';
+import type { Order } from '../types/index.ts';
+
+function downloadXml(xml: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([xml], { type: 'application/xml;charset=utf-8' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Revocar en el mismo tick puede cancelar la descarga en algunos navegadores
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Facturar un pedido con los datos fiscales del negocio y del cliente vinculado.
+// Sin PAC configurado descarga el XML sin timbrar para revisarlo
+export function useOrderInvoice() {
+  const { user } = useAuth();
+  const businessId = user?.businessId || '';
+  const queryClient = useQueryClient();
+
+  const invoiceMutation = useMutation({
+    mutationFn: async (order: Order) => {
+      const localId = parseInt(order.id);
+      // Se relee el pedido: otro dispositivo pudo timbrarlo después de abrir el detalle
+      const stored = await db.orders.get(localId);
+      const invoiceUuid = stored?.invoiceUuid ?? order.invoice_uuid;
+      if (invoiceUuid) {
+        throw new Error(`El pedido ya está facturado (UUID ${invoiceUuid})`);
+      }
+      const client = order.client_id ? await db.clients.get(Number(order.client_id)) : undefined;
+      if (!client) {
+        throw new Error('Vincula el pedido a un cliente con datos fiscales para facturarlo');
+      }
+      const business = await BusinessService.getCurrentBusiness();
+      if (!business) {
+        throw new Error('No se encontró el negocio para facturar');
+      }
+
+      const issuer = getCfdiIssuer(business);
+      const options = {
+        issuer,
+        receiver: getCfdiReceiver(client, issuer),
+        products: await db.getProductsByBusiness(businessId)
+      };
+      const fileName = `factura-${order.folio ?? order.id}`;
+
+      if (!InvoiceService.getPacAdapter()) {
+        const { xml } = InvoiceService.prepare(order, options);
+        downloadXml(xml, `${fileName}-sin-timbrar.xml`);
+        return null;
+      }
+
+      const invoice = await InvoiceService.invoiceOrder(order, options);
+      await db.orders.update(localId, {
+        invoiceUuid: invoice.uuid,
+        lastModifiedAt: new Date().toISOString(),
+        syncStatus: 'pending'
+      });
+      await db.syncQueue.add({
+        entityType: 'order',
+        entityId: order.id,
+        action: 'update',
+        timestamp: new Date().toISOString(),
+        retries: 0
+      });
+      syncEngine.requestSync();
+
+      downloadXml(invoice.xml, `${fileName}.xml`);
+      return invoice;
+    },
+    onSuccess: (invoice) => {
+      if (invoice) {
+        toast.success(`Factura timbrada: ${invoice.uuid}`);
+        queryClient.invalidateQueries({ queryKey: ['orders'] });
+      } else {
+        toast.info('XML generado sin timbrar: configura un PAC para emitir la factura');
+      }
+    },
+    onError: (invoiceError) => {
+      toast.error(invoiceError instanceof Error ? invoiceError.message : 'No se pudo facturar el pedido');
+    }
+  });
+
+  return {
+    invoiceOrder: invoiceMutation.mutate,
+    isInvoicing: invoiceMutation.isPending
+  };
+}
@@ -0,0 +1,41 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { db } from '../lib/offline/db.ts';
+import type { OrderTemplate } from '../types/index.ts';
+
+type NewOrderTemplate = Omit<OrderTemplate, 'id' | 'businessId' | 'clientId' | 'createdAt' | 'updatedAt'>;
+
+// Plantillas de pedido del cliente (solo en IndexedDB, no se sincronizan)
+export function useOrderTemplates(businessId: string, clientId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = ['order-templates', businessId, clientId];
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => db.getOrderTemplates(businessId, clientId ?? ''),
+    enabled: !!businessId && !!clientId,
+  });
+
+  const saveTemplate = useMutation({
+    mutationFn: (template: NewOrderTemplate) => {
+      if (!clientId) throw new Error('Vincula un cliente para guardar la plantilla');
+      return db.saveOrderTemplate({ ...template, businessId, clientId });
+    },
+    onSuccess: (template) => {
+      toast.success(`Plantilla "${template.name}" guardada`);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (saveError) => {
+      toast.error(saveError instanceof Error ? saveError.message : 'No se pudo guardar la plantilla');
+    }
+  });
+
+  const deleteTemplate = useMutation({
+    mutationFn: (id: number) => db.deleteOrderTemplate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  });
+
+  return { templates, isLoading, saveTemplate, deleteTemplate };
+}
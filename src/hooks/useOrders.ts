@@ -1,22 +1,106 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import { syncEngine } from '../services/sync-engine.ts';
+import { fromLocalOrder, toLocalOrder } from '../lib/offline/orderMapper.ts';
+import { assertStatusTransition } from '../lib/orders/statusWorkflow.ts';
+import { getClientStatsDeltas } from '../lib/orders/clientStats.ts';
+import { assertPayment, createOrderPayment } from '../lib/orders/payments.ts';
+import { calculateOrderTotals, withTaxRates } from '../lib/orders/taxes.ts';
+import { formatCurrency } from '../lib/utils.ts';
 import { useOfflineSync } from './useOfflineSync.ts';
 import { useCSRFRequest } from './useCSRF.ts';
-import type { Order, CreateOrderData, OrderFormData } from '../types/index.ts';
+import { useAuth } from './useAuth.ts';
+import type { Order, OrderEvent, OrderItem, CreateOrderData, NewOrderPayment, OrderFormData, OrderQuery } from '../types/index.ts';
 import { convertFormDataToCreateOrderData } from '../types/index.ts';
 import { db } from '../lib/offline/db.ts';
 
 // ✅ ACTUALIZADO: Usar tipos unificados del archivo de tipos
 // interface CreateOrderData ya está definida en @/types
 
-export function useOrders(businessId: string) {
+// Quién hizo el cambio, para el historial del pedido
+type OrderActor = Pick<OrderEvent, 'employee_id' | 'employee_name'>;
+
+/**
+ * ✅ Guarda un pedido nuevo en IndexedDB y lo encola para sincronizar, todo en
+ * una transacción: el pedido, su historial, el cliente, la cola y el inventario
+ * se guardan juntos o no se guarda nada
+ */
+export async function createLocalOrder(businessId: string, orderData: CreateOrderData, actor: OrderActor = {}): Promise<Order> {
+  const newOrder = await db.inOrderTransaction(() => addLocalOrder(businessId, orderData, actor));
+  syncEngine.requestSync();
+  return newOrder;
+}
+
+// Solo escribe en IndexedDB; se llama dentro de db.inOrderTransaction (el
+// formulario vía createLocalOrder y los pedidos recurrentes)
+export async function addLocalOrder(businessId: string, orderData: CreateOrderData, actor: OrderActor = {}): Promise<Order> {
+  // IVA por partida según la configuración del negocio
+  const taxSettings = await db.getTaxSettings(businessId);
+  const items = withTaxRates(orderData.items, taxSettings.defaultTaxRate);
+  const totals = calculateOrderTotals(items, taxSettings.taxMode);
+  if (orderData.deposit) assertPayment({ status: 'pending', total: totals.total }, orderData.deposit);
+  // Folio provisional hasta que el backend asigne el definitivo
+  const folio = await db.getNextProvisionalFolio(businessId);
+
+  const order = toLocalOrder({
+    business_id: businessId,
+    branch_id: 'default-branch', // TODO: Get from context
+    employee_id: 'default-employee', // TODO: Get from context
+    ...(orderData.client_id && { client_id: orderData.client_id }),
+    ...(orderData.client_generated_id && { client_generated_id: orderData.client_generated_id }),
+    client_name: orderData.client_name,
+    ...(orderData.client_phone !== undefined && { client_phone: orderData.client_phone }),
+    ...totals,
+    tax_mode: taxSettings.taxMode,
+    delivery_date: orderData.delivery_date,
+    ...(orderData.delivery_time !== undefined && { delivery_time: orderData.delivery_time }),
+    ...(orderData.notes !== undefined && { notes: orderData.notes }),
+    status: 'pending',
+    last_modified_at: new Date().toISOString(),
+    created_at: new Date().toISOString(),
+    items: items as Array<OrderItem>, // order_id lo asigna el backend
+    ...(orderData.deposit && { payments: [createOrderPayment(orderData.deposit)] }),
+    syncStatus: 'pending',
+    folio,
+    folioProvisional: true
+  });
+
+  // Add to local database first
+  const localId = await db.orders.add(order);
+  const newOrder = fromLocalOrder({ ...order, id: localId });
+  await db.addOrderEvent({ order_id: newOrder.id, type: 'created', to_status: 'pending', ...actor });
+  await db.applyClientStatsDeltas(getClientStatsDeltas(undefined, newOrder));
+
+  // Add to sync queue
+  await db.syncQueue.add({
+    entityType: 'order',
+    entityId: localId.toString(),
+    action: 'create',
+    timestamp: new Date().toISOString(),
+    retries: 0
+  });
+  // Si el negocio descuenta al crear, el pedido ya aparta sus productos
+  await db.applyOrderStock(newOrder);
+
+  return newOrder;
+}
+
+export function useOrders(businessId: string, query: OrderQuery = {}) {
   const queryClient = useQueryClient();
   const { isOnline } = useOfflineSync();
   const { csrfRequest } = useCSRFRequest();
+  const { user } = useAuth();
 
-  // Obtener pedidos con mejor control de caché
+  const employeeName = user?.name || user?.email;
+  const actor: OrderActor = {
+    ...(user?.id && { employee_id: user.id }),
+    ...(employeeName && { employee_name: employeeName })
+  };
+
+  // Obtener pedidos: online se hidrata Dexie y siempre se lee de la consulta local,
+  // así el historial y los rangos de fechas son iguales con o sin conexión
   const { data: orders = [], isLoading, error } = useQuery({
-    queryKey: ['orders', businessId],
+    queryKey: ['orders', businessId, query],
     queryFn: async () => {
       if (isOnline) {
         const response = await csrfRequest(`/api/orders?businessId=${businessId}`);
@@ -25,13 +109,17 @@ export function useOrders(businessId: string) {
             console.log('⚠️ Unauthorized request to orders API, user may need to re-authenticate');
             throw new Error('Unauthorized - please log in again');
           }
-          throw new Error('Error fetching orders');
+          throw new Error(`Error fetching orders (${response.status})`);
+        }
+        const serverOrders = await response.json() as Array<Order>;
+        const conflicts = await db.hydrateOrders(businessId, serverOrders);
+        if (conflicts.length > 0) {
+          toast.warning(`${conflicts.length} pedido(s) cambiaron en otro dispositivo y requieren revisión`);
+          queryClient.invalidateQueries({ queryKey: ['conflicts'] });
         }
-        return response.json();
-      } else {
-        // Fallback a datos offline
-        return await db.getOrdersByBusinessAndDate(businessId, new Date().toISOString().split('T')[0] || '');
       }
+
+      return await db.queryOrders(businessId, query);
     },
     enabled: !!businessId, // ✅ FIX: Only run query when businessId is available
     staleTime: 5 * 60 * 1000, // 5 minutos - increased to reduce API calls
@@ -51,43 +139,14 @@ export function useOrders(businessId: string) {
   // ✅ ACTUALIZADO: Crear pedido usando tipos unificados
   const createOrder = useMutation({
     mutationFn: async (orderData: CreateOrderData) => {
-      // Calculate total from items
-      const total = orderData.items.reduce((sum, item) => sum + (item.quantity * item.unit_price), 0);
-
-      const order = {
-        business_id: businessId,
-        branch_id: 'default-branch', // TODO: Get from context
-        employee_id: 'default-employee', // TODO: Get from context
-        client_name: orderData.client_name,
-        client_phone: orderData.client_phone,
-        total,
-        delivery_date: orderData.delivery_date,
-        delivery_time: orderData.delivery_time,
-        notes: orderData.notes,
-        status: 'pending' as const,
-        last_modified_at: new Date().toISOString(),
-        created_at: new Date().toISOString(),
-        items: orderData.items,
-        syncStatus: 'pending' as const
-      };
-
-      // Add to local database first
-      const localId = await db.orders.add(order as unknown as Order);
-      const newOrder = { ...order, id: localId.toString() };
-
-      // Add to sync queue
-      await db.syncQueue.add({
-        entityType: 'order',
-        entityId: localId.toString(),
-        action: 'create',
-        timestamp: new Date().toISOString()
-      });
-
-      toast.success(`Pedido creado para ${newOrder.client_name}`);
+      const newOrder = await createLocalOrder(businessId, orderData, actor);
+      toast.success(`Pedido ${newOrder.folio} creado para ${newOrder.client_name}`);
       return newOrder;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
     }
   });
 
@@ -102,46 +161,197 @@ export function useOrders(businessId: string) {
     }
   });
 
+  // ✅ Editar un pedido existente: datos del cliente, entrega, notas y partidas
+  const updateOrder = useMutation({
+    mutationFn: async ({ orderId, data }: { orderId: string; data: CreateOrderData }) => {
+      const localId = parseInt(orderId);
+      const existing = await db.orders.get(localId);
+      if (!existing) {
+        throw new Error('Pedido no encontrado');
+      }
+
+      // Los pedidos conservan su forma de captura; los anteriores al desglose toman la del negocio
+      const taxSettings = await db.getTaxSettings(existing.businessId);
+      const taxMode = existing.taxMode ?? taxSettings.taxMode;
+
+      // Las partidas sin product_id (formularios sin catálogo) conservan el de la partida original
+      const items = withTaxRates(data.items, taxSettings.defaultTaxRate).map(item => ({
+        ...item,
+        product_id: item.product_id ?? existing.items.find(original => original.product_name === item.product_name)?.product_id,
+        order_id: existing.serverId ?? orderId,
+        subtotal: item.quantity * item.unit_price
+      })) as Array<OrderItem>;
+
+      const current = fromLocalOrder(existing);
+      const updated: Order = {
+        ...current,
+        client_name: data.client_name,
+        delivery_date: data.delivery_date,
+        items,
+        ...calculateOrderTotals(items, taxMode),
+        tax_mode: taxMode,
+        version: (current.version ?? 1) + 1,
+        last_modified_at: new Date().toISOString(),
+        syncStatus: 'pending'
+      };
+      delete updated.client_id;
+      delete updated.client_phone;
+      delete updated.delivery_time;
+      delete updated.notes;
+      if (data.client_id) updated.client_id = data.client_id;
+      if (data.client_phone) updated.client_phone = data.client_phone;
+      if (data.delivery_time) updated.delivery_time = data.delivery_time;
+      if (data.notes) updated.notes = data.notes;
+      if (user?.id) updated.modified_by = user.id;
+
+      await db.orders.put({ ...toLocalOrder(updated), id: localId });
+      await db.addOrderEvent({ order_id: orderId, type: 'updated', ...actor });
+      await db.applyClientStatsDeltas(getClientStatsDeltas(current, updated));
+      await db.applyOrderStock(updated);
+
+      // Add to sync queue
+      await db.syncQueue.add({
+        entityType: 'order',
+        entityId: orderId,
+        action: 'update',
+        timestamp: new Date().toISOString(),
+        retries: 0
+      });
+      syncEngine.requestSync();
+
+      return { ...updated, id: orderId };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+    }
+  });
+
   const updateOrderStatus = useMutation({
-    mutationFn: async ({ orderId, status }: { orderId: string; status: Order['status'] }) => {
+    mutationFn: async ({ orderId, status, reason, payment }: {
+      orderId: string;
+      status: Order['status'];
+      reason?: string;
+      payment?: NewOrderPayment; // Saldo cobrado en el mismo paso (p. ej. al entregar)
+    }) => {
+      const existing = await db.orders.get(parseInt(orderId));
+      if (!existing) {
+        throw new Error('Pedido no encontrado');
+      }
+      assertStatusTransition(existing.status, status, reason);
+      if (payment) assertPayment(existing, payment);
+
       await db.orders.update(parseInt(orderId), {
         status,
-        last_modified_at: new Date().toISOString()
+        ...(payment && { payments: [...(existing.payments ?? []), createOrderPayment(payment)] }),
+        lastModifiedAt: new Date().toISOString(),
+        syncStatus: 'pending'
       });
+      await db.addOrderEvent({
+        order_id: orderId,
+        type: 'status_changed',
+        from_status: existing.status,
+        to_status: status,
+        ...(reason?.trim() && { reason: reason.trim() }),
+        ...actor
+      });
+      const before = fromLocalOrder(existing);
+      await db.applyClientStatsDeltas(getClientStatsDeltas(before, { ...before, status }));
+      // Descontar al llegar al estado configurado y devolver al cancelar
+      await db.applyOrderStock({ ...before, status });
 
       // Add to sync queue
       await db.syncQueue.add({
         entityType: 'order',
         entityId: orderId,
         action: 'update',
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        retries: 0
       });
+      syncEngine.requestSync();
 
       return { orderId, status };
     },
-    onSuccess: () => {
+    onSuccess: ({ orderId }) => {
       queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['order-events', orderId] });
+    },
+    onError: (statusError) => {
+      toast.error(statusError.message);
+    }
+  });
+
+  // ✅ Registrar un anticipo o abono sin cambiar el estado del pedido
+  const addPayment = useMutation({
+    mutationFn: async ({ orderId, payment }: { orderId: string; payment: NewOrderPayment }) => {
+      const existing = await db.orders.get(parseInt(orderId));
+      if (!existing) {
+        throw new Error('Pedido no encontrado');
+      }
+      assertPayment(existing, payment);
+
+      const recorded = createOrderPayment(payment);
+      await db.orders.update(parseInt(orderId), {
+        payments: [...(existing.payments ?? []), recorded],
+        lastModifiedAt: new Date().toISOString(),
+        syncStatus: 'pending'
+      });
+
+      await db.syncQueue.add({
+        entityType: 'order',
+        entityId: orderId,
+        action: 'update',
+        timestamp: new Date().toISOString(),
+        retries: 0
+      });
+      syncEngine.requestSync();
+
+      return recorded;
+    },
+    onSuccess: (recorded) => {
+      toast.success(`Pago de ${formatCurrency(recorded.amount)} registrado`);
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+    onError: (paymentError) => {
+      toast.error(paymentError.message);
     }
   });
 
   const deleteOrder = useMutation({
     mutationFn: async (orderId: string) => {
+      // Keep the server ID before the local row disappears
+      const existing = await db.orders.get(parseInt(orderId));
+
       // Delete from local database
       await db.orders.delete(parseInt(orderId));
+      if (existing) {
+        const removed = fromLocalOrder(existing);
+        await db.applyClientStatsDeltas(getClientStatsDeltas(removed));
+        // Lo que el pedido había descontado regresa al inventario
+        await db.applyOrderStock({ ...removed, status: 'cancelled' });
+      }
 
       // Add to sync queue
       await db.syncQueue.add({
         entityType: 'order',
         entityId: orderId,
         action: 'delete',
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        retries: 0,
+        ...(existing?.serverId && { serverId: existing.serverId })
       });
+      syncEngine.requestSync();
 
       toast.success('Pedido eliminado correctamente');
       return orderId;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
     }
   });
 
@@ -151,7 +361,9 @@ export function useOrders(businessId: string) {
     error,
     createOrder,
     createOrderFromForm, // ✅ NUEVO: Para usar con formularios
+    updateOrder,
     updateOrderStatus,
+    addPayment,
     deleteOrder
   };
 } 
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { db } from '../lib/offline/db.ts';
+import type { Product } from '../types/index.ts';
+
+// Foto a mostrar de un producto: la pendiente de subir (guardada en el
+// dispositivo) o la miniatura ya subida, que el service worker deja en caché
+export function useProductImage(product: Pick<Product, 'id' | 'image_url' | 'thumbnail_url'>, size: 'thumbnail' | 'image' = 'thumbnail') {
+  const productId = product.id === undefined ? '' : String(product.id);
+
+  const { data: pending } = useQuery({
+    queryKey: ['pending-product-image', productId],
+    queryFn: async () => {
+      const local = await db.findLocalProduct(productId);
+      return (local?.id !== undefined && await db.getPendingProductImage(String(local.id))) || null;
+    },
+    enabled: !!productId,
+  });
+
+  const [pendingUrl, setPendingUrl] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (!pending) {
+      setPendingUrl(undefined);
+      return;
+    }
+
+    const url = URL.createObjectURL(size === 'thumbnail' ? pending.thumbnail : pending.image);
+    setPendingUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [pending, size]);
+
+  const uploadedUrl = size === 'thumbnail' ? product.thumbnail_url ?? product.image_url : product.image_url;
+
+  return {
+    src: pendingUrl ?? uploadedUrl,
+    isPendingUpload: !!pending
+  };
+}
@@ -1,20 +1,42 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import { syncEngine } from '../services/sync-engine.ts';
+import { BACKEND_URL } from '../config.ts';
+import { CFDI_DEFAULT_PRODUCT_CODE } from '../lib/invoicing/catalogs.ts';
+import { db } from '../lib/offline/db.ts';
 import { useAuth } from './useAuth.ts';
 import { useBusinessCategories } from './useBusinessCategories.ts';
-import { db } from '../lib/offline/db.ts';
+import { useCSRFRequest } from './useCSRF.ts';
+import { useOfflineSync } from './useOfflineSync.ts';
 import { v4 as uuidv4 } from 'uuid';
+import type { StockChange } from '../lib/orders/inventory.ts';
 import type { Product } from '../types/index.ts';
 
 export function useProducts({ businessId }: { businessId: string }) {
   const { user: _user } = useAuth();
   const { categories } = useBusinessCategories(businessId);
+  const { isOnline } = useOfflineSync();
+  const { csrfRequest } = useCSRFRequest();
   const queryClient = useQueryClient();
 
-  // Fetch products from IndexedDB (offline-first)
+  // Productos offline-first: IndexedDB es la fuente, el backend la hidrata
   const productsQuery = useQuery({
     queryKey: ['products', businessId],
     queryFn: async () => {
+      if (isOnline) {
+        try {
+          const response = await csrfRequest(`${BACKEND_URL}/api/products/${businessId}`);
+          if (response.ok) {
+            const data = await response.json();
+            await db.hydrateProducts(businessId, data.products || []);
+          } else {
+            console.warn('⚠️ Error fetching products, using offline data:', response.status);
+          }
+        } catch (error) {
+          console.warn('⚠️ Error fetching products, using offline data:', error);
+        }
+      }
+
       return await db.getProductsWithCategories(businessId);
     },
     enabled: !!businessId
@@ -25,10 +47,13 @@ export function useProducts({ businessId }: { businessId: string }) {
     mutationFn: async (productData: {
       name: string;
       price: number;
-      categoryId: string;
+      categoryId?: string;
+      category?: string;
       description?: string;
       cost?: number;
       stock?: number;
+      satCode?: string;
+      satUnitCode?: string;
     }) => {
       // Get category information for SAT code
       const category = categories.find(cat => cat.categoryId === productData.categoryId);
@@ -37,9 +62,9 @@ export function useProducts({ businessId }: { businessId: string }) {
       const product: Omit<Product, 'id'> = {
         ...productData,
         businessId,
-        satCode: category?.satCode || '50000000',
+        satCode: productData.satCode || category?.satCode || CFDI_DEFAULT_PRODUCT_CODE,
         taxRate: 0.16,
-        stock: productData.stock || 0,
+        stock: 0, // Las existencias iniciales entran como movimiento del kardex
         isActive: true,
         clientGeneratedId,
         syncStatus: 'pending',
@@ -54,11 +79,15 @@ export function useProducts({ businessId }: { businessId: string }) {
       // Add to sync queue
       await db.addToSyncQueue({
         entityType: 'product',
-        entityId: clientGeneratedId,
+        entityId: String(id),
         action: 'create'
       });
+      if (productData.stock) {
+        await db.recordStockMovements(businessId, [{ productId: String(id), type: 'initial', quantity: productData.stock }]);
+      }
+      syncEngine.requestSync();
 
-      return { ...product, id };
+      return { ...product, id, stock: productData.stock || 0 };
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['products', businessId] });
@@ -72,9 +101,29 @@ export function useProducts({ businessId }: { businessId: string }) {
 
   // Update product (offline-first)
   const updateMutation = useMutation({
-    mutationFn: async ({ id, ...updateData }: Partial<Product> & { id: number }) => {
+    mutationFn: async ({ id, stock, variants, ...updateData }: Partial<Product> & { id: number }) => {
+      const current = await db.products.get(id);
+      if (!current) {
+        throw new Error('Producto no encontrado');
+      }
+
+      // ✅ Las existencias solo cambian con movimientos del kardex: las variantes
+      // existentes conservan las suyas y las nuevas entran como inventario inicial
+      const currentVariants = new Map((current.variants ?? []).map(variant => [variant.id, variant]));
+      const stockChanges: Array<StockChange> = [
+        ...(stock !== undefined && stock !== current.stock
+          ? [{ productId: String(id), type: 'adjustment' as const, quantity: stock - current.stock }]
+          : []),
+        ...(variants ?? [])
+          .filter(variant => !currentVariants.has(variant.id) && variant.stock !== 0)
+          .map(variant => ({ productId: String(id), variantId: variant.id, type: 'initial' as const, quantity: variant.stock }))
+      ];
+
       await db.products.update(id, {
         ...updateData,
+        ...(variants && {
+          variants: variants.map(variant => ({ ...variant, stock: currentVariants.get(variant.id)?.stock ?? 0 }))
+        }),
         lastModifiedAt: new Date().toISOString(),
         syncStatus: 'pending'
       });
@@ -84,9 +133,15 @@ export function useProducts({ businessId }: { businessId: string }) {
         entityId: id.toString(),
         action: 'update'
       });
+
+      if (stockChanges.length > 0) {
+        await db.recordStockMovements(businessId, stockChanges);
+      }
+      syncEngine.requestSync();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['products', businessId] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
       toast.success('Producto actualizado exitosamente');
     },
     onError: (error: Error) => {
@@ -109,6 +164,7 @@ export function useProducts({ businessId }: { businessId: string }) {
         entityId: id.toString(),
         action: 'update'
       });
+      syncEngine.requestSync();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['products', businessId] });
@@ -0,0 +1,169 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { BACKEND_URL } from '../config.ts';
+import { db } from '../lib/offline/db.ts';
+import { toLocalDateKey } from '../lib/offline/orderMapper.ts';
+import { getDatesToMaterialize, getMaterializationWindow, getRecurringOrderId } from '../lib/orders/recurrence.ts';
+import { syncEngine } from '../services/sync-engine.ts';
+import { csrfFetch } from './useCSRF.ts';
+import { useOfflineSync } from './useOfflineSync.ts';
+import { addLocalOrder } from './useOrders.ts';
+import type { RecurringOrder } from '../types/index.ts';
+
+export type RecurringOrderInput = Omit<
+  RecurringOrder,
+  'businessId' | 'status' | 'generatedUntil' | 'clientGeneratedId' | 'serverId' | 'syncStatus' | 'createdAt' | 'updatedAt'
+>;
+
+// Una sola generación a la vez por negocio en esta pestaña, para no repetir trabajo.
+// Los duplicados entre pestañas y dispositivos los evita el id fijo de cada pedido
+const runningMaterializations = new Map<string, Promise<number>>();
+
+/**
+ * ✅ Convierte en pedidos las entregas recurrentes que caen dentro de la
+ * anticipación configurada. Funciona offline: los pedidos se crean en
+ * IndexedDB y se sincronizan como cualquier otro. Devuelve cuántos se crearon
+ */
+export function materializeRecurringOrders(businessId: string, today: string = toLocalDateKey()): Promise<number> {
+  const running = runningMaterializations.get(businessId);
+  if (running) return running;
+
+  const materialization = generateDueOrders(businessId, today)
+    .finally(() => runningMaterializations.delete(businessId));
+  runningMaterializations.set(businessId, materialization);
+  return materialization;
+}
+
+async function generateDueOrders(businessId: string, today: string): Promise<number> {
+  let created = 0;
+
+  for (const { id } of await db.getRecurringOrders(businessId)) {
+    if (id === undefined) continue;
+    // Los pedidos y el nuevo `generatedUntil` se guardan juntos; la recurrencia
+    // se relee dentro de la transacción por si otra pestaña ya generó
+    created += await db.inOrderTransaction(() => generateRecurringOrder(id, businessId, today));
+  }
+
+  if (created > 0) syncEngine.requestSync();
+  return created;
+}
+
+async function generateRecurringOrder(id: number, businessId: string, today: string): Promise<number> {
+  const recurring = await db.recurringOrders.get(id);
+  if (recurring?.status !== 'active') return 0;
+
+  const client = await db.clients.get(Number(recurring.clientId));
+  if (!client) return 0;
+
+  let created = 0;
+  for (const deliveryDate of getDatesToMaterialize(recurring, today)) {
+    const clientGeneratedId = getRecurringOrderId(recurring, deliveryDate);
+    if (await db.orders.where('clientGeneratedId').equals(clientGeneratedId).count() > 0) continue;
+
+    await addLocalOrder(businessId, {
+      client_id: recurring.clientId,
+      client_generated_id: clientGeneratedId,
+      client_name: client.name,
+      ...(client.phone && { client_phone: client.phone }),
+      delivery_date: deliveryDate,
+      ...(recurring.deliveryTime && { delivery_time: recurring.deliveryTime }),
+      notes: [recurring.notes, `Pedido recurrente: ${recurring.name}`].filter(Boolean).join('\n'),
+      items: recurring.items.map(item => ({ ...item, subtotal: item.quantity * item.unit_price }))
+    }, { employee_name: 'Pedido recurrente' });
+    created++;
+  }
+
+  await db.updateRecurringOrder(id, {
+    generatedUntil: getMaterializationWindow(recurring, today).toDate
+  });
+  return created;
+}
+
+// Traer a IndexedDB los pedidos recurrentes creados en otros dispositivos;
+// si el backend falla se sigue con los locales
+async function hydrateRecurringOrders(businessId: string): Promise<void> {
+  try {
+    const response = await csrfFetch(`${BACKEND_URL}/api/recurring-orders?businessId=${businessId}`);
+    if (response.ok) {
+      await db.hydrateRecurringOrders(businessId, await response.json());
+    } else {
+      console.warn('⚠️ Error fetching recurring orders, using offline data:', response.status);
+    }
+  } catch (error) {
+    console.warn('⚠️ Error fetching recurring orders, using offline data:', error);
+  }
+}
+
+// Pedidos recurrentes del negocio o de un cliente (offline-first: IndexedDB es la fuente)
+export function useRecurringOrders(businessId: string, clientId?: string) {
+  const queryClient = useQueryClient();
+  const { isOnline } = useOfflineSync();
+
+  const { data: recurringOrders = [], isLoading } = useQuery({
+    queryKey: ['recurring-orders', businessId, clientId],
+    queryFn: async () => {
+      if (isOnline) await hydrateRecurringOrders(businessId);
+      return await db.getRecurringOrders(businessId, clientId);
+    },
+    enabled: !!businessId,
+  });
+
+  // Después de cualquier cambio se generan los pedidos que ya correspondan
+  const refresh = async () => {
+    const created = await materializeRecurringOrders(businessId);
+    if (created > 0) {
+      toast.info(`Se generaron ${created} pedido(s) recurrente(s)`);
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+    }
+    queryClient.invalidateQueries({ queryKey: ['recurring-orders', businessId] });
+  };
+
+  const saveRecurringOrder = useMutation({
+    mutationFn: (recurring: RecurringOrderInput) =>
+      db.saveRecurringOrder({ ...recurring, businessId, status: 'active' }),
+    onSuccess: async (recurring) => {
+      toast.success(`Pedido recurrente "${recurring.name}" guardado`);
+      await refresh();
+    },
+    onError: (saveError) => {
+      toast.error(saveError instanceof Error ? saveError.message : 'No se pudo guardar el pedido recurrente');
+    }
+  });
+
+  const setRecurringStatus = useMutation({
+    mutationFn: ({ id, status }: { id: number; status: RecurringOrder['status'] }) =>
+      db.updateRecurringOrder(id, { status }),
+    onSuccess: refresh
+  });
+
+  const deleteRecurringOrder = useMutation({
+    mutationFn: (id: number) => db.deleteRecurringOrder(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurring-orders', businessId] });
+    }
+  });
+
+  return { recurringOrders, isLoading, saveRecurringOrder, setRecurringStatus, deleteRecurringOrder };
+}
+
+// ✅ Generar los pedidos recurrentes pendientes al abrir la app
+export function useMaterializeRecurringOrders(businessId: string) {
+  const queryClient = useQueryClient();
+  const { isOnline } = useOfflineSync();
+
+  useEffect(() => {
+    if (!businessId) return;
+
+    (isOnline ? hydrateRecurringOrders(businessId) : Promise.resolve())
+      .then(() => materializeRecurringOrders(businessId))
+      .then(created => {
+        if (created === 0) return;
+        toast.info(`Se generaron ${created} pedido(s) recurrente(s)`);
+        queryClient.invalidateQueries({ queryKey: ['orders'] });
+        queryClient.invalidateQueries({ queryKey: ['clients'] });
+      })
+      .catch(materializeError => console.error('Error generating recurring orders:', materializeError));
+  }, [businessId, isOnline, queryClient]);
+}
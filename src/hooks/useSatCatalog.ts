@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { db } from '../lib/offline/db.ts';
+import { inferBusinessType } from '../lib/invoicing/satCatalog.ts';
+
+// Catálogos del SAT (se guardan en IndexedDB la primera vez) y giro del negocio
+// para sugerir claves
+export function useSatCatalog(businessId: string) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['sat-catalog'],
+    queryFn: () => db.getSatCatalogs(),
+    staleTime: Infinity
+  });
+
+  // Misma clave que useBusinessCategories para compartir caché
+  const { data: categories = [] } = useQuery({
+    queryKey: ['businessCategories', businessId],
+    queryFn: () => db.getBusinessCategories(businessId),
+    enabled: !!businessId
+  });
+
+  return {
+    productCodes: data?.productCodes ?? [],
+    unitCodes: data?.unitCodes ?? [],
+    businessType: inferBusinessType(categories.map(category => category.categoryId)),
+    isLoading
+  };
+}
@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { BACKEND_URL } from '../config.ts';
+import { db } from '../lib/offline/db.ts';
+import { getDefaultTaxSettings } from '../lib/orders/taxes.ts';
+import { syncEngine } from '../services/sync-engine.ts';
+import { csrfFetch } from './useCSRF.ts';
+import { useOfflineSync } from './useOfflineSync.ts';
+import type { TaxSettings } from '../types/index.ts';
+
+// Traer los impuestos configurados en otro dispositivo; si el backend falla (o
+// nunca se configuraron) se sigue con los locales
+async function hydrateTaxSettings(businessId: string): Promise<void> {
+  try {
+    const response = await csrfFetch(`${BACKEND_URL}/api/tax-settings/${businessId}`);
+    if (response.ok) {
+      await db.hydrateTaxSettings({ ...await response.json(), businessId });
+    } else if (response.status !== 404) {
+      console.warn('⚠️ Error fetching tax settings, using offline data:', response.status);
+    }
+  } catch (error) {
+    console.warn('⚠️ Error fetching tax settings, using offline data:', error);
+  }
+}
+
+// Impuestos del negocio: si los precios incluyen IVA y la tasa por defecto
+export function useTaxSettings(businessId: string) {
+  const queryClient = useQueryClient();
+  const { isOnline } = useOfflineSync();
+
+  const { data: settings = getDefaultTaxSettings(businessId), isLoading } = useQuery({
+    queryKey: ['tax-settings', businessId],
+    queryFn: async () => {
+      if (isOnline) await hydrateTaxSettings(businessId);
+      return await db.getTaxSettings(businessId);
+    },
+    enabled: !!businessId,
+  });
+
+  const saveSettings = useMutation({
+    mutationFn: (changes: Partial<Omit<TaxSettings, 'businessId' | 'updatedAt'>>) =>
+      db.saveTaxSettings({ ...settings, ...changes, businessId }),
+    onSuccess: () => {
+      syncEngine.requestSync();
+      toast.success('Configuración de impuestos actualizada');
+      queryClient.invalidateQueries({ queryKey: ['tax-settings', businessId] });
+    },
+    onError: (saveError) => {
+      toast.error(saveError instanceof Error ? saveError.message : 'No se pudo guardar la configuración');
+    }
+  });
+
+  return { settings, isLoading, saveSettings };
+}
@@ -47,7 +47,7 @@ export const BUSINESS_TYPES = {
       { id: 'deportes', name: 'Deportes', icon: '⚽', satCode: '49181500' },
       { id: 'libros', name: 'Libros y Medios', icon: '📚', satCode: '60141200' },
       { id: 'juguetes', name: 'Juguetes', icon: '🧸', satCode: '60104400' },
-      { id: 'otros', name: 'Otros', icon: '📦', satCode: '50000000' }
+      { id: 'otros', name: 'Otros', icon: '📦', satCode: '01010101' }
     ]
   },
   floreria: {
@@ -81,7 +81,7 @@ export const BUSINESS_TYPES = {
       { id: 'reparacion', name: 'Reparación', icon: '⚙️', satCode: '72141100' },
       { id: 'instalacion', name: 'Instalación', icon: '🔨', satCode: '72141100' },
       { id: 'capacitacion', name: 'Capacitación', icon: '📚', satCode: '86101600' },
-      { id: 'otros-servicios', name: 'Otros Servicios', icon: '⚡', satCode: '80000000' }
+      { id: 'otros-servicios', name: 'Otros Servicios', icon: '⚡', satCode: '01010101' }
     ]
   },
   belleza: {
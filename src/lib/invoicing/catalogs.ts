@@ -0,0 +1,58 @@
+/**
+ * Catálogos del SAT que se usan al facturar pedidos (CFDI 4.0). El régimen
+ * fiscal es SAT_TAX_REGIMES de lib/constants/businessTypes.ts
+ */
+import type { PaymentMethod } from '../../types/index.ts';
+
+// c_UsoCFDI sin los usos exclusivos de pagos y nómina (CP01, CN01)
+export const CFDI_USES = {
+  G01: 'Adquisición de mercancías',
+  G02: 'Devoluciones, descuentos o bonificaciones',
+  G03: 'Gastos en general',
+  I01: 'Construcciones',
+  I02: 'Mobiliario y equipo de oficina por inversiones',
+  I03: 'Equipo de transporte',
+  I04: 'Equipo de cómputo y accesorios',
+  I05: 'Dados, troqueles, moldes, matrices y herramental',
+  I06: 'Comunicaciones telefónicas',
+  I07: 'Comunicaciones satelitales',
+  I08: 'Otra maquinaria y equipo',
+  D01: 'Honorarios médicos, dentales y gastos hospitalarios',
+  D02: 'Gastos médicos por incapacidad o discapacidad',
+  D03: 'Gastos funerales',
+  D04: 'Donativos',
+  D05: 'Intereses reales efectivamente pagados por créditos hipotecarios (casa habitación)',
+  D06: 'Aportaciones voluntarias al SAR',
+  D07: 'Primas por seguros de gastos médicos',
+  D08: 'Gastos de transportación escolar obligatoria',
+  D09: 'Depósitos en cuentas para el ahorro, primas que tengan como base planes de pensiones',
+  D10: 'Pagos por servicios educativos (colegiaturas)',
+  S01: 'Sin efectos fiscales'
+} as const;
+
+export type CfdiUse = keyof typeof CFDI_USES;
+
+// Uso para clientes que no indicaron otro
+export const CFDI_DEFAULT_USE: CfdiUse = 'G03';
+
+// Nombre, régimen y uso obligatorios con RFC genérico (público en general / extranjero)
+export const CFDI_GENERIC_NAME = 'PUBLICO EN GENERAL';
+export const CFDI_GENERIC_TAX_REGIME = '616';
+export const CFDI_GENERIC_USE: CfdiUse = 'S01';
+
+// c_FormaPago de cada forma de cobro del pedido (99 = por definir)
+export const CFDI_PAYMENT_FORMS: Record<PaymentMethod, string> = {
+  cash: '01',
+  transfer: '03',
+  card: '04'
+};
+
+export const CFDI_PAYMENT_FORM_PENDING = '99';
+
+// c_ClaveProdServ para conceptos sin clave ("No existe en el catálogo")
+export const CFDI_DEFAULT_PRODUCT_CODE = '01010101';
+
+// c_ClaveUnidad: los pedidos se venden por pieza
+export const CFDI_DEFAULT_UNIT = { code: 'H87', name: 'Pieza' } as const;
+
+export const isCfdiUse = (code: string): code is CfdiUse => code in CFDI_USES;
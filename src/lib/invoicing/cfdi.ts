@@ -0,0 +1,299 @@
+/**
+ * Factura CFDI 4.0 (comprobante de ingreso) a partir de un pedido.
+ *
+ * Los conceptos usan el mismo cálculo de IVA por partida que el pedido, así
+ * que el total facturado coincide con el cobrado. El XML sale sin sello ni
+ * certificado: el PAC lo sella con el CSD del negocio al timbrarlo.
+ */
+import { getProductId } from '../orders/productPicker.ts';
+import { getOrderItemLabel } from '../orders/productOptions.ts';
+import { getBalanceDue } from '../orders/payments.ts';
+import { DEFAULT_TAX_MODE, calculateItemTax } from '../orders/taxes.ts';
+import { isGenericRfc, normalizeRfc } from '../validation/rfc.ts';
+import {
+  CFDI_DEFAULT_PRODUCT_CODE,
+  CFDI_DEFAULT_UNIT,
+  CFDI_DEFAULT_USE,
+  CFDI_GENERIC_NAME,
+  CFDI_GENERIC_TAX_REGIME,
+  CFDI_GENERIC_USE,
+  CFDI_PAYMENT_FORMS,
+  CFDI_PAYMENT_FORM_PENDING
+} from './catalogs.ts';
+import type { Business, Client, Order, Product } from '../../types/index.ts';
+
+export const CFDI_NAMESPACE = 'http://www.sat.gob.mx/cfd/4';
+export const CFDI_SCHEMA_LOCATION = 'http://www.sat.gob.mx/sitio_internet/cfd/4/cfdv40.xsd';
+
+export interface CfdiIssuer {
+  rfc: string;
+  name: string;
+  taxRegime: string; // c_RegimenFiscal
+  postalCode: string; // Lugar de expedición
+}
+
+export interface CfdiReceiver {
+  rfc: string;
+  name: string;
+  taxRegime: string;
+  postalCode: string; // Domicilio fiscal
+  cfdiUse: string; // c_UsoCFDI
+}
+
+// Traslado de IVA (Impuesto 002, TipoFactor Tasa)
+export interface CfdiTransfer {
+  base: number;
+  rate: number;
+  amount: number;
+}
+
+export interface CfdiConcept {
+  productCode: string; // c_ClaveProdServ
+  unitCode: string; // c_ClaveUnidad
+  unitName?: string;
+  quantity: number;
+  description: string;
+  unitValue: number; // Sin IVA, hasta 6 decimales
+  amount: number;
+  transfers: Array<CfdiTransfer>;
+}
+
+export interface CfdiDocument {
+  series?: string;
+  folio?: string;
+  issuedAt: string; // YYYY-MM-DDTHH:mm:ss, hora local del emisor
+  paymentForm: string; // c_FormaPago
+  paymentMethod: 'PUE' | 'PPD'; // Pago en una exhibición o en parcialidades
+  currency: 'MXN';
+  subtotal: number;
+  totalTransferred: number;
+  total: number;
+  issuer: CfdiIssuer;
+  receiver: CfdiReceiver;
+  concepts: Array<CfdiConcept>;
+  transfers: Array<CfdiTransfer>; // Resumen por tasa
+}
+
+export interface BuildCfdiOptions {
+  issuer: CfdiIssuer;
+  receiver: CfdiReceiver;
+  products?: Array<Product>; // Para tomar la clave SAT de cada partida
+  series?: string;
+  issuedAt?: Date;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+const roundUnitValue = (amount: number) => Math.round(amount * 1_000_000) / 1_000_000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Fecha sin zona horaria, como la pide el SAT
+export function formatCfdiDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * ✅ Datos del emisor guardados en el negocio (vacíos si faltan; la validación los reporta)
+ */
+export function getCfdiIssuer(
+  business: Pick<Business, 'name' | 'rfc' | 'legalName' | 'legal_name' | 'taxRegimeCode' | 'tax_regime_code' | 'fiscalPostalCode' | 'fiscal_postal_code'>
+): CfdiIssuer {
+  return {
+    rfc: normalizeRfc(business.rfc ?? ''),
+    name: business.legalName ?? business.legal_name ?? business.name,
+    taxRegime: business.taxRegimeCode ?? business.tax_regime_code ?? '',
+    postalCode: business.fiscalPostalCode ?? business.fiscal_postal_code ?? ''
+  };
+}
+
+/**
+ * ✅ Receptor con los datos fiscales guardados en el cliente. Con RFC genérico
+ * (público en general / extranjero) el SAT exige nombre PUBLICO EN GENERAL,
+ * régimen 616, uso S01 y como domicilio el lugar de expedición (CFDI40149)
+ */
+export function getCfdiReceiver(
+  client: Pick<Client, 'name' | 'rfc' | 'legal_name' | 'tax_regime_code' | 'cfdi_use' | 'fiscal_postal_code'>,
+  issuer: Pick<CfdiIssuer, 'postalCode'>
+): CfdiReceiver {
+  const rfc = normalizeRfc(client.rfc ?? '');
+  const isGeneric = isGenericRfc(rfc);
+
+  return {
+    rfc,
+    name: isGeneric ? CFDI_GENERIC_NAME : (client.legal_name || client.name).trim().toUpperCase(),
+    taxRegime: isGeneric ? CFDI_GENERIC_TAX_REGIME : client.tax_regime_code ?? '',
+    postalCode: isGeneric ? issuer.postalCode : client.fiscal_postal_code ?? '',
+    cfdiUse: isGeneric ? CFDI_GENERIC_USE : client.cfdi_use || CFDI_DEFAULT_USE
+  };
+}
+
+// Pagado por completo: una exhibición con la forma con la que se pagó más.
+// Con saldo pendiente: parcialidades y forma de pago por definir
+function getPaymentTerms(order: Order): Pick<CfdiDocument, 'paymentForm' | 'paymentMethod'> {
+  const payments = order.payments ?? [];
+  if (payments.length === 0 || getBalanceDue(order) > 0) {
+    return { paymentForm: CFDI_PAYMENT_FORM_PENDING, paymentMethod: 'PPD' };
+  }
+
+  const byMethod = new Map<string, number>();
+  for (const payment of payments) {
+    byMethod.set(payment.method, (byMethod.get(payment.method) ?? 0) + payment.amount);
+  }
+  const [method] = [...byMethod.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+
+  return {
+    paymentForm: CFDI_PAYMENT_FORMS[method as keyof typeof CFDI_PAYMENT_FORMS],
+    paymentMethod: 'PUE'
+  };
+}
+
+/**
+ * ✅ Comprobante de ingreso con un concepto por partida del pedido
+ */
+export function buildCfdiFromOrder(order: Order, options: BuildCfdiOptions): CfdiDocument {
+  if (order.status === 'cancelled') {
+    throw new Error('No se puede facturar un pedido cancelado');
+  }
+  if (order.folioProvisional) {
+    throw new Error('Sincroniza el pedido antes de facturarlo para usar su folio definitivo');
+  }
+  const items = order.items ?? [];
+  if (items.length === 0) {
+    throw new Error('El pedido no tiene productos para facturar');
+  }
+
+  const mode = order.tax_mode ?? DEFAULT_TAX_MODE;
+  const concepts = items.map((item): CfdiConcept => {
+    const product = item.product_id ? options.products?.find(p => getProductId(p) === item.product_id) : undefined;
+    const tax = calculateItemTax(item, mode);
+
+    return {
+      productCode: product?.satCode || CFDI_DEFAULT_PRODUCT_CODE,
+      // La unidad del producto va sin nombre (Unidad es opcional en el CFDI)
+      ...(product?.satUnitCode
+        ? { unitCode: product.satUnitCode }
+        : { unitCode: CFDI_DEFAULT_UNIT.code, unitName: CFDI_DEFAULT_UNIT.name }),
+      quantity: item.quantity,
+      description: getOrderItemLabel(item),
+      unitValue: roundUnitValue(tax.base / item.quantity),
+      amount: tax.base,
+      transfers: [{ base: tax.base, rate: tax.rate, amount: tax.amount }]
+    };
+  });
+
+  const byRate = new Map<number, CfdiTransfer>();
+  for (const transfer of concepts.flatMap(concept => concept.transfers)) {
+    const summary = byRate.get(transfer.rate) ?? { base: 0, rate: transfer.rate, amount: 0 };
+    summary.base = roundMoney(summary.base + transfer.base);
+    summary.amount = roundMoney(summary.amount + transfer.amount);
+    byRate.set(transfer.rate, summary);
+  }
+  const transfers = [...byRate.values()].sort((a, b) => b.rate - a.rate);
+  const subtotal = roundMoney(concepts.reduce((sum, concept) => sum + concept.amount, 0));
+  const totalTransferred = roundMoney(transfers.reduce((sum, transfer) => sum + transfer.amount, 0));
+
+  return {
+    ...(options.series && { series: options.series }),
+    ...(order.folio && { folio: order.folio }),
+    issuedAt: formatCfdiDate(options.issuedAt ?? new Date()),
+    ...getPaymentTerms(order),
+    currency: 'MXN',
+    subtotal,
+    totalTransferred,
+    total: roundMoney(subtotal + totalTransferred),
+    issuer: options.issuer,
+    receiver: options.receiver,
+    concepts,
+    transfers
+  };
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const formatMoney = (amount: number) => amount.toFixed(2);
+const formatRate = (rate: number) => rate.toFixed(6);
+// Hasta 6 decimales, sin ceros de sobra después del segundo
+const formatUnitValue = (amount: number) => amount.toFixed(6).replace(/(\.\d\d\d*?)0+$/, '$1');
+
+const toAttributes = (attributes: Record<string, string | number | undefined>) => Object.entries(attributes)
+  .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+  .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+  .join(' ');
+
+const serializeTransfer = (transfer: CfdiTransfer) => `<cfdi:Traslado ${toAttributes({
+  Base: formatMoney(transfer.base),
+  Impuesto: '002',
+  TipoFactor: 'Tasa',
+  TasaOCuota: formatRate(transfer.rate),
+  Importe: formatMoney(transfer.amount)
+})}/>`;
+
+/**
+ * ✅ XML del comprobante listo para sellar y timbrar
+ */
+export function serializeCfdi(cfdi: CfdiDocument): string {
+  const comprobante = toAttributes({
+    'xmlns:cfdi': CFDI_NAMESPACE,
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:schemaLocation': `${CFDI_NAMESPACE} ${CFDI_SCHEMA_LOCATION}`,
+    Version: '4.0',
+    Serie: cfdi.series,
+    Folio: cfdi.folio,
+    Fecha: cfdi.issuedAt,
+    FormaPago: cfdi.paymentForm,
+    SubTotal: formatMoney(cfdi.subtotal),
+    Moneda: cfdi.currency,
+    Total: formatMoney(cfdi.total),
+    TipoDeComprobante: 'I',
+    Exportacion: '01',
+    MetodoPago: cfdi.paymentMethod,
+    LugarExpedicion: cfdi.issuer.postalCode
+  });
+
+  const concepts = cfdi.concepts.map(concept => [
+    `    <cfdi:Concepto ${toAttributes({
+      ClaveProdServ: concept.productCode,
+      Cantidad: concept.quantity,
+      ClaveUnidad: concept.unitCode,
+      Unidad: concept.unitName,
+      Descripcion: concept.description,
+      ValorUnitario: formatUnitValue(concept.unitValue),
+      Importe: formatMoney(concept.amount),
+      ObjetoImp: '02'
+    })}>`,
+    '      <cfdi:Impuestos>',
+    '        <cfdi:Traslados>',
+    ...concept.transfers.map(transfer => `          ${serializeTransfer(transfer)}`),
+    '        </cfdi:Traslados>',
+    '      </cfdi:Impuestos>',
+    '    </cfdi:Concepto>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<cfdi:Comprobante ${comprobante}>`,
+    `  <cfdi:Emisor ${toAttributes({ Rfc: cfdi.issuer.rfc, Nombre: cfdi.issuer.name, RegimenFiscal: cfdi.issuer.taxRegime })}/>`,
+    `  <cfdi:Receptor ${toAttributes({
+      Rfc: cfdi.receiver.rfc,
+      Nombre: cfdi.receiver.name,
+      DomicilioFiscalReceptor: cfdi.receiver.postalCode,
+      RegimenFiscalReceptor: cfdi.receiver.taxRegime,
+      UsoCFDI: cfdi.receiver.cfdiUse
+    })}/>`,
+    '  <cfdi:Conceptos>',
+    ...concepts,
+    '  </cfdi:Conceptos>',
+    `  <cfdi:Impuestos TotalImpuestosTrasladados="${formatMoney(cfdi.totalTransferred)}">`,
+    '    <cfdi:Traslados>',
+    ...cfdi.transfers.map(transfer => `      ${serializeTransfer(transfer)}`),
+    '    </cfdi:Traslados>',
+    '  </cfdi:Impuestos>',
+    '</cfdi:Comprobante>'
+  ].join('\n');
+}
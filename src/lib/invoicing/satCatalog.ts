@@ -0,0 +1,225 @@
+/**
+ * Búsqueda en los catálogos del SAT (c_ClaveProdServ y c_ClaveUnidad):
+ * coincidencias aproximadas por descripción y palabras similares (tolera
+ * acentos y errores de dedo), búsqueda por clave, validación de que una clave
+ * exista y sugerencias según el nombre del producto y el giro del negocio.
+ */
+import { BUSINESS_TYPES } from '../constants/businessTypes.ts';
+import { normalizeSearchText } from '../utils.ts';
+import { CFDI_DEFAULT_PRODUCT_CODE } from './catalogs.ts';
+import type { BusinessTypeId } from '../constants/businessTypes.ts';
+import type { SatCatalogEntry } from '../../types/index.ts';
+
+// Versión de los datos de satCatalogData.ts guardados en IndexedDB
+export const SAT_CATALOG_VERSION = '2026.1';
+
+const MAX_RESULTS = 20;
+const MAX_SUGGESTIONS = 5;
+
+const PRODUCT_CODE_PATTERN = /^[0-9]{8}$/;
+const UNIT_CODE_PATTERN = /^[A-Z0-9]{1,3}$/;
+const PRODUCT_CODE_FORMAT_ERROR = 'La clave SAT debe tener 8 dígitos';
+
+// Palabras que no distinguen un producto de otro ("pastel DE chocolate")
+const STOP_WORDS = new Set(['a', 'al', 'con', 'de', 'del', 'el', 'en', 'la', 'las', 'los', 'para', 'por', 'sin', 'un', 'una', 'y']);
+
+// Las palabras similares pesan menos que la descripción oficial
+const KEYWORD_WEIGHT = 0.8;
+// Bono para las claves que ya usan las categorías del giro
+const BUSINESS_TYPE_BONUS = 2;
+
+export interface SatCodeValidationResult {
+  isValid: boolean;
+  reason?: string;
+  entry?: SatCatalogEntry;
+}
+
+const tokenize = (text: string) => normalizeSearchText(text)
+  .split(/[^a-z0-9]+/)
+  .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+// Distancia de edición (Levenshtein) entre dos palabras cortas
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, (previous[j - 1] ?? 0) + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+// Qué tan bien coincide lo escrito con alguna palabra (0 = no coincide)
+function scoreToken(token: string, words: Array<string>): number {
+  const maxTypos = token.length >= 7 ? 2 : token.length >= 4 ? 1 : 0;
+  let best = 0;
+
+  for (const word of words) {
+    if (word === token) return 3;
+    if (word.startsWith(token)) best = Math.max(best, 2);
+    else if (token.length >= 4 && word.includes(token)) best = Math.max(best, 1.5);
+    else if (maxTypos > 0 && Math.abs(word.length - token.length) <= maxTypos && editDistance(word, token) <= maxTypos) {
+      best = Math.max(best, 1);
+    } else if (maxTypos > 0 && word.length > token.length && editDistance(word.slice(0, token.length), token) <= maxTypos) {
+      best = Math.max(best, 0.75); // Palabra a medio escribir con un error
+    }
+  }
+
+  return best;
+}
+
+function scoreEntry(entry: SatCatalogEntry, tokens: Array<string>): { matched: number; score: number } {
+  const descriptionWords = tokenize(entry.description);
+  const keywordWords = tokenize(entry.keywords ?? '');
+  let matched = 0;
+  let score = 0;
+
+  for (const token of tokens) {
+    const tokenScore = Math.max(scoreToken(token, descriptionWords), scoreToken(token, keywordWords) * KEYWORD_WEIGHT);
+    if (tokenScore > 0) {
+      matched++;
+      score += tokenScore;
+    }
+  }
+
+  return { matched, score };
+}
+
+const byScore = (a: { entry: SatCatalogEntry; score: number }, b: { entry: SatCatalogEntry; score: number }) =>
+  b.score - a.score || a.entry.code.localeCompare(b.entry.code);
+
+/**
+ * ✅ Entradas que coinciden con todas las palabras buscadas, o cuya clave
+ * empieza con lo escrito
+ */
+export function searchSatCatalog(entries: Array<SatCatalogEntry>, term: string, limit = MAX_RESULTS): Array<SatCatalogEntry> {
+  const code = term.trim().toUpperCase();
+  if (!code) return [];
+
+  if (/^[0-9]+$/.test(code)) {
+    return entries
+      .filter(entry => entry.code.startsWith(code))
+      .sort((a, b) => a.code.localeCompare(b.code))
+      .slice(0, limit);
+  }
+
+  const tokens = tokenize(term);
+  return entries
+    .map(entry => {
+      const { matched, score } = scoreEntry(entry, tokens);
+      // Las claves de unidad son letras: "KGM" debe encontrar el kilogramo
+      const exactCode = entry.code === code;
+      return { entry, matched: exactCode ? tokens.length : matched, score: score + (exactCode ? 10 : 0) };
+    })
+    .filter(({ matched }) => tokens.length > 0 && matched === tokens.length)
+    .sort(byScore)
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
+
+// Clave de producto con el formato del SAT, esté o no en el extracto local
+export const isSatProductCode = (code: string): boolean => PRODUCT_CODE_PATTERN.test(code.trim());
+
+export const findSatEntry = (entries: Array<SatCatalogEntry>, code: string): SatCatalogEntry | undefined =>
+  entries.find(entry => entry.code === code.trim().toUpperCase());
+
+/**
+ * ✅ La clave de producto o servicio tiene 8 dígitos y existe en el catálogo
+ */
+export function validateSatProductCode(entries: Array<SatCatalogEntry>, code: string): SatCodeValidationResult {
+  const clean = code.trim();
+  if (!PRODUCT_CODE_PATTERN.test(clean)) {
+    return { isValid: false, reason: PRODUCT_CODE_FORMAT_ERROR };
+  }
+
+  const entry = findSatEntry(entries, clean);
+  return entry ? { isValid: true, entry } : { isValid: false, reason: `La clave ${clean} no existe en el catálogo del SAT` };
+}
+
+/**
+ * ✅ La clave de unidad existe en el catálogo
+ */
+export function validateSatUnitCode(entries: Array<SatCatalogEntry>, code: string): SatCodeValidationResult {
+  const clean = code.trim().toUpperCase();
+  if (!UNIT_CODE_PATTERN.test(clean)) {
+    return { isValid: false, reason: 'La clave de unidad tiene de 1 a 3 letras o números' };
+  }
+
+  const entry = findSatEntry(entries, clean);
+  return entry ? { isValid: true, entry } : { isValid: false, reason: `La unidad ${clean} no existe en el catálogo del SAT` };
+}
+
+/**
+ * Claves que usan las categorías predeterminadas del giro
+ */
+export function getBusinessTypeSatCodes(businessType: BusinessTypeId): Array<string> {
+  return [...new Set(BUSINESS_TYPES[businessType].categories.map(category => category.satCode))];
+}
+
+/**
+ * ✅ Giro del negocio según sus categorías (las predeterminadas conservan el id del giro)
+ */
+export function inferBusinessType(categoryIds: Array<string>): BusinessTypeId | undefined {
+  const ids = new Set(categoryIds);
+  let best: { type: BusinessTypeId; count: number } | undefined;
+
+  for (const type of Object.keys(BUSINESS_TYPES) as Array<BusinessTypeId>) {
+    const count = BUSINESS_TYPES[type].categories.filter(category => ids.has(category.id)).length;
+    if (count > 0 && (!best || count > best.count)) best = { type, count };
+  }
+
+  return best?.type;
+}
+
+/**
+ * ✅ Claves sugeridas para un producto: las que coinciden con su nombre
+ * (primero las del giro) y, si faltan, las de las categorías del giro
+ */
+export function suggestSatProductCodes(
+  entries: Array<SatCatalogEntry>,
+  productName: string,
+  businessType?: BusinessTypeId,
+  limit = MAX_SUGGESTIONS
+): Array<SatCatalogEntry> {
+  const typeCodes = new Set(businessType ? getBusinessTypeSatCodes(businessType) : []);
+  const tokens = tokenize(productName);
+
+  const byName = entries
+    .filter(entry => entry.code !== CFDI_DEFAULT_PRODUCT_CODE)
+    .map(entry => {
+      const { matched, score } = scoreEntry(entry, tokens);
+      return { entry, matched, score: score + (typeCodes.has(entry.code) ? BUSINESS_TYPE_BONUS : 0) };
+    })
+    .filter(({ matched }) => matched > 0)
+    .sort(byScore)
+    .map(({ entry }) => entry);
+
+  const byType = entries.filter(entry => typeCodes.has(entry.code));
+
+  return [...new Set([...byName, ...byType])].slice(0, limit);
+}
+
+/**
+ * ✅ Errores de las claves SAT de un producto (vacías se permiten). Los datos
+ * locales son un extracto de c_ClaveProdServ: de la clave de producto solo se
+ * valida el formato. La unidad se valida contra el catálogo si está cargado
+ */
+export function validateProductSatCodes(
+  catalogs: { productCodes: Array<SatCatalogEntry>; unitCodes: Array<SatCatalogEntry> },
+  codes: { satCode?: string; satUnitCode?: string }
+): Partial<Record<'satCode' | 'satUnitCode', string>> {
+  const errors: Partial<Record<'satCode' | 'satUnitCode', string>> = {};
+
+  if (codes.satCode && !isSatProductCode(codes.satCode)) {
+    errors.satCode = PRODUCT_CODE_FORMAT_ERROR;
+  }
+  if (codes.satUnitCode && catalogs.unitCodes.length > 0) {
+    const result = validateSatUnitCode(catalogs.unitCodes, codes.satUnitCode);
+    if (!result.isValid && result.reason) errors.satUnitCode = result.reason;
+  }
+
+  return errors;
+}
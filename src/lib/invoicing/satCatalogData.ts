@@ -0,0 +1,108 @@
+/**
+ * Datos de los catálogos c_ClaveProdServ y c_ClaveUnidad del SAT. Se importan
+ * de forma diferida (db.loadSatCatalogs) para no engordar el bundle inicial y
+ * se guardan en IndexedDB. Es un extracto con las claves de los giros de
+ * BUSINESS_TYPES; al actualizarlo hay que subir SAT_CATALOG_VERSION
+ * (satCatalog.ts) para que se vuelva a guardar.
+ *
+ * Formato: [clave, descripción, palabras similares]
+ */
+import type { SatCatalogEntry } from '../../types/index.ts';
+
+type Row = readonly [code: string, description: string, keywords?: string];
+
+const toEntries = (rows: ReadonlyArray<Row>): Array<SatCatalogEntry> =>
+  rows.map(([code, description, keywords]) => ({ code, description, ...(keywords && { keywords }) }));
+
+const PRODUCT_SERVICE_ROWS: ReadonlyArray<Row> = [
+  ['01010101', 'No existe en el catálogo', 'generico otro varios'],
+
+  // Alimentos, bebidas y tabaco
+  ['50101500', 'Vegetales', 'verduras hortalizas ensalada'],
+  ['50112000', 'Carne y aves de corral procesadas', 'carnes frias embutidos jamon salchicha pollo res cerdo'],
+  ['50121500', 'Pescado', 'mariscos pescados camaron atun'],
+  ['50131600', 'Huevos y sustitutos de huevo', 'huevo blanquillos'],
+  ['50131700', 'Productos de leche y mantequilla', 'leche crema mantequilla yogur lacteos'],
+  ['50131800', 'Queso', 'quesos queso fresco panela manchego'],
+  ['50151500', 'Aceites y grasas vegetales comestibles', 'aceite manteca'],
+  ['50161500', 'Chocolates, azúcares, edulcorantes y sustitutos del azúcar', 'chocolate azucar cacao miel'],
+  ['50161800', 'Productos de confitería', 'dulces caramelos golosinas chicles paletas bombones'],
+  ['50171500', 'Hierbas, especias y extractos', 'especias condimentos vainilla canela'],
+  ['50171800', 'Salsas, condimentos y untables', 'salsa mayonesa catsup aderezo mermelada'],
+  ['50181700', 'Mezclas y productos para hornear', 'harina levadura polvo para hornear betun'],
+  ['50181900', 'Pan, galletas y pastelitos dulces', 'pan panaderia bolillo concha dona galleta pan dulce'],
+  ['50182000', 'Pasteles, tartas y repostería', 'pastel pasteles pay tarta reposteria cupcake cheesecake'],
+  ['50192100', 'Botanas', 'papas fritas frituras nachos palomitas cacahuates snacks'],
+  ['50192300', 'Postres y decoraciones para postres', 'postre gelatina flan helado nieve arroz con leche'],
+  ['50192500', 'Sándwiches y bollos rellenos', 'sandwich torta baguette hamburguesa hot dog'],
+  ['50192700', 'Comidas combinadas empaquetadas', 'comida preparada platillo combo paquete menu'],
+  ['50192900', 'Pasta o tallarines', 'pasta espagueti fideos'],
+  ['50201700', 'Café y té', 'cafe te infusion'],
+  ['50201706', 'Café', 'cafe grano molido americano espresso capuchino latte'],
+  ['50201712', 'Té', 'te infusion tisana chai matcha'],
+  ['50202200', 'Bebidas alcohólicas', 'alcohol licor coctel mezcal tequila'],
+  ['50202201', 'Cerveza', 'cerveza chela michelada'],
+  ['50202203', 'Vino', 'vino tinto blanco rosado'],
+  ['50202300', 'Bebidas no alcohólicas', 'bebida bebidas'],
+  ['50202301', 'Agua', 'agua natural purificada embotellada garrafon'],
+  ['50202306', 'Refrescos', 'refresco soda gaseosa bebida'],
+  ['50202401', 'Jugos y bebidas preparadas', 'jugo natural licuado smoothie frappe agua fresca cafe preparado'],
+
+  // Restaurantes y alimentos preparados
+  ['90101500', 'Establecimientos para comer y beber', 'restaurante fonda cocina economica'],
+  ['90101501', 'Restaurantes', 'restaurante comida platillo consumo en sitio'],
+  ['90101600', 'Servicios de banquetes y catering', 'banquete catering eventos bocadillos'],
+  ['90101700', 'Servicios de cafetería', 'cafeteria comedor'],
+
+  // Comercio al por menor
+  ['49181500', 'Equipo para deportes de equipo y de campo', 'deportes balon pelota futbol'],
+  ['52161500', 'Equipo audiovisual', 'electronica bocinas audifonos television'],
+  ['53102600', 'Ropa y accesorios de vestir', 'ropa prendas playera vestido accesorios'],
+  ['53131600', 'Baño y cuidado corporal', 'productos de belleza cosmeticos shampoo crema maquillaje'],
+  ['56101500', 'Muebles', 'muebles hogar mesa silla'],
+  ['56101800', 'Accesorios decorativos', 'decoracion adornos globos'],
+  ['60104400', 'Juguetes', 'juguete juguetes'],
+  ['60141200', 'Libros y materiales impresos', 'libros revistas cuadernos'],
+
+  // Florerías
+  ['10171600', 'Flores y arreglos florales', 'flores arreglo floral ramo rosas bouquet'],
+  ['10171700', 'Plantas vivas', 'plantas macetas suculentas'],
+  ['10191500', 'Macetas y sustratos', 'macetas tierra sustrato'],
+
+  // Servicios
+  ['72141100', 'Servicios de construcción, mantenimiento y reparación', 'mantenimiento reparacion instalacion'],
+  ['80141600', 'Actividades de ventas y promoción de negocios', 'consultoria asesoria'],
+  ['85121600', 'Servicios médicos de doctores especialistas', 'estetica tratamiento facial masaje'],
+  ['85121700', 'Servicios de especialistas de la salud', 'consulta medica terapia laboratorio'],
+  ['86101600', 'Servicios de capacitación', 'curso taller capacitacion clase'],
+  ['90121500', 'Servicios de limpieza', 'limpieza aseo'],
+  ['42142100', 'Material médico', 'vendas gasas material de curacion'],
+  ['51101800', 'Medicamentos', 'medicina medicamento farmacia']
+];
+
+const UNIT_ROWS: ReadonlyArray<Row> = [
+  ['H87', 'Pieza', 'pza pieza unidad'],
+  ['E48', 'Unidad de servicio', 'servicio'],
+  ['ACT', 'Actividad', 'actividad'],
+  ['C62', 'Uno', 'uno'],
+  ['EA', 'Elemento', 'cada uno elemento'],
+  ['XUN', 'Unidad', 'unidad'],
+  ['KGM', 'Kilogramo', 'kg kilo kilos'],
+  ['GRM', 'Gramo', 'g gr gramos'],
+  ['LTR', 'Litro', 'l lt litros'],
+  ['MLT', 'Mililitro', 'ml mililitros'],
+  ['MTR', 'Metro', 'm metros'],
+  ['DZN', 'Docena', 'docena'],
+  ['PR', 'Par', 'par pares'],
+  ['SET', 'Conjunto', 'juego set conjunto'],
+  ['XBX', 'Caja', 'caja cajas'],
+  ['XPK', 'Paquete', 'paquete paquetes combo'],
+  ['XKI', 'Kit', 'kit'],
+  ['HUR', 'Hora', 'hora horas'],
+  ['DAY', 'Día', 'dia dias'],
+  ['MON', 'Mes', 'mes meses mensualidad'],
+  ['A9', 'Tarifa', 'tarifa cuota']
+];
+
+export const SAT_PRODUCT_SERVICE_CODES = toEntries(PRODUCT_SERVICE_ROWS);
+export const SAT_UNIT_CODES = toEntries(UNIT_ROWS);
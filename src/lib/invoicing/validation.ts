@@ -0,0 +1,147 @@
+/**
+ * Validación local del comprobante con las reglas del esquema CFDI 4.0
+ * (patrones, catálogos y cuadre de importes) antes de enviarlo al PAC, para
+ * no gastar timbres en facturas que el SAT rechazaría.
+ */
+import { SAT_TAX_REGIMES } from '../constants/businessTypes.ts';
+import { isGenericRfc, validateRfc } from '../validation/rfc.ts';
+import { CFDI_GENERIC_NAME, isCfdiUse } from './catalogs.ts';
+import type { CfdiDocument, CfdiTransfer } from './cfdi.ts';
+
+export interface CfdiValidationError {
+  field: string; // Ruta del atributo, p. ej. `Receptor.Rfc` o `Conceptos[0].Importe`
+  message: string;
+}
+
+const POSTAL_CODE_PATTERN = /^[0-9]{5}$/;
+const PRODUCT_CODE_PATTERN = /^[0-9]{8}$/;
+const FOLIO_PATTERN = /^[^|]{1,40}$/;
+const SERIES_PATTERN = /^[^|]{1,25}$/;
+
+// Diferencia máxima por redondeo entre importes calculados y declarados
+const TOLERANCE = 0.01;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+// El margen de flotantes evita que 0.010000000001 cuente como descuadre
+const differs = (a: number, b: number) => Math.abs(a - b) - TOLERANCE > 1e-9;
+const isTaxRegime = (code: string) => code in SAT_TAX_REGIMES;
+
+function validateTransfer(transfer: CfdiTransfer, field: string, errors: Array<CfdiValidationError>): void {
+  if (transfer.rate < 0 || transfer.rate > 1) {
+    errors.push({ field: `${field}.TasaOCuota`, message: 'La tasa debe estar entre 0 y 1' });
+  }
+  if (differs(roundMoney(transfer.base * transfer.rate), transfer.amount)) {
+    errors.push({ field: `${field}.Importe`, message: 'El impuesto no corresponde a la base por la tasa' });
+  }
+}
+
+/**
+ * ✅ Errores del comprobante (vacío si es válido)
+ */
+export function validateCfdi(cfdi: CfdiDocument): Array<CfdiValidationError> {
+  const errors: Array<CfdiValidationError> = [];
+  const { issuer, receiver } = cfdi;
+
+  if (cfdi.series !== undefined && !SERIES_PATTERN.test(cfdi.series)) {
+    errors.push({ field: 'Serie', message: 'La serie debe tener de 1 a 25 caracteres sin "|"' });
+  }
+  if (cfdi.folio !== undefined && !FOLIO_PATTERN.test(cfdi.folio)) {
+    errors.push({ field: 'Folio', message: 'El folio debe tener de 1 a 40 caracteres sin "|"' });
+  }
+
+  if (!validateRfc(issuer.rfc)) {
+    errors.push({ field: 'Emisor.Rfc', message: 'Captura un RFC válido del negocio' });
+  }
+  if (!issuer.name.trim()) {
+    errors.push({ field: 'Emisor.Nombre', message: 'Falta la razón social del negocio' });
+  }
+  if (!isTaxRegime(issuer.taxRegime)) {
+    errors.push({ field: 'Emisor.RegimenFiscal', message: 'Elige el régimen fiscal del negocio' });
+  }
+  if (!POSTAL_CODE_PATTERN.test(issuer.postalCode)) {
+    errors.push({ field: 'LugarExpedicion', message: 'El código postal del negocio debe tener 5 dígitos' });
+  }
+
+  if (!validateRfc(receiver.rfc)) {
+    errors.push({ field: 'Receptor.Rfc', message: 'El RFC del cliente no es válido' });
+  }
+  if (!receiver.name.trim()) {
+    errors.push({ field: 'Receptor.Nombre', message: 'Falta la razón social del cliente' });
+  }
+  if (!isTaxRegime(receiver.taxRegime)) {
+    errors.push({ field: 'Receptor.RegimenFiscalReceptor', message: 'Elige el régimen fiscal del cliente' });
+  }
+  if (!POSTAL_CODE_PATTERN.test(receiver.postalCode)) {
+    errors.push({ field: 'Receptor.DomicilioFiscalReceptor', message: 'El código postal del cliente debe tener 5 dígitos' });
+  }
+  if (!isCfdiUse(receiver.cfdiUse)) {
+    errors.push({ field: 'Receptor.UsoCFDI', message: 'Elige el uso de CFDI' });
+  }
+  // Con RFC genérico el SAT fija el nombre y toma el lugar de expedición como domicilio (CFDI40149)
+  if (isGenericRfc(receiver.rfc)) {
+    if (receiver.name !== CFDI_GENERIC_NAME) {
+      errors.push({ field: 'Receptor.Nombre', message: `Con RFC genérico el nombre del receptor debe ser ${CFDI_GENERIC_NAME}` });
+    }
+    if (receiver.postalCode !== issuer.postalCode) {
+      errors.push({ field: 'Receptor.DomicilioFiscalReceptor', message: 'Con RFC genérico el código postal del receptor debe ser el de expedición' });
+    }
+  }
+
+  if (cfdi.concepts.length === 0) {
+    errors.push({ field: 'Conceptos', message: 'La factura necesita al menos un concepto' });
+  }
+  cfdi.concepts.forEach((concept, index) => {
+    const field = `Conceptos[${index}]`;
+    if (!PRODUCT_CODE_PATTERN.test(concept.productCode)) {
+      errors.push({ field: `${field}.ClaveProdServ`, message: `La clave SAT de "${concept.description}" debe tener 8 dígitos` });
+    }
+    if (!(concept.quantity > 0)) {
+      errors.push({ field: `${field}.Cantidad`, message: 'La cantidad debe ser mayor a cero' });
+    }
+    if (!concept.description.trim()) {
+      errors.push({ field: `${field}.Descripcion`, message: 'Falta la descripción del concepto' });
+    }
+    if (differs(roundMoney(concept.quantity * concept.unitValue), concept.amount)) {
+      errors.push({ field: `${field}.Importe`, message: 'El importe no corresponde a cantidad por valor unitario' });
+    }
+    concept.transfers.forEach((transfer, transferIndex) => {
+      validateTransfer(transfer, `${field}.Traslados[${transferIndex}]`, errors);
+      if (differs(transfer.base, concept.amount)) {
+        errors.push({ field: `${field}.Traslados[${transferIndex}].Base`, message: 'La base del impuesto debe ser el importe del concepto' });
+      }
+    });
+  });
+  // El resumen por tasa suma los traslados de los conceptos (no se recalcula base × tasa)
+  cfdi.transfers.forEach((transfer, index) => {
+    const conceptTransfers = cfdi.concepts.flatMap(concept => concept.transfers).filter(t => t.rate === transfer.rate);
+    const base = roundMoney(conceptTransfers.reduce((sum, t) => sum + t.base, 0));
+    const amount = roundMoney(conceptTransfers.reduce((sum, t) => sum + t.amount, 0));
+    if (differs(base, transfer.base) || differs(amount, transfer.amount)) {
+      errors.push({ field: `Impuestos.Traslados[${index}]`, message: 'El resumen de impuestos no cuadra con los conceptos' });
+    }
+  });
+
+  const subtotal = roundMoney(cfdi.concepts.reduce((sum, concept) => sum + concept.amount, 0));
+  if (differs(subtotal, cfdi.subtotal)) {
+    errors.push({ field: 'SubTotal', message: 'El subtotal no es la suma de los conceptos' });
+  }
+  const totalTransferred = roundMoney(cfdi.transfers.reduce((sum, transfer) => sum + transfer.amount, 0));
+  if (differs(totalTransferred, cfdi.totalTransferred)) {
+    errors.push({ field: 'Impuestos.TotalImpuestosTrasladados', message: 'El total de impuestos no es la suma de los traslados' });
+  }
+  if (differs(roundMoney(cfdi.subtotal + cfdi.totalTransferred), cfdi.total)) {
+    errors.push({ field: 'Total', message: 'El total no es el subtotal más impuestos' });
+  }
+
+  return errors;
+}
+
+/**
+ * Lanza un error con todos los problemas si el comprobante no es válido
+ */
+export function assertValidCfdi(cfdi: CfdiDocument): void {
+  const errors = validateCfdi(cfdi);
+  if (errors.length > 0) {
+    throw new Error(`La factura no es válida: ${errors.map(error => error.message).join('; ')}`);
+  }
+}
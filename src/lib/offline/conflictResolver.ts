@@ -1,18 +1,77 @@
-import type { Order, Product } from '../../types/index.ts'
+import { getAmountPaid } from '../orders/payments.ts'
+import { getOrderItemKey } from '../orders/productOptions.ts'
+import { calculateOrderTotals } from '../orders/taxes.ts'
+import type { Order, OrderItem, OrderPayment, Product } from '../../types/index.ts'
+
+export interface FieldConflict {
+  field: string // Nombre del campo, o `items.<clave de la partida>` (producto + variante + extras)
+  base: unknown
+  local: unknown
+  server: unknown
+}
 
 export interface ConflictInfo {
   localVersion: Order | Product
   serverVersion: Order | Product
+  baseVersion?: Order | Product
   entityType: 'order' | 'product'
   entityId: string
+  fieldConflicts?: Array<FieldConflict>
 }
 
+// Conflicto sin resolver guardado en la tabla `conflicts` de Dexie
+export interface StoredConflict extends ConflictInfo {
+  id?: number
+  serverId: string
+  fieldConflicts: Array<FieldConflict>
+  detectedAt: string
+}
+
+export type FieldChoice = 'local' | 'server'
+
 export interface ConflictResolution {
-  winner: 'local' | 'server' | 'manual'
+  winner: 'local' | 'server' | 'merged' | 'manual'
   resolvedData?: Order | Product
   conflictInfo?: ConflictInfo
 }
 
+type EntityRecord = Record<string, unknown>
+type MergeOutcome = { value: unknown } | { conflict: true }
+
+// Metadatos que no se fusionan: los recalcula el merge o los asigna el servidor
+const MERGE_IGNORED_FIELDS = new Set([
+  'id', 'serverId', 'syncStatus', 'version', 'clientGeneratedId', 'client_generated_id',
+  'last_modified_at', 'lastModifiedAt', 'updatedAt', 'createdAt', 'created_at', 'modified_by',
+  // El folio lo asigna el servidor: el provisional local nunca compite con él
+  'folio', 'folioProvisional'
+])
+
+// En pedidos las partidas se fusionan por producto, el total y el IVA se
+// recalculan y los pagos se unen por id
+const ORDER_DERIVED_FIELDS = new Set(['items', 'total', 'subtotal', 'taxes', 'payments'])
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const aRecord = a as EntityRecord
+  const bRecord = b as EntityRecord
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)])
+  for (const key of keys) {
+    if (!isSameValue(aRecord[key], bRecord[key])) return false
+  }
+  return true
+}
+
+// Regla de tres vías: si solo un lado cambió respecto al ancestro, gana ese lado
+const mergeValue = (base: unknown, local: unknown, server: unknown): MergeOutcome => {
+  if (isSameValue(local, server)) return { value: server }
+  if (isSameValue(local, base)) return { value: server }
+  if (isSameValue(server, base)) return { value: local }
+  return { conflict: true }
+}
+
 export class ConflictResolver {
   /**
    * Resuelve conflictos usando la estrategia "last write wins"
@@ -173,13 +232,177 @@ export class ConflictResolver {
   }
 
   /**
-   * Fusiona datos de manera inteligente (para casos complejos)
+   * Merge de tres vías contra la última versión sincronizada (base).
+   * Los cambios en campos distintos se combinan solos; las partidas del pedido
+   * se combinan por product_id. Solo si ambos lados cambiaron el mismo campo
+   * de forma distinta se devuelve 'manual' con los campos en conflicto.
    */
-  static mergeData(
+  static threeWayMerge(
     localData: Order | Product,
     serverData: Order | Product,
+    baseData: Order | Product | undefined,
     entityType: 'order' | 'product'
+  ): ConflictResolution {
+    const local = localData as unknown as EntityRecord
+    const server = serverData as unknown as EntityRecord
+    const base = (baseData ?? {}) as unknown as EntityRecord
+    const merged: EntityRecord = { ...server }
+    const fieldConflicts: Array<FieldConflict> = []
+
+    const fields = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(server)])
+    for (const field of fields) {
+      if (MERGE_IGNORED_FIELDS.has(field)) continue
+      if (entityType === 'order' && ORDER_DERIVED_FIELDS.has(field)) continue
+
+      const outcome = mergeValue(base[field], local[field], server[field])
+      if ('conflict' in outcome) {
+        fieldConflicts.push({ field, base: base[field], local: local[field], server: server[field] })
+      } else if (outcome.value === undefined) {
+        delete merged[field]
+      } else {
+        merged[field] = outcome.value
+      }
+    }
+
+    if (entityType === 'order') {
+      const items = this.mergeOrderItems(
+        (baseData as Order | undefined)?.items ?? [],
+        (localData as Order).items ?? [],
+        (serverData as Order).items ?? [],
+        fieldConflicts
+      )
+      merged['items'] = items
+
+      const taxMode = merged['tax_mode'] as Order['tax_mode']
+      if (items.length > 0 && taxMode) {
+        Object.assign(merged, calculateOrderTotals(items, taxMode))
+      } else if (items.length > 0) {
+        // Pedido sin desglose de IVA: el total es la suma de las partidas
+        merged['total'] = items.reduce((sum, item) => sum + (item.subtotal || item.quantity * item.unit_price), 0)
+      } else {
+        // Sin partidas el total se fusiona como cualquier otro campo
+        const total = mergeValue(base['total'], local['total'], server['total'])
+        if ('conflict' in total) {
+          fieldConflicts.push({ field: 'total', base: base['total'], local: local['total'], server: server['total'] })
+        } else {
+          merged['total'] = total.value
+        }
+      }
+
+      const payments = this.mergeOrderPayments(
+        (baseData as Order | undefined)?.payments ?? [],
+        (localData as Order).payments ?? [],
+        (serverData as Order).payments ?? []
+      )
+      if (payments.length > 0) {
+        merged['payments'] = payments
+      } else {
+        delete merged['payments']
+      }
+      // Si ambos dispositivos cobraron el mismo saldo, la suma rebasa el total
+      // y el usuario decide qué pagos se quedan
+      if (getAmountPaid({ payments }) > Number(merged['total'] ?? 0)) {
+        fieldConflicts.push({
+          field: 'payments',
+          base: (baseData as Order | undefined)?.payments,
+          local: (localData as Order).payments,
+          server: (serverData as Order).payments
+        })
+      }
+    }
+
+    if (fieldConflicts.length > 0) {
+      console.log(`🤝 ${fieldConflicts.length} campos en conflicto, requiere resolución manual`)
+      return {
+        winner: 'manual',
+        conflictInfo: {
+          localVersion: localData,
+          serverVersion: serverData,
+          ...(baseData && { baseVersion: baseData }),
+          entityType,
+          entityId: localData.id?.toString() || serverData.id?.toString() || '',
+          fieldConflicts
+        }
+      }
+    }
+
+    console.log('🔀 Cambios combinados sin conflictos')
+    return {
+      winner: 'merged',
+      resolvedData: {
+        ...merged,
+        id: localData.id,
+        version: (serverData.version || 0) + 1,
+        ...(entityType === 'order'
+          ? { last_modified_at: new Date().toISOString() }
+          : { lastModifiedAt: new Date().toISOString() }
+        ),
+        // El resultado incluye cambios locales que el servidor aún no tiene
+        syncStatus: 'pending' as const
+      } as unknown as Order | Product
+    }
+  }
+
+  /**
+   * Aplica la elección del usuario (local o servidor) a cada campo en conflicto
+   * y combina el resto con el merge de tres vías. Campos sin elección usan local.
+   */
+  static resolveFieldConflicts(
+    conflict: ConflictInfo,
+    choices: Partial<Record<string, FieldChoice>>
   ): Order | Product {
+    const local = { ...conflict.localVersion } as unknown as EntityRecord
+    const server = { ...conflict.serverVersion } as unknown as EntityRecord
+
+    for (const { field } of conflict.fieldConflicts ?? []) {
+      const source = choices[field] === 'server' ? server : local
+
+      if (field.startsWith('items.')) {
+        const key = field.slice('items.'.length)
+        const chosen = ((source['items'] ?? []) as Array<OrderItem>).find(item => getOrderItemKey(item) === key)
+        for (const side of [local, server]) {
+          const items = ((side['items'] ?? []) as Array<OrderItem>).filter(item => getOrderItemKey(item) !== key)
+          side['items'] = chosen ? [...items, chosen] : items
+        }
+        continue
+      }
+
+      const value = source[field]
+      for (const side of [local, server]) {
+        if (value === undefined) delete side[field]
+        else side[field] = value
+      }
+    }
+
+    // Con ambos lados de acuerdo en los campos elegidos ya no quedan colisiones
+    const resolution = this.threeWayMerge(
+      local as unknown as Order | Product,
+      server as unknown as Order | Product,
+      conflict.baseVersion,
+      conflict.entityType
+    )
+    if (!resolution.resolvedData) {
+      throw new Error('No se pudo resolver el conflicto con las elecciones indicadas')
+    }
+    return resolution.resolvedData
+  }
+
+  /**
+   * Fusiona datos de manera inteligente (para casos complejos).
+   * Con una versión base usa el merge de tres vías; si hay colisiones o no hay
+   * base, conserva la versión más reciente y combina las notas.
+   */
+  static mergeData(
+    localData: Order | Product,
+    serverData: Order | Product,
+    entityType: 'order' | 'product',
+    baseData?: Order | Product
+  ): Order | Product {
+    if (baseData) {
+      const resolution = this.threeWayMerge(localData, serverData, baseData, entityType)
+      if (resolution.resolvedData) return resolution.resolvedData
+    }
+
     if (entityType === 'order') {
       return this.mergeOrderData(localData as Order, serverData as Order)
     } else {
@@ -211,6 +434,44 @@ export class ConflictResolver {
     }
   }
 
+  private static mergeOrderItems(
+    baseItems: Array<OrderItem>,
+    localItems: Array<OrderItem>,
+    serverItems: Array<OrderItem>,
+    fieldConflicts: Array<FieldConflict>
+  ): Array<OrderItem> {
+    const byKey = (items: Array<OrderItem>) => new Map(items.map(item => [getOrderItemKey(item), item]))
+    const base = byKey(baseItems)
+    const local = byKey(localItems)
+    const server = byKey(serverItems)
+
+    // Orden del servidor primero, luego las partidas agregadas localmente
+    const keys = [...new Set([...server.keys(), ...local.keys(), ...base.keys()])]
+    const merged: Array<OrderItem> = []
+
+    for (const key of keys) {
+      const outcome = mergeValue(base.get(key), local.get(key), server.get(key))
+      if ('conflict' in outcome) {
+        fieldConflicts.push({ field: `items.${key}`, base: base.get(key), local: local.get(key), server: server.get(key) })
+      } else if (outcome.value !== undefined) {
+        merged.push(outcome.value as OrderItem)
+      }
+    }
+
+    return merged
+  }
+
+  // Los pagos solo se agregan: se conservan los del servidor más los nuevos locales
+  // (uno que ya estaba en la base y el servidor no tiene fue eliminado allá)
+  private static mergeOrderPayments(
+    basePayments: Array<OrderPayment>,
+    localPayments: Array<OrderPayment>,
+    serverPayments: Array<OrderPayment>
+  ): Array<OrderPayment> {
+    const known = new Set([...basePayments, ...serverPayments].map(payment => payment.id))
+    return [...serverPayments, ...localPayments.filter(payment => !known.has(payment.id))]
+  }
+
   private static mergeProductData(localProduct: Product, serverProduct: Product): Product {
     // Estrategia de fusión para productos
     const localTime = new Date(localProduct.lastModifiedAt || localProduct.updatedAt || new Date().toISOString()).getTime()
@@ -1,14 +1,63 @@
 import Dexie, { type Table } from 'dexie'
-import type { Order, Product, SyncQueueItem, Business, BusinessCategory } from '../../types/index.ts'
+import { v4 as uuidv4 } from 'uuid'
+import { getDefaultDeliveryCapacity } from '../orders/capacity.ts'
+import { formatFolio, parseFolioNumber } from '../orders/folio.ts'
+import { copyStock, getDeductedByOrder, getDefaultInventorySettings, getOrderStockChanges, withPendingStock } from '../orders/inventory.ts'
+import { getDefaultTaxSettings } from '../orders/taxes.ts'
+import { SAT_CATALOG_VERSION } from '../invoicing/satCatalog.ts'
+import { fromLocalOrder, normalizeLegacyOrder, toDateKey, toLocalDateKey, toLocalOrder } from './orderMapper.ts'
+import { ConflictResolver } from './conflictResolver.ts'
+import type { ConflictInfo, StoredConflict } from './conflictResolver.ts'
+import type { ClientStatsDelta } from '../orders/clientStats.ts'
+import type { StockChange } from '../orders/inventory.ts'
+import type { CatalogImportPlan } from '../products/catalogTransfer.ts'
+import type { DeliveryCapacity, InventorySettings, Order, OrderEvent, OrderQuery, OrderTemplate, PendingProductImage, Product, RecurringOrder, SatCatalogEntry, SatCatalogInfo, StockMovement, SyncQueueItem, SyncSnapshot, TaxSettings, Business, BusinessCategory, Client, LocalClient, LocalOrder } from '../../types/index.ts'
+
+// El API referencia al cliente y a los productos por su id del backend;
+// localmente se usa el id local
+const withLocalIds = (
+  { id, client_id: serverClientId, ...serverOrder }: Order,
+  businessId: string,
+  clientIds: Map<string, string>,
+  productIds: Map<string, string>
+): Order => {
+  const clientId = serverClientId ? clientIds.get(String(serverClientId)) : undefined
+  return {
+    ...serverOrder,
+    id: String(id),
+    business_id: businessId,
+    ...(clientId && { client_id: clientId }),
+    ...(serverOrder.items && {
+      items: serverOrder.items.map(({ product_id: serverProductId, ...item }) => {
+        const productId = serverProductId ? productIds.get(String(serverProductId)) : undefined
+        return { ...item, ...(productId && { product_id: productId }) }
+      })
+    })
+  }
+}
 
 export class PedidoListDB extends (Dexie as unknown as new (...args: unknown[]) => {
   version: (v: number) => { stores: (schema: Record<string, string>) => { upgrade: (fn: (tx: unknown) => unknown) => void } };
 }) {
-  orders!: Table<Order>
+  orders!: Table<LocalOrder>
   products!: Table<Product>
   businesses!: Table<Business>
   businessCategories!: Table<BusinessCategory>
+  clients!: Table<LocalClient>
   syncQueue!: Table<SyncQueueItem>
+  syncSnapshots!: Table<SyncSnapshot>
+  conflicts!: Table<StoredConflict>
+  orderEvents!: Table<OrderEvent>
+  deliveryCapacity!: Table<DeliveryCapacity>
+  orderTemplates!: Table<OrderTemplate>
+  recurringOrders!: Table<RecurringOrder>
+  stockMovements!: Table<StockMovement>
+  inventorySettings!: Table<InventorySettings>
+  pendingProductImages!: Table<PendingProductImage>
+  taxSettings!: Table<TaxSettings>
+  satProductCodes!: Table<SatCatalogEntry>
+  satUnitCodes!: Table<SatCatalogEntry>
+  satCatalogs!: Table<SatCatalogInfo>
 
   constructor() {
     super('PedidoListDB')
@@ -35,16 +84,351 @@ export class PedidoListDB extends (Dexie as unknown as new (...args: unknown[])
         if (!prod.taxRate) prod.taxRate = 0.16;
       });
     });
+
+    // Version 3: Compound index used by markAsSynced and the sync engine
+    this.version(3).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries'
+    });
+
+    // Version 4: Clients offline-first
+    this.version(4).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries'
+    }).upgrade((tx: unknown) => {
+      // Items encolados sin retries no aparecen en el índice y nunca se sincronizaban
+      return (tx as { syncQueue: { toCollection: () => { modify: (fn: (item: unknown) => void) => void } } }).syncQueue.toCollection().modify((item: unknown) => {
+        const queued = item as { retries?: number };
+        if (queued.retries === undefined) queued.retries = 0;
+      });
+    });
+
+    // Version 5: Pedidos en forma canónica camelCase para que los índices
+    // (businessId, deliveryDate, clientGeneratedId) coincidan con los datos
+    this.version(5).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries'
+    }).upgrade((tx: unknown) => {
+      return (tx as { orders: { toCollection: () => { modify: (fn: (order: unknown, ref: { value: unknown }) => void) => void } } }).orders.toCollection().modify((order: unknown, ref: { value: unknown }) => {
+        ref.value = normalizeLegacyOrder(order as Record<string, unknown>);
+      });
+    });
+
+    // Version 6: Última versión sincronizada por entidad (base del merge de tres vías)
+    this.version(6).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt'
+    });
+
+    // Version 7: Bandeja de conflictos que requieren resolución manual
+    this.version(7).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt'
+    });
+
+    // Version 8: Historial de estados de los pedidos
+    this.version(8).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt',
+      orderEvents: '++id, order_id, [order_id+created_at]'
+    });
+
+    // Version 9: Capacidad de entregas configurada por negocio
+    this.version(9).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt',
+      orderEvents: '++id, order_id, [order_id+created_at]',
+      deliveryCapacity: 'businessId'
+    });
+
+    // Version 10: Pedidos vinculados a clientes
+    this.version(10).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId, clientId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt',
+      orderEvents: '++id, order_id, [order_id+created_at]',
+      deliveryCapacity: 'businessId'
+    });
+
+    // Version 11: Plantillas de pedido por cliente
+    this.version(11).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId, clientId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt',
+      orderEvents: '++id, order_id, [order_id+created_at]',
+      deliveryCapacity: 'businessId',
+      orderTemplates: '++id, [businessId+clientId]'
+    });
+
+    // Version 12: Pedidos recurrentes
+    this.version(12).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId, clientId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt',
+      orderEvents: '++id, order_id, [order_id+created_at]',
+      deliveryCapacity: 'businessId',
+      orderTemplates: '++id, [businessId+clientId]',
+      recurringOrders: '++id, businessId, [businessId+clientId]'
+    });
+
+    // Version 13: Kardex de inventario
+    this.version(13).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId, clientId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt',
+      orderEvents: '++id, order_id, [order_id+created_at]',
+      deliveryCapacity: 'businessId',
+      orderTemplates: '++id, [businessId+clientId]',
+      recurringOrders: '++id, businessId, [businessId+clientId]',
+      stockMovements: '++id, clientGeneratedId, businessId, productId, orderId, syncStatus, serverId',
+      inventorySettings: 'businessId'
+    });
+
+    // Version 14: Fotos de producto pendientes de subir
+    this.version(14).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId, clientId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt',
+      orderEvents: '++id, order_id, [order_id+created_at]',
+      deliveryCapacity: 'businessId',
+      orderTemplates: '++id, [businessId+clientId]',
+      recurringOrders: '++id, businessId, [businessId+clientId]',
+      stockMovements: '++id, clientGeneratedId, businessId, productId, orderId, syncStatus, serverId',
+      inventorySettings: 'businessId',
+      pendingProductImages: '++id, productId, businessId'
+    });
+
+    // Version 15: Configuración de impuestos por negocio
+    this.version(15).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId, clientId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt',
+      orderEvents: '++id, order_id, [order_id+created_at]',
+      deliveryCapacity: 'businessId',
+      orderTemplates: '++id, [businessId+clientId]',
+      recurringOrders: '++id, businessId, [businessId+clientId]',
+      stockMovements: '++id, clientGeneratedId, businessId, productId, orderId, syncStatus, serverId',
+      inventorySettings: 'businessId',
+      pendingProductImages: '++id, productId, businessId',
+      taxSettings: 'businessId'
+    });
+
+    // Version 16: Catálogos del SAT para buscar claves sin conexión
+    this.version(16).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId, clientId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt',
+      orderEvents: '++id, order_id, [order_id+created_at]',
+      deliveryCapacity: 'businessId',
+      orderTemplates: '++id, [businessId+clientId]',
+      recurringOrders: '++id, businessId, [businessId+clientId]',
+      stockMovements: '++id, clientGeneratedId, businessId, productId, orderId, syncStatus, serverId',
+      inventorySettings: 'businessId',
+      pendingProductImages: '++id, productId, businessId',
+      taxSettings: 'businessId',
+      satProductCodes: 'code',
+      satUnitCodes: 'code',
+      satCatalogs: 'name'
+    });
+
+    // Version 17: Toda la cola de una entidad usa su id local. Los creates de
+    // productos, clientes, categorías y movimientos usaban el clientGeneratedId
+    // y no coincidían con sus updates al bloquear por entidad
+    this.version(17).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId, clientId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt',
+      orderEvents: '++id, order_id, [order_id+created_at]',
+      deliveryCapacity: 'businessId',
+      orderTemplates: '++id, [businessId+clientId]',
+      recurringOrders: '++id, businessId, [businessId+clientId]',
+      stockMovements: '++id, clientGeneratedId, businessId, productId, orderId, syncStatus, serverId',
+      inventorySettings: 'businessId',
+      pendingProductImages: '++id, productId, businessId',
+      taxSettings: 'businessId',
+      satProductCodes: 'code',
+      satUnitCodes: 'code',
+      satCatalogs: 'name'
+    }).upgrade(async (tx: unknown) => {
+      const transaction = tx as { table: (name: string) => Table<{ id?: number; clientGeneratedId?: string }> }
+      const queue = transaction.table('syncQueue') as unknown as Table<SyncQueueItem>
+      const tables: Partial<Record<SyncQueueItem['entityType'], string>> = {
+        product: 'products',
+        client: 'clients',
+        business_category: 'businessCategories',
+        stock_movement: 'stockMovements'
+      }
+
+      for (const item of await queue.toArray()) {
+        const tableName = tables[item.entityType]
+        if (!tableName || item.id === undefined || /^\d+$/.test(item.entityId)) continue
+
+        const row = await transaction.table(tableName).filter(entity => entity.clientGeneratedId === item.entityId).first()
+        if (row?.id !== undefined) await queue.update(item.id, { entityId: String(row.id) })
+      }
+    });
+
+    // Version 18: Los pedidos recurrentes se sincronizan. Los que ya existían
+    // reciben su clientGeneratedId y se encolan para crearse en el backend
+    this.version(18).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId, clientId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt',
+      orderEvents: '++id, order_id, [order_id+created_at]',
+      deliveryCapacity: 'businessId',
+      orderTemplates: '++id, [businessId+clientId]',
+      recurringOrders: '++id, businessId, [businessId+clientId]',
+      stockMovements: '++id, clientGeneratedId, businessId, productId, orderId, syncStatus, serverId',
+      inventorySettings: 'businessId',
+      pendingProductImages: '++id, productId, businessId',
+      taxSettings: 'businessId',
+      satProductCodes: 'code',
+      satUnitCodes: 'code',
+      satCatalogs: 'name'
+    }).upgrade(async (tx: unknown) => {
+      const transaction = tx as { table: (name: string) => Table<unknown> }
+      const recurringOrders = transaction.table('recurringOrders') as Table<RecurringOrder>
+      const queue = transaction.table('syncQueue') as Table<SyncQueueItem>
+
+      for (const recurring of await recurringOrders.toArray()) {
+        if (recurring.id === undefined || recurring.clientGeneratedId) continue
+
+        await recurringOrders.update(recurring.id, { clientGeneratedId: uuidv4(), syncStatus: 'pending' })
+        await queue.add({
+          entityType: 'recurring_order',
+          entityId: String(recurring.id),
+          action: 'create',
+          timestamp: new Date().toISOString(),
+          retries: 0
+        })
+      }
+    });
+
+    // Version 19: La capacidad de entregas y los impuestos se sincronizan con el
+    // backend. Lo ya configurado en este dispositivo se encola para subirse
+    this.version(19).stores({
+      orders: '++id, clientGeneratedId, businessId, status, deliveryDate, [businessId+deliveryDate], syncStatus, serverId, clientId',
+      products: '++id, businessId, name, categoryId, satCode, syncStatus, serverId',
+      businesses: '++id, businessId, businessType, ownerId',
+      businessCategories: '++id, businessId, categoryId, satCode, syncStatus, serverId',
+      clients: '++id, serverId, clientGeneratedId, business_id, name, phone, syncStatus',
+      syncQueue: '++id, entityType, entityId, [entityType+entityId], action, timestamp, retries',
+      syncSnapshots: '[entityType+serverId], entityType, syncedAt',
+      conflicts: '++id, [entityType+entityId], entityType, detectedAt',
+      orderEvents: '++id, order_id, [order_id+created_at]',
+      deliveryCapacity: 'businessId',
+      orderTemplates: '++id, [businessId+clientId]',
+      recurringOrders: '++id, businessId, [businessId+clientId]',
+      stockMovements: '++id, clientGeneratedId, businessId, productId, orderId, syncStatus, serverId',
+      inventorySettings: 'businessId',
+      pendingProductImages: '++id, productId, businessId',
+      taxSettings: 'businessId',
+      satProductCodes: 'code',
+      satUnitCodes: 'code',
+      satCatalogs: 'name'
+    }).upgrade(async (tx: unknown) => {
+      const transaction = tx as { table: (name: string) => Table<unknown> }
+      const queue = transaction.table('syncQueue') as Table<SyncQueueItem>
+      const deliveryCapacity = transaction.table('deliveryCapacity') as Table<DeliveryCapacity>
+      const taxSettings = transaction.table('taxSettings') as Table<TaxSettings>
+
+      for (const { businessId } of await deliveryCapacity.toArray()) {
+        await queue.add({ entityType: 'delivery_capacity', entityId: businessId, action: 'update', timestamp: new Date().toISOString(), retries: 0 })
+      }
+      for (const { businessId } of await taxSettings.toArray()) {
+        await queue.add({ entityType: 'tax_settings', entityId: businessId, action: 'update', timestamp: new Date().toISOString(), retries: 0 })
+      }
+    });
   }
 
-  // Limpiar datos de más de 30 días
+  // Limpiar datos de más de 30 días (nunca pedidos con cambios sin sincronizar)
   async cleanupOldData() {
     const thirtyDaysAgo = new Date()
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
     
     await this.orders
       .where('deliveryDate')
-      .below(thirtyDaysAgo.toISOString())
+      .below(toLocalDateKey(thirtyDaysAgo))
+      .and(order => order.syncStatus === 'synced')
       .delete()
   }
 
@@ -57,7 +441,7 @@ export class PedidoListDB extends (Dexie as unknown as new (...args: unknown[])
     if (!oldestOrder) return 30
     
     const daysRemaining = Math.floor(
-      (new Date().getTime() - new Date(oldestOrder.delivery_date).getTime()) / 
+      (new Date().getTime() - new Date(oldestOrder.deliveryDate).getTime()) / 
       (1000 * 60 * 60 * 24)
     )
     
@@ -66,10 +450,706 @@ export class PedidoListDB extends (Dexie as unknown as new (...args: unknown[])
 
   // Obtener pedidos por negocio y fecha
   async getOrdersByBusinessAndDate(businessId: string, date: string): Promise<Array<Order>> {
-    return await this.orders
-      .where(['businessId', 'deliveryDate'])
-      .equals([businessId, date])
+    const orders = await this.orders
+      .where('[businessId+deliveryDate]')
+      .equals([businessId, toDateKey(date)])
+      .toArray()
+
+    return orders.map(fromLocalOrder)
+  }
+
+  // Consultar pedidos por rango de fechas usando el índice [businessId+deliveryDate]
+  async queryOrders(businessId: string, query: OrderQuery = {}): Promise<Array<Order>> {
+    const { fromDate, toDate, status, client } = query
+    const clientTerm = client?.trim().toLowerCase()
+
+    const orders = await this.orders
+      .where('[businessId+deliveryDate]')
+      .between(
+        [businessId, fromDate ?? Dexie.minKey],
+        [businessId, toDate ?? Dexie.maxKey],
+        true,
+        true
+      )
+      .filter(order =>
+        (!status || status.length === 0 || status.includes(order.status)) &&
+        (!clientTerm ||
+          order.clientName.toLowerCase().includes(clientTerm) ||
+          Boolean(order.clientPhone?.includes(clientTerm)) ||
+          Boolean(order.folio?.toLowerCase().includes(clientTerm)))
+      )
+      .toArray()
+
+    return orders.map(fromLocalOrder)
+  }
+
+  // Pedidos vinculados a un cliente (id local), los más recientes primero
+  async getOrdersByClient(clientId: string): Promise<Array<Order>> {
+    const orders = await this.orders.where('clientId').equals(clientId).toArray()
+    return orders
+      .map(fromLocalOrder)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+  }
+
+  // Siguiente folio provisional del negocio: uno más que el mayor conocido en
+  // este dispositivo. Se reemplaza por el definitivo al sincronizar
+  async getNextProvisionalFolio(businessId: string): Promise<string> {
+    let lastSequence = 0
+    await this.orders.where('businessId').equals(businessId).each(order => {
+      lastSequence = Math.max(lastSequence, parseFolioNumber(order.folio) ?? 0)
+    })
+    return formatFolio(lastSequence + 1)
+  }
+
+  // Guardar los pedidos del servidor sin pisar cambios locales pendientes.
+  // Si un pedido pendiente también cambió en el servidor se hace merge de tres
+  // vías contra la última versión sincronizada; los que no se pudieron combinar
+  // se guardan en la bandeja de conflictos y se devuelven
+  async hydrateOrders(businessId: string, serverOrders: Array<Order>): Promise<Array<ConflictInfo>> {
+    const conflicts: Array<ConflictInfo> = []
+
+    await (this as unknown as Dexie).transaction('rw', [this.orders, this.syncSnapshots, this.conflicts, this.clients, this.products], async () => {
+      const localOrders = await this.orders.where('businessId').equals(businessId).toArray()
+      const byServerId = new Map(localOrders.filter(o => o.serverId).map(o => [o.serverId, o]))
+      // Un pedido local sin serverId que el servidor ya tiene (mismo clientGeneratedId):
+      // lo generó otro dispositivo (recurrentes) o se perdió la respuesta del alta
+      const unsynced = new Map(localOrders.filter(o => !o.serverId).map(o => [o.clientGeneratedId, o]))
+      const serverIds = new Set(serverOrders.map(o => String(o.id)))
+      const clientIds = await this.getClientIdsByServerId(businessId)
+      const productIds = await this.getProductIdsByServerId(businessId)
+
+      for (const serverOrder of serverOrders) {
+        const serverVersion = withLocalIds(serverOrder, businessId, clientIds, productIds)
+        const serverId = serverVersion.id
+        const record = toLocalOrder({ ...serverVersion, serverId, syncStatus: 'synced' })
+        const local = byServerId.get(serverId) ?? unsynced.get(record.clientGeneratedId)
+
+        if (!local?.id) {
+          await this.orders.add(record)
+          await this.saveSyncSnapshot('order', serverId, serverVersion)
+          continue
+        }
+
+        if (local.syncStatus !== 'pending') {
+          await this.orders.update(local.id, record)
+          await this.saveSyncSnapshot('order', serverId, serverVersion)
+          continue
+        }
+
+        const conflict = await this.mergePendingOrder(local, serverVersion)
+        if (conflict) conflicts.push(conflict)
+      }
+
+      // Borrados en otro dispositivo: solo se eliminan filas ya sincronizadas
+      const removed = localOrders.filter(o =>
+        o.serverId && !serverIds.has(o.serverId) && o.syncStatus === 'synced'
+      )
+      await this.orders.bulkDelete(removed.map(o => o.id).filter((id): id is number => id !== undefined))
+      await this.syncSnapshots.bulkDelete(removed.map(o => ['order', o.serverId ?? '']))
+    })
+
+    return conflicts
+  }
+
+  // Pedido del API con los ids locales de su cliente y sus productos
+  async fromServerOrder(businessId: string, serverOrder: Order): Promise<Order> {
+    const [clientIds, productIds] = await Promise.all([
+      this.getClientIdsByServerId(businessId),
+      this.getProductIdsByServerId(businessId)
+    ])
+    return withLocalIds(serverOrder, businessId, clientIds, productIds)
+  }
+
+  // ✅ Merge de tres vías de un pedido con cambios pendientes contra la versión
+  // actual del servidor (con ids locales), usando la última sincronizada como
+  // base. Al combinarse el pedido local queda con el resultado, listo para
+  // enviarse; si no, el conflicto se guarda en la bandeja y se devuelve
+  async mergePendingOrder(local: LocalOrder, serverVersion: Order): Promise<ConflictInfo | undefined> {
+    const serverId = serverVersion.id
+
+    return await (this as unknown as Dexie).transaction('rw', [this.orders, this.syncSnapshots, this.conflicts], async () => {
+      const base = await this.getSyncSnapshot<Order>('order', serverId)
+      // El servidor no cambió desde la última sincronización: el cambio local se envía tal cual
+      if (base && !ConflictResolver.detectConflict(base, serverVersion)) return undefined
+
+      const resolution = ConflictResolver.threeWayMerge(fromLocalOrder(local), serverVersion, base, 'order')
+      if (resolution.winner === 'merged' && resolution.resolvedData) {
+        const merged = resolution.resolvedData as Order
+        await this.orders.put({
+          ...toLocalOrder({ ...merged, serverId, syncStatus: 'pending' }),
+          ...(local.id !== undefined && { id: local.id }),
+          clientGeneratedId: local.clientGeneratedId,
+          // Si el servidor aún no asignó folio se conserva el provisional
+          ...(!merged.folio && local.folio && { folio: local.folio, folioProvisional: local.folioProvisional ?? true })
+        })
+        // El resultado ya incorpora la versión del servidor: es la nueva base
+        await this.saveSyncSnapshot('order', serverId, serverVersion)
+        return undefined
+      }
+
+      if (resolution.conflictInfo) {
+        await this.saveConflict(resolution.conflictInfo, serverId)
+      }
+      return resolution.conflictInfo
+    })
+  }
+
+  // Producto del API (id del backend) con la forma local
+  fromServerProduct(businessId: string, { id, ...serverProduct }: Product): Product {
+    return { ...serverProduct, businessId, serverId: String(id) }
+  }
+
+  // ✅ Igual que mergePendingOrder para un producto con cambios pendientes.
+  // Las existencias no se fusionan: son las del servidor más los movimientos
+  // locales que aún no se envían
+  async mergePendingProduct(local: Product, serverVersion: Product): Promise<ConflictInfo | undefined> {
+    const serverId = serverVersion.serverId ?? ''
+
+    return await (this as unknown as Dexie).transaction('rw', [this.products, this.stockMovements, this.syncSnapshots, this.conflicts], async () => {
+      const base = await this.getSyncSnapshot<Product>('product', serverId)
+      if (base && !ConflictResolver.detectConflict(base, serverVersion)) return undefined
+
+      const stock = withPendingStock(serverVersion, local.id === undefined ? [] : await this.getPendingStockMovements(String(local.id)))
+      const resolution = ConflictResolver.threeWayMerge(
+        copyStock(local, stock),
+        stock,
+        base && copyStock(base, stock),
+        'product'
+      )
+      if (resolution.winner === 'merged' && resolution.resolvedData && local.id !== undefined) {
+        const changes: Partial<Product> = { ...(resolution.resolvedData as Product), serverId, syncStatus: 'pending' }
+        delete changes.id
+        await this.products.update(local.id, changes)
+        await this.saveSyncSnapshot('product', serverId, serverVersion)
+        return undefined
+      }
+
+      if (resolution.conflictInfo) {
+        await this.saveConflict(resolution.conflictInfo, serverId)
+      }
+      return resolution.conflictInfo
+    })
+  }
+
+  // Guardar (o reemplazar) el conflicto abierto de una entidad
+  async saveConflict(conflict: ConflictInfo, serverId: string): Promise<void> {
+    await this.conflicts
+      .where('[entityType+entityId]')
+      .equals([conflict.entityType, conflict.entityId])
+      .delete()
+
+    await this.conflicts.add({
+      ...conflict,
+      serverId,
+      fieldConflicts: conflict.fieldConflicts ?? [],
+      detectedAt: new Date().toISOString()
+    })
+  }
+
+  // Conflictos pendientes, los más recientes primero
+  async getConflicts(): Promise<Array<StoredConflict>> {
+    return await this.conflicts.orderBy('detectedAt').reverse().toArray()
+  }
+
+  async getConflictCount(): Promise<number> {
+    return await this.conflicts.count()
+  }
+
+  // Guardar la versión elegida por el usuario y volver a encolarla. La versión
+  // del servidor pasa a ser la base porque el usuario ya la tuvo en cuenta
+  async resolveConflict(conflict: StoredConflict, resolved: Order | Product): Promise<void> {
+    const localId = Number(conflict.entityId)
+
+    await (this as unknown as Dexie).transaction('rw', [this.orders, this.products, this.syncSnapshots, this.conflicts, this.syncQueue], async () => {
+      if (conflict.entityType === 'order') {
+        const existing = await this.orders.get(localId)
+        await this.orders.put({
+          ...toLocalOrder({ ...(resolved as Order), serverId: conflict.serverId, syncStatus: 'pending' }),
+          id: localId,
+          ...(existing && { clientGeneratedId: existing.clientGeneratedId })
+        })
+      } else {
+        const changes: Partial<Product> = { ...(resolved as Product), serverId: conflict.serverId, syncStatus: 'pending' }
+        delete changes.id
+        await this.products.update(localId, changes)
+      }
+
+      await this.saveSyncSnapshot(conflict.entityType, conflict.serverId, conflict.serverVersion)
+      if (conflict.id !== undefined) await this.conflicts.delete(conflict.id)
+
+      await this.syncQueue.add({
+        entityType: conflict.entityType,
+        entityId: conflict.entityId,
+        action: 'update',
+        timestamp: new Date().toISOString(),
+        retries: 0
+      })
+    })
+  }
+
+  // Guardar la versión confirmada por el servidor de una entidad
+  async saveSyncSnapshot(entityType: SyncSnapshot['entityType'], serverId: string, data: object): Promise<void> {
+    await this.syncSnapshots.put({
+      entityType,
+      serverId,
+      data: { ...data } as Record<string, unknown>,
+      syncedAt: new Date().toISOString()
+    })
+  }
+
+  async getSyncSnapshot<T>(entityType: SyncSnapshot['entityType'], serverId: string): Promise<T | undefined> {
+    const snapshot = await this.syncSnapshots.get([entityType, serverId])
+    return snapshot?.data as T | undefined
+  }
+
+  // Registrar un evento en el historial de un pedido
+  async addOrderEvent(event: Omit<OrderEvent, 'id' | 'created_at'>): Promise<void> {
+    await this.orderEvents.add({ ...event, created_at: new Date().toISOString() })
+  }
+
+  // Historial de un pedido en orden cronológico
+  async getOrderEvents(orderId: string): Promise<Array<OrderEvent>> {
+    return await this.orderEvents
+      .where('[order_id+created_at]')
+      .between([orderId, Dexie.minKey], [orderId, Dexie.maxKey])
+      .toArray()
+  }
+
+  // id del backend → id local de los clientes del negocio
+  async getClientIdsByServerId(businessId: string): Promise<Map<string, string>> {
+    const clients = await this.clients.where('business_id').equals(businessId).toArray()
+    return new Map(clients.filter(c => c.serverId && c.id).map(c => [c.serverId ?? '', String(c.id)]))
+  }
+
+  // Id del backend de productos locales (los que aún no se sincronizan no aparecen)
+  async getProductServerIds(productIds: Array<string>): Promise<Map<string, string>> {
+    const products = await this.products.bulkGet(productIds.map(Number))
+    return new Map(products.flatMap(product =>
+      product?.id !== undefined && product.serverId ? [[String(product.id), product.serverId] as const] : []
+    ))
+  }
+
+  // Id local de los productos del negocio indexado por su id del backend
+  async getProductIdsByServerId(businessId: string): Promise<Map<string, string>> {
+    const products = await this.products.where('businessId').equals(businessId).toArray()
+    return new Map(products.filter(p => p.serverId && p.id).map(p => [p.serverId ?? '', String(p.id)]))
+  }
+
+  // Aplicar al cliente los cambios de totales causados por un pedido. Solo es
+  // local: el backend calcula sus propios totales y los trae hydrateClients
+  async applyClientStatsDeltas(deltas: Array<ClientStatsDelta>): Promise<void> {
+    for (const { clientId, orders, spent, lastOrderDate } of deltas) {
+      const localId = Number(clientId)
+      if (!Number.isInteger(localId)) continue
+
+      const client = await this.clients.get(localId)
+      if (!client?.id) continue
+
+      await this.clients.update(client.id, {
+        total_orders: Math.max(0, client.total_orders + orders),
+        total_spent: Math.max(0, client.total_spent + spent),
+        ...(lastOrderDate && (!client.last_order_date || lastOrderDate > client.last_order_date) && {
+          last_order_date: lastOrderDate
+        })
+      })
+    }
+  }
+
+  // Capacidad de entregas del negocio (valores por defecto si nunca se configuró)
+  async getDeliveryCapacity(businessId: string): Promise<DeliveryCapacity> {
+    return await this.deliveryCapacity.get(businessId) ?? getDefaultDeliveryCapacity(businessId)
+  }
+
+  async saveDeliveryCapacity(capacity: DeliveryCapacity): Promise<void> {
+    await (this as unknown as Dexie).transaction('rw', [this.deliveryCapacity, this.syncQueue], async () => {
+      await this.deliveryCapacity.put({ ...capacity, updatedAt: new Date().toISOString() })
+      await this.addToSyncQueue({ entityType: 'delivery_capacity', entityId: capacity.businessId, action: 'update' })
+    })
+  }
+
+  // Capacidad guardada en el backend (otro dispositivo pudo cambiarla). Si aquí
+  // hay un cambio sin enviar se conserva: al sincronizar reemplaza al del servidor
+  async hydrateDeliveryCapacity(capacity: DeliveryCapacity): Promise<void> {
+    await (this as unknown as Dexie).transaction('rw', [this.deliveryCapacity, this.syncQueue], async () => {
+      if (await this.hasPendingSync('delivery_capacity', capacity.businessId)) return
+      await this.deliveryCapacity.put(capacity)
+    })
+  }
+
+  // Configuración de inventario del negocio (valores por defecto si nunca se configuró)
+  async getInventorySettings(businessId: string): Promise<InventorySettings> {
+    return await this.inventorySettings.get(businessId) ?? getDefaultInventorySettings(businessId)
+  }
+
+  async saveInventorySettings(settings: InventorySettings): Promise<void> {
+    await this.inventorySettings.put({ ...settings, updatedAt: new Date().toISOString() })
+  }
+
+  // Impuestos del negocio (IVA incluido al 16% si nunca se configuró)
+  async getTaxSettings(businessId: string): Promise<TaxSettings> {
+    return await this.taxSettings.get(businessId) ?? getDefaultTaxSettings(businessId)
+  }
+
+  async saveTaxSettings(settings: TaxSettings): Promise<void> {
+    await (this as unknown as Dexie).transaction('rw', [this.taxSettings, this.syncQueue], async () => {
+      await this.taxSettings.put({ ...settings, updatedAt: new Date().toISOString() })
+      await this.addToSyncQueue({ entityType: 'tax_settings', entityId: settings.businessId, action: 'update' })
+    })
+  }
+
+  // Igual que la capacidad: lo del servidor salvo que haya cambios locales sin enviar
+  async hydrateTaxSettings(settings: TaxSettings): Promise<void> {
+    await (this as unknown as Dexie).transaction('rw', [this.taxSettings, this.syncQueue], async () => {
+      if (await this.hasPendingSync('tax_settings', settings.businessId)) return
+      await this.taxSettings.put(settings)
+    })
+  }
+
+  // ✅ Catálogos del SAT: se importan (carga diferida) solo la primera vez o
+  // cuando cambia su versión; después se leen de IndexedDB sin conexión
+  async loadSatCatalogs(): Promise<void> {
+    const loaded = await this.satCatalogs.toArray()
+    if (loaded.length === 2 && loaded.every(catalog => catalog.version === SAT_CATALOG_VERSION)) return
+
+    const { SAT_PRODUCT_SERVICE_CODES, SAT_UNIT_CODES } = await import('../invoicing/satCatalogData.ts')
+
+    const loadedAt = new Date().toISOString()
+    await (this as unknown as Dexie).transaction('rw', [this.satProductCodes, this.satUnitCodes, this.satCatalogs], async () => {
+      await this.satProductCodes.clear()
+      await this.satProductCodes.bulkPut(SAT_PRODUCT_SERVICE_CODES)
+      await this.satUnitCodes.clear()
+      await this.satUnitCodes.bulkPut(SAT_UNIT_CODES)
+      await this.satCatalogs.bulkPut([
+        { name: 'productService', version: SAT_CATALOG_VERSION, count: SAT_PRODUCT_SERVICE_CODES.length, loadedAt },
+        { name: 'unit', version: SAT_CATALOG_VERSION, count: SAT_UNIT_CODES.length, loadedAt }
+      ])
+    })
+    console.log(`📚 Catálogos SAT ${SAT_CATALOG_VERSION} guardados offline`)
+  }
+
+  async getSatCatalogs(): Promise<{ productCodes: Array<SatCatalogEntry>; unitCodes: Array<SatCatalogEntry> }> {
+    await this.loadSatCatalogs()
+    const [productCodes, unitCodes] = await Promise.all([this.satProductCodes.toArray(), this.satUnitCodes.toArray()])
+    return { productCodes, unitCodes }
+  }
+
+  // Kardex de un producto, del movimiento más reciente al más antiguo
+  async getStockMovements(productId: string): Promise<Array<StockMovement>> {
+    const movements = await this.stockMovements.where('productId').equals(productId).toArray()
+    return movements.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || (b.id ?? 0) - (a.id ?? 0))
+  }
+
+  // Movimientos registrados en este dispositivo que el backend aún no aplica
+  async getPendingStockMovements(productId: string): Promise<Array<StockMovement>> {
+    return await this.stockMovements
+      .where('productId')
+      .equals(productId)
+      .and(movement => movement.syncStatus !== 'synced')
+      .toArray()
+  }
+
+  // ✅ Registrar movimientos: ajusta las existencias locales del producto y
+  // encola solo el movimiento. El backend calcula las existencias con el
+  // kardex, así que el producto no se reenvía (dos dispositivos que venden a
+  // la vez suman sus movimientos en vez de pisarse el total)
+  async recordStockMovements(businessId: string, changes: Array<StockChange>): Promise<Array<StockMovement>> {
+    const recorded: Array<StockMovement> = []
+
+    await (this as unknown as Dexie).transaction('rw', [this.products, this.stockMovements, this.syncQueue], async () => {
+      for (const change of changes) {
+        const product = await this.products.get(Number(change.productId))
+        if (!product?.id || change.quantity === 0) continue
+
+        // Las variantes llevan sus propias existencias dentro del producto
+        const variant = change.variantId ? product.variants?.find(v => v.id === change.variantId) : undefined
+        if (change.variantId && !variant) continue
+
+        const stockAfter = (variant?.stock ?? product.stock) + change.quantity
+        const movement: StockMovement = {
+          ...change,
+          clientGeneratedId: uuidv4(),
+          businessId,
+          stockAfter,
+          syncStatus: 'pending',
+          createdAt: new Date().toISOString()
+        }
+        const id = await this.stockMovements.add(movement)
+        await this.products.update(product.id, {
+          ...(variant
+            ? { variants: (product.variants ?? []).map(v => v.id === variant.id ? { ...v, stock: stockAfter } : v) }
+            : { stock: stockAfter })
+        })
+        await this.addToSyncQueue({ entityType: 'stock_movement', entityId: String(id), action: 'create' })
+        recorded.push({ ...movement, id })
+      }
+    })
+
+    return recorded
+  }
+
+  // ✅ Descontar o devolver existencias según el estado y las partidas del
+  // pedido (para un pedido eliminado se pasa como cancelado)
+  async applyOrderStock(order: Order): Promise<Array<StockMovement>> {
+    const [settings, movements] = await Promise.all([
+      this.getInventorySettings(order.business_id),
+      this.stockMovements.where('orderId').equals(order.id).toArray()
+    ])
+    const changes = getOrderStockChanges(order, settings.deductOnStatus, getDeductedByOrder(movements))
+    if (changes.length === 0) return []
+
+    return await this.recordStockMovements(order.business_id, changes.map(change => ({ ...change, orderId: order.id })))
+  }
+
+  // Producto local a partir de su id local o del id del backend
+  async findLocalProduct(id: string): Promise<Product | undefined> {
+    const synced = await this.products.where('serverId').equals(id).first()
+    if (synced) return synced
+
+    const localId = Number(id)
+    return Number.isInteger(localId) ? await this.products.get(localId) : undefined
+  }
+
+  // ✅ Encolar la foto de un producto (reemplaza la que siguiera pendiente)
+  async queueProductImage(upload: Omit<PendingProductImage, 'id' | 'createdAt'>): Promise<number> {
+    return await (this as unknown as Dexie).transaction('rw', this.pendingProductImages, async () => {
+      await this.pendingProductImages.where('productId').equals(upload.productId).delete()
+      return await this.pendingProductImages.add({ ...upload, createdAt: new Date().toISOString() })
+    })
+  }
+
+  async getPendingProductImage(productId: string): Promise<PendingProductImage | undefined> {
+    return await this.pendingProductImages.where('productId').equals(productId).first()
+  }
+
+  async getPendingProductImages(): Promise<Array<PendingProductImage>> {
+    return await this.pendingProductImages.orderBy('id').toArray()
+  }
+
+  async incrementProductImageRetries(id: number, error: string): Promise<void> {
+    const upload = await this.pendingProductImages.get(id)
+    if (!upload) return
+    await this.pendingProductImages.update(id, { retries: (upload.retries ?? 0) + 1, lastError: error })
+  }
+
+  // ✅ Guardar las URLs de la foto ya subida en el producto y encolar su
+  // actualización (el producto viaja al backend por la cola normal)
+  async applyProductImage(uploadId: number, urls: Pick<Product, 'image_url' | 'thumbnail_url'>): Promise<void> {
+    await (this as unknown as Dexie).transaction('rw', [this.pendingProductImages, this.products, this.syncQueue], async () => {
+      const upload = await this.pendingProductImages.get(uploadId)
+      if (!upload) return
+
+      await this.pendingProductImages.delete(uploadId)
+      const product = await this.products.get(Number(upload.productId))
+      if (!product?.id) return
+
+      const now = new Date().toISOString()
+      await this.products.update(product.id, { ...urls, updatedAt: now, lastModifiedAt: now, syncStatus: 'pending' })
+      await this.addToSyncQueue({ entityType: 'product', entityId: String(product.id), action: 'update' })
+    })
+  }
+
+  // ✅ Aplicar una importación de catálogo: crea las categorías nuevas, da de
+  // alta o actualiza los productos y encola todo. Las existencias entran como
+  // movimientos del kardex (inicial o ajuste), igual que al capturarlas a mano
+  async importCatalog(businessId: string, plan: CatalogImportPlan): Promise<{ created: number; updated: number }> {
+    const result = { created: 0, updated: 0 }
+
+    await (this as unknown as Dexie).transaction('rw', [this.businessCategories, this.products, this.stockMovements, this.syncQueue], async () => {
+      const now = new Date().toISOString()
+
+      for (const category of plan.newCategories) {
+        await this.addBusinessCategory({
+          ...category,
+          businessId,
+          isActive: true,
+          clientGeneratedId: uuidv4(),
+          syncStatus: 'pending',
+          lastModifiedAt: now,
+          createdAt: now
+        })
+      }
+
+      const stockChanges: Array<StockChange> = []
+      for (const row of plan.rows) {
+        if (row.action === 'error' || !row.product) continue
+        const { stock, ...product } = row.product
+
+        if (row.action === 'update' && row.existingId !== undefined) {
+          const current = await this.products.get(row.existingId)
+          if (!current) continue
+
+          await this.products.update(row.existingId, { ...product, updatedAt: now, lastModifiedAt: now, syncStatus: 'pending' })
+          await this.addToSyncQueue({ entityType: 'product', entityId: String(row.existingId), action: 'update' })
+          if (stock !== undefined && stock !== current.stock) {
+            stockChanges.push({ productId: String(row.existingId), type: 'adjustment', quantity: stock - current.stock, notes: 'Importación' })
+          }
+          result.updated++
+          continue
+        }
+
+        const clientGeneratedId = uuidv4()
+        const id = await this.products.add({
+          ...product,
+          businessId,
+          stock: 0,
+          clientGeneratedId,
+          syncStatus: 'pending',
+          lastModifiedAt: now,
+          createdAt: now,
+          updatedAt: now
+        })
+        await this.addToSyncQueue({ entityType: 'product', entityId: String(id), action: 'create' })
+        if (stock) {
+          stockChanges.push({ productId: String(id), type: 'initial', quantity: stock, notes: 'Importación' })
+        }
+        result.created++
+      }
+
+      await this.recordStockMovements(businessId, stockChanges)
+    })
+
+    return result
+  }
+
+  // Plantillas de un cliente, ordenadas por nombre
+  async getOrderTemplates(businessId: string, clientId: string): Promise<Array<OrderTemplate>> {
+    const templates = await this.orderTemplates
+      .where('[businessId+clientId]')
+      .equals([businessId, clientId])
       .toArray()
+    return templates.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  // Guardar una plantilla; si el cliente ya tiene una con el mismo nombre se reemplaza
+  async saveOrderTemplate(template: Omit<OrderTemplate, 'id' | 'createdAt' | 'updatedAt'>): Promise<OrderTemplate> {
+    const now = new Date().toISOString()
+    const existing = (await this.getOrderTemplates(template.businessId, template.clientId))
+      .find(t => t.name.toLowerCase() === template.name.toLowerCase())
+    const record: OrderTemplate = {
+      ...template,
+      ...(existing?.id !== undefined && { id: existing.id }),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    }
+    const id = await this.orderTemplates.put(record)
+    return { ...record, id }
+  }
+
+  async deleteOrderTemplate(id: number): Promise<void> {
+    await this.orderTemplates.delete(id)
+  }
+
+  // ✅ Transacción con todas las tablas que toca crear un pedido (historial,
+  // cliente, inventario, cola) más los pedidos recurrentes: lo generado para
+  // una recurrencia y su `generatedUntil` se guardan juntos o no se guarda nada
+  async inOrderTransaction<T>(work: () => Promise<T>): Promise<T> {
+    return await (this as unknown as Dexie).transaction('rw', [
+      this.orders, this.orderEvents, this.clients, this.products, this.stockMovements,
+      this.inventorySettings, this.taxSettings, this.syncQueue, this.recurringOrders
+    ], work)
+  }
+
+  // Pedidos recurrentes del negocio (o solo los de un cliente)
+  async getRecurringOrders(businessId: string, clientId?: string): Promise<Array<RecurringOrder>> {
+    const recurring = clientId
+      ? await this.recurringOrders.where('[businessId+clientId]').equals([businessId, clientId]).toArray()
+      : await this.recurringOrders.where('businessId').equals(businessId).toArray()
+    return recurring.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  // Guardar un pedido recurrente y encolarlo. Al editar se conservan el estado
+  // (pausado), `generatedUntil` y los ids, así los pedidos ya generados no se
+  // vuelven a crear ni se modifican
+  async saveRecurringOrder(
+    recurring: Omit<RecurringOrder, 'clientGeneratedId' | 'serverId' | 'syncStatus' | 'createdAt' | 'updatedAt'>
+  ): Promise<RecurringOrder> {
+    return await (this as unknown as Dexie).transaction('rw', [this.recurringOrders, this.syncQueue], async () => {
+      const now = new Date().toISOString()
+      const existing = recurring.id === undefined ? undefined : await this.recurringOrders.get(recurring.id)
+      const record: RecurringOrder = {
+        ...recurring,
+        status: existing?.status ?? recurring.status,
+        ...(existing?.generatedUntil && { generatedUntil: existing.generatedUntil }),
+        clientGeneratedId: existing?.clientGeneratedId ?? uuidv4(),
+        ...(existing?.serverId && { serverId: existing.serverId }),
+        syncStatus: 'pending',
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now
+      }
+      const id = await this.recurringOrders.put(record)
+      await this.addToSyncQueue({ entityType: 'recurring_order', entityId: String(id), action: existing ? 'update' : 'create' })
+      return { ...record, id }
+    })
+  }
+
+  // Pausar o reactivar se sincroniza; `generatedUntil` es solo de este dispositivo
+  async updateRecurringOrder(id: number, changes: Partial<Pick<RecurringOrder, 'status' | 'generatedUntil'>>): Promise<void> {
+    await (this as unknown as Dexie).transaction('rw', [this.recurringOrders, this.syncQueue], async () => {
+      await this.recurringOrders.update(id, {
+        ...changes,
+        ...(changes.status && { syncStatus: 'pending' as const }),
+        updatedAt: new Date().toISOString()
+      })
+      if (changes.status) {
+        await this.addToSyncQueue({ entityType: 'recurring_order', entityId: String(id), action: 'update' })
+      }
+    })
+  }
+
+  async deleteRecurringOrder(id: number): Promise<void> {
+    await (this as unknown as Dexie).transaction('rw', [this.recurringOrders, this.syncQueue], async () => {
+      const existing = await this.recurringOrders.get(id)
+      await this.recurringOrders.delete(id)
+      await this.addToSyncQueue({
+        entityType: 'recurring_order',
+        entityId: String(id),
+        action: 'delete',
+        ...(existing?.serverId && { serverId: existing.serverId })
+      })
+    })
+  }
+
+  // Guardar los pedidos recurrentes del servidor (con ids del backend) sin pisar
+  // los que tienen cambios pendientes. `generatedUntil` sigue siendo el local
+  async hydrateRecurringOrders(businessId: string, serverRecurring: Array<Omit<RecurringOrder, 'id'> & { id: string }>): Promise<void> {
+    await (this as unknown as Dexie).transaction('rw', [this.recurringOrders, this.clients, this.products], async () => {
+      const localRecurring = await this.recurringOrders.where('businessId').equals(businessId).toArray()
+      const byServerId = new Map(localRecurring.filter(r => r.serverId).map(r => [r.serverId, r]))
+      const byClientGeneratedId = new Map(localRecurring.map(r => [r.clientGeneratedId, r]))
+      const serverIds = new Set(serverRecurring.map(r => String(r.id)))
+      const clientIds = await this.getClientIdsByServerId(businessId)
+      const productIds = await this.getProductIdsByServerId(businessId)
+
+      for (const { id, generatedUntil: _generatedUntil, ...recurring } of serverRecurring) {
+        const serverId = String(id)
+        const clientId = clientIds.get(recurring.clientId)
+        // Sin el cliente local todavía no se pueden generar sus pedidos
+        if (!clientId) continue
+
+        const local = byServerId.get(serverId) ?? byClientGeneratedId.get(recurring.clientGeneratedId)
+        if (local?.syncStatus === 'pending') continue
+
+        await this.recurringOrders.put({
+          ...recurring,
+          businessId,
+          clientId,
+          items: recurring.items.map(({ product_id: serverProductId, ...item }) => {
+            const productId = serverProductId ? productIds.get(serverProductId) : undefined
+            return { ...item, ...(productId && { product_id: productId }) }
+          }),
+          ...(local?.id !== undefined && { id: local.id }),
+          ...(local?.generatedUntil && { generatedUntil: local.generatedUntil }),
+          serverId,
+          syncStatus: 'synced'
+        })
+      }
+
+      // Borrados en otro dispositivo: solo se eliminan filas ya sincronizadas
+      const removed = localRecurring.filter(r =>
+        r.serverId && !serverIds.has(r.serverId) && r.syncStatus === 'synced' && r.id !== undefined
+      )
+      await this.recurringOrders.bulkDelete(removed.map(r => r.id as number))
+    })
   }
 
   // Obtener productos por negocio
@@ -80,12 +1160,22 @@ export class PedidoListDB extends (Dexie as unknown as new (...args: unknown[])
       .toArray()
   }
 
-  // Obtener items pendientes de sincronización
+  // Obtener items pendientes de sincronización, en el orden en que se encolaron
   async getPendingSyncItems(): Promise<Array<SyncQueueItem>> {
-    return await this.syncQueue
+    const items = await this.syncQueue
       .where('retries')
       .below(3) // Máximo 3 reintentos
       .toArray()
+
+    return items.sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+  }
+
+  // Contar items que agotaron sus reintentos
+  async getFailedSyncCount(): Promise<number> {
+    return await this.syncQueue
+      .where('retries')
+      .aboveOrEqual(3)
+      .count()
   }
 
   // Agregar item a la cola de sincronización
@@ -97,11 +1187,26 @@ export class PedidoListDB extends (Dexie as unknown as new (...args: unknown[])
     })
   }
 
-  // Marcar item como sincronizado
-  async markAsSynced(entityType: 'order' | 'product' | 'business_category', entityId: string): Promise<void> {
+  // ¿Quedan cambios de la entidad en la cola?
+  async hasPendingSync(entityType: SyncQueueItem['entityType'], entityId: string): Promise<boolean> {
+    return await this.syncQueue.where('[entityType+entityId]').equals([entityType, entityId]).count() > 0
+  }
+
+  // Marcar item como sincronizado. Con upToId solo se borran los items
+  // encolados hasta ese id, para no perder cambios agregados durante el envío
+  async markAsSynced(entityType: SyncQueueItem['entityType'], entityId: string, upToId?: number): Promise<void> {
     await this.syncQueue
-      .where(['entityType', 'entityId'])
+      .where('[entityType+entityId]')
       .equals([entityType, entityId])
+      .and(item => upToId === undefined || (item.id ?? 0) <= upToId)
+      .delete()
+  }
+
+  // Descartar items que agotaron sus reintentos
+  async clearFailedSyncItems(): Promise<number> {
+    return await this.syncQueue
+      .where('retries')
+      .aboveOrEqual(3)
       .delete()
   }
 
@@ -114,6 +1219,98 @@ export class PedidoListDB extends (Dexie as unknown as new (...args: unknown[])
     })
   }
 
+  // === CLIENTS METHODS ===
+
+  // Obtener clientes activos por negocio, ordenados por nombre
+  async getClientsByBusiness(businessId: string): Promise<Array<LocalClient>> {
+    const clients = await this.clients
+      .where('business_id')
+      .equals(businessId)
+      .and(client => client.is_active)
+      .toArray()
+
+    return clients.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  // Guardar la lista del servidor sin pisar cambios locales pendientes
+  async hydrateClients(businessId: string, serverClients: Array<Client>): Promise<void> {
+    await (this as unknown as Dexie).transaction('rw', [this.clients, this.orders], async () => {
+      const localClients = await this.clients.where('business_id').equals(businessId).toArray()
+      const byServerId = new Map(localClients.filter(c => c.serverId).map(c => [c.serverId, c]))
+      const serverIds = new Set(serverClients.map(c => c.id))
+      // Los totales del servidor aún no incluyen los pedidos sin sincronizar
+      const pendingOrders = await this.orders.where('syncStatus').equals('pending').toArray()
+      const clientsWithPendingOrders = new Set(pendingOrders.map(o => o.clientId))
+
+      for (const { id: serverId, ...serverClient } of serverClients) {
+        const local = byServerId.get(serverId)
+        if (!local) {
+          await this.clients.add({ ...serverClient, serverId, syncStatus: 'synced' })
+        } else if (local.syncStatus !== 'pending' && local.id !== undefined) {
+          const { total_orders, total_spent, last_order_date, ...profile } = serverClient
+          await this.clients.update(local.id, {
+            ...(clientsWithPendingOrders.has(String(local.id))
+              ? profile
+              : { ...profile, total_orders, total_spent, ...(last_order_date && { last_order_date }) }),
+            syncStatus: 'synced'
+          })
+        }
+      }
+
+      // Borrados en otro dispositivo: solo se eliminan filas ya sincronizadas
+      const removed = localClients.filter(c =>
+        c.serverId && !serverIds.has(c.serverId) && c.syncStatus === 'synced' && c.id !== undefined
+      )
+      await this.clients.bulkDelete(removed.map(c => c.id as number))
+    })
+  }
+
+  // ✅ Guardar el catálogo del servidor sin pisar cambios locales pendientes.
+  // Las existencias son las del servidor más los movimientos aún sin enviar
+  async hydrateProducts(businessId: string, serverProducts: Array<Product>): Promise<void> {
+    await (this as unknown as Dexie).transaction('rw', [this.products, this.stockMovements], async () => {
+      const localProducts = await this.products.where('businessId').equals(businessId).toArray()
+      const byServerId = new Map(localProducts.filter(p => p.serverId).map(p => [p.serverId, p]))
+      const serverIds = new Set(serverProducts.map(p => String(p.id)))
+
+      for (const serverProduct of serverProducts) {
+        const serverVersion = this.fromServerProduct(businessId, serverProduct)
+        const local = byServerId.get(serverVersion.serverId)
+        if (!local?.id) {
+          await this.products.add({ ...serverVersion, syncStatus: 'synced' })
+          continue
+        }
+
+        const stock = withPendingStock(serverVersion, await this.getPendingStockMovements(String(local.id)))
+        if (local.syncStatus === 'pending') {
+          // Los cambios locales se envían después; solo se actualizan las existencias
+          const { stock: projected, variants } = copyStock(local, stock)
+          await this.products.update(local.id, { stock: projected, ...(variants && { variants }) })
+        } else {
+          await this.products.update(local.id, { ...stock, syncStatus: 'synced' })
+        }
+      }
+
+      // Borrados en otro dispositivo: solo se eliminan filas ya sincronizadas
+      const removed = localProducts.filter(p =>
+        p.serverId && !serverIds.has(p.serverId) && p.syncStatus === 'synced' && p.id !== undefined
+      )
+      await this.products.bulkDelete(removed.map(p => p.id as number))
+    })
+  }
+
+  // Descartar un cliente creado offline que aún no llega al backend (el pedido
+  // que lo creó falló): se borra junto con su alta pendiente en la cola
+  async discardUnsyncedClient(id: string): Promise<void> {
+    await (this as unknown as Dexie).transaction('rw', [this.clients, this.syncQueue], async () => {
+      const client = await this.clients.get(Number(id))
+      if (!client || client.serverId) return
+
+      await this.clients.delete(Number(id))
+      await this.syncQueue.where('[entityType+entityId]').equals(['client', id]).delete()
+    })
+  }
+
   // === BUSINESS CATEGORIES METHODS ===
 
   // Obtener categorías activas por negocio
@@ -131,13 +1328,37 @@ export class PedidoListDB extends (Dexie as unknown as new (...args: unknown[])
     
     await this.addToSyncQueue({
       entityType: 'business_category',
-      entityId: category.clientGeneratedId || id.toString(),
+      entityId: id.toString(),
       action: 'create'
     })
     
     return id
   }
 
+  // Actualizar categoría (incluye soft delete) y encolar cada fila afectada
+  async updateBusinessCategory(
+    businessId: string,
+    categoryId: string,
+    changes: Partial<BusinessCategory>
+  ): Promise<void> {
+    const matches = await this.businessCategories
+      .where('businessId')
+      .equals(businessId)
+      .and(cat => cat.categoryId === categoryId)
+      .toArray()
+
+    for (const category of matches) {
+      if (category.id === undefined) continue
+
+      await this.businessCategories.update(category.id, changes)
+      await this.addToSyncQueue({
+        entityType: 'business_category',
+        entityId: category.id.toString(),
+        action: 'update'
+      })
+    }
+  }
+
   // Obtener categorías por defecto para tipo de negocio
   async getDefaultCategoriesForBusinessType(businessType: string): Promise<Omit<BusinessCategory, 'id' | 'businessId'>[]> {
     try {
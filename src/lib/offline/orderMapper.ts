@@ -0,0 +1,184 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { LocalOrder, Order } from '../../types/index.ts'
+
+// Pedido tal como lo envía/recibe el API (snake_case) sin el id del backend
+export type OrderInput = Omit<Order, 'id'> & { id?: string }
+
+// Campos del API que tienen equivalente directo en el registro local
+const ORDER_FIELD_MAP = {
+  business_id: 'businessId',
+  branch_id: 'branchId',
+  employee_id: 'employeeId',
+  client_id: 'clientId',
+  client_name: 'clientName',
+  client_phone: 'clientPhone',
+  total: 'total',
+  subtotal: 'subtotal',
+  taxes: 'taxes',
+  tax_mode: 'taxMode',
+  delivery_date: 'deliveryDate',
+  delivery_time: 'deliveryTime',
+  notes: 'notes',
+  status: 'status',
+  client_generated_id: 'clientGeneratedId',
+  folio: 'folio',
+  last_modified_at: 'lastModifiedAt',
+  modified_by: 'modifiedBy',
+  created_at: 'createdAt',
+  items: 'items',
+  payments: 'payments',
+  invoice_uuid: 'invoiceUuid',
+  version: 'version'
+} as const satisfies Partial<Record<keyof Order, keyof LocalOrder>>
+
+type MappedOrderField = keyof typeof ORDER_FIELD_MAP
+
+// El índice [businessId+deliveryDate] espera fechas YYYY-MM-DD, no timestamps ISO
+export const toDateKey = (date: string): string => date.slice(0, 10)
+
+// Fecha YYYY-MM-DD en la zona horaria del dispositivo (hoy por defecto).
+// toISOString() usa UTC: en México después de las 18:00 ya da el día siguiente
+export const toLocalDateKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+// Medianoche local de una fecha YYYY-MM-DD: new Date('YYYY-MM-DD') es medianoche
+// UTC y en México se muestra como el día anterior
+export const fromLocalDateKey = (dateKey: string): Date => new Date(`${toDateKey(dateKey)}T00:00:00`)
+
+/**
+ * ✅ API (snake_case) → registro local (camelCase)
+ */
+export function toLocalOrder(order: OrderInput): Omit<LocalOrder, 'id'> {
+  const now = new Date().toISOString()
+
+  return {
+    ...(order.serverId && { serverId: order.serverId }),
+    clientGeneratedId: order.client_generated_id ?? order.clientGeneratedId ?? uuidv4(),
+    ...(order.folio && { folio: order.folio, folioProvisional: order.folioProvisional ?? false }),
+    businessId: order.business_id,
+    branchId: order.branch_id,
+    employeeId: order.employee_id,
+    ...(order.client_id !== undefined && { clientId: order.client_id }),
+    clientName: order.client_name,
+    ...(order.client_phone !== undefined && { clientPhone: order.client_phone }),
+    total: order.total,
+    ...(order.subtotal !== undefined && { subtotal: order.subtotal }),
+    ...(order.taxes && { taxes: order.taxes }),
+    ...(order.tax_mode && { taxMode: order.tax_mode }),
+    deliveryDate: toDateKey(order.delivery_date),
+    ...(order.delivery_time !== undefined && { deliveryTime: order.delivery_time }),
+    ...(order.notes !== undefined && { notes: order.notes }),
+    status: order.status,
+    lastModifiedAt: order.last_modified_at || now,
+    ...(order.modified_by !== undefined && { modifiedBy: order.modified_by }),
+    createdAt: order.created_at || now,
+    items: order.items ?? [],
+    ...(order.payments && { payments: order.payments }),
+    ...(order.invoice_uuid && { invoiceUuid: order.invoice_uuid }),
+    version: order.version ?? 1,
+    syncStatus: order.syncStatus ?? 'pending'
+  }
+}
+
+/**
+ * ✅ Cambios parciales del API → cambios del registro local (para table.update)
+ */
+export function toLocalOrderChanges(changes: Partial<Order>): Partial<LocalOrder> {
+  const localChanges: Record<string, unknown> = {}
+
+  for (const [field, localField] of Object.entries(ORDER_FIELD_MAP) as Array<[MappedOrderField, keyof LocalOrder]>) {
+    if (changes[field] !== undefined) {
+      localChanges[localField] = field === 'delivery_date'
+        ? toDateKey(changes[field])
+        : changes[field]
+    }
+  }
+  if (changes.syncStatus) localChanges['syncStatus'] = changes.syncStatus
+  if (changes.folioProvisional !== undefined) localChanges['folioProvisional'] = changes.folioProvisional
+
+  return localChanges as Partial<LocalOrder>
+}
+
+/**
+ * ✅ Registro local → Order para la UI (id local como string)
+ */
+export function fromLocalOrder(local: LocalOrder): Order {
+  return {
+    ...toOrderPayload(local),
+    id: String(local.id),
+    clientGeneratedId: local.clientGeneratedId,
+    syncStatus: local.syncStatus,
+    ...(local.serverId && { serverId: local.serverId }),
+    ...(local.folio && { folio: local.folio, folioProvisional: local.folioProvisional ?? false })
+  }
+}
+
+/**
+ * ✅ Registro local → cuerpo para el backend (sin campos de IndexedDB)
+ */
+export function toOrderPayload(local: LocalOrder): Omit<Order, 'id'> {
+  return {
+    business_id: local.businessId,
+    branch_id: local.branchId,
+    employee_id: local.employeeId,
+    ...(local.clientId !== undefined && { client_id: local.clientId }),
+    client_name: local.clientName,
+    ...(local.clientPhone !== undefined && { client_phone: local.clientPhone }),
+    total: local.total,
+    ...(local.subtotal !== undefined && { subtotal: local.subtotal }),
+    ...(local.taxes && { taxes: local.taxes }),
+    ...(local.taxMode && { tax_mode: local.taxMode }),
+    delivery_date: local.deliveryDate,
+    ...(local.deliveryTime !== undefined && { delivery_time: local.deliveryTime }),
+    ...(local.notes !== undefined && { notes: local.notes }),
+    status: local.status,
+    client_generated_id: local.clientGeneratedId,
+    // El folio provisional es local: el backend asigna el definitivo
+    ...(local.folio && !local.folioProvisional && { folio: local.folio }),
+    last_modified_at: local.lastModifiedAt,
+    ...(local.modifiedBy !== undefined && { modified_by: local.modifiedBy }),
+    created_at: local.createdAt,
+    items: local.items,
+    ...(local.payments && { payments: local.payments }),
+    ...(local.invoiceUuid && { invoice_uuid: local.invoiceUuid }),
+    version: local.version
+  }
+}
+
+/**
+ * ✅ Migración: filas guardadas antes de la versión 5 mezclaban snake_case
+ * (business_id, delivery_date...) con claves sueltas en camelCase
+ */
+export function normalizeLegacyOrder(row: Record<string, unknown>): LocalOrder {
+  const legacy = row as Partial<Order> & Partial<LocalOrder> & { updatedAt?: string }
+  const pick = <T>(snake: T | undefined, camel: T | undefined, fallback: T): T => snake ?? camel ?? fallback
+  const now = new Date().toISOString()
+
+  return {
+    ...(typeof legacy.id === 'number' && { id: legacy.id }),
+    ...(legacy.serverId && { serverId: legacy.serverId }),
+    clientGeneratedId: pick(legacy.client_generated_id, legacy.clientGeneratedId, uuidv4()),
+    ...(legacy.folio && { folio: legacy.folio, folioProvisional: legacy.folioProvisional ?? false }),
+    businessId: pick(legacy.business_id, legacy.businessId, ''),
+    branchId: pick(legacy.branch_id, legacy.branchId, 'default-branch'),
+    employeeId: pick(legacy.employee_id, legacy.employeeId, 'default-employee'),
+    ...((legacy.client_id ?? legacy.clientId) !== undefined && { clientId: legacy.client_id ?? legacy.clientId }),
+    clientName: pick(legacy.client_name, legacy.clientName, ''),
+    ...((legacy.client_phone ?? legacy.clientPhone) !== undefined && { clientPhone: legacy.client_phone ?? legacy.clientPhone }),
+    total: legacy.total ?? 0,
+    ...(legacy.subtotal !== undefined && { subtotal: legacy.subtotal }),
+    ...(legacy.taxes && { taxes: legacy.taxes }),
+    ...((legacy.tax_mode ?? legacy.taxMode) && { taxMode: legacy.tax_mode ?? legacy.taxMode }),
+    deliveryDate: toDateKey(pick(legacy.delivery_date, legacy.deliveryDate, '')),
+    ...((legacy.delivery_time ?? legacy.deliveryTime) !== undefined && { deliveryTime: legacy.delivery_time ?? legacy.deliveryTime }),
+    ...(legacy.notes !== undefined && { notes: legacy.notes }),
+    status: legacy.status ?? 'pending',
+    lastModifiedAt: pick(legacy.last_modified_at, legacy.lastModifiedAt ?? legacy.updatedAt, now),
+    ...((legacy.modified_by ?? legacy.modifiedBy) !== undefined && { modifiedBy: legacy.modified_by ?? legacy.modifiedBy }),
+    createdAt: pick(legacy.created_at, legacy.createdAt, now),
+    items: legacy.items ?? [],
+    ...(legacy.payments && { payments: legacy.payments }),
+    version: legacy.version ?? 1,
+    syncStatus: legacy.syncStatus ?? 'pending'
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Capacidad de entregas: cuántos pedidos caben por día y por franja horaria.
+ *
+ * Los conteos se calculan sobre los pedidos guardados localmente, así que el
+ * aviso también funciona sin conexión. Los pedidos cancelados no ocupan lugar.
+ */
+import type { DeliveryCapacity, Order } from '../../types/index.ts';
+
+// Días hacia adelante en los que se busca un lugar libre
+export const CAPACITY_SEARCH_DAYS = 14;
+
+export interface CapacityCheck {
+  dayCount: number;
+  dayLimit: number | null;
+  slot?: string;
+  slotCount: number;
+  slotLimit: number | null;
+  dayFull: boolean;
+  slotFull: boolean;
+  isFull: boolean;
+}
+
+export interface DeliverySlot {
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:MM, inicio de la franja
+}
+
+export type CapacityLevel = 'free' | 'busy' | 'full';
+
+export function getDefaultDeliveryCapacity(businessId: string): DeliveryCapacity {
+  return {
+    businessId,
+    maxOrdersPerDay: null,
+    maxOrdersPerSlot: null,
+    slotMinutes: 60,
+    openingTime: '09:00',
+    closingTime: '18:00',
+    enforcement: 'warn',
+    updatedAt: new Date(0).toISOString()
+  };
+}
+
+const timeToMinutes = (time: string): number => {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const minutesToTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * ✅ Inicio de la franja a la que pertenece una hora (relativa a la apertura)
+ */
+export function getSlotStart(time: string, capacity: DeliveryCapacity): string {
+  const opening = timeToMinutes(capacity.openingTime);
+  const offset = Math.floor((timeToMinutes(time) - opening) / capacity.slotMinutes) * capacity.slotMinutes;
+  return minutesToTime(Math.max(0, opening + offset));
+}
+
+/**
+ * ✅ Franjas del día entre la apertura y el cierre
+ */
+export function getDaySlots(capacity: DeliveryCapacity): Array<string> {
+  const slots: Array<string> = [];
+  const closing = timeToMinutes(capacity.closingTime);
+  for (let start = timeToMinutes(capacity.openingTime); start < closing; start += capacity.slotMinutes) {
+    slots.push(minutesToTime(start));
+  }
+  return slots;
+}
+
+const isActiveOn = (order: Order, date: string, ignoreOrderId?: string) =>
+  order.status !== 'cancelled' && order.delivery_date.slice(0, 10) === date && order.id !== ignoreOrderId;
+
+/**
+ * ✅ Ocupación de un día (y de la franja de `time`, si se indica)
+ */
+export function checkDeliveryCapacity(
+  orders: Array<Order>,
+  capacity: DeliveryCapacity,
+  date: string,
+  time?: string,
+  ignoreOrderId?: string
+): CapacityCheck {
+  const dayOrders = orders.filter(order => isActiveOn(order, date, ignoreOrderId));
+  const slot = time ? getSlotStart(time, capacity) : undefined;
+  const slotCount = slot
+    ? dayOrders.filter(order => order.delivery_time && getSlotStart(order.delivery_time, capacity) === slot).length
+    : 0;
+
+  const dayFull = capacity.maxOrdersPerDay !== null && dayOrders.length >= capacity.maxOrdersPerDay;
+  const slotFull = slot !== undefined && capacity.maxOrdersPerSlot !== null && slotCount >= capacity.maxOrdersPerSlot;
+
+  return {
+    dayCount: dayOrders.length,
+    dayLimit: capacity.maxOrdersPerDay,
+    ...(slot && { slot }),
+    slotCount,
+    slotLimit: capacity.maxOrdersPerSlot,
+    dayFull,
+    slotFull,
+    isFull: dayFull || slotFull
+  };
+}
+
+/**
+ * ✅ Lugar libre más cercano a la fecha/hora pedida (incluida ella misma):
+ * primero el mismo día, luego los siguientes. Dentro de un día se prefieren
+ * las franjas más próximas a la hora pedida.
+ */
+export function findNearestOpenSlot(
+  orders: Array<Order>,
+  capacity: DeliveryCapacity,
+  date: string,
+  time?: string,
+  ignoreOrderId?: string
+): DeliverySlot | undefined {
+  const requested = time ? timeToMinutes(getSlotStart(time, capacity)) : undefined;
+  const slots = requested === undefined
+    ? []
+    : [...getDaySlots(capacity)].sort((a, b) =>
+      Math.abs(timeToMinutes(a) - requested) - Math.abs(timeToMinutes(b) - requested) ||
+      timeToMinutes(a) - timeToMinutes(b)
+    );
+
+  for (let offset = 0; offset <= CAPACITY_SEARCH_DAYS; offset++) {
+    const day = addDays(date, offset);
+    if (checkDeliveryCapacity(orders, capacity, day, undefined, ignoreOrderId).dayFull) continue;
+
+    if (requested === undefined) return { date: day };
+
+    const openSlot = slots.find(slot => !checkDeliveryCapacity(orders, capacity, day, slot, ignoreOrderId).slotFull);
+    if (openSlot) return { date: day, time: openSlot };
+  }
+  return undefined;
+}
+
+/**
+ * ✅ Nivel de ocupación para colorear el calendario
+ */
+export function getCapacityLevel(count: number, limit: number | null): CapacityLevel {
+  if (limit === null) return 'free';
+  if (count >= limit) return 'full';
+  return count >= limit * 0.8 ? 'busy' : 'free';
+}
@@ -0,0 +1,108 @@
+/**
+ * Métricas de un cliente para su ficha: ticket promedio, productos favoritos,
+ * frecuencia de pedidos y último contacto.
+ *
+ * Los totales de por vida vienen del registro del cliente (total_orders,
+ * total_spent); favoritos y frecuencia se calculan con los pedidos que hay en
+ * IndexedDB, que solo guarda los recientes.
+ */
+import type { Client, CreateOrderData, Order } from '../../types/index.ts';
+
+const MAX_FAVORITES = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FavoriteProduct {
+  key: string;
+  product_name: string;
+  quantity: number;
+  orderCount: number;
+}
+
+export interface ClientInsights {
+  averageTicket: number;
+  favoriteProducts: Array<FavoriteProduct>;
+  averageDaysBetweenOrders?: number;
+  lastContact?: string;
+  openOrders: number;
+}
+
+const isCounted = (order: Order) => order.status !== 'cancelled';
+
+/**
+ * ✅ Productos más pedidos por el cliente (por cantidad)
+ */
+export function getFavoriteProducts(orders: Array<Order>, limit = MAX_FAVORITES): Array<FavoriteProduct> {
+  const totals = new Map<string, FavoriteProduct>();
+
+  for (const order of orders.filter(isCounted)) {
+    for (const item of order.items ?? []) {
+      const key = item.product_id ?? `name:${item.product_name.toLowerCase()}`;
+      const total = totals.get(key) ?? { key, product_name: item.product_name, quantity: 0, orderCount: 0 };
+      total.quantity += item.quantity;
+      total.orderCount += 1;
+      totals.set(key, total);
+    }
+  }
+
+  return [...totals.values()]
+    .sort((a, b) => b.quantity - a.quantity || a.product_name.localeCompare(b.product_name))
+    .slice(0, limit);
+}
+
+/**
+ * ✅ Días promedio entre pedidos consecutivos (hace falta al menos dos)
+ */
+export function getAverageDaysBetweenOrders(orders: Array<Order>): number | undefined {
+  const dates = orders
+    .filter(isCounted)
+    .map(order => new Date(order.created_at).getTime())
+    .sort((a, b) => a - b);
+
+  const first = dates[0];
+  const last = dates[dates.length - 1];
+  if (first === undefined || last === undefined || dates.length < 2) return undefined;
+
+  return Math.round((last - first) / DAY_MS / (dates.length - 1));
+}
+
+export function getClientInsights(client: Client, orders: Array<Order>): ClientInsights {
+  // Último contacto: el pedido más reciente, creado o modificado
+  const lastContact = [client.last_order_date, ...orders.map(order => order.last_modified_at)]
+    .filter((date): date is string => Boolean(date))
+    .sort()
+    .pop();
+  const averageDaysBetweenOrders = getAverageDaysBetweenOrders(orders);
+
+  return {
+    averageTicket: client.total_orders > 0 ? client.total_spent / client.total_orders : 0,
+    favoriteProducts: getFavoriteProducts(orders),
+    ...(averageDaysBetweenOrders !== undefined && { averageDaysBetweenOrders }),
+    ...(lastContact && { lastContact }),
+    openOrders: orders.filter(order => !['delivered', 'cancelled'].includes(order.status)).length
+  };
+}
+
+/**
+ * ✅ Datos para repetir un pedido anterior con una nueva fecha de entrega
+ */
+export function toRepeatOrderData(order: Order, deliveryDate: string): CreateOrderData {
+  return {
+    ...(order.client_id && { client_id: order.client_id }),
+    client_name: order.client_name,
+    ...(order.client_phone && { client_phone: order.client_phone }),
+    delivery_date: deliveryDate,
+    ...(order.delivery_time && { delivery_time: order.delivery_time }),
+    ...(order.notes && { notes: order.notes }),
+    items: (order.items ?? []).map(item => ({
+      ...(item.product_id && { product_id: item.product_id }),
+      product_name: item.product_name,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      subtotal: item.quantity * item.unit_price,
+      ...(item.tax_rate !== undefined && { tax_rate: item.tax_rate }),
+      ...(item.variant_id && { variant_id: item.variant_id, variant_name: item.variant_name ?? '' }),
+      ...(item.modifiers?.length && { modifiers: item.modifiers }),
+      ...(item.notes && { notes: item.notes })
+    }))
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Vincular pedidos con clientes: búsqueda para el autocompletado y
+ * detección de un cliente existente antes de crear uno nuevo.
+ */
+import { getLocalPhoneNumber } from '../validation/phone.ts';
+import { normalizeSearchText } from '../utils.ts';
+import type { Client } from '../../types/index.ts';
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * ✅ Clientes cuyo nombre o teléfono coinciden con lo escrito
+ */
+export function searchClients(clients: Array<Client>, term: string, limit = MAX_SUGGESTIONS): Array<Client> {
+  const name = normalizeSearchText(term);
+  const digits = term.replace(/\D/g, '');
+  if (name.length < 2 && digits.length < 3) return [];
+
+  return clients
+    .filter(client =>
+      client.is_active &&
+      (normalizeSearchText(client.name).includes(name) ||
+        (digits.length >= 3 && Boolean(client.phone?.replace(/\D/g, '').includes(digits))))
+    )
+    .sort((a, b) => b.total_orders - a.total_orders)
+    .slice(0, limit);
+}
+
+/**
+ * ✅ Cliente que ya corresponde a este nombre/teléfono (el teléfono manda)
+ */
+export function findExistingClient(clients: Array<Client>, name: string, phone?: string): Client | undefined {
+  if (phone) {
+    const localPhone = getLocalPhoneNumber(phone);
+    const byPhone = clients.find(client => client.phone && getLocalPhoneNumber(client.phone) === localPhone);
+    if (byPhone) return byPhone;
+  }
+
+  const normalized = normalizeSearchText(name);
+  return clients.find(client => normalizeSearchText(client.name) === normalized && (!phone || !client.phone));
+}
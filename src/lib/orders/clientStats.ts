@@ -0,0 +1,43 @@
+/**
+ * Totales de cliente (total_orders, total_spent, last_order_date) mantenidos
+ * localmente a partir de los pedidos.
+ *
+ * Se aplican deltas en lugar de recalcular desde cero: IndexedDB solo guarda
+ * los pedidos recientes (cleanupOldData borra los sincronizados de más de 30
+ * días) y el histórico completo vive en el backend.
+ */
+import type { Order } from '../../types/index.ts';
+
+export interface ClientStatsDelta {
+  clientId: string;
+  orders: number;
+  spent: number;
+  lastOrderDate?: string;
+}
+
+type OrderSnapshot = Pick<Order, 'client_id' | 'status' | 'total' | 'created_at'>;
+
+// Un pedido suma al cliente mientras esté vinculado y no esté cancelado
+const contribution = (order: OrderSnapshot | undefined) =>
+  order?.client_id && order.status !== 'cancelled'
+    ? { clientId: order.client_id, total: order.total }
+    : undefined;
+
+/**
+ * ✅ Cambios en los totales de cada cliente afectado al pasar de `before` a `after`
+ * (before = undefined al crear, after = undefined al eliminar)
+ */
+export function getClientStatsDeltas(before?: OrderSnapshot, after?: OrderSnapshot): Array<ClientStatsDelta> {
+  const previous = contribution(before);
+  const next = contribution(after);
+
+  if (previous && next && previous.clientId === next.clientId) {
+    if (previous.total === next.total) return [];
+    return [{ clientId: next.clientId, orders: 0, spent: next.total - previous.total }];
+  }
+
+  return [
+    ...(previous ? [{ clientId: previous.clientId, orders: -1, spent: -previous.total }] : []),
+    ...(next && after ? [{ clientId: next.clientId, orders: 1, spent: next.total, lastOrderDate: after.created_at }] : [])
+  ];
+}
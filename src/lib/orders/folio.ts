@@ -0,0 +1,30 @@
+/**
+ * Folios legibles por negocio (PL-000123).
+ *
+ * El backend asigna el folio definitivo al crear el pedido. Sin conexión se
+ * asigna uno provisional (siguiente número conocido en este dispositivo) que
+ * nunca se envía al servidor y se reemplaza al sincronizar, así dos
+ * dispositivos offline no pueden reservar el mismo folio.
+ */
+import type { Order } from '../../types/index.ts';
+
+export const FOLIO_PREFIX = 'PL';
+const FOLIO_DIGITS = 6;
+const FOLIO_PATTERN = new RegExp(`^${FOLIO_PREFIX}-(\\d+)$`);
+
+export function formatFolio(sequence: number): string {
+  return `${FOLIO_PREFIX}-${String(sequence).padStart(FOLIO_DIGITS, '0')}`;
+}
+
+export function parseFolioNumber(folio: string | undefined): number | undefined {
+  const match = folio ? FOLIO_PATTERN.exec(folio) : null;
+  return match?.[1] ? Number(match[1]) : undefined;
+}
+
+/**
+ * Texto a mostrar en tarjetas, detalle y recibos
+ */
+export function getFolioLabel(order: Pick<Order, 'id' | 'folio' | 'folioProvisional'>): string {
+  if (!order.folio) return `#${order.id}`;
+  return order.folioProvisional ? `${order.folio} (provisional)` : order.folio;
+}
@@ -0,0 +1,164 @@
+/**
+ * Inventario: kardex de movimientos por producto y descuento de existencias
+ * a partir de los pedidos.
+ *
+ * Lo descontado por cada pedido se obtiene de sus propios movimientos, así
+ * que aplicar el mismo estado dos veces (reintentos, ediciones) no descuenta
+ * de más: solo se registra la diferencia. Las variantes llevan existencias
+ * propias, así que se cuentan por producto + variante.
+ */
+import type { InventorySettings, Order, Product, StockMovement } from '../../types/index.ts';
+
+export type StockMovementType = StockMovement['type'];
+
+// Movimiento por registrar (el resto de campos los asigna la base local)
+export type StockChange = Pick<StockMovement, 'productId' | 'type' | 'quantity'> & {
+  variantId?: string;
+  orderId?: string;
+  notes?: string;
+};
+
+export const DEFAULT_DEDUCT_ON_STATUS: InventorySettings['deductOnStatus'] = 'preparing';
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+// Estados del flujo normal, en orden
+export const DEDUCT_STATUS_OPTIONS: Array<InventorySettings['deductOnStatus']> = ['pending', 'preparing', 'ready', 'delivered'];
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  initial: 'Inventario inicial',
+  purchase: 'Compra',
+  adjustment: 'Ajuste',
+  sale: 'Venta',
+  cancellation_return: 'Devolución por cancelación'
+};
+
+export function getDefaultInventorySettings(businessId: string): InventorySettings {
+  return {
+    businessId,
+    deductOnStatus: DEFAULT_DEDUCT_ON_STATUS,
+    defaultLowStockThreshold: DEFAULT_LOW_STOCK_THRESHOLD,
+    updatedAt: new Date(0).toISOString()
+  };
+}
+
+/**
+ * ✅ ¿El pedido ya llegó (o pasó) al estado en el que se descuenta?
+ */
+export function hasReachedStatus(status: Order['status'], target: InventorySettings['deductOnStatus']): boolean {
+  if (status === 'cancelled') return false;
+  return DEDUCT_STATUS_OPTIONS.indexOf(status) >= DEDUCT_STATUS_OPTIONS.indexOf(target);
+}
+
+type StockTarget = Pick<StockChange, 'productId' | 'variantId'>;
+
+const toStockKey = ({ productId, variantId }: StockTarget) => variantId ? `${productId}:${variantId}` : productId;
+
+const fromStockKey = (key: string): StockTarget => {
+  const [productId = key, variantId] = key.split(':');
+  return variantId ? { productId, variantId } : { productId };
+};
+
+/**
+ * ✅ Existencias disponibles: con variantes activas, la suma de las de cada una
+ */
+export function getProductStock(product: Pick<Product, 'stock' | 'variants'>): number {
+  const variants = (product.variants ?? []).filter(variant => variant.isActive);
+  return variants.length > 0 ? variants.reduce((sum, variant) => sum + variant.stock, 0) : product.stock;
+}
+
+/**
+ * ✅ Existencias del servidor más los movimientos registrados en este
+ * dispositivo que el backend aún no aplica (producto y cada variante)
+ */
+export function withPendingStock<TProduct extends Pick<Product, 'stock' | 'variants'>>(
+  product: TProduct,
+  pending: Array<Pick<StockMovement, 'variantId' | 'quantity'>>
+): TProduct {
+  const delta = (variantId?: string) => pending
+    .filter(movement => movement.variantId === variantId)
+    .reduce((sum, movement) => sum + movement.quantity, 0);
+
+  return {
+    ...product,
+    stock: product.stock + delta(),
+    ...(product.variants && { variants: product.variants.map(variant => ({ ...variant, stock: variant.stock + delta(variant.id) })) })
+  };
+}
+
+/**
+ * ✅ Copia las existencias de `source` (producto y variantes por id). Las
+ * existencias salen del kardex, así que nunca se fusionan ni compiten
+ */
+export function copyStock<TProduct extends Pick<Product, 'stock' | 'variants'>>(
+  product: TProduct,
+  source: Pick<Product, 'stock' | 'variants'>
+): TProduct {
+  const variantStock = new Map((source.variants ?? []).map(variant => [variant.id, variant.stock]));
+
+  return {
+    ...product,
+    stock: source.stock,
+    ...(product.variants && {
+      variants: product.variants.map(variant => ({ ...variant, stock: variantStock.get(variant.id) ?? variant.stock }))
+    })
+  };
+}
+
+/**
+ * ✅ Piezas descontadas actualmente por un pedido, por producto (y variante)
+ */
+export function getDeductedByOrder(movements: Array<Pick<StockMovement, 'productId' | 'variantId' | 'quantity'>>): Map<string, number> {
+  const deducted = new Map<string, number>();
+  for (const movement of movements) {
+    const key = toStockKey(movement);
+    deducted.set(key, (deducted.get(key) ?? 0) - movement.quantity);
+  }
+  return deducted;
+}
+
+/**
+ * ✅ Movimientos necesarios para que el inventario refleje el pedido:
+ * - Cancelado: se devuelve todo lo descontado
+ * - Antes del estado configurado: no se toca nada
+ * - Desde ese estado: se descuentan las partidas del catálogo (las libres no
+ *   llevan inventario) y, si el pedido se editó, solo la diferencia
+ */
+export function getOrderStockChanges(
+  order: Pick<Order, 'status' | 'items'>,
+  deductOnStatus: InventorySettings['deductOnStatus'],
+  deducted: Map<string, number>
+): Array<StockChange> {
+  const cancelled = order.status === 'cancelled';
+  if (!cancelled && !hasReachedStatus(order.status, deductOnStatus)) return [];
+
+  const wanted = new Map<string, number>();
+  if (!cancelled) {
+    for (const item of order.items ?? []) {
+      if (!item.product_id) continue;
+      const key = toStockKey({ productId: item.product_id, ...(item.variant_id && { variantId: item.variant_id }) });
+      wanted.set(key, (wanted.get(key) ?? 0) + item.quantity);
+    }
+  }
+
+  const keys = new Set([...deducted.keys(), ...wanted.keys()]);
+  return [...keys].flatMap(key => {
+    const difference = (wanted.get(key) ?? 0) - (deducted.get(key) ?? 0);
+    if (difference === 0) return [];
+
+    const type: StockMovementType = cancelled ? 'cancellation_return' : difference > 0 ? 'sale' : 'adjustment';
+    return [{ ...fromStockKey(key), type, quantity: -difference }];
+  });
+}
+
+export function getLowStockThreshold(product: Pick<Product, 'lowStockThreshold'>, settings: InventorySettings): number {
+  return product.lowStockThreshold ?? settings.defaultLowStockThreshold;
+}
+
+/**
+ * ✅ Productos activos en o por debajo de su umbral, los más escasos primero
+ */
+export function getLowStockProducts<TProduct extends Product>(products: Array<TProduct>, settings: InventorySettings): Array<TProduct> {
+  return products
+    .filter(product => product.isActive && getProductStock(product) <= getLowStockThreshold(product, settings))
+    .sort((a, b) => getProductStock(a) - getProductStock(b) || a.name.localeCompare(b.name));
+}
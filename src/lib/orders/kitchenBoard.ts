@@ -0,0 +1,67 @@
+/**
+ * Tablero de cocina: agrupación de pedidos por estado y totales de producción.
+ */
+import { getOrderItemKey, getOrderItemLabel } from './productOptions.ts';
+import { ORDER_STATUS_TRANSITIONS } from './statusWorkflow.ts';
+import type { Order } from '../../types/index.ts';
+import type { OrderStatus } from './statusWorkflow.ts';
+
+export const KITCHEN_COLUMNS = Object.keys(ORDER_STATUS_TRANSITIONS) as Array<OrderStatus>;
+
+// Estados cuyas partidas todavía hay que producir
+const TO_PREPARE_STATUSES = new Set<OrderStatus>(['pending', 'preparing']);
+
+export interface ItemToPrepare {
+  key: string;
+  product_name: string;
+  quantity: number;
+  orderCount: number;
+}
+
+/**
+ * ✅ Pedidos por columna, los más antiguos primero
+ */
+export function groupOrdersByStatus(orders: Array<Order>): Record<OrderStatus, Array<Order>> {
+  const columns = Object.fromEntries(
+    KITCHEN_COLUMNS.map(status => [status, [] as Array<Order>])
+  ) as Record<OrderStatus, Array<Order>>;
+
+  for (const order of orders) {
+    columns[order.status].push(order);
+  }
+  for (const status of KITCHEN_COLUMNS) {
+    columns[status].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  }
+  return columns;
+}
+
+/**
+ * ✅ Cantidad total por producto de los pedidos que faltan por preparar.
+ * Cada combinación de variante y extras se prepara por separado
+ */
+export function getItemsToPrepare(orders: Array<Order>): Array<ItemToPrepare> {
+  const totals = new Map<string, ItemToPrepare>();
+
+  for (const order of orders) {
+    if (!TO_PREPARE_STATUSES.has(order.status)) continue;
+
+    for (const item of order.items ?? []) {
+      const key = getOrderItemKey(item);
+      const total = totals.get(key) ?? { key, product_name: getOrderItemLabel(item), quantity: 0, orderCount: 0 };
+      total.quantity += item.quantity;
+      total.orderCount += 1;
+      totals.set(key, total);
+    }
+  }
+
+  return [...totals.values()].sort((a, b) => b.quantity - a.quantity || a.product_name.localeCompare(b.product_name));
+}
+
+/**
+ * ✅ Tiempo transcurrido desde la creación: "45 min", "2 h 05 min"
+ */
+export function formatElapsed(since: string, now: number = Date.now()): string {
+  const minutes = Math.max(0, Math.floor((now - new Date(since).getTime()) / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+}
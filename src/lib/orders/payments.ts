@@ -0,0 +1,99 @@
+/**
+ * Pagos de un pedido: anticipo al crearlo, abonos y la liquidación al
+ * entregar. El saldo no se guarda, siempre se calcula con los pagos.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { formatCurrency } from '../utils.ts';
+import type { NewOrderPayment, Order, OrderPayment, PaymentMethod } from '../../types/index.ts';
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid';
+
+type PayableOrder = Pick<Order, 'total' | 'payments'>;
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Efectivo',
+  card: 'Tarjeta',
+  transfer: 'Transferencia'
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: 'Sin pagar',
+  partial: 'Anticipo',
+  paid: 'Pagado'
+};
+
+// A centavos, para que 0.1 + 0.2 no deje saldos fantasma
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export function getAmountPaid(order: Pick<Order, 'payments'>): number {
+  return roundMoney((order.payments ?? []).reduce((sum, payment) => sum + payment.amount, 0));
+}
+
+/**
+ * ✅ Lo que falta por cobrar (nunca negativo)
+ */
+export function getBalanceDue(order: PayableOrder): number {
+  return Math.max(roundMoney(order.total - getAmountPaid(order)), 0);
+}
+
+export function getPaymentStatus(order: PayableOrder): PaymentStatus {
+  if (getBalanceDue(order) === 0) return 'paid';
+  return getAmountPaid(order) > 0 ? 'partial' : 'unpaid';
+}
+
+/**
+ * Lanza un error si el pago no se puede registrar en el pedido
+ */
+export function assertPayment(order: PayableOrder & Pick<Order, 'status'>, payment: NewOrderPayment): void {
+  if (order.status === 'cancelled') {
+    throw new Error('No se pueden registrar pagos en un pedido cancelado');
+  }
+
+  if (!(payment.amount > 0)) {
+    throw new Error('El monto del pago debe ser mayor a cero');
+  }
+
+  const balance = getBalanceDue(order);
+  if (roundMoney(payment.amount) > balance) {
+    throw new Error(`El pago excede el saldo pendiente (${formatCurrency(balance)})`);
+  }
+}
+
+/**
+ * ✅ Pago listo para guardarse en el pedido
+ */
+export function createOrderPayment(payment: NewOrderPayment, paidAt = new Date().toISOString()): OrderPayment {
+  const reference = payment.reference?.trim();
+
+  return {
+    id: uuidv4(),
+    amount: roundMoney(payment.amount),
+    method: payment.method,
+    paid_at: paidAt,
+    ...(reference && { reference })
+  };
+}
+
+export function describePayment(payment: OrderPayment): string {
+  const method = PAYMENT_METHOD_LABELS[payment.method];
+  return payment.reference ? `${method} (${payment.reference})` : method;
+}
+
+/**
+ * ✅ Bloque de pagos para los recibos de WhatsApp (vacío si no hay pagos)
+ */
+export function formatPaymentsForReceipt(order: PayableOrder): string {
+  const payments = order.payments ?? [];
+  if (payments.length === 0) return '';
+
+  const lines = payments.map(payment =>
+    `• ${new Date(payment.paid_at).toLocaleDateString('es-MX')} ${describePayment(payment)} - ${formatCurrency(payment.amount)}`
+  );
+  const balance = getBalanceDue(order);
+
+  return [
+    '💵 *Pagos:*',
+    ...lines,
+    balance > 0 ? `*Resta por pagar: ${formatCurrency(balance)}*` : '✅ *PAGADO*'
+  ].join('\n');
+}
@@ -0,0 +1,122 @@
+/**
+ * Variantes y extras de un producto: validación de lo elegido al agregarlo a
+ * un pedido, precio resultante y texto para comprobantes.
+ */
+import type { ModifierGroup, OrderItem, OrderItemModifier, Product, ProductVariant } from '../../types/index.ts';
+
+// Extras elegidos por grupo: groupId → ids de los extras
+export type ModifierSelection = Record<string, Array<string>>;
+
+export interface ProductOptionsChoice {
+  variant?: ProductVariant;
+  modifiers: Array<OrderItemModifier>;
+  unitPrice: number;
+}
+
+export const getActiveVariants = (product: Pick<Product, 'variants'>): Array<ProductVariant> =>
+  (product.variants ?? []).filter(variant => variant.isActive);
+
+export const hasProductOptions = (product: Pick<Product, 'variants' | 'modifierGroups'>): boolean =>
+  getActiveVariants(product).length > 0 || (product.modifierGroups ?? []).length > 0;
+
+// Mínimo de opciones que exige el grupo
+export const getMinSelections = (group: ModifierGroup): number =>
+  Math.max(group.minSelections, group.required ? 1 : 0);
+
+/**
+ * ✅ Error a mostrar si lo elegido en un grupo no cumple sus límites
+ */
+export function validateModifierGroup(group: ModifierGroup, selectedIds: Array<string>): string | undefined {
+  const count = selectedIds.length;
+  const min = getMinSelections(group);
+
+  if (count < min) {
+    return min === 1 ? `Elige una opción de ${group.name}` : `Elige al menos ${min} opciones de ${group.name}`;
+  }
+  if (count > group.maxSelections) {
+    return group.maxSelections === 1
+      ? `Solo puedes elegir una opción de ${group.name}`
+      : `Elige máximo ${group.maxSelections} opciones de ${group.name}`;
+  }
+  return undefined;
+}
+
+/**
+ * ✅ Valida variante y extras y devuelve lo que se guarda en la partida
+ * (el precio unitario ya incluye los extras)
+ */
+export function resolveProductOptions(
+  product: Pick<Product, 'price' | 'variants' | 'modifierGroups'>,
+  variantId: string | undefined,
+  selection: ModifierSelection
+): { choice?: ProductOptionsChoice; error?: string } {
+  const variants = getActiveVariants(product);
+  const variant = variants.find(v => v.id === variantId);
+  if (variants.length > 0 && !variant) return { error: 'Elige una variante' };
+
+  const modifiers: Array<OrderItemModifier> = [];
+  for (const group of product.modifierGroups ?? []) {
+    const selectedIds = (selection[group.id] ?? []).filter(id => group.modifiers.some(m => m.id === id));
+    const error = validateModifierGroup(group, selectedIds);
+    if (error) return { error };
+
+    for (const modifier of group.modifiers.filter(m => selectedIds.includes(m.id))) {
+      modifiers.push({ modifier_id: modifier.id, group_name: group.name, name: modifier.name, price_delta: modifier.priceDelta });
+    }
+  }
+
+  const basePrice = variant?.price ?? product.price;
+  return {
+    choice: {
+      ...(variant && { variant }),
+      modifiers,
+      unitPrice: basePrice + modifiers.reduce((sum, modifier) => sum + modifier.price_delta, 0)
+    }
+  };
+}
+
+/**
+ * ✅ Identidad de una partida: el mismo producto con otra variante u otros
+ * extras es otra partida ("7|chico", "7|grande|velas")
+ */
+export function getOrderItemKey(item: Pick<OrderItem, 'product_id' | 'product_name' | 'variant_id' | 'modifiers'>): string {
+  const options = [item.variant_id, ...(item.modifiers ?? []).map(modifier => modifier.modifier_id).sort()].filter(Boolean);
+  return [item.product_id ?? `name:${item.product_name.toLowerCase()}`, ...options].join('|');
+}
+
+/**
+ * ✅ "Grande · Relleno extra, Velas" (vacío si la partida no tiene opciones)
+ */
+export function describeItemOptions(item: Pick<OrderItem, 'variant_name' | 'modifiers'>): string {
+  const extras = (item.modifiers ?? []).map(modifier => modifier.name).join(', ');
+  return [item.variant_name, extras].filter(Boolean).join(' · ');
+}
+
+/**
+ * ✅ Nombre de la partida para comprobantes y mensajes: "Pastel (Grande · Velas)"
+ */
+export function getOrderItemLabel(item: Pick<OrderItem, 'product_name' | 'variant_name' | 'modifiers'>): string {
+  const options = describeItemOptions(item);
+  return options ? `${item.product_name} (${options})` : item.product_name;
+}
+
+/**
+ * ✅ Error a mostrar si las variantes o los grupos de extras de un producto
+ * no son válidos (al guardarlo)
+ */
+export function validateProductOptions(product: Pick<Product, 'variants' | 'modifierGroups'>): string | undefined {
+  for (const variant of product.variants ?? []) {
+    if (!variant.name.trim()) return 'Ponle nombre a todas las variantes';
+    if (variant.price < 0) return `El precio de ${variant.name} no puede ser negativo`;
+  }
+
+  for (const group of product.modifierGroups ?? []) {
+    if (!group.name.trim()) return 'Ponle nombre a todos los grupos de extras';
+    if (group.modifiers.length === 0) return `Agrega opciones a ${group.name}`;
+    if (group.modifiers.some(modifier => !modifier.name.trim())) return `Ponle nombre a todas las opciones de ${group.name}`;
+    if (group.maxSelections < 1) return `${group.name} debe permitir al menos una opción`;
+    if (getMinSelections(group) > group.maxSelections) return `En ${group.name} el mínimo no puede ser mayor que el máximo`;
+    if (getMinSelections(group) > group.modifiers.length) return `${group.name} pide más opciones de las que tiene`;
+  }
+  return undefined;
+}
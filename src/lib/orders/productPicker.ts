@@ -0,0 +1,80 @@
+/**
+ * Selector de productos del formulario de pedido: búsqueda en el catálogo
+ * (nombre, categoría y clave SAT) y avisos de existencias.
+ */
+import { normalizeSearchText } from '../utils.ts';
+import { getProductStock } from './inventory.ts';
+import type { Product } from '../../types/index.ts';
+
+const MAX_RESULTS = 8;
+
+// Producto tal como lo entrega useProducts (con el nombre de su categoría)
+export type CatalogProduct = Product & { categoryName?: string };
+
+export interface StockWarning {
+  productId: string;
+  variantId?: string;
+  productName: string;
+  requested: number;
+  available: number;
+}
+
+export const getProductId = (product: Product): string => String(product.id ?? '');
+
+/**
+ * ✅ Productos activos que coinciden con lo escrito; si no se escribe nada se
+ * muestran los primeros del catálogo
+ */
+export function searchProducts(products: Array<CatalogProduct>, term: string, limit = MAX_RESULTS): Array<CatalogProduct> {
+  const query = normalizeSearchText(term);
+  const active = products.filter(product => product.isActive && product.id !== undefined);
+  if (!query) return active.slice(0, limit);
+
+  const matches = active.filter(product =>
+    normalizeSearchText(product.name).includes(query) ||
+    normalizeSearchText(product.categoryName ?? product.category ?? '').includes(query) ||
+    Boolean(product.satCode?.startsWith(query))
+  );
+
+  // Primero los que empiezan con lo escrito
+  return matches
+    .sort((a, b) =>
+      Number(normalizeSearchText(b.name).startsWith(query)) - Number(normalizeSearchText(a.name).startsWith(query)) ||
+      a.name.localeCompare(b.name)
+    )
+    .slice(0, limit);
+}
+
+/**
+ * ✅ Productos (o variantes) del catálogo cuya cantidad pedida, sumando todas
+ * las partidas, supera las existencias
+ */
+export function getStockWarnings(
+  items: Array<{ productId?: string | undefined; variantId?: string | undefined; quantity: number }>,
+  products: Array<Product>
+): Array<StockWarning> {
+  const requested = new Map<string, { productId: string; variantId?: string; quantity: number }>();
+  for (const item of items) {
+    if (!item.productId) continue;
+    const key = `${item.productId}:${item.variantId ?? ''}`;
+    const quantity = (requested.get(key)?.quantity ?? 0) + (Number(item.quantity) || 0);
+    requested.set(key, { productId: item.productId, ...(item.variantId && { variantId: item.variantId }), quantity });
+  }
+
+  return [...requested.values()].flatMap(({ productId, variantId, quantity }) => {
+    const product = products.find(p => getProductId(p) === productId);
+    if (!product) return [];
+
+    const variant = variantId ? product.variants?.find(v => v.id === variantId) : undefined;
+    const available = variant ? variant.stock : getProductStock(product);
+    if (quantity <= available) return [];
+
+    return [{
+      productId,
+      ...(variant && { variantId: variant.id }),
+      productName: variant ? `${product.name} (${variant.name})` : product.name,
+      requested: quantity,
+      available
+    }];
+  });
+}
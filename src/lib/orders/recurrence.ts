@@ -0,0 +1,122 @@
+/**
+ * Pedidos recurrentes: fechas en las que toca entregar según la regla y cuáles
+ * faltan por generar.
+ *
+ * Las fechas se manejan como texto YYYY-MM-DD en UTC, igual que delivery_date,
+ * para que el día de la semana no dependa de la zona horaria del dispositivo.
+ */
+import { v5 as uuidv5 } from 'uuid';
+import { addDays } from './capacity.ts';
+import type { RecurrenceRule, RecurringOrder } from '../../types/index.ts';
+
+export const DEFAULT_DAYS_AHEAD = 7;
+export const MAX_DAYS_AHEAD = 60;
+
+export const WEEKDAY_LABELS = ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'];
+
+const joinLabels = (labels: Array<string>) =>
+  labels.length <= 1 ? labels.join('') : `${labels.slice(0, -1).join(', ')} y ${labels[labels.length - 1]}`;
+
+/**
+ * ✅ ¿La regla tiene entrega en esta fecha?
+ */
+export function occursOn(rule: RecurrenceRule, date: string): boolean {
+  if (date < rule.startDate) return false;
+  if (rule.endDate && date > rule.endDate) return false;
+  if (rule.skipDates.includes(date)) return false;
+
+  const day = new Date(`${date}T00:00:00Z`);
+  return rule.frequency === 'weekly'
+    ? rule.weekdays.includes(day.getUTCDay())
+    : rule.monthDays.includes(day.getUTCDate());
+}
+
+/**
+ * ✅ Fechas con entrega entre `fromDate` y `toDate` (inclusive)
+ */
+export function getOccurrences(rule: RecurrenceRule, fromDate: string, toDate: string): Array<string> {
+  const dates: Array<string> = [];
+  for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+    if (occursOn(rule, date)) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * ✅ Rango que falta por generar: desde el día siguiente a lo ya generado (nunca
+ * antes de hoy, así al reanudar no se crean pedidos atrasados) hasta hoy + daysAhead
+ */
+export function getMaterializationWindow(recurring: RecurringOrder, today: string): { fromDate: string; toDate: string } {
+  const nextPending = recurring.generatedUntil ? addDays(recurring.generatedUntil, 1) : today;
+  return {
+    fromDate: nextPending > today ? nextPending : today,
+    toDate: addDays(today, recurring.daysAhead)
+  };
+}
+
+/**
+ * ✅ Fechas que hay que convertir en pedidos hoy
+ */
+export function getDatesToMaterialize(recurring: RecurringOrder, today: string): Array<string> {
+  if (recurring.status !== 'active') return [];
+  const { fromDate, toDate } = getMaterializationWindow(recurring, today);
+  return getOccurrences(recurring.rule, fromDate, toDate);
+}
+
+/**
+ * ✅ Id del pedido generado para una fecha. Es el mismo en todos los
+ * dispositivos, así una entrega no se crea dos veces aunque se genere en varios
+ */
+export function getRecurringOrderId(recurring: Pick<RecurringOrder, 'clientGeneratedId'>, deliveryDate: string): string {
+  return uuidv5(deliveryDate, recurring.clientGeneratedId);
+}
+
+/**
+ * ✅ Próxima entrega a partir de una fecha (dentro del próximo año)
+ */
+export function getNextOccurrence(rule: RecurrenceRule, fromDate: string): string | undefined {
+  return getOccurrences(rule, fromDate, addDays(fromDate, 366))[0];
+}
+
+/**
+ * ✅ Descripción legible: "Cada lunes y jueves", "Los días 1 y 15 de cada mes"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  if (rule.frequency === 'weekly') {
+    const days = [...rule.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day] ?? '');
+    return days.length === 7 ? 'Todos los días' : `Cada ${joinLabels(days)}`;
+  }
+
+  const days = [...rule.monthDays].sort((a, b) => a - b).map(String);
+  return days.length === 1
+    ? `El día ${days[0]} de cada mes`
+    : `Los días ${joinLabels(days)} de cada mes`;
+}
+
+/**
+ * ✅ "1, 15" → [1, 15] (ignora lo que no sea un día válido)
+ */
+export function parseMonthDays(text: string): Array<number> {
+  const days = text
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter(day => Number.isInteger(day) && day >= 1 && day <= 31);
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * ✅ Error a mostrar si la definición no es válida
+ */
+export function validateRecurringOrder(recurring: Pick<RecurringOrder, 'name' | 'rule' | 'items' | 'daysAhead'>): string | undefined {
+  const { rule } = recurring;
+  if (!recurring.name.trim()) return 'Ponle un nombre al pedido recurrente';
+  if (rule.frequency === 'weekly' && rule.weekdays.length === 0) return 'Elige al menos un día de la semana';
+  if (rule.frequency === 'monthly' && rule.monthDays.length === 0) return 'Indica al menos un día del mes';
+  if (!rule.startDate) return 'Indica desde cuándo aplica';
+  if (rule.endDate && rule.endDate < rule.startDate) return 'La fecha de fin debe ser posterior al inicio';
+  if (recurring.items.length === 0) return 'Agrega al menos un producto';
+  if (recurring.daysAhead < 0 || recurring.daysAhead > MAX_DAYS_AHEAD) {
+    return `La anticipación debe estar entre 0 y ${MAX_DAYS_AHEAD} días`;
+  }
+  return undefined;
+}
@@ -0,0 +1,52 @@
+/**
+ * Flujo de estados de un pedido: pending → preparing → ready → delivered.
+ * Se puede cancelar desde cualquier estado activo indicando un motivo;
+ * delivered y cancelled son estados finales.
+ */
+import type { Order } from '../../types/index.ts';
+
+export type OrderStatus = Order['status'];
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, Array<OrderStatus>> = {
+  pending: ['preparing', 'cancelled'],
+  preparing: ['ready', 'cancelled'],
+  ready: ['delivered', 'cancelled'],
+  delivered: [],
+  cancelled: []
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pendiente',
+  preparing: 'En Preparación',
+  ready: 'Listo',
+  delivered: 'Entregado',
+  cancelled: 'Cancelado'
+};
+
+/**
+ * Siguiente estado del flujo normal (sin contar la cancelación)
+ */
+export function getNextStatus(status: OrderStatus): OrderStatus | undefined {
+  return ORDER_STATUS_TRANSITIONS[status].find(next => next !== 'cancelled');
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function canCancel(status: OrderStatus): boolean {
+  return canTransition(status, 'cancelled');
+}
+
+/**
+ * Lanza un error si el cambio de estado no está permitido
+ */
+export function assertStatusTransition(from: OrderStatus, to: OrderStatus, reason?: string): void {
+  if (!canTransition(from, to)) {
+    throw new Error(`No se puede cambiar un pedido de ${ORDER_STATUS_LABELS[from]} a ${ORDER_STATUS_LABELS[to]}`);
+  }
+
+  if (to === 'cancelled' && !reason?.trim()) {
+    throw new Error('Indica el motivo de la cancelación');
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Impuestos de un pedido: el IVA se calcula por partida con la tasa del
+ * producto y se agrupa por tasa. Con precios con IVA incluido el total es la
+ * suma de las partidas y el IVA solo se desglosa; con precios sin IVA el
+ * impuesto se suma al subtotal.
+ */
+import { formatCurrency } from '../utils.ts';
+import type { Order, OrderItem, OrderTaxLine, TaxMode, TaxSettings } from '../../types/index.ts';
+
+export const DEFAULT_TAX_RATE = 0.16;
+export const DEFAULT_TAX_MODE: TaxMode = 'included';
+
+// 8% es la tasa de la región fronteriza
+export const TAX_RATE_OPTIONS = [0.16, 0.08, 0];
+
+export const TAX_MODE_LABELS: Record<TaxMode, string> = {
+  included: 'Precios con IVA incluido',
+  excluded: 'Precios más IVA'
+};
+
+export interface OrderTotals {
+  subtotal: number; // Sin IVA
+  taxes: Array<OrderTaxLine>;
+  total: number;
+}
+
+type TaxableItem = Pick<OrderItem, 'quantity' | 'unit_price' | 'tax_rate'>;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export function getDefaultTaxSettings(businessId: string): TaxSettings {
+  return {
+    businessId,
+    taxMode: DEFAULT_TAX_MODE,
+    defaultTaxRate: DEFAULT_TAX_RATE,
+    updatedAt: new Date(0).toISOString()
+  };
+}
+
+/**
+ * ✅ Fija la tasa de cada partida: las que no la traen (partidas libres,
+ * productos sin tasa) toman la del negocio al momento del pedido
+ */
+export function withTaxRates<T extends Pick<OrderItem, 'tax_rate'>>(items: Array<T>, defaultRate: number): Array<T> {
+  return items.map(item => (item.tax_rate === undefined ? { ...item, tax_rate: defaultRate } : item));
+}
+
+/**
+ * ✅ Base e IVA de una partida (la factura usa el mismo cálculo por concepto)
+ */
+export function calculateItemTax(item: TaxableItem, mode: TaxMode, defaultRate = DEFAULT_TAX_RATE): OrderTaxLine {
+  const rate = item.tax_rate ?? defaultRate;
+  const amount = roundMoney(item.quantity * item.unit_price);
+  const base = mode === 'included' ? roundMoney(amount / (1 + rate)) : amount;
+  // Con IVA incluido el impuesto es la diferencia, así base + IVA = precio
+  const tax = mode === 'included' ? roundMoney(amount - base) : roundMoney(amount * rate);
+
+  return { rate, base, amount: tax };
+}
+
+/**
+ * ✅ Subtotal, IVA por tasa (de mayor a menor) y total de las partidas
+ */
+export function calculateOrderTotals(items: Array<TaxableItem>, mode: TaxMode, defaultRate = DEFAULT_TAX_RATE): OrderTotals {
+  const byRate = new Map<number, OrderTaxLine>();
+
+  for (const item of items) {
+    const itemTax = calculateItemTax(item, mode, defaultRate);
+    const line = byRate.get(itemTax.rate) ?? { rate: itemTax.rate, base: 0, amount: 0 };
+    line.base = roundMoney(line.base + itemTax.base);
+    line.amount = roundMoney(line.amount + itemTax.amount);
+    byRate.set(itemTax.rate, line);
+  }
+
+  const taxes = [...byRate.values()].sort((a, b) => b.rate - a.rate);
+  const subtotal = roundMoney(taxes.reduce((sum, line) => sum + line.base, 0));
+
+  return { subtotal, taxes, total: roundMoney(subtotal + getTaxTotal(taxes)) };
+}
+
+export function getTaxTotal(taxes: Array<OrderTaxLine>): number {
+  return roundMoney(taxes.reduce((sum, line) => sum + line.amount, 0));
+}
+
+/**
+ * Desglose guardado en el pedido. Los pedidos anteriores al desglose no
+ * tienen IVA separado: todo su total cuenta como subtotal
+ */
+export function getOrderTotals(order: Pick<Order, 'total' | 'subtotal' | 'taxes'>): OrderTotals {
+  return {
+    subtotal: order.subtotal ?? order.total,
+    taxes: order.taxes ?? [],
+    total: order.total
+  };
+}
+
+/**
+ * ✅ Para reportes: desglose de varios pedidos sumado por tasa
+ */
+export function summarizeOrderTaxes(orders: Array<Pick<Order, 'total' | 'subtotal' | 'taxes'>>): OrderTotals {
+  const byRate = new Map<number, OrderTaxLine>();
+  let subtotal = 0;
+  let total = 0;
+
+  for (const order of orders) {
+    const totals = getOrderTotals(order);
+    subtotal += totals.subtotal;
+    total += totals.total;
+    for (const line of totals.taxes) {
+      const summary = byRate.get(line.rate) ?? { rate: line.rate, base: 0, amount: 0 };
+      summary.base = roundMoney(summary.base + line.base);
+      summary.amount = roundMoney(summary.amount + line.amount);
+      byRate.set(line.rate, summary);
+    }
+  }
+
+  return {
+    subtotal: roundMoney(subtotal),
+    taxes: [...byRate.values()].sort((a, b) => b.rate - a.rate),
+    total: roundMoney(total)
+  };
+}
+
+export function formatTaxRate(rate: number): string {
+  return `${Math.round(rate * 10000) / 100}%`;
+}
+
+export function getTaxLineLabel(line: Pick<OrderTaxLine, 'rate'>): string {
+  return `IVA ${formatTaxRate(line.rate)}`;
+}
+
+/**
+ * ✅ Subtotal e IVA para los recibos de WhatsApp (vacío si el pedido no tiene desglose)
+ */
+export function formatTaxesForReceipt(order: Pick<Order, 'total' | 'subtotal' | 'taxes'>): string {
+  const { subtotal, taxes } = getOrderTotals(order);
+  if (taxes.length === 0) return '';
+
+  return [
+    `Subtotal: ${formatCurrency(subtotal)}`,
+    ...taxes.map(line => `${getTaxLineLabel(line)}: ${formatCurrency(line.amount)}`)
+  ].join('\n');
+}
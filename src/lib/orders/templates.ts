@@ -0,0 +1,78 @@
+/**
+ * Duplicar pedidos y plantillas por cliente: conversión entre las partidas
+ * guardadas (OrderItem) y las del formulario de CreateOrder.
+ */
+import type { Order, OrderFormData, OrderItem, OrderTemplate } from '../../types/index.ts';
+
+type FormItem = OrderFormData['items'][number];
+// Partida tal como la entrega el formulario (zod deja los opcionales como `| undefined`)
+type FormValuesItem = Pick<FormItem, 'productName' | 'quantity' | 'unitPrice'> & {
+  productId?: string | undefined;
+  taxRate?: number | undefined;
+  variantId?: string | undefined;
+  variantName?: string | undefined;
+  modifiers?: FormItem['modifiers'] | undefined;
+  notes?: string | undefined;
+};
+type SourceItem = Pick<
+  OrderItem,
+  'product_id' | 'product_name' | 'quantity' | 'unit_price' | 'tax_rate' | 'variant_id' | 'variant_name' | 'modifiers' | 'notes'
+>;
+
+export function toFormItems(items: Array<SourceItem>): Array<FormItem> {
+  return items.map(item => ({
+    ...(item.product_id && { productId: item.product_id }),
+    productName: item.product_name,
+    quantity: item.quantity,
+    unitPrice: item.unit_price,
+    ...(item.tax_rate !== undefined && { taxRate: item.tax_rate }),
+    ...(item.variant_id && { variantId: item.variant_id, variantName: item.variant_name ?? '' }),
+    ...(item.modifiers?.length && { modifiers: item.modifiers }),
+    notes: item.notes || ''
+  }));
+}
+
+export function toTemplateItems(items: Array<FormValuesItem>): OrderTemplate['items'] {
+  return items
+    .filter(item => item.productName.trim())
+    .map(item => ({
+      ...(item.productId && { product_id: item.productId }),
+      product_name: item.productName.trim(),
+      quantity: item.quantity,
+      unit_price: item.unitPrice,
+      ...(item.taxRate !== undefined && { tax_rate: item.taxRate }),
+      ...(item.variantId && { variant_id: item.variantId, variant_name: item.variantName ?? '' }),
+      ...(item.modifiers?.length && { modifiers: item.modifiers }),
+      ...(item.notes && { notes: item.notes })
+    }));
+}
+
+// Partidas de un pedido guardado para una plantilla o pedido recurrente
+export function fromOrderItems(items: Array<OrderItem>): OrderTemplate['items'] {
+  return items.map(item => ({
+    ...(item.product_id && { product_id: item.product_id }),
+    product_name: item.product_name,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    ...(item.tax_rate !== undefined && { tax_rate: item.tax_rate }),
+    ...(item.variant_id && { variant_id: item.variant_id, variant_name: item.variant_name ?? '' }),
+    ...(item.modifiers?.length && { modifiers: item.modifiers }),
+    ...(item.notes && { notes: item.notes })
+  }));
+}
+
+/**
+ * ✅ Valores del formulario para duplicar un pedido con otra fecha de entrega.
+ * No se copian folio, estado ni historial: es un pedido nuevo
+ */
+export function toDuplicateFormData(order: Order, deliveryDate: string): OrderFormData {
+  return {
+    ...(order.client_id && { clientId: order.client_id }),
+    clientName: order.client_name,
+    ...(order.client_phone && { clientPhone: order.client_phone }),
+    deliveryDate,
+    ...(order.delivery_time && { deliveryTime: order.delivery_time }),
+    ...(order.notes && { notes: order.notes }),
+    items: toFormItems(order.items ?? [])
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Lectura y descarga de hojas de cálculo del catálogo. Las librerías de Excel
+ * se cargan solo al usarlas para no engordar el bundle principal.
+ */
+import { parseCsv, toCsv } from './csv.ts';
+
+export type CatalogFileFormat = 'csv' | 'xlsx';
+
+export const CATALOG_FILE_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const isXlsx = (file: File) => /\.xlsx$/i.test(file.name);
+
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+};
+
+/**
+ * ✅ Filas de la primera hoja (o del CSV) como texto
+ */
+export async function readCatalogFile(file: File): Promise<Array<Array<string>>> {
+  if (isXlsx(file)) {
+    const { readSheet } = await import('read-excel-file/browser');
+    const data = await readSheet(file);
+    return data
+      .map(row => row.map(toText))
+      .filter(row => row.some(value => value.trim() !== ''));
+  }
+
+  if (!/\.csv$/i.test(file.name) && file.type !== 'text/csv') {
+    throw new Error('Usa un archivo .csv o .xlsx');
+  }
+  return parseCsv(await file.text());
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * ✅ Descargar filas (con encabezado) como CSV o Excel
+ */
+export async function downloadCatalogFile(rows: Array<Array<string | number>>, format: CatalogFileFormat, baseName: string): Promise<void> {
+  if (format === 'csv') {
+    downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+    return;
+  }
+
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const [header = [], ...body] = rows;
+  await writeXlsxFile(
+    [header.map(value => ({ value, fontWeight: 'bold' as const })), ...body],
+    { sheet: 'Catálogo', stickyRowsCount: 1 }
+  ).toFile(`${baseName}.xlsx`);
+}
@@ -0,0 +1,272 @@
+/**
+ * Importación y exportación del catálogo en hoja de cálculo (CSV o Excel).
+ *
+ * La importación se arma primero como un plan (vista previa): cada fila queda
+ * como alta, actualización (mismo nombre que un producto existente) o error,
+ * y las categorías que no existen se crean al aplicarlo.
+ */
+import { CFDI_DEFAULT_PRODUCT_CODE } from '../invoicing/catalogs.ts';
+import { ProductSchema } from '../validation/schemas.ts';
+import { normalizeSearchText } from '../utils.ts';
+import type { BusinessCategory, Product } from '../../types/index.ts';
+
+export type CatalogField = 'name' | 'description' | 'price' | 'cost' | 'category' | 'stock' | 'satCode' | 'taxRate' | 'isActive';
+
+// Columna de la hoja (índice) que alimenta cada campo
+export type ColumnMapping = Partial<Record<CatalogField, number>>;
+
+// Productos sin clave: "No existe en el catálogo"
+export const DEFAULT_SAT_CODE = CFDI_DEFAULT_PRODUCT_CODE;
+export const DEFAULT_TAX_RATE = 0.16;
+export const DEFAULT_CATEGORY_ICON = '📦';
+
+// Orden de las columnas al exportar; los alias sirven para reconocer encabezados
+export const CATALOG_FIELDS: Array<{ field: CatalogField; label: string; required?: boolean; aliases: Array<string> }> = [
+  { field: 'name', label: 'Nombre', required: true, aliases: ['nombre', 'producto', 'name', 'descripcion corta'] },
+  { field: 'description', label: 'Descripción', aliases: ['descripcion', 'description', 'detalle'] },
+  { field: 'price', label: 'Precio', required: true, aliases: ['precio', 'precio de venta', 'price', 'pvp'] },
+  { field: 'cost', label: 'Costo', aliases: ['costo', 'cost', 'precio de compra'] },
+  { field: 'category', label: 'Categoría', aliases: ['categoria', 'category', 'departamento', 'familia'] },
+  { field: 'stock', label: 'Existencias', aliases: ['existencias', 'stock', 'inventario', 'cantidad'] },
+  { field: 'satCode', label: 'Clave SAT', aliases: ['clave sat', 'codigo sat', 'sat', 'satcode', 'clave prod serv', 'claveprodserv'] },
+  { field: 'taxRate', label: 'IVA %', aliases: ['iva %', 'iva', 'tasa iva', 'tasa', 'tax rate', 'taxrate'] },
+  { field: 'isActive', label: 'Activo', aliases: ['activo', 'active', 'estado'] }
+];
+
+const FIELD_LABELS = Object.fromEntries(CATALOG_FIELDS.map(({ field, label }) => [field, label])) as Record<CatalogField, string>;
+
+// Lo que viene de la hoja se valida con el esquema del producto
+const ImportedProductSchema = ProductSchema.pick({
+  name: true,
+  description: true,
+  price: true,
+  cost: true,
+  stock: true,
+  satCode: true,
+  taxRate: true,
+  isActive: true
+}).partial({ stock: true });
+
+export interface ImportedProduct {
+  name: string;
+  description?: string;
+  price: number;
+  cost?: number;
+  stock?: number; // Sin columna de existencias (o con la celda vacía) no se tocan las actuales
+  satCode: string;
+  taxRate: number;
+  isActive: boolean;
+  categoryId?: string;
+}
+
+export interface CatalogImportRow {
+  rowNumber: number; // Como se ve en la hoja (el encabezado es la fila 1)
+  action: 'create' | 'update' | 'error';
+  errors: Array<string>;
+  product?: ImportedProduct;
+  existingId?: number; // Producto local que se actualiza
+}
+
+export type NewCategory = Pick<BusinessCategory, 'categoryId' | 'categoryName' | 'icon' | 'satCode'>;
+
+export interface CatalogImportPlan {
+  rows: Array<CatalogImportRow>;
+  newCategories: Array<NewCategory>;
+  creates: number;
+  updates: number;
+  errors: number;
+}
+
+const normalizeHeader = (header: string) => normalizeSearchText(header).replace(/[_\s]+/g, ' ');
+
+/**
+ * ✅ Relaciona los encabezados de la hoja con los campos del producto
+ */
+export function detectColumnMapping(headers: Array<string>): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+
+  for (const { field, aliases } of CATALOG_FIELDS) {
+    const index = normalized.findIndex((header, column) =>
+      aliases.includes(header) && !Object.values(mapping).includes(column)
+    );
+    if (index >= 0) mapping[field] = index;
+  }
+  return mapping;
+}
+
+export function getMissingRequiredFields(mapping: ColumnMapping): Array<string> {
+  return CATALOG_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined).map(({ label }) => label);
+}
+
+/**
+ * ✅ "$1,234.50", "1234,5" o "16%" → número (undefined si la celda está vacía)
+ */
+export function parseSheetNumber(raw: string): number | undefined {
+  let text = raw.replace(/[$\s%]/g, '');
+  if (!text) return undefined;
+
+  if (text.includes(',') && text.includes('.')) {
+    text = text.replace(/,/g, '');
+  } else if (/^-?\d+,\d{1,2}$/.test(text)) {
+    text = text.replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+  return Number(text);
+}
+
+// 16, "16%" y 0.16 significan lo mismo
+function parseTaxRate(raw: string): number | undefined {
+  const value = parseSheetNumber(raw);
+  if (value === undefined) return undefined;
+  return raw.includes('%') || value > 1 ? value / 100 : value;
+}
+
+function parseActive(raw: string): boolean | undefined {
+  const value = normalizeSearchText(raw);
+  if (!value) return undefined;
+  if (['si', 'yes', 'true', '1', 'activo', 'x'].includes(value)) return true;
+  if (['no', 'false', '0', 'inactivo'].includes(value)) return false;
+  return undefined;
+}
+
+export const toCategoryId = (name: string) =>
+  normalizeSearchText(name).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * ✅ Vista previa de la importación: valida cada fila, decide si es alta o
+ * actualización y junta las categorías por crear. No escribe nada.
+ */
+export function buildCatalogImportPlan(
+  sheet: Array<Array<string>>,
+  mapping: ColumnMapping,
+  existing: { products: Array<Product>; categories: Array<BusinessCategory> }
+): CatalogImportPlan {
+  const productsByName = new Map(existing.products.map(product => [normalizeSearchText(product.name), product]));
+  const categories = new Map<string, NewCategory>();
+  for (const category of existing.categories) {
+    categories.set(normalizeSearchText(category.categoryName), category);
+    categories.set(normalizeSearchText(category.categoryId), category);
+  }
+
+  const newCategories: Array<NewCategory> = [];
+  const seenNames = new Map<string, number>();
+
+  const rows = sheet.slice(1).map((cells, index): CatalogImportRow => {
+    const rowNumber = index + 2;
+    const cell = (field: CatalogField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+    const errors: Array<string> = [];
+    const invalidFields = new Set<CatalogField>();
+    const number = (field: CatalogField) => {
+      const value = parseSheetNumber(cell(field));
+      if (value !== undefined && Number.isNaN(value)) {
+        errors.push(`${FIELD_LABELS[field]}: "${cell(field)}" no es un número`);
+        invalidFields.add(field);
+        return undefined;
+      }
+      return value;
+    };
+
+    const name = cell('name');
+    const candidate = {
+      name,
+      price: number('price') ?? 0,
+      stock: number('stock'),
+      isActive: parseActive(cell('isActive')) ?? true,
+      ...(cell('description') && { description: cell('description') }),
+      ...(cell('cost') && { cost: number('cost') ?? 0 }),
+      ...(cell('satCode') && { satCode: cell('satCode') }),
+      ...(cell('taxRate') && { taxRate: parseTaxRate(cell('taxRate')) ?? DEFAULT_TAX_RATE })
+    };
+
+    const result = ImportedProductSchema.safeParse(candidate);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const field = issue.path[0] as CatalogField | undefined;
+        if (field && invalidFields.has(field)) continue;
+        errors.push(field ? `${FIELD_LABELS[field]}: ${issue.message}` : issue.message);
+      }
+    }
+
+    const key = normalizeSearchText(name);
+    const repeatedAt = seenNames.get(key);
+    if (key && repeatedAt !== undefined) {
+      errors.push(`Producto repetido (fila ${repeatedAt})`);
+    } else if (key) {
+      seenNames.set(key, rowNumber);
+    }
+
+    if (errors.length > 0) return { rowNumber, action: 'error', errors };
+
+    // Categoría existente por nombre o código; si no existe se crea
+    const categoryName = cell('category');
+    let category = categoryName ? categories.get(normalizeSearchText(categoryName)) : undefined;
+    if (categoryName && !category) {
+      category = {
+        categoryId: toCategoryId(categoryName),
+        categoryName,
+        icon: DEFAULT_CATEGORY_ICON,
+        satCode: candidate.satCode ?? DEFAULT_SAT_CODE
+      };
+      categories.set(normalizeSearchText(categoryName), category);
+      newCategories.push(category);
+    }
+
+    const existingProduct = productsByName.get(key);
+    const product: ImportedProduct = {
+      name,
+      price: candidate.price,
+      satCode: candidate.satCode ?? category?.satCode ?? existingProduct?.satCode ?? DEFAULT_SAT_CODE,
+      taxRate: candidate.taxRate ?? existingProduct?.taxRate ?? DEFAULT_TAX_RATE,
+      isActive: candidate.isActive,
+      ...(candidate.description && { description: candidate.description }),
+      ...(candidate.cost !== undefined && { cost: candidate.cost }),
+      ...(candidate.stock !== undefined && { stock: candidate.stock }),
+      ...(category && { categoryId: category.categoryId })
+    };
+
+    return existingProduct?.id !== undefined
+      ? { rowNumber, action: 'update', errors, product, existingId: existingProduct.id }
+      : { rowNumber, action: 'create', errors, product };
+  });
+
+  return {
+    rows,
+    newCategories,
+    creates: rows.filter(row => row.action === 'create').length,
+    updates: rows.filter(row => row.action === 'update').length,
+    errors: rows.filter(row => row.action === 'error').length
+  };
+}
+
+/**
+ * ✅ Catálogo completo como filas (con encabezado), en el mismo formato que
+ * acepta la importación
+ */
+export function getCatalogExportRows(
+  products: Array<Product>,
+  categories: Array<BusinessCategory>
+): Array<Array<string | number>> {
+  const categoryNames = new Map(categories.map(category => [category.categoryId, category.categoryName]));
+
+  return [
+    CATALOG_FIELDS.map(({ label }) => label),
+    ...[...products]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(product => [
+        product.name,
+        product.description ?? '',
+        product.price,
+        product.cost ?? '',
+        (product.categoryId && categoryNames.get(product.categoryId)) || product.category || '',
+        product.stock,
+        product.satCode ?? DEFAULT_SAT_CODE,
+        Math.round((product.taxRate ?? DEFAULT_TAX_RATE) * 10000) / 100,
+        product.isActive ? 'Sí' : 'No'
+      ])
+  ];
+}
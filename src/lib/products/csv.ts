@@ -0,0 +1,75 @@
+/**
+ * CSV mínimo (RFC 4180): comillas dobles, saltos de línea dentro de comillas
+ * y separador coma o punto y coma (Excel en español exporta con ";").
+ */
+
+export type CsvRow = Array<string>;
+
+// El separador más frecuente en la primera línea
+function detectDelimiter(text: string): ',' | ';' {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+}
+
+/**
+ * ✅ Filas del archivo (sin filas vacías); las celdas se regresan tal cual
+ */
+export function parseCsv(text: string): Array<CsvRow> {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: Array<CsvRow> = [];
+  let row: CsvRow = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+
+    if (inQuotes) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+const escapeCell = (value: string | number) => {
+  const text = String(value);
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * ✅ Texto CSV con BOM para que Excel respete los acentos
+ */
+export function toCsv(rows: Array<Array<string | number>>): string {
+  return '\uFEFF' + rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+}
@@ -19,6 +19,11 @@ export function generateUUID(): string {
   }
 }
 
+// Texto para búsquedas: sin acentos, sin mayúsculas ni espacios sobrantes
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
 // Formatting utilities
 export function formatCurrency(amount: number): string {
   return new Intl.NumberFormat('es-MX', {
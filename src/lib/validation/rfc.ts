@@ -0,0 +1,100 @@
+/**
+ * Validación de RFC (Registro Federal de Contribuyentes) para facturar
+ */
+
+export type RfcPersonType = 'moral' | 'fisica';
+
+export interface RfcValidationResult {
+  isValid: boolean;
+  reason?: string;
+  cleanRfc?: string;
+  personType?: RfcPersonType;
+  isGeneric?: boolean;
+}
+
+// RFC genéricos del SAT: público en general y residentes en el extranjero
+export const RFC_GENERIC_NATIONAL = 'XAXX010101000';
+export const RFC_GENERIC_FOREIGN = 'XEXX010101000';
+
+// Siglas (3 personas morales, 4 físicas) + fecha AAMMDD + homoclave de 2 + dígito verificador
+const RFC_PATTERN = /^([A-ZÑ&]{3,4})([0-9]{2})(0[1-9]|1[012])(0[1-9]|[12][0-9]|3[01])([A-Z0-9]{2})([0-9A])$/;
+
+// Valor de cada carácter para el dígito verificador (el espacio rellena a las personas morales)
+const CHECK_DIGIT_CHARS = '0123456789ABCDEFGHIJKLMN&OPQRSTUVWXYZ Ñ';
+
+/**
+ * Quita espacios y guiones y pasa a mayúsculas
+ */
+export function normalizeRfc(rfc: string): string {
+  return rfc.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * RFC genérico de público en general o de extranjero
+ */
+export function isGenericRfc(rfc: string): boolean {
+  const cleanRfc = normalizeRfc(rfc);
+  return cleanRfc === RFC_GENERIC_NATIONAL || cleanRfc === RFC_GENERIC_FOREIGN;
+}
+
+/**
+ * Dígito verificador (módulo 11) de un RFC de 12 o 13 caracteres
+ */
+export function calculateRfcCheckDigit(rfc: string): string {
+  const base = rfc.slice(0, -1).padStart(12, ' ');
+  const sum = [...base].reduce((total, char, index) => total + CHECK_DIGIT_CHARS.indexOf(char) * (13 - index), 0);
+  const digit = 11 - (sum % 11);
+
+  if (digit === 11) return '0';
+  if (digit === 10) return 'A';
+  return String(digit);
+}
+
+/**
+ * Valida un RFC
+ */
+export function validateRfc(rfc: string): boolean {
+  return validateRfcWithDetails(rfc).isValid;
+}
+
+/**
+ * Valida formato, fecha y dígito verificador de un RFC con detalles del error
+ */
+export function validateRfcWithDetails(rfc: string): RfcValidationResult {
+  if (!rfc || typeof rfc !== 'string') {
+    return { isValid: false, reason: 'RFC vacío o inválido' };
+  }
+
+  const cleanRfc = normalizeRfc(rfc);
+
+  if (cleanRfc === RFC_GENERIC_NATIONAL || cleanRfc === RFC_GENERIC_FOREIGN) {
+    return { isValid: true, cleanRfc, personType: 'fisica', isGeneric: true };
+  }
+
+  if (cleanRfc.length !== 12 && cleanRfc.length !== 13) {
+    return { isValid: false, reason: 'Debe tener 12 caracteres (persona moral) o 13 (persona física)', cleanRfc };
+  }
+
+  const match = RFC_PATTERN.exec(cleanRfc);
+  if (!match) {
+    return { isValid: false, reason: 'Formato inválido: siglas, fecha AAMMDD y homoclave', cleanRfc };
+  }
+
+  // La fecha debe existir (p. ej. no 31 de febrero); el año de dos dígitos no importa
+  const [, , year, month, day] = match;
+  const date = new Date(2000 + Number(year), Number(month) - 1, Number(day));
+  if (date.getMonth() !== Number(month) - 1) {
+    return { isValid: false, reason: 'La fecha del RFC no existe', cleanRfc };
+  }
+
+  if (calculateRfcCheckDigit(cleanRfc) !== cleanRfc.slice(-1)) {
+    return { isValid: false, reason: 'El dígito verificador no corresponde, revisa la homoclave', cleanRfc };
+  }
+
+  return {
+    isValid: true,
+    cleanRfc,
+    personType: cleanRfc.length === 12 ? 'moral' : 'fisica',
+    isGeneric: false
+  };
+}
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { validatePhone } from './phone.ts';
+import { validateRfc } from './rfc.ts';
 
 // Base schemas for common patterns
 const uuidSchema = z.string().uuid('Invalid UUID format');
@@ -10,6 +11,12 @@ const phoneSchema = z.string()
   .refine((val) => !val || validatePhone(val), {
     message: 'El teléfono debe tener un formato válido para los países soportados'
   });
+const rfcSchema = z.string()
+  .max(13, 'RFC too long')
+  .optional()
+  .refine((val) => !val || validateRfc(val), {
+    message: 'El RFC no es válido, revisa la homoclave'
+  });
 const emailSchema = z.string().email('Invalid email format').optional();
 const timestampSchema = z.string().datetime('Invalid timestamp format');
 const positiveNumberSchema = z.number().positive('Must be a positive number');
@@ -77,6 +84,7 @@ export const ProductSchema = z.object({
   taxRate: z.number().min(0).max(1, 'Tax rate must be between 0 and 1').optional(), // Tax rate (0.16 = 16% IVA)
   stock: nonNegativeNumberSchema,
   image_url: z.string().url('Invalid image URL').optional(),
+  thumbnail_url: z.string().url('Invalid thumbnail URL').optional(),
   isActive: z.boolean(),
   is_active: z.boolean().optional(), // API compatibility
   syncStatus: syncStatusSchema,
@@ -140,6 +148,11 @@ export const BusinessSchema = z.object({
   business_type: z.string().max(100, 'Business type too long').optional(), // API compatibility
   taxRegimeCode: z.string().max(10, 'Tax regime code too long').optional(),
   tax_regime_code: z.string().max(10, 'Tax regime code too long').optional(), // API compatibility
+  rfc: z.string().max(13, 'RFC too long').optional(),
+  legalName: z.string().max(255, 'Legal name too long').optional(),
+  legal_name: z.string().max(255, 'Legal name too long').optional(), // API compatibility
+  fiscalPostalCode: z.string().regex(/^[0-9]{5}$/, 'Postal code must be 5 digits').optional(),
+  fiscal_postal_code: z.string().regex(/^[0-9]{5}$/, 'Postal code must be 5 digits').optional(), // API compatibility
   address: z.string().max(500, 'Address too long').optional(),
   phone: phoneSchema,
   email: emailSchema,
@@ -181,6 +194,11 @@ export const ClientSchema = z.object({
   phone: phoneSchema,
   address: z.string().max(500, 'Address too long').optional(),
   notes: z.string().max(1000, 'Notes too long').optional(),
+  rfc: rfcSchema,
+  legal_name: z.string().max(255, 'Legal name too long').optional(),
+  tax_regime_code: z.string().max(10, 'Tax regime code too long').optional(),
+  cfdi_use: z.string().max(4, 'CFDI use too long').optional(),
+  fiscal_postal_code: z.string().regex(/^[0-9]{5}$/, 'Postal code must be 5 digits').optional(),
   total_orders: nonNegativeNumberSchema,
   total_spent: nonNegativeNumberSchema,
   last_order_date: timestampSchema.optional(),
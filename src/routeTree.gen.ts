@@ -13,13 +13,16 @@ import { Route as SetupRouteImport } from './routes/setup'
 import { Route as ProfileRouteImport } from './routes/profile'
 import { Route as ProductsRouteImport } from './routes/products'
 import { Route as PaywallRouteImport } from './routes/paywall'
+import { Route as KitchenRouteImport } from './routes/kitchen'
 import { Route as ExtendTrialRouteImport } from './routes/extend-trial'
 import { Route as DesignSystemRouteImport } from './routes/design-system'
 import { Route as DashboardRouteImport } from './routes/dashboard'
-import { Route as ClientsRouteImport } from './routes/clients'
+import { Route as ConflictsRouteImport } from './routes/conflicts'
+import { Route as CalendarRouteImport } from './routes/calendar'
 import { Route as AuthRouteImport } from './routes/auth'
-import { Route as AccountRecoveryRouteImport } from './routes/account-recovery'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as ClientsIndexRouteImport } from './routes/clients.index'
+import { Route as ClientsClientIdRouteImport } from './routes/clients.$clientId'
 import { Route as AuthCallbackRouteImport } from './routes/auth.callback'
 
 const SetupRoute = SetupRouteImport.update({
@@ -42,6 +45,11 @@ const PaywallRoute = PaywallRouteImport.update({
   path: '/paywall',
   getParentRoute: () => rootRouteImport,
 } as any)
+const KitchenRoute = KitchenRouteImport.update({
+  id: '/kitchen',
+  path: '/kitchen',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ExtendTrialRoute = ExtendTrialRouteImport.update({
   id: '/extend-trial',
   path: '/extend-trial',
@@ -57,9 +65,14 @@ const DashboardRoute = DashboardRouteImport.update({
   path: '/dashboard',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ClientsRoute = ClientsRouteImport.update({
-  id: '/clients',
-  path: '/clients',
+const ConflictsRoute = ConflictsRouteImport.update({
+  id: '/conflicts',
+  path: '/conflicts',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const CalendarRoute = CalendarRouteImport.update({
+  id: '/calendar',
+  path: '/calendar',
   getParentRoute: () => rootRouteImport,
 } as any)
 const AuthRoute = AuthRouteImport.update({
@@ -67,16 +80,21 @@ const AuthRoute = AuthRouteImport.update({
   path: '/auth',
   getParentRoute: () => rootRouteImport,
 } as any)
-const AccountRecoveryRoute = AccountRecoveryRouteImport.update({
-  id: '/account-recovery',
-  path: '/account-recovery',
-  getParentRoute: () => rootRouteImport,
-} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ClientsIndexRoute = ClientsIndexRouteImport.update({
+  id: '/clients/',
+  path: '/clients/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ClientsClientIdRoute = ClientsClientIdRouteImport.update({
+  id: '/clients/$clientId',
+  path: '/clients/$clientId',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AuthCallbackRoute = AuthCallbackRouteImport.update({
   id: '/callback',
   path: '/callback',
@@ -85,104 +103,125 @@ const AuthCallbackRoute = AuthCallbackRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
-  '/account-recovery': typeof AccountRecoveryRoute
   '/auth': typeof AuthRouteWithChildren
-  '/clients': typeof ClientsRoute
+  '/calendar': typeof CalendarRoute
+  '/conflicts': typeof ConflictsRoute
   '/dashboard': typeof DashboardRoute
   '/design-system': typeof DesignSystemRoute
   '/extend-trial': typeof ExtendTrialRoute
+  '/kitchen': typeof KitchenRoute
   '/paywall': typeof PaywallRoute
   '/products': typeof ProductsRoute
   '/profile': typeof ProfileRoute
   '/setup': typeof SetupRoute
   '/auth/callback': typeof AuthCallbackRoute
+  '/clients/$clientId': typeof ClientsClientIdRoute
+  '/clients': typeof ClientsIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
-  '/account-recovery': typeof AccountRecoveryRoute
   '/auth': typeof AuthRouteWithChildren
-  '/clients': typeof ClientsRoute
+  '/calendar': typeof CalendarRoute
+  '/conflicts': typeof ConflictsRoute
   '/dashboard': typeof DashboardRoute
   '/design-system': typeof DesignSystemRoute
   '/extend-trial': typeof ExtendTrialRoute
+  '/kitchen': typeof KitchenRoute
   '/paywall': typeof PaywallRoute
   '/products': typeof ProductsRoute
   '/profile': typeof ProfileRoute
   '/setup': typeof SetupRoute
   '/auth/callback': typeof AuthCallbackRoute
+  '/clients/$clientId': typeof ClientsClientIdRoute
+  '/clients': typeof ClientsIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
-  '/account-recovery': typeof AccountRecoveryRoute
   '/auth': typeof AuthRouteWithChildren
-  '/clients': typeof ClientsRoute
+  '/calendar': typeof CalendarRoute
+  '/conflicts': typeof ConflictsRoute
   '/dashboard': typeof DashboardRoute
   '/design-system': typeof DesignSystemRoute
   '/extend-trial': typeof ExtendTrialRoute
+  '/kitchen': typeof KitchenRoute
   '/paywall': typeof PaywallRoute
   '/products': typeof ProductsRoute
   '/profile': typeof ProfileRoute
   '/setup': typeof SetupRoute
   '/auth/callback': typeof AuthCallbackRoute
+  '/clients/$clientId': typeof ClientsClientIdRoute
+  '/clients/': typeof ClientsIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
-    | '/account-recovery'
     | '/auth'
-    | '/clients'
+    | '/calendar'
+    | '/conflicts'
     | '/dashboard'
     | '/design-system'
     | '/extend-trial'
+    | '/kitchen'
     | '/paywall'
     | '/products'
     | '/profile'
     | '/setup'
     | '/auth/callback'
+    | '/clients/$clientId'
+    | '/clients'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
-    | '/account-recovery'
     | '/auth'
-    | '/clients'
+    | '/calendar'
+    | '/conflicts'
     | '/dashboard'
     | '/design-system'
     | '/extend-trial'
+    | '/kitchen'
     | '/paywall'
     | '/products'
     | '/profile'
     | '/setup'
     | '/auth/callback'
+    | '/clients/$clientId'
+    | '/clients'
   id:
     | '__root__'
     | '/'
-    | '/account-recovery'
     | '/auth'
-    | '/clients'
+    | '/calendar'
+    | '/conflicts'
     | '/dashboard'
     | '/design-system'
     | '/extend-trial'
+    | '/kitchen'
     | '/paywall'
     | '/products'
     | '/profile'
     | '/setup'
     | '/auth/callback'
+    | '/clients/$clientId'
+    | '/clients/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
-  AccountRecoveryRoute: typeof AccountRecoveryRoute
   AuthRoute: typeof AuthRouteWithChildren
-  ClientsRoute: typeof ClientsRoute
+  CalendarRoute: typeof CalendarRoute
+  ConflictsRoute: typeof ConflictsRoute
   DashboardRoute: typeof DashboardRoute
   DesignSystemRoute: typeof DesignSystemRoute
   ExtendTrialRoute: typeof ExtendTrialRoute
+  KitchenRoute: typeof KitchenRoute
   PaywallRoute: typeof PaywallRoute
   ProductsRoute: typeof ProductsRoute
   ProfileRoute: typeof ProfileRoute
   SetupRoute: typeof SetupRoute
+  ClientsClientIdRoute: typeof ClientsClientIdRoute
+  ClientsIndexRoute: typeof ClientsIndexRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -215,6 +254,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PaywallRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/kitchen': {
+      id: '/kitchen'
+      path: '/kitchen'
+      fullPath: '/kitchen'
+      preLoaderRoute: typeof KitchenRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/extend-trial': {
       id: '/extend-trial'
       path: '/extend-trial'
@@ -236,11 +282,18 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DashboardRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/clients': {
-      id: '/clients'
-      path: '/clients'
-      fullPath: '/clients'
-      preLoaderRoute: typeof ClientsRouteImport
+    '/conflicts': {
+      id: '/conflicts'
+      path: '/conflicts'
+      fullPath: '/conflicts'
+      preLoaderRoute: typeof ConflictsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/calendar': {
+      id: '/calendar'
+      path: '/calendar'
+      fullPath: '/calendar'
+      preLoaderRoute: typeof CalendarRouteImport
       parentRoute: typeof rootRouteImport
     }
     '/auth': {
@@ -250,13 +303,6 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/account-recovery': {
-      id: '/account-recovery'
-      path: '/account-recovery'
-      fullPath: '/account-recovery'
-      preLoaderRoute: typeof AccountRecoveryRouteImport
-      parentRoute: typeof rootRouteImport
-    }
     '/': {
       id: '/'
       path: '/'
@@ -264,6 +310,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/clients/': {
+      id: '/clients/'
+      path: '/clients'
+      fullPath: '/clients'
+      preLoaderRoute: typeof ClientsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/clients/$clientId': {
+      id: '/clients/$clientId'
+      path: '/clients/$clientId'
+      fullPath: '/clients/$clientId'
+      preLoaderRoute: typeof ClientsClientIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/auth/callback': {
       id: '/auth/callback'
       path: '/callback'
@@ -286,16 +346,19 @@ const AuthRouteWithChildren = AuthRoute._addFileChildren(AuthRouteChildren)
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
-  AccountRecoveryRoute: AccountRecoveryRoute,
   AuthRoute: AuthRouteWithChildren,
-  ClientsRoute: ClientsRoute,
+  CalendarRoute: CalendarRoute,
+  ConflictsRoute: ConflictsRoute,
   DashboardRoute: DashboardRoute,
   DesignSystemRoute: DesignSystemRoute,
   ExtendTrialRoute: ExtendTrialRoute,
+  KitchenRoute: KitchenRoute,
   PaywallRoute: PaywallRoute,
   ProductsRoute: ProductsRoute,
   ProfileRoute: ProfileRoute,
   SetupRoute: SetupRoute,
+  ClientsClientIdRoute: ClientsClientIdRoute,
+  ClientsIndexRoute: ClientsIndexRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -0,0 +1,22 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { ProtectedRoute } from '../components/ProtectedRoute.tsx'
+import { DeliveryCalendar } from '../components/orders/DeliveryCalendar.tsx'
+import { useAuth } from '../hooks/useAuth.ts'
+
+export const Route = createFileRoute('/calendar')({
+  component: CalendarPage,
+})
+
+function CalendarPage() {
+  const { user } = useAuth()
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {user?.businessId && <DeliveryCalendar businessId={user.businessId} />}
+        </main>
+      </div>
+    </ProtectedRoute>
+  )
+}
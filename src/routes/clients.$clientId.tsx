@@ -0,0 +1,23 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { ProtectedRoute } from '../components/ProtectedRoute.tsx'
+import { ClientDetail } from '../components/ClientDetail.tsx'
+import { useAuth } from '../hooks/useAuth.ts'
+
+export const Route = createFileRoute('/clients/$clientId')({
+  component: ClientDetailPage,
+})
+
+function ClientDetailPage() {
+  const { clientId } = Route.useParams()
+  const { user } = useAuth()
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {user?.businessId && <ClientDetail clientId={clientId} businessId={user.businessId} />}
+        </main>
+      </div>
+    </ProtectedRoute>
+  )
+}
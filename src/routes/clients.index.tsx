@@ -2,7 +2,7 @@ import { createFileRoute } from '@tanstack/react-router'
 import { ProtectedRoute } from '../components/ProtectedRoute'
 import { ClientsList } from '@/components/ClientsList'
 
-export const Route = createFileRoute('/clients')({
+export const Route = createFileRoute('/clients/')({
   component: ClientsPage,
 })
 
@@ -0,0 +1,15 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { ProtectedRoute } from '../components/ProtectedRoute.tsx'
+import { ConflictInbox } from '../components/ConflictInbox.tsx'
+
+export const Route = createFileRoute('/conflicts')({
+  component: ConflictsPage,
+})
+
+function ConflictsPage() {
+  return (
+    <ProtectedRoute>
+      <ConflictInbox />
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,22 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { ProtectedRoute } from '../components/ProtectedRoute.tsx'
+import { KitchenBoard } from '../components/orders/KitchenBoard.tsx'
+import { useAuth } from '../hooks/useAuth.ts'
+
+export const Route = createFileRoute('/kitchen')({
+  component: KitchenPage,
+})
+
+function KitchenPage() {
+  const { user } = useAuth()
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <main className="mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {user?.businessId && <KitchenBoard businessId={user.businessId} />}
+        </main>
+      </div>
+    </ProtectedRoute>
+  )
+}
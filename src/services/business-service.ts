@@ -54,6 +54,13 @@ export interface Business {
   email: string;
   phone?: string;
   address?: string;
+  rfc?: string;
+  legalName?: string;
+  taxRegimeCode?: string;
+  fiscalPostalCode?: string;
+  legal_name?: string; // Columnas tal como vienen de la tabla businesses
+  tax_regime_code?: string;
+  fiscal_postal_code?: string;
   settings: {
     currency: string;
     taxRegime: {
@@ -71,6 +78,9 @@ export interface Business {
   subscription_status: string;
 }
 
+// Datos del emisor para facturar (CFDI)
+export type BusinessFiscalData = Required<Pick<Business, 'rfc' | 'legalName' | 'taxRegimeCode' | 'fiscalPostalCode'>>;
+
 export class BusinessService {
   /**
    * Crear un nuevo negocio
@@ -268,6 +278,30 @@ export class BusinessService {
     return business;
   }
 
+  /**
+   * Guardar los datos fiscales del emisor (vacíos se guardan como null)
+   */
+  static async updateFiscalData(businessId: string, data: BusinessFiscalData): Promise<void> {
+    if (!supabase) {
+      throw new Error('Cliente Supabase no inicializado');
+    }
+
+    const { error } = await supabase
+      .from('businesses')
+      .update({
+        rfc: data.rfc || null,
+        legal_name: data.legalName || null,
+        tax_regime_code: data.taxRegimeCode || null,
+        fiscal_postal_code: data.fiscalPostalCode || null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', businessId);
+
+    if (error) {
+      throw new Error('Error al guardar los datos fiscales del negocio');
+    }
+  }
+
   /**
    * Unirse a un negocio existente usando código de invitación
    */
@@ -0,0 +1,106 @@
+/**
+ * Invoice Service
+ *
+ * Factura pedidos con CFDI 4.0:
+ * - Arma el comprobante a partir del pedido (lib/invoicing/cfdi.ts)
+ * - Lo valida localmente antes de gastar un timbre
+ * - Lo entrega al PAC configurado para sellarlo y timbrarlo
+ *
+ * El PAC es intercambiable: cualquier proveedor se conecta implementando
+ * PacAdapter. FakePacAdapter timbra localmente para pruebas y desarrollo.
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import { buildCfdiFromOrder, formatCfdiDate, serializeCfdi } from '../lib/invoicing/cfdi.ts'
+import { assertValidCfdi } from '../lib/invoicing/validation.ts'
+import type { BuildCfdiOptions, CfdiDocument } from '../lib/invoicing/cfdi.ts'
+import type { Order } from '../types/index.ts'
+
+export interface PacStampResult {
+  uuid: string // Folio fiscal asignado por el SAT
+  stampedAt: string // FechaTimbrado
+  xml: string // Comprobante sellado con el complemento TimbreFiscalDigital
+}
+
+export interface PacAdapter {
+  readonly name: string
+  stamp: (xml: string) => Promise<PacStampResult>
+}
+
+export interface StampedInvoice extends PacStampResult {
+  cfdi: CfdiDocument
+  pac: string
+}
+
+const TFD_NAMESPACE = 'http://www.sat.gob.mx/TimbreFiscalDigital'
+const TFD_SCHEMA_LOCATION = 'http://www.sat.gob.mx/sitio_internet/cfd/TimbreFiscalDigital/TimbreFiscalDigitalv11.xsd'
+
+/**
+ * PAC de prueba: agrega un TimbreFiscalDigital con UUID aleatorio y sellos
+ * ficticios. Las facturas que genera no tienen validez fiscal
+ */
+export class FakePacAdapter implements PacAdapter {
+  readonly name = 'fake'
+  readonly stamped: Array<string> = []
+
+  constructor(private readonly options: { failWith?: string } = {}) {}
+
+  stamp(xml: string): Promise<PacStampResult> {
+    if (this.options.failWith) {
+      return Promise.reject(new Error(this.options.failWith))
+    }
+    if (!xml.includes('<cfdi:Comprobante') || !xml.includes('</cfdi:Comprobante>')) {
+      return Promise.reject(new Error('El XML no es un comprobante CFDI'))
+    }
+
+    const uuid = uuidv4().toUpperCase()
+    const stampedAt = formatCfdiDate(new Date())
+    const timbre = `  <cfdi:Complemento>
+    <tfd:TimbreFiscalDigital xmlns:tfd="${TFD_NAMESPACE}" xsi:schemaLocation="${TFD_NAMESPACE} ${TFD_SCHEMA_LOCATION}" Version="1.1" UUID="${uuid}" FechaTimbrado="${stampedAt}" RfcProvCertif="SAT970701NN3" SelloCFD="FAKE" NoCertificadoSAT="00000000000000000000" SelloSAT="FAKE"/>
+  </cfdi:Complemento>
+</cfdi:Comprobante>`
+
+    this.stamped.push(uuid)
+    return Promise.resolve({ uuid, stampedAt, xml: xml.replace('</cfdi:Comprobante>', timbre) })
+  }
+}
+
+export class InvoiceService {
+  private static adapter: PacAdapter | null = null
+
+  /**
+   * ✅ Conectar el PAC con el que se timbrará (null lo desconecta)
+   */
+  static setPacAdapter(adapter: PacAdapter | null): void {
+    this.adapter = adapter
+  }
+
+  static getPacAdapter(): PacAdapter | null {
+    return this.adapter
+  }
+
+  /**
+   * Comprobante validado y su XML, sin timbrar (vista previa)
+   */
+  static prepare(order: Order, options: BuildCfdiOptions): { cfdi: CfdiDocument; xml: string } {
+    const cfdi = buildCfdiFromOrder(order, options)
+    assertValidCfdi(cfdi)
+    return { cfdi, xml: serializeCfdi(cfdi) }
+  }
+
+  /**
+   * ✅ Arma, valida y timbra la factura de un pedido
+   */
+  static async invoiceOrder(order: Order, options: BuildCfdiOptions): Promise<StampedInvoice> {
+    const adapter = this.adapter
+    if (!adapter) {
+      throw new Error('No hay un PAC configurado para timbrar facturas')
+    }
+
+    const { cfdi, xml } = this.prepare(order, options)
+    const stamp = await adapter.stamp(xml)
+    console.log(`🧾 Factura ${stamp.uuid} timbrada con ${adapter.name}`)
+
+    return { ...stamp, cfdi, pac: adapter.name }
+  }
+}
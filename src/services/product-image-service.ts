@@ -0,0 +1,261 @@
+/**
+ * Product Image Service
+ *
+ * Handles product photos:
+ * - Client-side optimization (photo + thumbnail) with imageOptimization
+ * - Upload to the product_images bucket
+ * - Offline queue in IndexedDB, drained when the connection comes back
+ */
+
+import { supabase } from '../utils/supabase.ts'
+import { STORAGE_CONFIG } from '../config/storage.ts'
+import { db } from '../lib/offline/db.ts'
+import {
+  DEFAULT_PRODUCT_IMAGE_OPTIONS,
+  DEFAULT_PRODUCT_THUMBNAIL_OPTIONS,
+  formatFileSize,
+  optimizeImage
+} from '../utils/imageOptimization.ts'
+import { syncEngine } from './sync-engine.ts'
+import type { Product } from '../types/index.ts'
+
+export interface PreparedProductImage {
+  image: File
+  thumbnail: File
+}
+
+export type ProductImageUrls = Required<Pick<Product, 'image_url' | 'thumbnail_url'>>
+
+const BUCKET = STORAGE_CONFIG.BUCKETS.PRODUCT_IMAGES
+const MAX_RETRIES = 5
+
+// Las fotos pasan por canvas para optimizarlas, así que no se aceptan SVG
+export const PRODUCT_IMAGE_TYPES: ReadonlyArray<string> = STORAGE_CONFIG.ALLOWED_TYPES.IMAGE.filter(type => type !== 'image/svg+xml')
+
+/**
+ * ✅ Error a mostrar si el archivo no se puede usar como foto de producto
+ */
+export function validateProductImage(file: Pick<File, 'type' | 'size'>): string | undefined {
+  if (!PRODUCT_IMAGE_TYPES.includes(file.type)) {
+    return 'Usa una imagen JPG, PNG, WebP o GIF'
+  }
+  if (file.size > STORAGE_CONFIG.FILE_LIMITS.IMAGE) {
+    return `La imagen no debe pasar de ${formatFileSize(STORAGE_CONFIG.FILE_LIMITS.IMAGE)}`
+  }
+  return undefined
+}
+
+/**
+ * ✅ Ruta dentro del bucket: negocio/producto/fecha(-thumb).webp
+ * (nombre único por subida, así el caché del service worker nunca queda viejo)
+ */
+export function getProductImagePath(
+  businessId: string,
+  productKey: string,
+  kind: 'image' | 'thumbnail',
+  timestamp: number = Date.now()
+): string {
+  return `${businessId}/${productKey}/${timestamp}${kind === 'thumbnail' ? '-thumb' : ''}.webp`
+}
+
+/**
+ * ✅ Ruta en el bucket a partir de la URL pública (undefined si es de otro lado)
+ */
+export function getProductImageStoragePath(url: string | undefined): string | undefined {
+  const marker = `/${BUCKET}/`
+  const index = url?.indexOf(marker) ?? -1
+  return url && index >= 0 ? decodeURIComponent(url.slice(index + marker.length).split('?')[0] ?? '') : undefined
+}
+
+export class ProductImageService {
+  private static isStarted = false
+  private static currentRun: Promise<number> | null = null
+
+  /**
+   * ✅ Subir lo pendiente al volver la conexión (idempotente)
+   */
+  static start(): void {
+    if (this.isStarted) return
+    this.isStarted = true
+
+    globalThis.addEventListener('online', this.handleOnline)
+    if (navigator.onLine) {
+      void this.processQueue()
+    }
+  }
+
+  /**
+   * Optimize the selected file into the photo and its thumbnail
+   */
+  static async prepare(file: File): Promise<PreparedProductImage> {
+    const error = validateProductImage(file)
+    if (error) throw new Error(error)
+
+    const [image, thumbnail] = await Promise.all([
+      optimizeImage(file, DEFAULT_PRODUCT_IMAGE_OPTIONS),
+      optimizeImage(file, DEFAULT_PRODUCT_THUMBNAIL_OPTIONS)
+    ])
+
+    console.log('✅ Product image optimized:', {
+      originalSize: formatFileSize(image.originalSize),
+      imageSize: formatFileSize(image.optimizedSize),
+      thumbnailSize: formatFileSize(thumbnail.optimizedSize)
+    })
+
+    return { image: image.file, thumbnail: thumbnail.file }
+  }
+
+  /**
+   * Upload photo and thumbnail; returns their public URLs
+   */
+  static async upload(businessId: string, productKey: string, prepared: { image: Blob; thumbnail: Blob }): Promise<ProductImageUrls> {
+    const client = supabase
+    if (!client) {
+      throw new Error('Supabase client not configured')
+    }
+
+    const timestamp = Date.now()
+    const upload = async (kind: 'image' | 'thumbnail', file: Blob) => {
+      const { data, error } = await client.storage
+        .from(BUCKET)
+        .upload(getProductImagePath(businessId, productKey, kind, timestamp), file, {
+          cacheControl: '31536000',
+          contentType: 'image/webp',
+          upsert: false
+        })
+
+      if (error) {
+        throw new Error(`Upload failed: ${error.message}`)
+      }
+
+      return client.storage.from(BUCKET).getPublicUrl(data.path).data.publicUrl
+    }
+
+    const [imageUrl, thumbnailUrl] = await Promise.all([
+      upload('image', prepared.image),
+      upload('thumbnail', prepared.thumbnail)
+    ])
+
+    return { image_url: imageUrl, thumbnail_url: thumbnailUrl }
+  }
+
+  /**
+   * Remove a photo and its thumbnail from the bucket (best effort)
+   */
+  static async remove(product: Pick<Product, 'image_url' | 'thumbnail_url'>): Promise<void> {
+    const paths = [product.image_url, product.thumbnail_url].flatMap(url => getProductImageStoragePath(url) ?? [])
+    if (!supabase || paths.length === 0) return
+
+    const { error } = await supabase.storage.from(BUCKET).remove(paths)
+    if (error) {
+      console.warn('⚠️ Failed to delete product image:', error)
+    }
+  }
+
+  /**
+   * ✅ Foto de un producto local: se encola y se sube en cuanto haya conexión
+   */
+  static async queueForLocalProduct(product: Pick<Product, 'id' | 'businessId'>, prepared: PreparedProductImage): Promise<void> {
+    if (product.id === undefined) {
+      throw new Error('Product must be saved locally before adding an image')
+    }
+
+    await db.queueProductImage({
+      productId: String(product.id),
+      businessId: product.businessId,
+      image: prepared.image,
+      thumbnail: prepared.thumbnail
+    })
+
+    if (navigator.onLine) {
+      void this.processQueue()
+    }
+  }
+
+  /**
+   * ✅ Foto de un producto que se edita: con conexión se sube de una vez y
+   * `save` guarda el producto con las URLs nuevas; la foto anterior se borra
+   * solo después de guardarlo (si falla, se borra la recién subida). Sin
+   * conexión (o si la subida falla) se guarda sin URLs y la foto se encola en
+   * su copia local. Devuelve si la foto ya quedó subida
+   */
+  static async saveForProduct(
+    product: Pick<Product, 'id' | 'serverId' | 'businessId' | 'clientGeneratedId' | 'image_url' | 'thumbnail_url'>,
+    prepared: PreparedProductImage,
+    save: (urls: Partial<ProductImageUrls>) => Promise<void>
+  ): Promise<boolean> {
+    const productId = product.id === undefined ? '' : String(product.id)
+
+    let urls: ProductImageUrls | undefined
+    if (navigator.onLine) {
+      try {
+        urls = await this.upload(product.businessId, product.clientGeneratedId ?? productId, prepared)
+      } catch (error) {
+        console.warn('⚠️ Product image upload failed, queuing for later:', error)
+      }
+    }
+
+    if (urls) {
+      try {
+        await save(urls)
+      } catch (error) {
+        await this.remove(urls)
+        throw error
+      }
+      await this.remove(product)
+      return true
+    }
+
+    const local = await db.findLocalProduct(productId) ?? (product.serverId ? await db.findLocalProduct(product.serverId) : undefined)
+    if (!local) {
+      throw new Error('No se pudo subir la foto. Intenta de nuevo con conexión.')
+    }
+    await save({})
+    await this.queueForLocalProduct(local, prepared)
+    return false
+  }
+
+  /**
+   * ✅ Subir las fotos pendientes. Llamadas concurrentes comparten la misma ejecución.
+   */
+  static processQueue(): Promise<number> {
+    if (this.currentRun) return this.currentRun
+
+    this.currentRun = this.drainQueue().finally(() => {
+      this.currentRun = null
+    })
+    return this.currentRun
+  }
+
+  private static handleOnline = () => {
+    console.log('🌐 Back online - uploading pending product images')
+    void ProductImageService.processQueue()
+  }
+
+  private static async drainQueue(): Promise<number> {
+    let uploaded = 0
+
+    for (const pending of await db.getPendingProductImages()) {
+      if (!navigator.onLine) break
+      if (pending.id === undefined || (pending.retries ?? 0) >= MAX_RETRIES) continue
+
+      try {
+        const product = await db.products.get(Number(pending.productId))
+        const productKey = product?.clientGeneratedId ?? pending.productId
+        const urls = await this.upload(pending.businessId, productKey, pending)
+
+        // La foto anterior se borra hasta que el producto apunta a la nueva
+        await db.applyProductImage(pending.id, urls)
+        if (product) await this.remove(product)
+        uploaded++
+      } catch (error) {
+        console.error(`❌ Failed to upload image for product ${pending.productId}:`, error)
+        await db.incrementProductImageRetries(pending.id, error instanceof Error ? error.message : 'Upload failed')
+      }
+    }
+
+    // Las URLs nuevas viajan al backend con la cola normal de productos
+    if (uploaded > 0) syncEngine.requestSync()
+    return uploaded
+  }
+}
@@ -0,0 +1,533 @@
+import { db } from '../lib/offline/db.ts'
+import { csrfFetch } from '../hooks/useCSRF.ts'
+import { BACKEND_URL } from '../config.ts'
+import { toOrderPayload } from '../lib/offline/orderMapper.ts'
+import type { BusinessCategory, DeliveryCapacity, LocalClient, LocalOrder, Order, Product, RecurringOrder, StockMovement, SyncQueueItem, TaxSettings } from '../types/index.ts'
+
+// Types for sync engine
+export type SyncRequest = (url: string, options?: RequestInit) => Promise<Response>
+
+export interface SyncEngineStatus {
+  isSyncing: boolean
+  pendingCount: number
+  failedCount: number
+  lastSyncTime: string | null
+  lastSyncError: string | null
+  itemsSynced: number
+  conflictCount: number // Conflictos en la bandeja esperando al usuario
+}
+
+export interface SyncResult {
+  synced: number
+  failed: number
+  skipped: number
+}
+
+type SyncEntity = LocalOrder | Product | BusinessCategory | LocalClient | StockMovement | RecurringOrder
+// Configuración única por negocio: su llave es el businessId y no tiene id del backend
+type BusinessSettings = DeliveryCapacity | TaxSettings
+type SyncListener = (status: SyncEngineStatus) => void
+// Un update que chocó con cambios del servidor queda en la bandeja de conflictos
+type ProcessOutcome = 'synced' | 'conflict'
+
+interface EntityAdapter {
+  table: () => typeof db.orders | typeof db.products | typeof db.businessCategories | typeof db.clients | typeof db.stockMovements | typeof db.recurringOrders | typeof db.deliveryCapacity | typeof db.taxSettings
+  endpoint: (entity: SyncEntity | BusinessSettings | undefined) => string
+  // Configuración del negocio: se guarda completa con PUT y gana el último cambio
+  isBusinessSettings?: boolean
+  // Convierte el registro local al formato del API (por defecto se envía tal cual)
+  toPayload?: (entity: SyncEntity) => Record<string, unknown> | Promise<Record<string, unknown>>
+  // Campos que asigna el backend al crear (además del id) y se guardan localmente
+  fromCreated?: (created: Record<string, unknown>) => Record<string, unknown>
+  // Entidades (`tipo:id local`) que deben llegar al servidor antes que esta
+  dependsOn?: (entity: SyncEntity) => Array<string>
+  // Merge con la versión actual del servidor antes de un update: devuelve la
+  // entidad a enviar, o nada si quedó un conflicto sin resolver
+  mergeWithServer?: (entity: SyncEntity, server: Record<string, unknown>) => Promise<SyncEntity | undefined>
+  // Versión que se guarda como base de futuros merges (por defecto, lo enviado)
+  toSnapshot?: (entity: SyncEntity, serverId: string) => object
+}
+
+const SYNC_DEBOUNCE_MS = 1000
+
+// Campos que solo existen en IndexedDB y no deben viajar al backend
+const LOCAL_ONLY_FIELDS = ['id', 'serverId', 'syncStatus'] as const
+
+const entityBusinessId = (entity: SyncEntity | BusinessSettings | undefined): string => {
+  if (!entity) return ''
+  if ('business_id' in entity && entity.business_id) return entity.business_id
+  if ('businessId' in entity) return entity.businessId
+  return ''
+}
+
+const ENTITY_ADAPTERS: Record<SyncQueueItem['entityType'], EntityAdapter> = {
+  order: {
+    table: () => db.orders,
+    endpoint: () => `${BACKEND_URL}/api/orders`,
+    dependsOn: (entity) => {
+      const order = entity as LocalOrder
+      return [
+        ...(order.clientId ? [`client:${order.clientId}`] : []),
+        ...order.items.flatMap(item => item.product_id ? [`product:${item.product_id}`] : [])
+      ]
+    },
+    toPayload: async (entity) => {
+      const { client_id: clientId, items, ...payload } = toOrderPayload(entity as LocalOrder)
+      // El cliente y los productos se encolan antes que el pedido, así que ya tienen id del backend.
+      // Si aún no lo tienen se reintenta después en vez de enviar el pedido sin vínculo;
+      // solo se omite el vínculo cuando el registro ya se borró en este dispositivo
+      const client = clientId ? await db.clients.get(Number(clientId)) : undefined
+      if (client && !client.serverId) {
+        throw new Error(`Client ${clientId} is not synced yet`)
+      }
+      const productIds = (items ?? []).flatMap(item => item.product_id ?? [])
+      const products = await db.products.bulkGet(productIds.map(Number))
+      const unsynced = products.find(product => product && !product.serverId)
+      if (unsynced) {
+        throw new Error(`Product ${unsynced.id} is not synced yet`)
+      }
+      const serverProductIds = await db.getProductServerIds(productIds)
+      return {
+        ...payload,
+        ...(client?.serverId && { client_id: client.serverId }),
+        ...(items && {
+          items: items.map(({ product_id: productId, ...item }) => {
+            const serverProductId = productId ? serverProductIds.get(productId) : undefined
+            return { ...item, ...(serverProductId && { product_id: serverProductId }) }
+          })
+        })
+      }
+    },
+    // El folio definitivo reemplaza al provisional asignado offline
+    fromCreated: (created) => typeof created['folio'] === 'string'
+      ? { folio: created['folio'], folioProvisional: false }
+      : {},
+    mergeWithServer: async (entity, server) => {
+      const local = entity as LocalOrder
+      const serverVersion = await db.fromServerOrder(local.businessId, server as unknown as Order)
+      const conflict = await db.mergePendingOrder(local, serverVersion)
+      return conflict ? undefined : await db.orders.get(Number(local.id))
+    },
+    // Los merges comparan pedidos con ids locales de cliente y productos
+    toSnapshot: (entity, serverId) => ({ ...toOrderPayload(entity as LocalOrder), id: serverId })
+  },
+  product: {
+    table: () => db.products,
+    endpoint: (entity) => `${BACKEND_URL}/api/products/${entityBusinessId(entity)}`,
+    // Las existencias las calcula el backend con los movimientos del kardex
+    toPayload: (entity) => {
+      const { id: _id, serverId: _serverId, syncStatus: _syncStatus, stock: _stock, variants, ...product } = entity as Product
+      return {
+        ...product,
+        ...(variants && { variants: variants.map(({ stock: _variantStock, ...variant }) => variant) })
+      }
+    },
+    mergeWithServer: async (entity, server) => {
+      const local = entity as Product
+      const serverVersion = db.fromServerProduct(local.businessId, server as unknown as Product)
+      const conflict = await db.mergePendingProduct(local, serverVersion)
+      return conflict ? undefined : await db.products.get(Number(local.id))
+    }
+  },
+  business_category: {
+    table: () => db.businessCategories,
+    endpoint: (entity) => `${BACKEND_URL}/api/business-categories/${entityBusinessId(entity)}`
+  },
+  client: {
+    table: () => db.clients,
+    endpoint: () => `${BACKEND_URL}/api/clients`
+  },
+  stock_movement: {
+    table: () => db.stockMovements,
+    endpoint: () => `${BACKEND_URL}/api/stock-movements`,
+    dependsOn: (entity) => {
+      const { productId, orderId } = entity as StockMovement
+      return [`product:${productId}`, ...(orderId ? [`order:${orderId}`] : [])]
+    },
+    toPayload: async (entity) => {
+      const { id: _id, serverId: _serverId, syncStatus: _syncStatus, productId, orderId, ...movement } = entity as StockMovement
+      // El producto y el pedido se encolan antes que sus movimientos. Si aún no
+      // tienen id del backend se reintenta después en vez de enviar una venta
+      // sin su pedido; solo se omite el vínculo si el pedido ya se borró aquí
+      const product = await db.products.get(Number(productId))
+      if (!product?.serverId) {
+        throw new Error(`Product ${productId} is not synced yet`)
+      }
+      const order = orderId ? await db.orders.get(Number(orderId)) : undefined
+      if (order && !order.serverId) {
+        throw new Error(`Order ${orderId} is not synced yet`)
+      }
+      return {
+        ...movement,
+        product_id: product.serverId,
+        ...(order?.serverId && { order_id: order.serverId })
+      }
+    }
+  },
+  recurring_order: {
+    table: () => db.recurringOrders,
+    endpoint: () => `${BACKEND_URL}/api/recurring-orders`,
+    dependsOn: (entity) => {
+      const recurring = entity as RecurringOrder
+      return [
+        `client:${recurring.clientId}`,
+        ...recurring.items.flatMap(item => item.product_id ? [`product:${item.product_id}`] : [])
+      ]
+    },
+    toPayload: async (entity) => {
+      // `generatedUntil` es de cada dispositivo: los pedidos generados ya viajan solos
+      const { id: _id, serverId: _serverId, syncStatus: _syncStatus, generatedUntil: _generatedUntil, clientId, items, ...recurring } = entity as RecurringOrder
+      const client = await db.clients.get(Number(clientId))
+      if (!client?.serverId) {
+        throw new Error(`Client ${clientId} is not synced yet`)
+      }
+      const productIds = await db.getProductServerIds(items.flatMap(item => item.product_id ?? []))
+      return {
+        ...recurring,
+        clientId: client.serverId,
+        items: items.map(({ product_id: productId, ...item }) => {
+          const serverProductId = productId ? productIds.get(productId) : undefined
+          return { ...item, ...(serverProductId && { product_id: serverProductId }) }
+        })
+      }
+    }
+  },
+  delivery_capacity: {
+    table: () => db.deliveryCapacity,
+    endpoint: (entity) => `${BACKEND_URL}/api/delivery-capacity/${entityBusinessId(entity)}`,
+    isBusinessSettings: true
+  },
+  tax_settings: {
+    table: () => db.taxSettings,
+    endpoint: (entity) => `${BACKEND_URL}/api/tax-settings/${entityBusinessId(entity)}`,
+    isBusinessSettings: true
+  }
+}
+
+const entityKey = (item: SyncQueueItem) => `${item.entityType}:${item.entityId}`
+
+/**
+ * 🎯 SyncEngine - Única fuente de verdad para la sincronización offline
+ *
+ * Drena la cola `syncQueue` de Dexie contra el backend:
+ * - Procesa los items en el orden en que se encolaron
+ * - Si un item de una entidad falla, los siguientes de esa entidad esperan
+ * - Guarda el ID del servidor en la fila local tras un create
+ * - Usa markAsSynced / incrementRetries para mantener la cola
+ *
+ * useOfflineSync, useBackgroundSync y ConnectionBanner leen su estado de aquí.
+ */
+export class SyncEngine {
+  private static instance: SyncEngine | undefined
+
+  private status: SyncEngineStatus = {
+    isSyncing: false,
+    pendingCount: 0,
+    failedCount: 0,
+    lastSyncTime: null,
+    lastSyncError: null,
+    itemsSynced: 0,
+    conflictCount: 0
+  }
+  private listeners = new Set<SyncListener>()
+  private currentSync: Promise<SyncResult> | null = null
+  private scheduledSync: ReturnType<typeof setTimeout> | null = null
+  private isStarted = false
+
+  public static getInstance(): SyncEngine {
+    if (!SyncEngine.instance) {
+      SyncEngine.instance = new SyncEngine()
+    }
+    return SyncEngine.instance
+  }
+
+  /**
+   * ✅ Escuchar reconexiones y sincronizar lo pendiente (idempotente)
+   */
+  start(): void {
+    if (this.isStarted) return
+    this.isStarted = true
+
+    globalThis.addEventListener('online', this.handleOnline)
+    void this.refreshCounts()
+
+    if (navigator.onLine) {
+      void this.sync()
+    }
+  }
+
+  stop(): void {
+    if (!this.isStarted) return
+    this.isStarted = false
+    globalThis.removeEventListener('online', this.handleOnline)
+  }
+
+  subscribe = (listener: SyncListener): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getStatus = (): SyncEngineStatus => this.status
+
+  /**
+   * ✅ Recalcular contadores después de encolar cambios
+   */
+  async refreshCounts(): Promise<void> {
+    try {
+      const [pending, failedCount, conflictCount] = await Promise.all([
+        db.getPendingSyncItems(),
+        db.getFailedSyncCount(),
+        db.getConflictCount()
+      ])
+      this.setStatus({ pendingCount: pending.length, failedCount, conflictCount })
+    } catch (error) {
+      console.error('❌ Failed to read sync queue counts:', error)
+    }
+  }
+
+  /**
+   * ✅ Avisar que se encoló un cambio: actualiza contadores y, si hay
+   * conexión, sincroniza tras un breve debounce para agrupar ráfagas
+   */
+  requestSync(): void {
+    void this.refreshCounts()
+
+    if (!navigator.onLine) return
+
+    if (this.scheduledSync) clearTimeout(this.scheduledSync)
+    this.scheduledSync = setTimeout(() => {
+      this.scheduledSync = null
+      void this.sync()
+    }, SYNC_DEBOUNCE_MS)
+  }
+
+  /**
+   * ✅ Drenar la cola. Llamadas concurrentes comparten la misma ejecución.
+   */
+  sync(request: SyncRequest = csrfFetch): Promise<SyncResult> {
+    if (this.currentSync) {
+      console.log('🔄 Sync already in progress, joining current run')
+      return this.currentSync
+    }
+
+    if (!navigator.onLine) {
+      console.log('⚠️ Cannot sync while offline')
+      return Promise.resolve({ synced: 0, failed: 0, skipped: 0 })
+    }
+
+    this.currentSync = this.drainQueue(request).finally(() => {
+      this.currentSync = null
+    })
+    return this.currentSync
+  }
+
+  private handleOnline = () => {
+    console.log('🌐 Back online - draining sync queue')
+    void this.sync()
+  }
+
+  private async drainQueue(request: SyncRequest): Promise<SyncResult> {
+    const result: SyncResult = { synced: 0, failed: 0, skipped: 0 }
+    const blockedEntities = new Set<string>()
+
+    this.setStatus({ isSyncing: true, lastSyncError: null })
+
+    try {
+      const [items, conflicts] = await Promise.all([db.getPendingSyncItems(), db.getConflicts()])
+      console.log(`🔄 Syncing ${items.length} queued changes...`)
+
+      // Entidades con un conflicto abierto esperan a que el usuario lo resuelva
+      for (const conflict of conflicts) {
+        blockedEntities.add(`${conflict.entityType}:${conflict.entityId}`)
+      }
+
+      for (const item of items) {
+        // Mantener el orden por entidad: no enviar un update si su create falló
+        if (blockedEntities.has(entityKey(item))) {
+          result.skipped++
+          continue
+        }
+
+        // Si lo que necesita (p. ej. el producto de un movimiento) no se pudo
+        // enviar, el item espera sin gastar reintentos
+        const dependencies = await this.getDependencies(item)
+        if (dependencies.some(key => blockedEntities.has(key))) {
+          blockedEntities.add(entityKey(item))
+          result.skipped++
+          continue
+        }
+
+        try {
+          if (await this.processItem(item, request) === 'conflict') {
+            // Espera en la bandeja a que el usuario elija; no gasta reintentos
+            blockedEntities.add(entityKey(item))
+            result.skipped++
+            continue
+          }
+          await db.markAsSynced(item.entityType, item.entityId, item.id)
+          result.synced++
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown sync error'
+          console.error(`❌ Failed to sync ${entityKey(item)}:`, error)
+          blockedEntities.add(entityKey(item))
+          if (item.id !== undefined) {
+            await db.incrementRetries(item.id, message)
+          }
+          result.failed++
+          this.setStatus({ lastSyncError: message })
+        }
+      }
+
+      console.log(`✅ Sync finished: ${result.synced} synced, ${result.failed} failed, ${result.skipped} skipped`)
+      this.setStatus({
+        lastSyncTime: new Date().toISOString(),
+        itemsSynced: this.status.itemsSynced + result.synced
+      })
+    } catch (error) {
+      console.error('❌ Sync operation failed:', error)
+      this.setStatus({ lastSyncError: error instanceof Error ? error.message : 'Sync operation failed' })
+    } finally {
+      this.setStatus({ isSyncing: false })
+      await this.refreshCounts()
+    }
+
+    return result
+  }
+
+  private async processItem(item: SyncQueueItem, request: SyncRequest): Promise<ProcessOutcome> {
+    const adapter = ENTITY_ADAPTERS[item.entityType]
+    if (adapter.isBusinessSettings) {
+      await this.pushBusinessSettings(item, adapter, request)
+      return 'synced'
+    }
+
+    let entity = await this.findLocalEntity(item)
+
+    if (item.action === 'delete') {
+      const serverId = item.serverId ?? entity?.serverId
+      // Nunca llegó al servidor: no hay nada que borrar allá
+      if (!serverId) return 'synced'
+
+      await this.send(request, `${adapter.endpoint(entity)}/${serverId}`, { method: 'DELETE' })
+      return 'synced'
+    }
+
+    if (!entity) {
+      // La fila se borró localmente antes de sincronizarse; el delete encolado se encarga
+      console.log(`⚠️ Local ${entityKey(item)} no longer exists, dropping ${item.action}`)
+      return 'synced'
+    }
+
+    if (item.action === 'create' && !entity.serverId) {
+      const payload = await this.getPayload(adapter, entity)
+      const response = await this.send(request, adapter.endpoint(entity), { method: 'POST', body: JSON.stringify(payload) })
+      const created = await response.json().catch(() => null) as ({ id?: string | number } & Record<string, unknown>) | null
+      const serverId = created?.id !== undefined ? String(created.id) : undefined
+      const assigned = created && adapter.fromCreated ? adapter.fromCreated(created) : {}
+      await this.markEntitySynced(item, entity, {
+        ...assigned,
+        ...(serverId !== undefined && { serverId })
+      })
+      if (serverId) {
+        const snapshot = adapter.toSnapshot ? adapter.toSnapshot(entity, serverId) : payload
+        await db.saveSyncSnapshot(item.entityType, serverId, { ...snapshot, ...assigned, id: serverId })
+      }
+      return 'synced'
+    }
+
+    if (!entity.serverId) {
+      throw new Error(`Cannot ${item.action} ${entityKey(item)} before it is created on the server`)
+    }
+
+    const serverId = entity.serverId
+    const url = `${adapter.endpoint(entity)}/${serverId}`
+
+    // No pisar cambios hechos en otro dispositivo: se combinan antes de enviar
+    if (adapter.mergeWithServer) {
+      const current = await this.send(request, url, { method: 'GET' })
+      const merged = await adapter.mergeWithServer(entity, await current.json() as Record<string, unknown>)
+      if (!merged) return 'conflict'
+      entity = merged
+    }
+
+    const payload = await this.getPayload(adapter, entity)
+    await this.send(request, url, { method: 'PUT', body: JSON.stringify(payload) })
+    await this.markEntitySynced(item, entity)
+    // Lo enviado es ahora la versión del servidor: base para futuros merges
+    const snapshot = adapter.toSnapshot ? adapter.toSnapshot(entity, serverId) : payload
+    await db.saveSyncSnapshot(item.entityType, serverId, { ...snapshot, id: serverId })
+    return 'synced'
+  }
+
+  // Se envía la versión guardada en este momento, completa; si ya no existe no hay nada que subir
+  private async pushBusinessSettings(item: SyncQueueItem, adapter: EntityAdapter, request: SyncRequest): Promise<void> {
+    const table = adapter.table() as unknown as { get: (key: string) => Promise<BusinessSettings | undefined> }
+    const settings = await table.get(item.entityId)
+    if (!settings) return
+
+    await this.send(request, adapter.endpoint(settings), { method: 'PUT', body: JSON.stringify(settings) })
+  }
+
+  private async getPayload(adapter: EntityAdapter, entity: SyncEntity): Promise<Record<string, unknown>> {
+    return adapter.toPayload ? await adapter.toPayload(entity) : this.toPayload(entity)
+  }
+
+  private async send(request: SyncRequest, url: string, options: RequestInit): Promise<Response> {
+    const response = await request(url, options)
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    }
+    return response
+  }
+
+  private async getDependencies(item: SyncQueueItem): Promise<Array<string>> {
+    const { dependsOn } = ENTITY_ADAPTERS[item.entityType]
+    if (!dependsOn || item.action === 'delete') return []
+
+    const entity = await this.findLocalEntity(item)
+    return entity ? dependsOn(entity) : []
+  }
+
+  private async findLocalEntity(item: SyncQueueItem): Promise<SyncEntity | undefined> {
+    const table = ENTITY_ADAPTERS[item.entityType].table() as unknown as {
+      get: (key: number) => Promise<SyncEntity | undefined>
+      filter: (fn: (entity: SyncEntity) => boolean) => { first: () => Promise<SyncEntity | undefined> }
+    }
+
+    // Los hooks encolan con el id local; items antiguos pueden traer el clientGeneratedId
+    const localId = Number(item.entityId)
+    if (Number.isInteger(localId) && String(localId) === item.entityId) {
+      return await table.get(localId)
+    }
+    return await table.filter(entity => 'clientGeneratedId' in entity && entity.clientGeneratedId === item.entityId).first()
+  }
+
+  private async markEntitySynced(item: SyncQueueItem, entity: SyncEntity, changes: Record<string, unknown> = {}): Promise<void> {
+    const table = ENTITY_ADAPTERS[item.entityType].table() as unknown as {
+      update: (key: number, changes: Record<string, unknown>) => Promise<number>
+    }
+    const localId = Number(entity.id)
+    if (!Number.isInteger(localId)) return
+
+    await table.update(localId, { ...changes, syncStatus: 'synced' })
+  }
+
+  private toPayload(entity: SyncEntity): Record<string, unknown> {
+    const payload: Record<string, unknown> = { ...entity }
+    for (const field of LOCAL_ONLY_FIELDS) {
+      delete payload[field]
+    }
+    return payload
+  }
+
+  private setStatus(changes: Partial<SyncEngineStatus>): void {
+    this.status = { ...this.status, ...changes }
+    for (const listener of this.listeners) {
+      listener(this.status)
+    }
+  }
+}
+
+export const syncEngine = SyncEngine.getInstance()
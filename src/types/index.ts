@@ -5,76 +5,330 @@ export interface Order {
   business_id: string;
   branch_id: string;
   employee_id: string;
+  client_id?: string; // Cliente vinculado (id local en la UI, id del backend en el API)
   client_name: string;
   client_phone?: string;
   total: number;
+  subtotal?: number; // Sin IVA; los pedidos anteriores al desglose no lo tienen
+  taxes?: Array<OrderTaxLine>; // IVA por tasa, calculado con lib/orders/taxes.ts
+  tax_mode?: TaxMode; // Cómo se capturaron los precios de las partidas
   delivery_date: string;
   delivery_time?: string;
   notes?: string;
   status: 'pending' | 'preparing' | 'ready' | 'delivered' | 'cancelled';
   client_generated_id?: string;
+  folio?: string; // PL-000123, asignado por el backend
   last_modified_at: string;
   modified_by?: string;
   created_at: string;
   items?: Array<OrderItem>;
+  payments?: Array<OrderPayment>; // Anticipos y abonos; el saldo se calcula con lib/orders/payments.ts
+  invoice_uuid?: string; // Folio fiscal del CFDI timbrado; un pedido se factura una sola vez
   
   // ✅ COMPATIBILIDAD: Para compatibilidad con offline y formularios
   clientGeneratedId?: string;
   syncStatus?: 'pending' | 'synced' | 'error';
+  serverId?: string; // ID asignado por el backend tras sincronizar
+  folioProvisional?: boolean; // Folio asignado offline, se reemplaza al sincronizar
   version?: number;
   updatedAt?: string;
 }
 
+// Registro de pedido en IndexedDB: forma canónica camelCase que coincide con los
+// índices de Dexie. Se convierte desde/hacia Order con lib/offline/orderMapper.ts
+export interface LocalOrder {
+  id?: number;
+  serverId?: string;
+  clientGeneratedId: string;
+  folio?: string;
+  folioProvisional?: boolean;
+  businessId: string;
+  branchId: string;
+  employeeId: string;
+  clientId?: string; // id local del cliente (tabla clients)
+  clientName: string;
+  clientPhone?: string;
+  total: number;
+  subtotal?: number;
+  taxes?: Array<OrderTaxLine>;
+  taxMode?: TaxMode;
+  deliveryDate: string; // YYYY-MM-DD
+  deliveryTime?: string;
+  notes?: string;
+  status: Order['status'];
+  lastModifiedAt: string;
+  modifiedBy?: string;
+  createdAt: string;
+  items: Array<OrderItem>;
+  payments?: Array<OrderPayment>;
+  invoiceUuid?: string;
+  version: number;
+  syncStatus: 'pending' | 'synced' | 'error';
+}
+
+// included: los precios ya traen el IVA; excluded: el IVA se suma al precio
+export type TaxMode = 'included' | 'excluded';
+
+// Impuesto de un pedido agrupado por tasa (base sin IVA)
+export interface OrderTaxLine {
+  rate: number; // 0.16 = 16%
+  base: number;
+  amount: number;
+}
+
+// Configuración de impuestos por negocio (tabla taxSettings)
+export interface TaxSettings {
+  businessId: string;
+  taxMode: TaxMode;
+  defaultTaxRate: number; // Para partidas libres y productos sin tasa
+  updatedAt: string;
+}
+
+// Entrada de un catálogo del SAT (c_ClaveProdServ o c_ClaveUnidad)
+export interface SatCatalogEntry {
+  code: string;
+  description: string;
+  keywords?: string; // Palabras similares para la búsqueda
+}
+
+export type SatCatalogName = 'productService' | 'unit';
+
+// Versión de cada catálogo guardado en IndexedDB (tabla satCatalogs)
+export interface SatCatalogInfo {
+  name: SatCatalogName;
+  version: string;
+  count: number;
+  loadedAt: string;
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'transfer';
+
+// Pago registrado en un pedido (anticipo, abono o liquidación)
+export interface OrderPayment {
+  id: string; // uuid del cliente: los pagos hechos offline se fusionan por id
+  amount: number;
+  method: PaymentMethod;
+  paid_at: string; // ISO
+  reference?: string; // Folio de la transferencia, terminación de la tarjeta...
+}
+
+// Lo que captura el usuario; el id y la fecha se asignan al registrarlo
+export type NewOrderPayment = Omit<OrderPayment, 'id' | 'paid_at'>;
+
+// Historial de un pedido (se guarda offline en la tabla orderEvents de Dexie)
+export interface OrderEvent {
+  id?: number;
+  order_id: string; // id local del pedido
+  type: 'created' | 'updated' | 'status_changed';
+  from_status?: Order['status'];
+  to_status?: Order['status'];
+  reason?: string; // Obligatorio al cancelar
+  employee_id?: string;
+  employee_name?: string;
+  created_at: string;
+}
+
+// Filtros para consultar pedidos (online y offline usan la misma consulta local)
+export interface OrderQuery {
+  fromDate?: string; // YYYY-MM-DD inclusive
+  toDate?: string; // YYYY-MM-DD inclusive
+  status?: Array<Order['status']>;
+  client?: string; // Coincidencia parcial por nombre o teléfono
+}
+
+// Capacidad de entregas por negocio (null = sin límite)
+export interface DeliveryCapacity {
+  businessId: string;
+  maxOrdersPerDay: number | null;
+  maxOrdersPerSlot: number | null;
+  slotMinutes: number;
+  openingTime: string; // HH:MM
+  closingTime: string; // HH:MM
+  enforcement: 'warn' | 'block'; // Al llenarse: solo avisar o impedir el pedido
+  updatedAt: string;
+}
+
+// Variante de un producto (chico/mediano/grande) con precio, SKU y existencias propios
+export interface ProductVariant {
+  id: string; // Generado al crearla, estable entre dispositivos
+  name: string;
+  price: number;
+  sku?: string;
+  stock: number;
+  isActive: boolean;
+}
+
+// Grupo de extras de un producto (relleno, velas). Si es obligatorio se
+// exige al menos una opción aunque minSelections sea 0
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  required: boolean;
+  minSelections: number;
+  maxSelections: number;
+  modifiers: Array<{ id: string; name: string; priceDelta: number }>;
+}
+
+// Configuración de inventario por negocio (tabla inventorySettings)
+export interface InventorySettings {
+  businessId: string;
+  deductOnStatus: Exclude<Order['status'], 'cancelled'>; // Estado en el que los pedidos descuentan existencias
+  defaultLowStockThreshold: number; // Para productos sin umbral propio
+  updatedAt: string;
+}
+
+// Movimiento del kardex de inventario (tabla stockMovements, se sincroniza)
+export interface StockMovement {
+  id?: number;
+  clientGeneratedId: string;
+  businessId: string;
+  productId: string; // id local del producto
+  variantId?: string; // Movimiento de una variante (sus existencias son independientes)
+  type: 'initial' | 'purchase' | 'adjustment' | 'sale' | 'cancellation_return';
+  quantity: number; // Con signo: positivo entra, negativo sale
+  stockAfter: number;
+  orderId?: string; // id local del pedido (ventas y devoluciones)
+  notes?: string;
+  syncStatus: 'pending' | 'synced' | 'error';
+  serverId?: string;
+  createdAt: string;
+}
+
+// Foto de producto por subir (tabla pendingProductImages): se guarda ya
+// optimizada para subirla al volver la conexión
+export interface PendingProductImage {
+  id?: number;
+  productId: string; // id local del producto
+  businessId: string;
+  image: Blob;
+  thumbnail: Blob;
+  retries?: number;
+  lastError?: string;
+  createdAt: string;
+}
+
+// Plantilla de pedido guardada por cliente (solo en este dispositivo, tabla orderTemplates)
+export interface OrderTemplate {
+  id?: number;
+  businessId: string;
+  clientId: string; // id local del cliente
+  name: string;
+  items: Array<Omit<OrderItem, 'id' | 'order_id' | 'subtotal'>>;
+  deliveryTime?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Regla de repetición tipo RRULE (semanal por días o mensual por día del mes)
+export interface RecurrenceRule {
+  frequency: 'weekly' | 'monthly';
+  weekdays: Array<number>; // 0 = domingo … 6 = sábado (semanal)
+  monthDays: Array<number>; // 1-31 (mensual); los meses sin ese día se saltan
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD inclusive
+  skipDates: Array<string>; // Fechas sin entrega (vacaciones, días festivos)
+}
+
+// Pedido recurrente de un cliente: genera pedidos normales con `daysAhead` días
+// de anticipación (tabla recurringOrders, solo en este dispositivo)
+export interface RecurringOrder {
+  id?: number;
+  businessId: string;
+  clientId: string; // id local del cliente
+  name: string;
+  rule: RecurrenceRule;
+  items: Array<Omit<OrderItem, 'id' | 'order_id' | 'subtotal'>>;
+  deliveryTime?: string;
+  notes?: string;
+  daysAhead: number;
+  status: 'active' | 'paused';
+  generatedUntil?: string; // YYYY-MM-DD: último día ya materializado en este dispositivo
+  clientGeneratedId: string; // Igual en todos los dispositivos: de él sale el id de cada pedido generado
+  serverId?: string; // ID asignado por el backend tras sincronizar
+  syncStatus: 'pending' | 'synced' | 'error';
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface OrderItem {
   id?: number;
   order_id: string;
-  product_id?: string;
+  product_id?: string; // id local del producto (tabla products); vacío = partida libre
   product_name: string;
   quantity: number;
   unit_price: number;
   subtotal: number;
+  tax_rate?: number; // Tasa de IVA del producto al momento del pedido (0.16 = 16%)
+  variant_id?: string; // Variante elegida (tamaño, presentación)
+  variant_name?: string;
+  modifiers?: Array<OrderItemModifier>; // Extras elegidos; unit_price ya los incluye
   notes?: string;
 }
 
+// Extra elegido en una partida, copiado del producto al momento del pedido
+export interface OrderItemModifier {
+  modifier_id: string;
+  group_name: string;
+  name: string;
+  price_delta: number;
+}
+
 // ✅ NUEVO: Tipos unificados para formularios
 export interface CreateOrderData {
+  client_id?: string;
   client_name: string;
   client_phone?: string;
   delivery_date: string;
   delivery_time?: string;
   notes?: string;
   items: Array<Omit<OrderItem, 'id' | 'order_id'>>;
+  deposit?: NewOrderPayment; // Anticipo al crear el pedido
+  client_generated_id?: string; // Id fijo (pedidos recurrentes) para no crear dos veces el mismo pedido
 }
 
 export interface OrderFormData {
+  clientId?: string;
   clientName: string;
   clientPhone?: string;
   deliveryDate: string;
   deliveryTime?: string;
   notes?: string;
   items: {
+    productId?: string;
     productName: string;
     quantity: number;
     unitPrice: number;
+    taxRate?: number;
+    variantId?: string;
+    variantName?: string;
+    modifiers?: Array<OrderItemModifier>;
     notes?: string;
   }[];
+  deposit?: NewOrderPayment;
 }
 
 // ✅ NUEVO: Función helper para convertir entre tipos
 export function convertFormDataToCreateOrderData(formData: OrderFormData): CreateOrderData {
   return {
+    ...(formData.clientId && { client_id: formData.clientId }),
     client_name: formData.clientName,
     ...(formData.clientPhone && { client_phone: formData.clientPhone }),
     delivery_date: formData.deliveryDate,
     ...(formData.deliveryTime && { delivery_time: formData.deliveryTime }),
     ...(formData.notes && { notes: formData.notes }),
     items: formData.items.map(item => ({
+      ...(item.productId && { product_id: item.productId }),
       product_name: item.productName,
       quantity: item.quantity,
       unit_price: item.unitPrice,
       subtotal: item.quantity * item.unitPrice,
+      ...(item.taxRate !== undefined && { tax_rate: item.taxRate }),
+      ...(item.variantId && { variant_id: item.variantId, variant_name: item.variantName ?? '' }),
+      ...(item.modifiers?.length && { modifiers: item.modifiers }),
       ...(item.notes && { notes: item.notes })
-    }))
+    })),
+    ...(formData.deposit && { deposit: formData.deposit })
   };
 }
 
@@ -89,9 +343,14 @@ export interface Product {
   category?: string; // Legacy field - use categoryId instead
   categoryId?: string; // New dynamic category reference
   satCode?: string; // SAT code for Mexican tax compliance
+  satUnitCode?: string; // c_ClaveUnidad (pieza si no se indica)
   taxRate?: number; // Tax rate (0.16 = 16% IVA)
   stock: number;
+  variants?: Array<ProductVariant>; // Con variantes, el precio y las existencias son los de cada una
+  modifierGroups?: Array<ModifierGroup>;
+  lowStockThreshold?: number; // Avisar al llegar a estas existencias (si no, el del negocio)
   image_url?: string;
+  thumbnail_url?: string; // Miniatura para listas y el selector de productos
   isActive: boolean;
   is_active?: boolean; // For API compatibility
   syncStatus: 'pending' | 'synced' | 'error';
@@ -100,17 +359,28 @@ export interface Product {
   updatedAt: string;
   lastModifiedAt?: string; // Timestamp de última modificación para conflictos
   clientGeneratedId?: string; // Client-generated ID for offline sync
+  serverId?: string; // ID asignado por el backend tras sincronizar
   version?: number; // Para control de versiones
 }
 
 export interface SyncQueueItem {
   id?: number;
-  entityType: 'order' | 'product' | 'business_category';
-  entityId: string;
+  entityType: 'order' | 'product' | 'business_category' | 'client' | 'stock_movement' | 'recurring_order' | 'delivery_capacity' | 'tax_settings';
+  entityId: string; // En la configuración del negocio (capacidad, impuestos) es el businessId
   action: 'create' | 'update' | 'delete';
   timestamp: string;
   retries?: number;
   lastError?: string;
+  serverId?: string; // Necesario para deletes: la fila local ya no existe
+}
+
+// Última versión confirmada por el servidor de una entidad (ancestro común
+// para el merge de tres vías en ConflictResolver)
+export interface SyncSnapshot {
+  entityType: SyncQueueItem['entityType'];
+  serverId: string;
+  data: Record<string, unknown>; // Formato del API (pedidos en snake_case con ids locales de cliente y productos)
+  syncedAt: string;
 }
 
 export interface User {
@@ -132,6 +402,11 @@ export interface Business {
   business_type?: string; // For API compatibility
   taxRegimeCode?: string; // SAT tax regime code
   tax_regime_code?: string; // For API compatibility
+  rfc?: string; // RFC del emisor para facturar
+  legalName?: string; // Razón social tal como aparece en la constancia fiscal
+  legal_name?: string; // For API compatibility
+  fiscalPostalCode?: string; // Lugar de expedición de las facturas
+  fiscal_postal_code?: string; // For API compatibility
   address?: string;
   phone?: string;
   email?: string;
@@ -156,6 +431,7 @@ export interface BusinessCategory {
   is_active?: boolean; // For API compatibility
   clientGeneratedId?: string;
   client_generated_id?: string; // For API compatibility
+  serverId?: string; // ID asignado por el backend tras sincronizar
   syncStatus: 'pending' | 'synced' | 'error';
   sync_status?: string; // For API compatibility
   lastModifiedAt: string;
@@ -171,6 +447,12 @@ export interface Client {
   phone?: string;
   address?: string;
   notes?: string;
+  // Datos fiscales para facturarle sin volver a capturarlos
+  rfc?: string;
+  legal_name?: string; // Razón social tal como aparece en la constancia fiscal
+  tax_regime_code?: string; // c_RegimenFiscal
+  cfdi_use?: string; // c_UsoCFDI habitual
+  fiscal_postal_code?: string; // Código postal del domicilio fiscal
   total_orders: number;
   total_spent: number;
   last_order_date?: string;
@@ -178,4 +460,12 @@ export interface Client {
   is_active: boolean;
   created_at: string;
   updated_at: string;
-} 
\ No newline at end of file
+} 
+
+// Registro de cliente en IndexedDB: id local autoincremental, id del backend en serverId
+export interface LocalClient extends Omit<Client, 'id'> {
+  id?: number;
+  serverId?: string;
+  clientGeneratedId?: string;
+  syncStatus: 'pending' | 'synced' | 'error';
+}
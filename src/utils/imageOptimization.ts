@@ -39,6 +39,28 @@ export const DEFAULT_AVATAR_OPTIONS: ImageOptimizationOptions = {
   maintainAspectRatio: true
 }
 
+/**
+ * Product photos: large enough for the detail view
+ */
+export const DEFAULT_PRODUCT_IMAGE_OPTIONS: ImageOptimizationOptions = {
+  maxWidth: 1200,
+  maxHeight: 1200,
+  quality: 0.8,
+  format: 'webp',
+  maintainAspectRatio: true
+}
+
+/**
+ * Product thumbnails for grids and pickers
+ */
+export const DEFAULT_PRODUCT_THUMBNAIL_OPTIONS: ImageOptimizationOptions = {
+  maxWidth: 240,
+  maxHeight: 240,
+  quality: 0.7,
+  format: 'webp',
+  maintainAspectRatio: true
+}
+
 /**
  * Optimize image for avatar upload
  */
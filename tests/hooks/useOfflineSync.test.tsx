@@ -1,10 +1,50 @@
 import { renderHook, act, waitFor } from '@testing-library/react'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import { useOfflineSync } from '../../src/hooks/useOfflineSync.ts'
+import type { SyncEngineStatus } from '../../src/services/sync-engine.ts'
+
+// The global setup mocks this hook; here we test the real implementation
+vi.unmock('../../src/hooks/useOfflineSync.ts')
+
+const mockEngine = vi.hoisted(() => {
+  const listeners = new Set<() => void>()
+  let status = {
+    isSyncing: false,
+    pendingCount: 0,
+    failedCount: 0,
+    lastSyncTime: null as string | null,
+    lastSyncError: null as string | null,
+    itemsSynced: 0,
+    conflictCount: 0
+  }
+
+  return {
+    setStatus: (changes: Partial<typeof status>) => {
+      status = { ...status, ...changes }
+      listeners.forEach(listener => listener())
+    },
+    reset: () => {
+      status = { isSyncing: false, pendingCount: 0, failedCount: 0, lastSyncTime: null, lastSyncError: null, itemsSynced: 0, conflictCount: 0 }
+    },
+    syncEngine: {
+      subscribe: (listener: () => void) => {
+        listeners.add(listener)
+        return () => listeners.delete(listener)
+      },
+      getStatus: () => status,
+      start: vi.fn(),
+      sync: vi.fn(),
+      refreshCounts: vi.fn()
+    }
+  }
+})
 
-// Mock dependencies
-vi.mock('../../src/lib/utils.ts', () => ({
-  generateUUID: vi.fn(() => 'test-uuid-123')
+vi.mock('../../src/services/sync-engine.ts', () => ({ syncEngine: mockEngine.syncEngine }))
+vi.mock('../../src/services/product-image-service.ts', () => ({ ProductImageService: { start: vi.fn() } }))
+vi.mock('../../src/lib/offline/db.ts', () => ({
+  db: {
+    clearFailedSyncItems: vi.fn().mockResolvedValue(2)
+  }
 }))
 
 // Mock navigator.onLine
@@ -16,30 +56,19 @@ const setOnlineStatus = (status: boolean) => {
   })
 }
 
-// Mock fetch
-const mockFetch = vi.fn()
-globalThis.fetch = mockFetch
-
-// Mock localStorage
-const mockLocalStorage = {
-  getItem: vi.fn(),
-  setItem: vi.fn(),
-  removeItem: vi.fn(),
-  clear: vi.fn()
+const setEngineStatus = (changes: Partial<SyncEngineStatus>) => {
+  act(() => {
+    mockEngine.setStatus(changes)
+  })
 }
-Object.defineProperty(window, 'localStorage', {
-  value: mockLocalStorage
-})
 
 describe('useOfflineSync', () => {
   beforeEach(() => {
     vi.clearAllMocks()
-    mockLocalStorage.getItem.mockReturnValue('mock-auth-token')
+    mockEngine.reset()
+    mockEngine.syncEngine.sync.mockResolvedValue({ synced: 0, failed: 0, skipped: 0 })
+    mockEngine.syncEngine.refreshCounts.mockResolvedValue(undefined)
     setOnlineStatus(true)
-    mockFetch.mockResolvedValue({
-      ok: true,
-      json: () => Promise.resolve({ success: true })
-    })
   })
 
   describe('Initial State', () => {
@@ -58,47 +87,34 @@ describe('useOfflineSync', () => {
 
       expect(result.current.isOnline).toBe(false)
     })
-  })
-
-  describe('Adding Pending Changes', () => {
-    it('should add pending change correctly', () => {
-      const { result } = renderHook(() => useOfflineSync())
 
-      act(() => {
-        result.current.addPendingChange({
-          type: 'create',
-          data: { name: 'Test Product', price: 100 }
-        })
-      })
+    it('should start the sync engine on mount', () => {
+      renderHook(() => useOfflineSync())
 
-      expect(result.current.pendingCount).toBe(1)
+      expect(mockEngine.syncEngine.start).toHaveBeenCalled()
     })
+  })
 
-    it('should increment pending count for multiple changes', () => {
+  describe('Engine Status', () => {
+    it('should report pending and failed counts from the durable queue', () => {
       const { result } = renderHook(() => useOfflineSync())
 
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Product 1' } })
-        result.current.addPendingChange({ type: 'update', data: { name: 'Product 2' } })
-        result.current.addPendingChange({ type: 'delete', data: { id: '123' } })
-      })
+      setEngineStatus({ pendingCount: 3, failedCount: 1 })
 
       expect(result.current.pendingCount).toBe(3)
+      expect(result.current.failedCount).toBe(1)
+      expect(result.current.hasPendingChanges).toBe(true)
     })
 
-    it('should generate unique IDs for each pending change', () => {
+    it('should report syncing state and errors', () => {
       const { result } = renderHook(() => useOfflineSync())
-      const { generateUUID } = require('../../src/lib/utils.ts')
-      
-      generateUUID.mockReturnValueOnce('uuid-1')
-      generateUUID.mockReturnValueOnce('uuid-2')
-
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Product 1' } })
-        result.current.addPendingChange({ type: 'create', data: { name: 'Product 2' } })
-      })
 
-      expect(generateUUID).toHaveBeenCalledTimes(2)
+      setEngineStatus({ isSyncing: true })
+      expect(result.current.isSyncing).toBe(true)
+      expect(result.current.canSync).toBe(false)
+
+      setEngineStatus({ isSyncing: false, lastSyncError: 'HTTP 500: Server Error' })
+      expect(result.current.error).toBe('HTTP 500: Server Error')
     })
   })
 
@@ -107,152 +123,33 @@ describe('useOfflineSync', () => {
       setOnlineStatus(false)
       const { result } = renderHook(() => useOfflineSync())
 
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Test' } })
-      })
-
-      await act(async () => {
-        await result.current.syncPendingChanges()
-      })
-
-      expect(mockFetch).not.toHaveBeenCalled()
-      expect(result.current.pendingCount).toBe(1) // Should remain unchanged
-    })
-
-    it('should not sync when no pending changes', async () => {
-      const { result } = renderHook(() => useOfflineSync())
-
-      await act(async () => {
-        await result.current.syncPendingChanges()
-      })
-
-      expect(mockFetch).not.toHaveBeenCalled()
-      expect(result.current.isSyncing).toBe(false)
-    })
-
-    it('should prevent duplicate sync calls', async () => {
-      const { result } = renderHook(() => useOfflineSync())
-
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Test' } })
-      })
-
-      // Start first sync but don't await
-      const syncPromise1 = act(async () => {
-        await result.current.syncPendingChanges()
-      })
-
-      // Try to start second sync immediately
-      await act(async () => {
-        await result.current.syncPendingChanges()
-      })
-
-      // Wait for first sync to complete
-      await syncPromise1
-
-      // Should only have been called once despite multiple sync attempts
-      expect(mockFetch).toHaveBeenCalledTimes(1)
-    })
-
-    it('should successfully sync pending changes', async () => {
-      const { result } = renderHook(() => useOfflineSync())
-
-      act(() => {
-        result.current.addPendingChange({
-          type: 'create',
-          data: { name: 'Test Product', price: 100 }
-        })
-      })
-
       await act(async () => {
         await result.current.syncPendingChanges()
       })
 
-      expect(mockFetch).toHaveBeenCalledWith('/api/sync/create', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': 'Bearer mock-auth-token'
-        },
-        body: JSON.stringify({
-          id: 'test-uuid-123',
-          data: { name: 'Test Product', price: 100 },
-          timestamp: expect.any(Number)
-        })
-      })
-
-      expect(result.current.pendingCount).toBe(0)
-      expect(result.current.isSyncing).toBe(false)
-      expect(result.current.error).toBeNull()
+      expect(mockEngine.syncEngine.sync).not.toHaveBeenCalled()
     })
 
-    it('should handle sync errors gracefully', async () => {
-      mockFetch.mockRejectedValueOnce(new Error('Network error'))
+    it('should delegate sync to the engine when online', async () => {
       const { result } = renderHook(() => useOfflineSync())
 
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Test' } })
-      })
-
       await act(async () => {
         await result.current.syncPendingChanges()
       })
 
-      expect(result.current.error).toContain('Network error')
-      expect(result.current.isSyncing).toBe(false)
-      expect(result.current.pendingCount).toBe(1) // Should remain unchanged on error
+      expect(mockEngine.syncEngine.sync).toHaveBeenCalledTimes(1)
     })
 
-    it('should handle individual item sync failures', async () => {
-      // Mock one successful and one failed request
-      mockFetch
-        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ success: true }) })
-        .mockRejectedValueOnce(new Error('Item sync failed'))
-
+    it('should clear failed items and refresh counts', async () => {
+      const { db } = await import('../../src/lib/offline/db.ts')
       const { result } = renderHook(() => useOfflineSync())
 
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Success' } })
-        result.current.addPendingChange({ type: 'create', data: { name: 'Fail' } })
-      })
-
       await act(async () => {
-        await result.current.syncPendingChanges()
+        await result.current.clearFailedItems()
       })
 
-      expect(result.current.error).toContain('Failed to sync some items')
-      expect(result.current.isSyncing).toBe(false)
-    })
-
-    it('should retry failed items with exponential backoff', async () => {
-      // First attempt fails, second succeeds
-      mockFetch
-        .mockRejectedValueOnce(new Error('Network error'))
-        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ success: true }) })
-
-      const { result } = renderHook(() => useOfflineSync())
-
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Test' } })
-      })
-
-      // First sync attempt (should fail)
-      await act(async () => {
-        await result.current.syncPendingChanges()
-      })
-
-      expect(result.current.error).toContain('Network error')
-      expect(result.current.pendingCount).toBe(1)
-
-      // Reset error state by re-rendering
-      const { result: result2 } = renderHook(() => useOfflineSync())
-
-      // Second sync attempt (should succeed)
-      await act(async () => {
-        await result2.current.syncPendingChanges()
-      })
-
-      expect(result2.current.error).toBeNull()
+      expect(db.clearFailedSyncItems).toHaveBeenCalled()
+      expect(mockEngine.syncEngine.refreshCounts).toHaveBeenCalled()
     })
   })
 
@@ -276,132 +173,14 @@ describe('useOfflineSync', () => {
         expect(result.current.isOnline).toBe(true)
       })
     })
-
-    it('should automatically sync when coming online with pending changes', async () => {
-      const { result } = renderHook(() => useOfflineSync())
-
-      // Add pending changes while offline
-      setOnlineStatus(false)
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Offline Change' } })
-      })
-
-      // Come back online
-      setOnlineStatus(true)
-      globalThis.dispatchEvent(new Event('online'))
-
-      await waitFor(() => {
-        expect(mockFetch).toHaveBeenCalled()
-      })
-
-      expect(result.current.pendingCount).toBe(0)
-    })
-  })
-
-  describe('Error Handling', () => {
-    it('should handle errors in error state', () => {
-      const { result } = renderHook(() => useOfflineSync())
-
-      // Manually set an error state (simulating an error scenario)
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Test' } })
-      })
-
-      // Check that error handling works
-      expect(result.current.error).toBeNull()
-    })
-
-    it('should handle authentication errors', async () => {
-      mockLocalStorage.getItem.mockReturnValue(null) // No auth token
-      const { result } = renderHook(() => useOfflineSync())
-
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Test' } })
-      })
-
-      await act(async () => {
-        await result.current.syncPendingChanges()
-      })
-
-      expect(mockFetch).toHaveBeenCalledWith('/api/sync/create', expect.objectContaining({
-        headers: expect.objectContaining({
-          'Authorization': 'Bearer null'
-        })
-      }))
-    })
   })
 
   describe('Memory Leak Prevention', () => {
     it('should cleanup on unmount', () => {
       const { unmount } = renderHook(() => useOfflineSync())
 
-      // Add some pending changes
-      const { result } = renderHook(() => useOfflineSync())
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Test' } })
-      })
-
       // Unmount should not cause memory leaks
       expect(() => unmount()).not.toThrow()
     })
   })
-
-  describe('Edge Cases', () => {
-    it('should handle malformed sync responses', async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 400,
-        json: () => Promise.resolve({ error: 'Bad Request' })
-      })
-
-      const { result } = renderHook(() => useOfflineSync())
-
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Test' } })
-      })
-
-      await act(async () => {
-        await result.current.syncPendingChanges()
-      })
-
-      expect(result.current.error).toBeTruthy()
-      expect(result.current.pendingCount).toBe(1) // Should remain unchanged on error
-    })
-
-    it('should handle network timeouts', async () => {
-      mockFetch.mockImplementationOnce(() => 
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Request timeout')), 100)
-        )
-      )
-
-      const { result } = renderHook(() => useOfflineSync())
-
-      act(() => {
-        result.current.addPendingChange({ type: 'create', data: { name: 'Test' } })
-      })
-
-      await act(async () => {
-        await result.current.syncPendingChanges()
-      })
-
-      expect(result.current.error).toContain('Request timeout')
-    })
-
-    it('should handle concurrent offline changes correctly', () => {
-      const { result } = renderHook(() => useOfflineSync())
-
-      // Simulate rapid concurrent changes
-      act(() => {
-        for (let i = 0; i < 10; i++) {
-          result.current.addPendingChange({
-            type: 'create',
-            data: { name: `Product ${i}`, price: i * 10 }
-          })
-        }
-      })
-
-      expect(result.current.pendingCount).toBe(10)
-    })
-  })
-}) 
\ No newline at end of file
+})
@@ -4,15 +4,25 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { useOrders } from '../../src/hooks/useOrders.ts'
 import { useOfflineSync } from '../../src/hooks/useOfflineSync.ts'
 import { useCSRFRequest } from '../../src/hooks/useCSRF.ts'
+import { getDefaultTaxSettings } from '../../src/lib/orders/taxes.ts'
 
 // Mock the hooks
 vi.mock('../../src/hooks/useOfflineSync.ts')
 vi.mock('../../src/hooks/useCSRF.ts')
 vi.mock('../../src/lib/offline/db.ts', () => ({
   db: {
-    getOrdersByBusinessAndDate: vi.fn(),
+    hydrateOrders: vi.fn(),
+    queryOrders: vi.fn(),
+    addOrderEvent: vi.fn(),
+    getNextProvisionalFolio: vi.fn(),
+    applyClientStatsDeltas: vi.fn(),
+    applyOrderStock: vi.fn(),
+    getTaxSettings: vi.fn(),
+    inOrderTransaction: vi.fn((work: () => Promise<unknown>) => work()),
     orders: {
       add: vi.fn(),
+      get: vi.fn(),
+      put: vi.fn(),
       update: vi.fn(),
     },
     syncQueue: {
@@ -51,8 +61,13 @@ describe('useOrders', () => {
     },
   ]
 
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.clearAllMocks()
+
+    const mockDb = await import('../../src/lib/offline/db.ts')
+    vi.mocked(mockDb.db.hydrateOrders).mockResolvedValue([])
+    vi.mocked(mockDb.db.queryOrders).mockResolvedValue(mockOrders as any)
+    vi.mocked(mockDb.db.getTaxSettings).mockResolvedValue(getDefaultTaxSettings(mockBusinessId))
     
     vi.mocked(useOfflineSync).mockReturnValue({
       isOnline: true,
@@ -88,6 +103,8 @@ describe('useOrders', () => {
     expect(mockCsrfRequest).toHaveBeenCalledWith(
       `/api/orders?businessId=${mockBusinessId}`
     )
+    const mockDb = await import('../../src/lib/offline/db.ts')
+    expect(mockDb.db.hydrateOrders).toHaveBeenCalledWith(mockBusinessId, mockOrders)
   })
 
   it('should use offline data when offline', async () => {
@@ -96,9 +113,9 @@ describe('useOrders', () => {
     } as any)
 
     const mockDb = await import('../../src/lib/offline/db.ts')
-    vi.mocked(mockDb.db.getOrdersByBusinessAndDate).mockResolvedValue(mockOrders)
+    const query = { fromDate: '2023-12-25', toDate: '2024-01-07' }
 
-    const { result } = renderHook(() => useOrders(mockBusinessId), {
+    const { result } = renderHook(() => useOrders(mockBusinessId, query), {
       wrapper: createWrapper(),
     })
 
@@ -106,10 +123,8 @@ describe('useOrders', () => {
       expect(result.current.orders).toEqual(mockOrders)
     })
 
-    expect(mockDb.db.getOrdersByBusinessAndDate).toHaveBeenCalledWith(
-      mockBusinessId,
-      expect.any(String)
-    )
+    expect(mockDb.db.hydrateOrders).not.toHaveBeenCalled()
+    expect(mockDb.db.queryOrders).toHaveBeenCalledWith(mockBusinessId, query)
   })
 
   it('should handle 401 errors without retry', async () => {
@@ -130,7 +145,7 @@ describe('useOrders', () => {
     })
 
     await waitFor(() => {
-      expect(result.current.error).toBeDefined()
+      expect(result.current.error).toBeTruthy()
     })
 
     expect(result.current.error?.message).toContain('Unauthorized')
@@ -155,7 +170,7 @@ describe('useOrders', () => {
     })
 
     await waitFor(() => {
-      expect(result.current.error).toBeDefined()
+      expect(result.current.error).toBeTruthy()
     })
 
     expect(result.current.error?.message).toContain('Error fetching orders')
@@ -166,6 +181,7 @@ describe('useOrders', () => {
     const mockDb = await import('../../src/lib/offline/db.ts')
     vi.mocked(mockDb.db.orders.add).mockResolvedValue(1)
     vi.mocked(mockDb.db.syncQueue.add).mockResolvedValue(1)
+    vi.mocked(mockDb.db.getNextProvisionalFolio).mockResolvedValue('PL-000042')
 
     const { result } = renderHook(() => useOrders(mockBusinessId), {
       wrapper: createWrapper(),
@@ -188,12 +204,18 @@ describe('useOrders', () => {
 
     await result.current.createOrder.mutateAsync(orderData)
 
-    expect(mockDb.db.orders.add).toHaveBeenCalled()
+    expect(mockDb.db.inOrderTransaction).toHaveBeenCalledTimes(1)
+    expect(mockDb.db.getNextProvisionalFolio).toHaveBeenCalledWith(mockBusinessId)
+    expect(mockDb.db.orders.add).toHaveBeenCalledWith(expect.objectContaining({
+      folio: 'PL-000042',
+      folioProvisional: true,
+    }))
     expect(mockDb.db.syncQueue.add).toHaveBeenCalled()
   })
 
   it('should update order status', async () => {
     const mockDb = await import('../../src/lib/offline/db.ts')
+    vi.mocked(mockDb.db.orders.get).mockResolvedValue({ id: 1, status: 'preparing' } as any)
     vi.mocked(mockDb.db.orders.update).mockResolvedValue(1)
     vi.mocked(mockDb.db.syncQueue.add).mockResolvedValue(1)
 
@@ -208,9 +230,115 @@ describe('useOrders', () => {
 
     expect(mockDb.db.orders.update).toHaveBeenCalledWith(1, {
       status: 'ready',
-      last_modified_at: expect.any(String),
+      lastModifiedAt: expect.any(String),
+      syncStatus: 'pending',
     })
     expect(mockDb.db.syncQueue.add).toHaveBeenCalled()
+    expect(mockDb.db.addOrderEvent).toHaveBeenCalledWith(expect.objectContaining({
+      order_id: '1',
+      type: 'status_changed',
+      from_status: 'preparing',
+      to_status: 'ready',
+    }))
+  })
+
+  it('should reject status transitions outside the workflow', async () => {
+    const mockDb = await import('../../src/lib/offline/db.ts')
+    vi.mocked(mockDb.db.orders.get).mockResolvedValue({ id: 1, status: 'delivered' } as any)
+
+    const { result } = renderHook(() => useOrders(mockBusinessId), {
+      wrapper: createWrapper(),
+    })
+
+    await expect(result.current.updateOrderStatus.mutateAsync({
+      orderId: '1',
+      status: 'pending',
+    })).rejects.toThrow('No se puede cambiar')
+    expect(mockDb.db.orders.update).not.toHaveBeenCalled()
+    expect(mockDb.db.syncQueue.add).not.toHaveBeenCalled()
+  })
+
+  it('should require a reason to cancel an order', async () => {
+    const mockDb = await import('../../src/lib/offline/db.ts')
+    vi.mocked(mockDb.db.orders.get).mockResolvedValue({ id: 1, status: 'pending' } as any)
+    vi.mocked(mockDb.db.orders.update).mockResolvedValue(1)
+
+    const { result } = renderHook(() => useOrders(mockBusinessId), {
+      wrapper: createWrapper(),
+    })
+
+    await expect(result.current.updateOrderStatus.mutateAsync({
+      orderId: '1',
+      status: 'cancelled',
+    })).rejects.toThrow('motivo')
+
+    await result.current.updateOrderStatus.mutateAsync({
+      orderId: '1',
+      status: 'cancelled',
+      reason: 'Cliente canceló',
+    })
+    expect(mockDb.db.addOrderEvent).toHaveBeenCalledWith(expect.objectContaining({
+      to_status: 'cancelled',
+      reason: 'Cliente canceló',
+    }))
+  })
+
+  it('should update an existing order instead of creating a new one', async () => {
+    const mockDb = await import('../../src/lib/offline/db.ts')
+    vi.mocked(mockDb.db.orders.get).mockResolvedValue({
+      id: 1,
+      serverId: 'srv-1',
+      clientGeneratedId: 'cg-1',
+      businessId: mockBusinessId,
+      branchId: 'default-branch',
+      employeeId: 'default-employee',
+      clientName: 'Test Client',
+      total: 100,
+      deliveryDate: '2024-01-01',
+      notes: 'Old notes',
+      status: 'pending',
+      lastModifiedAt: '2024-01-01T00:00:00.000Z',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      items: [{ order_id: 'srv-1', product_id: 'p1', product_name: 'Pastel', quantity: 1, unit_price: 100, subtotal: 100 }],
+      version: 2,
+      syncStatus: 'synced',
+    })
+    vi.mocked(mockDb.db.orders.put).mockResolvedValue(1)
+    vi.mocked(mockDb.db.syncQueue.add).mockResolvedValue(1)
+
+    const { result } = renderHook(() => useOrders(mockBusinessId), {
+      wrapper: createWrapper(),
+    })
+
+    await result.current.updateOrder.mutateAsync({
+      orderId: '1',
+      data: {
+        client_name: 'New Client',
+        delivery_date: '2024-01-02',
+        delivery_time: '15:00',
+        items: [{ product_name: 'Pastel', quantity: 3, unit_price: 100, subtotal: 300 }],
+      },
+    })
+
+    expect(mockDb.db.orders.add).not.toHaveBeenCalled()
+    expect(mockDb.db.orders.put).toHaveBeenCalledWith(expect.objectContaining({
+      id: 1,
+      serverId: 'srv-1',
+      clientName: 'New Client',
+      deliveryDate: '2024-01-02',
+      deliveryTime: '15:00',
+      total: 300,
+      version: 3,
+      syncStatus: 'pending',
+    }))
+    const saved = vi.mocked(mockDb.db.orders.put).mock.calls[0]?.[0] as { notes?: string; items: Array<{ product_id?: string }> }
+    expect(saved.notes).toBeUndefined()
+    expect(saved.items[0]?.product_id).toBe('p1')
+    expect(mockDb.db.syncQueue.add).toHaveBeenCalledWith(expect.objectContaining({
+      entityType: 'order',
+      entityId: '1',
+      action: 'update',
+    }))
   })
 
   it('should have proper cache configuration', () => {
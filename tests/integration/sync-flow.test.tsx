@@ -7,8 +7,8 @@ import { CreateOrderDialog } from '../../src/components/CreateOrderDialog.tsx'
 import { ProductsList } from '../../src/components/ProductsList.tsx'
 import { OrdersList } from '../../src/components/orders/OrdersList.tsx'
 
-// Mock the database
-const mockDB = {
+// Mock the database (hoisted: ProductsList loads the db module on import)
+const mockDB = vi.hoisted(() => ({
   products: {
     add: vi.fn(),
     update: vi.fn(),
@@ -30,7 +30,7 @@ const mockDB = {
   getProductsWithCategories: vi.fn(),
   getOrdersWithDetails: vi.fn(),
   syncPendingChanges: vi.fn()
-}
+}))
 
 vi.mock('../../src/lib/offline/db.ts', () => ({
   db: mockDB
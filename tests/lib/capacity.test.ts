@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import {
+  checkDeliveryCapacity,
+  findNearestOpenSlot,
+  getCapacityLevel,
+  getDaySlots,
+  getDefaultDeliveryCapacity,
+  getSlotStart
+} from '../../src/lib/orders/capacity.ts'
+import type { DeliveryCapacity, Order } from '../../src/types/index.ts'
+
+const capacity: DeliveryCapacity = {
+  ...getDefaultDeliveryCapacity('biz-1'),
+  maxOrdersPerDay: 3,
+  maxOrdersPerSlot: 1,
+  openingTime: '09:00',
+  closingTime: '12:00'
+}
+
+const order = (id: string, delivery_date: string, delivery_time?: string, status: Order['status'] = 'pending'): Order => ({
+  id,
+  business_id: 'biz-1',
+  branch_id: 'branch-1',
+  employee_id: 'emp-1',
+  client_name: `Cliente ${id}`,
+  total: 0,
+  delivery_date,
+  status,
+  last_modified_at: '2024-03-01T00:00:00Z',
+  created_at: '2024-03-01T00:00:00Z',
+  items: [],
+  ...(delivery_time && { delivery_time })
+})
+
+describe('delivery capacity', () => {
+  it('builds slots between opening and closing time', () => {
+    expect(getDaySlots(capacity)).toEqual(['09:00', '10:00', '11:00'])
+    expect(getSlotStart('10:45', capacity)).toBe('10:00')
+    expect(getSlotStart('09:00', { ...capacity, slotMinutes: 30 })).toBe('09:00')
+  })
+
+  it('counts active orders per day and slot', () => {
+    const orders = [
+      order('1', '2024-03-10', '10:15'),
+      order('2', '2024-03-10', '11:00'),
+      order('3', '2024-03-10', '10:30', 'cancelled'),
+      order('4', '2024-03-11', '10:00')
+    ]
+
+    const check = checkDeliveryCapacity(orders, capacity, '2024-03-10', '10:40')
+    expect(check).toMatchObject({ dayCount: 2, slot: '10:00', slotCount: 1, dayFull: false, slotFull: true, isFull: true })
+
+    // Al editar, el propio pedido no ocupa su lugar
+    expect(checkDeliveryCapacity(orders, capacity, '2024-03-10', '10:40', '1').isFull).toBe(false)
+  })
+
+  it('suggests the nearest open slot on the same day, then on later days', () => {
+    const orders = [
+      order('1', '2024-03-10', '10:00'),
+      order('2', '2024-03-10', '11:00')
+    ]
+    expect(findNearestOpenSlot(orders, capacity, '2024-03-10', '10:30')).toEqual({ date: '2024-03-10', time: '09:00' })
+
+    const fullDay = [...orders, order('3', '2024-03-10', '09:30')]
+    expect(findNearestOpenSlot(fullDay, capacity, '2024-03-10', '10:30')).toEqual({ date: '2024-03-11', time: '10:00' })
+    expect(findNearestOpenSlot(fullDay, capacity, '2024-03-10')).toEqual({ date: '2024-03-11' })
+  })
+
+  it('rates occupancy for the calendar', () => {
+    expect(getCapacityLevel(5, null)).toBe('free')
+    expect(getCapacityLevel(4, 5)).toBe('busy')
+    expect(getCapacityLevel(5, 5)).toBe('full')
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildCatalogImportPlan,
+  detectColumnMapping,
+  getCatalogExportRows,
+  getMissingRequiredFields,
+  parseSheetNumber
+} from '../../src/lib/products/catalogTransfer.ts'
+import type { BusinessCategory, Product } from '../../src/types/index.ts'
+
+const category: BusinessCategory = {
+  id: 1,
+  businessId: 'b1',
+  categoryId: 'panaderia',
+  categoryName: 'Panadería',
+  icon: '🥖',
+  satCode: '50181900',
+  isActive: true,
+  syncStatus: 'synced',
+  lastModifiedAt: '2026-01-01T00:00:00Z',
+  createdAt: '2026-01-01T00:00:00Z'
+}
+
+const concha: Product = {
+  id: 7,
+  businessId: 'b1',
+  name: 'Concha',
+  price: 10,
+  categoryId: 'panaderia',
+  satCode: '50181900',
+  taxRate: 0,
+  stock: 20,
+  isActive: true,
+  syncStatus: 'synced',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z'
+}
+
+const existing = { products: [concha], categories: [category] }
+
+describe('catalogTransfer', () => {
+  it('maps headers by name regardless of accents and case', () => {
+    const mapping = detectColumnMapping(['Producto', 'PRECIO', 'Categoría', 'Clave SAT', 'IVA'])
+
+    expect(mapping).toEqual({ name: 0, price: 1, category: 2, satCode: 3, taxRate: 4 })
+    expect(getMissingRequiredFields({ name: 0 })).toEqual(['Precio'])
+  })
+
+  it('parses prices written the way people type them', () => {
+    expect(parseSheetNumber('$1,234.50')).toBe(1234.5)
+    expect(parseSheetNumber('12,5')).toBe(12.5)
+    expect(parseSheetNumber(' ')).toBeUndefined()
+    expect(parseSheetNumber('doce')).toBeNaN()
+  })
+
+  it('plans creates, updates and per-row errors without writing anything', () => {
+    const sheet = [
+      ['Nombre', 'Precio', 'Categoría', 'Existencias', 'IVA'],
+      ['concha', '11', 'panaderia', '30', ''],
+      ['Pastel', '$350', 'Pasteles', '2', '16%'],
+      ['', '10', '', '', ''],
+      ['Bolillo', 'tres', '', '', ''],
+      ['Pastel', '300', '', '', '']
+    ]
+    const plan = buildCatalogImportPlan(sheet, detectColumnMapping(sheet[0] ?? []), existing)
+
+    expect(plan.rows.map(row => row.action)).toEqual(['update', 'create', 'error', 'error', 'error'])
+    expect(plan.rows[0]).toMatchObject({ existingId: 7, product: { price: 11, stock: 30, taxRate: 0, categoryId: 'panaderia', satCode: '50181900' } })
+    expect(plan.rows[1]?.product).toMatchObject({ name: 'Pastel', price: 350, taxRate: 0.16, categoryId: 'pasteles', satCode: '01010101' })
+    expect(plan.rows[2]?.errors).toEqual(['Nombre: Product name is required'])
+    expect(plan.rows[3]?.errors).toEqual(['Precio: "tres" no es un número'])
+    expect(plan.rows[4]?.errors).toEqual(['Producto repetido (fila 3)'])
+    expect(plan.newCategories).toEqual([{ categoryId: 'pasteles', categoryName: 'Pasteles', icon: '📦', satCode: '01010101' }])
+    expect({ creates: plan.creates, updates: plan.updates, errors: plan.errors }).toEqual({ creates: 1, updates: 1, errors: 3 })
+  })
+
+  it('leaves stock untouched when its cell is blank', () => {
+    const sheet = [['Nombre', 'Precio', 'Existencias'], ['Concha', '12', ''], ['Dona', '15', ' ']]
+    const plan = buildCatalogImportPlan(sheet, detectColumnMapping(sheet[0] ?? []), existing)
+
+    expect(plan.rows.map(row => row.action)).toEqual(['update', 'create'])
+    expect(plan.rows[0]?.product).not.toHaveProperty('stock')
+    expect(plan.rows[1]?.product).not.toHaveProperty('stock')
+  })
+
+  it('validates SAT codes through the product schema', () => {
+    const sheet = [['Nombre', 'Precio', 'Clave SAT'], ['Concha', '10', '123']]
+    const plan = buildCatalogImportPlan(sheet, detectColumnMapping(sheet[0] ?? []), existing)
+
+    expect(plan.rows[0]?.errors).toContain('Clave SAT: SAT code must be exactly 8 characters')
+  })
+
+  it('exports the catalog in the same columns the import reads', () => {
+    const rows = getCatalogExportRows([concha], [category])
+
+    expect(rows).toEqual([
+      ['Nombre', 'Descripción', 'Precio', 'Costo', 'Categoría', 'Existencias', 'Clave SAT', 'IVA %', 'Activo'],
+      ['Concha', '', 10, '', 'Panadería', 20, '50181900', 0, 'Sí']
+    ])
+
+    const plan = buildCatalogImportPlan(rows.map(row => row.map(String)), detectColumnMapping(rows[0]?.map(String) ?? []), existing)
+    expect(plan.rows[0]).toMatchObject({ action: 'update', product: { price: 10, taxRate: 0, categoryId: 'panaderia' } })
+  })
+})
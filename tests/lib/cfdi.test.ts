@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import { buildCfdiFromOrder, getCfdiReceiver, serializeCfdi } from '../../src/lib/invoicing/cfdi.ts'
+import { validateCfdi } from '../../src/lib/invoicing/validation.ts'
+import type { CfdiIssuer, CfdiReceiver } from '../../src/lib/invoicing/cfdi.ts'
+import type { Order, OrderItem, Product } from '../../src/types/index.ts'
+
+const issuer: CfdiIssuer = { rfc: 'EKU9003173C9', name: 'ESCUELA KEMPER URGATE', taxRegime: '601', postalCode: '42501' }
+const receiver: CfdiReceiver = { rfc: 'XOJI740919U48', name: 'INGRID XODAR JIMENEZ', taxRegime: '612', postalCode: '88965', cfdiUse: 'G03' }
+
+const item = (productId: string, quantity: number, unitPrice: number, taxRate = 0.16): OrderItem => ({
+  order_id: 'srv-1',
+  product_id: productId,
+  product_name: `Pastel ${productId}`,
+  quantity,
+  unit_price: unitPrice,
+  subtotal: quantity * unitPrice,
+  tax_rate: taxRate
+})
+
+const order = (overrides: Partial<Order> = {}): Order => ({
+  id: '1',
+  business_id: 'biz-1',
+  branch_id: 'branch-1',
+  employee_id: 'emp-1',
+  client_name: 'Ingrid',
+  total: 282,
+  subtotal: 250,
+  taxes: [{ rate: 0.16, base: 200, amount: 32 }, { rate: 0, base: 50, amount: 0 }],
+  tax_mode: 'included',
+  delivery_date: '2026-03-10',
+  status: 'delivered',
+  folio: 'PL-000123',
+  last_modified_at: '2026-03-01T10:00:00.000Z',
+  created_at: '2026-03-01T09:00:00.000Z',
+  items: [item('1', 2, 116), item('2', 1, 50, 0)],
+  payments: [
+    { id: 'pay-1', amount: 82, method: 'cash', paid_at: '2026-03-01T09:00:00.000Z' },
+    { id: 'pay-2', amount: 200, method: 'transfer', paid_at: '2026-03-10T09:00:00.000Z' }
+  ],
+  ...overrides
+})
+
+const products = [{ id: 1, satCode: '50181900' }] as Array<Product>
+
+describe('CFDI 4.0 from orders', () => {
+  it('builds one concept per item with the same IVA as the order', () => {
+    const cfdi = buildCfdiFromOrder(order(), { issuer, receiver, products, issuedAt: new Date(2026, 2, 10, 12, 30, 5) })
+
+    expect(cfdi).toMatchObject({ folio: 'PL-000123', issuedAt: '2026-03-10T12:30:05', subtotal: 250, totalTransferred: 32, total: 282 })
+    expect(cfdi.concepts[0]).toMatchObject({ productCode: '50181900', unitCode: 'H87', quantity: 2, unitValue: 100, amount: 200 })
+    expect(cfdi.concepts[1]?.productCode).toBe('01010101')
+    expect(cfdi.transfers).toEqual([{ base: 200, rate: 0.16, amount: 32 }, { base: 50, rate: 0, amount: 0 }])
+    expect(validateCfdi(cfdi)).toEqual([])
+  })
+
+  it('uses the SAT unit of the product when it has one', () => {
+    const cfdi = buildCfdiFromOrder(order(), { issuer, receiver, products: [{ id: 1, satCode: '50181900', satUnitCode: 'KGM' }] as Array<Product> })
+
+    expect(cfdi.concepts[0]?.unitCode).toBe('KGM')
+    expect(cfdi.concepts[0]).not.toHaveProperty('unitName')
+    expect(serializeCfdi(cfdi)).not.toContain('ClaveUnidad="KGM" Unidad=')
+  })
+
+  it('uses PUE with the main payment form when paid, PPD otherwise', () => {
+    expect(buildCfdiFromOrder(order(), { issuer, receiver })).toMatchObject({ paymentMethod: 'PUE', paymentForm: '03' })
+    expect(buildCfdiFromOrder(order({ payments: [] }), { issuer, receiver })).toMatchObject({ paymentMethod: 'PPD', paymentForm: '99' })
+  })
+
+  it('refuses cancelled, provisional and empty orders', () => {
+    expect(() => buildCfdiFromOrder(order({ status: 'cancelled' }), { issuer, receiver })).toThrow('cancelado')
+    expect(() => buildCfdiFromOrder(order({ folioProvisional: true }), { issuer, receiver })).toThrow('Sincroniza')
+    expect(() => buildCfdiFromOrder(order({ items: [] }), { issuer, receiver })).toThrow('no tiene productos')
+  })
+
+  it('reports schema problems before stamping', () => {
+    const cfdi = buildCfdiFromOrder(order(), {
+      issuer: { ...issuer, rfc: 'ABC', postalCode: '123' },
+      receiver: { ...receiver, taxRegime: '999', cfdiUse: 'P01' }
+    })
+    cfdi.concepts[0]!.productCode = '501819'
+
+    expect(validateCfdi(cfdi).map(error => error.field)).toEqual([
+      'Emisor.Rfc',
+      'LugarExpedicion',
+      'Receptor.RegimenFiscalReceptor',
+      'Receptor.UsoCFDI',
+      'Conceptos[0].ClaveProdServ'
+    ])
+  })
+
+  it('takes the receiver from the client fiscal data', () => {
+    const client = { name: 'Ingrid', rfc: 'xoji740919u48', legal_name: 'Ingrid Xodar Jimenez', tax_regime_code: '612', fiscal_postal_code: '88965' }
+
+    expect(getCfdiReceiver(client, issuer)).toEqual(receiver)
+    expect(getCfdiReceiver({ ...client, rfc: 'XAXX010101000', cfdi_use: 'G01' }, issuer)).toEqual({
+      rfc: 'XAXX010101000',
+      name: 'PUBLICO EN GENERAL',
+      taxRegime: '616',
+      postalCode: '42501',
+      cfdiUse: 'S01'
+    })
+  })
+
+  it('rejects a generic receiver without the public name or the issuing postal code', () => {
+    const generic = getCfdiReceiver({ name: 'Ingrid', rfc: 'XAXX010101000' }, issuer)
+
+    expect(validateCfdi(buildCfdiFromOrder(order(), { issuer, receiver: generic }))).toEqual([])
+    expect(validateCfdi(buildCfdiFromOrder(order(), {
+      issuer,
+      receiver: { ...generic, name: 'INGRID', postalCode: '88965' }
+    })).map(error => error.field)).toEqual([
+      'Receptor.Nombre',
+      'Receptor.DomicilioFiscalReceptor'
+    ])
+  })
+
+  it('serializes a well-formed CFDI 4.0 document with escaped text', () => {
+    const cfdi = buildCfdiFromOrder(order({ items: [{ ...item('1', 3, 35.5), product_name: 'Pan "dulce" & café' }] }), { issuer, receiver })
+    const xml = serializeCfdi(cfdi)
+    const doc = new DOMParser().parseFromString(xml, 'application/xml')
+    const comprobante = doc.documentElement
+    const concepto = doc.getElementsByTagName('cfdi:Concepto')[0]
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0)
+    expect(comprobante.getAttribute('Version')).toBe('4.0')
+    expect(comprobante.getAttribute('Total')).toBe('106.50')
+    expect(comprobante.getAttribute('LugarExpedicion')).toBe('42501')
+    expect(doc.getElementsByTagName('cfdi:Receptor')[0]?.getAttribute('UsoCFDI')).toBe('G03')
+    expect(concepto?.getAttribute('Descripcion')).toBe('Pan "dulce" & café')
+    expect(concepto?.getAttribute('ValorUnitario')).toBe('30.603333')
+    expect(doc.getElementsByTagName('cfdi:Traslado')[0]?.getAttribute('TasaOCuota')).toBe('0.160000')
+  })
+})
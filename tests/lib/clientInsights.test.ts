@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getAverageDaysBetweenOrders,
+  getClientInsights,
+  getFavoriteProducts,
+  toRepeatOrderData
+} from '../../src/lib/orders/clientInsights.ts'
+import type { Client, Order } from '../../src/types/index.ts'
+
+const order = (overrides: Partial<Order>): Order => ({
+  id: '1',
+  business_id: 'b1',
+  branch_id: 'br1',
+  employee_id: 'e1',
+  client_id: '7',
+  client_name: 'Ana',
+  client_phone: '5512345678',
+  total: 100,
+  delivery_date: '2026-03-01',
+  status: 'delivered',
+  last_modified_at: '2026-03-01T10:00:00Z',
+  created_at: '2026-03-01T10:00:00Z',
+  items: [],
+  ...overrides
+})
+
+const client: Client = {
+  id: '7',
+  business_id: 'b1',
+  name: 'Ana',
+  total_orders: 4,
+  total_spent: 500,
+  last_order_date: '2026-02-01T10:00:00Z',
+  is_active: true,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z'
+}
+
+const item = (product_name: string, quantity: number, product_id?: string) => ({
+  order_id: '1',
+  product_name,
+  quantity,
+  unit_price: 20,
+  subtotal: quantity * 20,
+  ...(product_id && { product_id })
+})
+
+describe('client insights', () => {
+  it('ranks favourite products by quantity, ignoring cancelled orders', () => {
+    const orders = [
+      order({ items: [item('Concha', 6, 'p1'), item('Bolillo', 2)] }),
+      order({ id: '2', items: [item('Concha', 4, 'p1'), item('bolillo', 1)] }),
+      order({ id: '3', status: 'cancelled', items: [item('Bolillo', 50)] })
+    ]
+
+    expect(getFavoriteProducts(orders)).toEqual([
+      { key: 'p1', product_name: 'Concha', quantity: 10, orderCount: 2 },
+      { key: 'name:bolillo', product_name: 'Bolillo', quantity: 3, orderCount: 2 }
+    ])
+  })
+
+  it('averages the days between consecutive orders', () => {
+    expect(getAverageDaysBetweenOrders([order({})])).toBeUndefined()
+    expect(getAverageDaysBetweenOrders([
+      order({ created_at: '2026-03-15T10:00:00Z' }),
+      order({ created_at: '2026-03-01T10:00:00Z' }),
+      order({ created_at: '2026-03-08T10:00:00Z' })
+    ])).toBe(7)
+  })
+
+  it('uses lifetime totals for the average ticket and the latest activity as last contact', () => {
+    const insights = getClientInsights(client, [
+      order({ status: 'pending', last_modified_at: '2026-03-05T09:00:00Z' }),
+      order({ id: '2' })
+    ])
+
+    expect(insights.averageTicket).toBe(125)
+    expect(insights.lastContact).toBe('2026-03-05T09:00:00Z')
+    expect(insights.openOrders).toBe(1)
+  })
+
+  it('builds a repeat order with the same items and a new delivery date', () => {
+    const data = toRepeatOrderData(
+      order({ delivery_time: '10:00', items: [item('Concha', 3, 'p1')] }),
+      '2026-04-01'
+    )
+
+    expect(data).toEqual({
+      client_id: '7',
+      client_name: 'Ana',
+      client_phone: '5512345678',
+      delivery_date: '2026-04-01',
+      delivery_time: '10:00',
+      items: [{ product_id: 'p1', product_name: 'Concha', quantity: 3, unit_price: 20, subtotal: 60 }]
+    })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { findExistingClient, searchClients } from '../../src/lib/orders/clientLink.ts'
+import { getClientStatsDeltas } from '../../src/lib/orders/clientStats.ts'
+import type { Client } from '../../src/types/index.ts'
+
+const order = (overrides: Record<string, unknown> = {}) => ({
+  client_id: '1',
+  status: 'pending' as const,
+  total: 100,
+  created_at: '2026-01-10T10:00:00Z',
+  ...overrides
+})
+
+const client = (overrides: Partial<Client>): Client => ({
+  id: '1',
+  business_id: 'b1',
+  name: 'Cliente',
+  total_orders: 0,
+  total_spent: 0,
+  is_active: true,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides
+} as Client)
+
+describe('client stats deltas', () => {
+  it('adds an order and its total when a linked order is created', () => {
+    expect(getClientStatsDeltas(undefined, order())).toEqual([
+      { clientId: '1', orders: 1, spent: 100, lastOrderDate: '2026-01-10T10:00:00Z' }
+    ])
+  })
+
+  it('only adjusts the spent amount when the total changes', () => {
+    expect(getClientStatsDeltas(order(), order({ total: 150 }))).toEqual([
+      { clientId: '1', orders: 0, spent: 50 }
+    ])
+    expect(getClientStatsDeltas(order(), order({ status: 'preparing' }))).toEqual([])
+  })
+
+  it('removes the order from the client when it is cancelled or deleted', () => {
+    expect(getClientStatsDeltas(order(), order({ status: 'cancelled' }))).toEqual([
+      { clientId: '1', orders: -1, spent: -100 }
+    ])
+    expect(getClientStatsDeltas(order(), undefined)).toEqual([
+      { clientId: '1', orders: -1, spent: -100 }
+    ])
+  })
+
+  it('moves the order between clients when it is relinked', () => {
+    expect(getClientStatsDeltas(order(), order({ client_id: '2' }))).toEqual([
+      { clientId: '1', orders: -1, spent: -100 },
+      { clientId: '2', orders: 1, spent: 100, lastOrderDate: '2026-01-10T10:00:00Z' }
+    ])
+  })
+
+  it('ignores orders without a client', () => {
+    expect(getClientStatsDeltas(undefined, order({ client_id: undefined }))).toEqual([])
+  })
+})
+
+describe('client linking', () => {
+  const clients = [
+    client({ id: '1', name: 'María López', phone: '5512345678', total_orders: 2 }),
+    client({ id: '2', name: 'Mario Pérez', phone: '5587654321', total_orders: 8 }),
+    client({ id: '3', name: 'Marina Ruiz', is_active: false })
+  ]
+
+  it('suggests active clients by name or phone, most frequent first', () => {
+    expect(searchClients(clients, 'mar').map(c => c.id)).toEqual(['2', '1'])
+    expect(searchClients(clients, 'maria').map(c => c.id)).toEqual(['1'])
+    expect(searchClients(clients, '8765').map(c => c.id)).toEqual(['2'])
+    expect(searchClients(clients, 'm')).toEqual([])
+  })
+
+  it('finds an existing client by phone before falling back to the name', () => {
+    expect(findExistingClient(clients, 'Otro nombre', '+52 55 8765 4321')?.id).toBe('2')
+    expect(findExistingClient(clients, 'maria lopez')?.id).toBe('1')
+    expect(findExistingClient(clients, 'María López', '5500000000')).toBeUndefined()
+  })
+})
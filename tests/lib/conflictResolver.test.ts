@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest'
+import { ConflictResolver } from '../../src/lib/offline/conflictResolver.ts'
+import type { Order, OrderItem, OrderPayment } from '../../src/types/index.ts'
+
+const item = (productId: string, quantity: number, unitPrice = 10): OrderItem => ({
+  order_id: 'srv-1',
+  product_id: productId,
+  product_name: `Producto ${productId}`,
+  quantity,
+  unit_price: unitPrice,
+  subtotal: quantity * unitPrice
+})
+
+const payment = (id: string, amount: number): OrderPayment => ({
+  id,
+  amount,
+  method: 'cash',
+  paid_at: '2024-03-01T12:00:00.000Z'
+})
+
+const baseOrder: Order = {
+  id: 'srv-1',
+  business_id: 'biz-1',
+  branch_id: 'branch-1',
+  employee_id: 'emp-1',
+  client_name: 'Ana',
+  total: 30,
+  delivery_date: '2024-03-10',
+  delivery_time: '10:00',
+  status: 'pending',
+  last_modified_at: '2024-03-01T10:00:00.000Z',
+  created_at: '2024-03-01T09:00:00.000Z',
+  items: [item('p1', 1), item('p2', 2)],
+  version: 1
+}
+
+describe('ConflictResolver.threeWayMerge', () => {
+  it('combines changes made to different fields on each side', () => {
+    const local = { ...baseOrder, status: 'preparing' as const, last_modified_at: '2024-03-02T10:00:00.000Z' }
+    const server = { ...baseOrder, delivery_time: '12:00', version: 2, last_modified_at: '2024-03-02T11:00:00.000Z' }
+
+    const result = ConflictResolver.threeWayMerge(local, server, baseOrder, 'order')
+
+    expect(result.winner).toBe('merged')
+    expect(result.resolvedData).toMatchObject({ status: 'preparing', delivery_time: '12:00', version: 3 })
+  })
+
+  it('merges order items by product_id and recomputes the total', () => {
+    const local = { ...baseOrder, items: [item('p1', 3), item('p2', 2), item('p3', 1)] }
+    const server = { ...baseOrder, items: [item('p1', 1)] }
+
+    const result = ConflictResolver.threeWayMerge(local, server, baseOrder, 'order')
+    const merged = result.resolvedData as Order
+
+    expect(result.winner).toBe('merged')
+    expect(merged.items?.map(i => [i.product_id, i.quantity])).toEqual([['p1', 3], ['p3', 1]])
+    expect(merged.total).toBe(40)
+  })
+
+  it('recomputes the IVA breakdown of merged items with the order tax mode', () => {
+    const taxed = (productId: string, quantity: number, taxRate = 0.16) => ({ ...item(productId, quantity), tax_rate: taxRate })
+    const base = {
+      ...baseOrder,
+      items: [taxed('p1', 1), taxed('p2', 2)],
+      tax_mode: 'excluded' as const,
+      subtotal: 30,
+      taxes: [{ rate: 0.16, base: 30, amount: 4.8 }],
+      total: 34.8
+    }
+    const local = { ...base, items: [taxed('p1', 1), taxed('p2', 2), taxed('p3', 5, 0)] }
+    const server = { ...base, items: [taxed('p1', 3), taxed('p2', 2)] }
+
+    const merged = ConflictResolver.threeWayMerge(local, server, base, 'order').resolvedData as Order
+
+    expect(merged.subtotal).toBe(100)
+    expect(merged.taxes).toEqual([{ rate: 0.16, base: 50, amount: 8 }, { rate: 0, base: 50, amount: 0 }])
+    expect(merged.total).toBe(108)
+  })
+
+  it('keeps payments recorded on both devices instead of escalating them', () => {
+    const base = { ...baseOrder, payments: [payment('pay-1', 10)] }
+    const local = { ...base, payments: [payment('pay-1', 10), payment('pay-2', 5)] }
+    const server = { ...base, payments: [payment('pay-1', 10), payment('pay-3', 15)] }
+
+    const result = ConflictResolver.threeWayMerge(local, server, base, 'order')
+
+    expect(result.winner).toBe('merged')
+    expect((result.resolvedData as Order).payments?.map(p => p.id)).toEqual(['pay-1', 'pay-3', 'pay-2'])
+  })
+
+  it('escalates payments when the combined amount exceeds the order total', () => {
+    const local = { ...baseOrder, payments: [payment('pay-1', 30)] }
+    const server = { ...baseOrder, payments: [payment('pay-2', 30)] }
+
+    const result = ConflictResolver.threeWayMerge(local, server, baseOrder, 'order')
+
+    expect(result.winner).toBe('manual')
+    expect(result.conflictInfo?.fieldConflicts?.map(c => c.field)).toEqual(['payments'])
+
+    const resolved = ConflictResolver.resolveFieldConflicts(result.conflictInfo!, { payments: 'server' }) as Order
+    expect(resolved.payments?.map(p => p.id)).toEqual(['pay-2'])
+  })
+
+  it('escalates only the fields both sides changed differently', () => {
+    const local = { ...baseOrder, status: 'ready' as const, notes: 'Sin nueces' }
+    const server = { ...baseOrder, status: 'cancelled' as const, items: [item('p1', 5), item('p2', 2)] }
+    const localWithItem = { ...local, items: [item('p1', 4), item('p2', 2)] }
+
+    const result = ConflictResolver.threeWayMerge(localWithItem, server, baseOrder, 'order')
+
+    expect(result.winner).toBe('manual')
+    expect(result.conflictInfo?.fieldConflicts?.map(c => c.field)).toEqual(['status', 'items.p1'])
+    expect(result.conflictInfo?.fieldConflicts?.[0]).toMatchObject({ base: 'pending', local: 'ready', server: 'cancelled' })
+  })
+
+  it('keeps lines of the same product with different variants apart', () => {
+    const chico = { ...item('7', 1), variant_id: 'v-chico', variant_name: 'Chico' }
+    const grande = { ...item('7', 1, 20), variant_id: 'v-grande', variant_name: 'Grande' }
+    const base = { ...baseOrder, items: [chico, grande] }
+    const local = { ...base, items: [{ ...chico, quantity: 3, subtotal: 30 }, grande] }
+    const server = { ...base, items: [chico, { ...grande, quantity: 2, subtotal: 40 }] }
+
+    const result = ConflictResolver.threeWayMerge(local, server, base, 'order')
+
+    expect(result.winner).toBe('merged')
+    const merged = result.resolvedData as Order
+    expect(merged.items?.map(i => [i.variant_id, i.quantity])).toEqual([['v-chico', 3], ['v-grande', 2]])
+    expect(merged.total).toBe(70)
+  })
+
+  it('treats every divergent field as a collision when there is no base version', () => {
+    const local = { ...baseOrder, notes: 'Local' }
+    const server = { ...baseOrder, notes: 'Servidor' }
+
+    const result = ConflictResolver.threeWayMerge(local, server, undefined, 'order')
+
+    expect(result.winner).toBe('manual')
+    expect(result.conflictInfo?.fieldConflicts?.map(c => c.field)).toEqual(['notes'])
+  })
+})
+
+describe('ConflictResolver.resolveFieldConflicts', () => {
+  it('applies a per-field mix of local and server values on top of the auto-merge', () => {
+    const local = { ...baseOrder, status: 'ready' as const, notes: 'Sin nueces', items: [item('p1', 4), item('p2', 2)] }
+    const server = { ...baseOrder, status: 'cancelled' as const, delivery_time: '12:00', items: [item('p1', 5), item('p2', 2)] }
+    const conflict = ConflictResolver.threeWayMerge(local, server, baseOrder, 'order').conflictInfo
+
+    expect(conflict).toBeDefined()
+    const resolved = ConflictResolver.resolveFieldConflicts(conflict!, { status: 'server', 'items.p1': 'local' }) as Order
+
+    expect(resolved).toMatchObject({ status: 'cancelled', notes: 'Sin nueces', delivery_time: '12:00', syncStatus: 'pending' })
+    expect(resolved.items?.find(i => i.product_id === 'p1')?.quantity).toBe(4)
+    expect(resolved.total).toBe(60)
+  })
+
+  it('resolves a colliding variant line without touching the other variant', () => {
+    const chico = { ...item('7', 1), variant_id: 'v-chico' }
+    const grande = { ...item('7', 1, 20), variant_id: 'v-grande' }
+    const base = { ...baseOrder, items: [chico, grande] }
+    const local = { ...base, items: [chico, { ...grande, quantity: 3, subtotal: 60 }] }
+    const server = { ...base, items: [chico, { ...grande, quantity: 2, subtotal: 40 }] }
+    const conflict = ConflictResolver.threeWayMerge(local, server, base, 'order').conflictInfo
+
+    expect(conflict?.fieldConflicts?.map(c => c.field)).toEqual(['items.7|v-grande'])
+    const resolved = ConflictResolver.resolveFieldConflicts(conflict!, { 'items.7|v-grande': 'server' }) as Order
+
+    expect(resolved.items?.map(i => [i.variant_id, i.quantity])).toEqual([['v-chico', 1], ['v-grande', 2]])
+  })
+})
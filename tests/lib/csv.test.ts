@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsv, toCsv } from '../../src/lib/products/csv.ts'
+
+describe('csv', () => {
+  it('parses quoted cells, escaped quotes and line breaks', () => {
+    expect(parseCsv('Nombre,Precio\r\n"Pan, dulce",12\n"Pastel ""tres leches""",350\n\n')).toEqual([
+      ['Nombre', 'Precio'],
+      ['Pan, dulce', '12'],
+      ['Pastel "tres leches"', '350']
+    ])
+  })
+
+  it('detects semicolon separated files from Excel in Spanish', () => {
+    expect(parseCsv('\uFEFFNombre;Precio\nConcha;12,50')).toEqual([
+      ['Nombre', 'Precio'],
+      ['Concha', '12,50']
+    ])
+  })
+
+  it('round-trips what it writes', () => {
+    const rows = [['Nombre', 'Precio'], ['Pan; "especial"', 12.5]]
+    expect(parseCsv(toCsv(rows))).toEqual([['Nombre', 'Precio'], ['Pan; "especial"', '12.5']])
+  })
+})
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { formatFolio, getFolioLabel, parseFolioNumber } from '../../src/lib/orders/folio.ts'
+
+describe('order folios', () => {
+  it('formats sequences with the business prefix and zero padding', () => {
+    expect(formatFolio(123)).toBe('PL-000123')
+    expect(formatFolio(1234567)).toBe('PL-1234567')
+  })
+
+  it('parses the sequence back from a folio', () => {
+    expect(parseFolioNumber('PL-000123')).toBe(123)
+    expect(parseFolioNumber('ORD-001')).toBeUndefined()
+    expect(parseFolioNumber(undefined)).toBeUndefined()
+  })
+
+  it('marks provisional folios and falls back to the local id', () => {
+    expect(getFolioLabel({ id: '7', folio: 'PL-000010', folioProvisional: false })).toBe('PL-000010')
+    expect(getFolioLabel({ id: '7', folio: 'PL-000011', folioProvisional: true })).toBe('PL-000011 (provisional)')
+    expect(getFolioLabel({ id: '7' })).toBe('#7')
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import {
+  copyStock,
+  getDeductedByOrder,
+  getDefaultInventorySettings,
+  getLowStockProducts,
+  getOrderStockChanges,
+  getProductStock,
+  hasReachedStatus,
+  withPendingStock
+} from '../../src/lib/orders/inventory.ts'
+import type { Order, Product } from '../../src/types/index.ts'
+
+const items: Order['items'] = [
+  { order_id: '1', product_id: '10', product_name: 'Concha', quantity: 6, unit_price: 10, subtotal: 60 },
+  { order_id: '1', product_id: '10', product_name: 'Concha', quantity: 2, unit_price: 10, subtotal: 20 },
+  { order_id: '1', product_id: '11', product_name: 'Bolillo', quantity: 3, unit_price: 3, subtotal: 9 },
+  { order_id: '1', product_name: 'Pastel especial', quantity: 1, unit_price: 300, subtotal: 300 }
+]
+
+const product = (id: number, stock: number, extra: Partial<Product> = {}): Product => ({
+  id,
+  businessId: 'b1',
+  name: `Producto ${id}`,
+  price: 10,
+  stock,
+  isActive: true,
+  syncStatus: 'synced',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  ...extra
+})
+
+describe('inventory', () => {
+  it('follows the normal status flow to decide when to deduct', () => {
+    expect(hasReachedStatus('pending', 'preparing')).toBe(false)
+    expect(hasReachedStatus('ready', 'preparing')).toBe(true)
+    expect(hasReachedStatus('cancelled', 'pending')).toBe(false)
+  })
+
+  it('deducts catalog items once the order reaches the configured status', () => {
+    expect(getOrderStockChanges({ status: 'pending', items }, 'preparing', new Map())).toEqual([])
+    expect(getOrderStockChanges({ status: 'preparing', items }, 'preparing', new Map())).toEqual([
+      { productId: '10', type: 'sale', quantity: -8 },
+      { productId: '11', type: 'sale', quantity: -3 }
+    ])
+  })
+
+  it('only records the difference when the order was already deducted', () => {
+    const deducted = getDeductedByOrder([
+      { productId: '10', quantity: -8 },
+      { productId: '11', quantity: -5 }
+    ])
+
+    expect(getOrderStockChanges({ status: 'ready', items }, 'preparing', deducted)).toEqual([
+      { productId: '11', type: 'adjustment', quantity: 2 }
+    ])
+  })
+
+  it('returns everything that was deducted when the order is cancelled', () => {
+    const deducted = getDeductedByOrder([{ productId: '10', quantity: -8 }, { productId: '11', quantity: -3 }])
+
+    expect(getOrderStockChanges({ status: 'cancelled', items }, 'preparing', deducted)).toEqual([
+      { productId: '10', type: 'cancellation_return', quantity: 8 },
+      { productId: '11', type: 'cancellation_return', quantity: 3 }
+    ])
+    expect(getOrderStockChanges({ status: 'cancelled', items }, 'preparing', new Map())).toEqual([])
+  })
+
+  it('tracks variants separately from the base product', () => {
+    const variantItems: Order['items'] = [
+      { order_id: '1', product_id: '10', variant_id: 'v1', variant_name: 'Grande', product_name: 'Pastel', quantity: 2, unit_price: 300, subtotal: 600 },
+      { order_id: '1', product_id: '10', variant_id: 'v2', variant_name: 'Chico', product_name: 'Pastel', quantity: 1, unit_price: 150, subtotal: 150 }
+    ]
+    const deducted = getDeductedByOrder([{ productId: '10', variantId: 'v1', quantity: -1 }])
+
+    expect(getOrderStockChanges({ status: 'preparing', items: variantItems }, 'preparing', deducted)).toEqual([
+      { productId: '10', variantId: 'v1', type: 'sale', quantity: -1 },
+      { productId: '10', variantId: 'v2', type: 'sale', quantity: -1 }
+    ])
+    expect(getProductStock(product(1, 99, {
+      variants: [
+        { id: 'v1', name: 'Grande', price: 300, stock: 2, isActive: true },
+        { id: 'v2', name: 'Chico', price: 150, stock: 4, isActive: true },
+        { id: 'v3', name: 'Mini', price: 80, stock: 7, isActive: false }
+      ]
+    }))).toBe(6)
+  })
+
+  it('lists active products at or below their threshold, scarcest first', () => {
+    const settings = getDefaultInventorySettings('b1')
+    const products = [
+      product(1, 5),
+      product(2, 6),
+      product(3, 8, { lowStockThreshold: 10 }),
+      product(4, 0),
+      product(5, 0, { isActive: false })
+    ]
+
+    expect(getLowStockProducts(products, settings).map(p => p.id)).toEqual([4, 1, 3])
+  })
+
+  it('adds movements not yet sent to the stock reported by the server', () => {
+    const server = product(1, 10, { variants: [{ id: 'v1', name: 'Chico', price: 8, stock: 3, isActive: true }] })
+    const projected = withPendingStock(server, [
+      { quantity: -2 },
+      { quantity: 5 },
+      { variantId: 'v1', quantity: -1 }
+    ])
+
+    expect(projected.stock).toBe(13)
+    expect(projected.variants?.[0]?.stock).toBe(2)
+  })
+
+  it('copies stock onto another copy of the product without touching its other fields', () => {
+    const local = product(1, 4, { name: 'Concha nueva', variants: [{ id: 'v1', name: 'Chico', price: 8, stock: 1, isActive: true }, { id: 'v2', name: 'Grande', price: 12, stock: 0, isActive: true }] })
+    const copied = copyStock(local, { stock: 9, variants: [{ id: 'v1', name: 'Chico', price: 8, stock: 6, isActive: true }] })
+
+    expect(copied).toMatchObject({ name: 'Concha nueva', stock: 9 })
+    expect(copied.variants?.map(v => v.stock)).toEqual([6, 0])
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { formatElapsed, getItemsToPrepare, groupOrdersByStatus } from '../../src/lib/orders/kitchenBoard.ts'
+import type { Order, OrderItem } from '../../src/types/index.ts'
+
+const item = (product_name: string, quantity: number, product_id?: string): OrderItem => ({
+  order_id: '1',
+  product_name,
+  quantity,
+  unit_price: 10,
+  subtotal: quantity * 10,
+  ...(product_id && { product_id })
+})
+
+const order = (id: string, status: Order['status'], created_at: string, items: Array<OrderItem> = []): Order => ({
+  id,
+  business_id: 'biz-1',
+  branch_id: 'branch-1',
+  employee_id: 'emp-1',
+  client_name: `Cliente ${id}`,
+  total: 0,
+  delivery_date: '2024-03-10',
+  status,
+  last_modified_at: created_at,
+  created_at,
+  items
+})
+
+describe('kitchenBoard', () => {
+  it('groups orders into every status column, oldest first', () => {
+    const columns = groupOrdersByStatus([
+      order('2', 'pending', '2024-03-10T10:00:00Z'),
+      order('1', 'pending', '2024-03-10T09:00:00Z'),
+      order('3', 'ready', '2024-03-10T08:00:00Z')
+    ])
+
+    expect(columns.pending.map(o => o.id)).toEqual(['1', '2'])
+    expect(columns.ready.map(o => o.id)).toEqual(['3'])
+    expect(columns.preparing).toEqual([])
+    expect(columns.cancelled).toEqual([])
+  })
+
+  it('totals items still to prepare per product', () => {
+    const totals = getItemsToPrepare([
+      order('1', 'pending', '2024-03-10T09:00:00Z', [item('Pastel', 2, 'p-1'), item('Galletas', 1)]),
+      order('2', 'preparing', '2024-03-10T09:30:00Z', [item('Pastel', 1, 'p-1'), item('galletas', 4)]),
+      order('3', 'ready', '2024-03-10T08:00:00Z', [item('Pastel', 10, 'p-1')])
+    ])
+
+    expect(totals).toEqual([
+      { key: 'name:galletas', product_name: 'Galletas', quantity: 5, orderCount: 2 },
+      { key: 'p-1', product_name: 'Pastel', quantity: 3, orderCount: 2 }
+    ])
+  })
+
+  it('formats elapsed time since creation', () => {
+    const now = new Date('2024-03-10T12:00:00Z').getTime()
+
+    expect(formatElapsed('2024-03-10T11:15:00Z', now)).toBe('45 min')
+    expect(formatElapsed('2024-03-10T09:55:00Z', now)).toBe('2 h 05 min')
+    expect(formatElapsed('2024-03-10T12:05:00Z', now)).toBe('0 min')
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import {
+  fromLocalDateKey,
+  fromLocalOrder,
+  normalizeLegacyOrder,
+  toLocalDateKey,
+  toLocalOrder,
+  toLocalOrderChanges,
+  toOrderPayload
+} from '../../src/lib/offline/orderMapper.ts'
+import type { Order } from '../../src/types/index.ts'
+
+const apiOrder: Order = {
+  id: 'srv-1',
+  business_id: 'biz-1',
+  branch_id: 'branch-1',
+  employee_id: 'emp-1',
+  client_name: 'Ana',
+  client_phone: '5512345678',
+  total: 150,
+  delivery_date: '2024-03-10T00:00:00.000Z',
+  delivery_time: '10:00',
+  status: 'pending',
+  client_generated_id: 'cg-1',
+  last_modified_at: '2024-03-01T10:00:00.000Z',
+  created_at: '2024-03-01T09:00:00.000Z',
+  items: [],
+  version: 2
+}
+
+describe('orderMapper', () => {
+  it('maps API orders to indexable local records', () => {
+    const local = toLocalOrder({ ...apiOrder, serverId: 'srv-1', syncStatus: 'synced' })
+
+    expect(local).toMatchObject({
+      serverId: 'srv-1',
+      clientGeneratedId: 'cg-1',
+      businessId: 'biz-1',
+      deliveryDate: '2024-03-10',
+      clientName: 'Ana',
+      lastModifiedAt: '2024-03-01T10:00:00.000Z',
+      version: 2,
+      syncStatus: 'synced'
+    })
+    expect(local).not.toHaveProperty('business_id')
+  })
+
+  it('round-trips local records back to snake_case for the UI and the API', () => {
+    const local = { ...toLocalOrder(apiOrder), id: 7 }
+
+    expect(fromLocalOrder(local)).toMatchObject({ id: '7', business_id: 'biz-1', delivery_date: '2024-03-10' })
+
+    const payload = toOrderPayload(local)
+    expect(payload).toMatchObject({ business_id: 'biz-1', client_generated_id: 'cg-1' })
+    expect(payload).not.toHaveProperty('id')
+    expect(payload).not.toHaveProperty('syncStatus')
+    expect(payload).not.toHaveProperty('businessId')
+  })
+
+  it('keeps provisional folios out of the API payload', () => {
+    const provisional = { ...toLocalOrder({ ...apiOrder, folio: 'PL-000003', folioProvisional: true }), id: 8 }
+    const assigned = { ...toLocalOrder({ ...apiOrder, folio: 'PL-000004' }), id: 9 }
+
+    expect(fromLocalOrder(provisional)).toMatchObject({ folio: 'PL-000003', folioProvisional: true })
+    expect(toOrderPayload(provisional)).not.toHaveProperty('folio')
+    expect(assigned.folioProvisional).toBe(false)
+    expect(toOrderPayload(assigned)).toMatchObject({ folio: 'PL-000004' })
+  })
+
+  it('keeps the stamped invoice UUID so the order is not invoiced twice', () => {
+    const local = { ...toLocalOrder({ ...apiOrder, invoice_uuid: 'A1B2C3D4-0000-4000-8000-000000000001' }), id: 10 }
+
+    expect(local.invoiceUuid).toBe('A1B2C3D4-0000-4000-8000-000000000001')
+    expect(fromLocalOrder(local)).toMatchObject({ invoice_uuid: 'A1B2C3D4-0000-4000-8000-000000000001' })
+    expect(toOrderPayload(local)).toMatchObject({ invoice_uuid: 'A1B2C3D4-0000-4000-8000-000000000001' })
+  })
+
+  it('maps partial changes without adding unrelated fields', () => {
+    expect(toLocalOrderChanges({ status: 'ready', delivery_date: '2024-03-11T12:00:00Z' }))
+      .toEqual({ status: 'ready', deliveryDate: '2024-03-11' })
+  })
+
+  it('normalizes legacy rows that mixed snake_case and camelCase keys', () => {
+    const legacy = {
+      id: 3,
+      business_id: 'biz-1',
+      branch_id: 'default-branch',
+      employee_id: 'default-employee',
+      client_name: 'Luis',
+      total: 80,
+      delivery_date: '2024-02-01',
+      status: 'preparing',
+      last_modified_at: '2024-01-31T10:00:00.000Z',
+      created_at: '2024-01-31T09:00:00.000Z',
+      syncStatus: 'pending'
+    }
+
+    expect(normalizeLegacyOrder(legacy)).toMatchObject({
+      id: 3,
+      businessId: 'biz-1',
+      deliveryDate: '2024-02-01',
+      clientName: 'Luis',
+      status: 'preparing',
+      items: [],
+      version: 1,
+      syncStatus: 'pending'
+    })
+  })
+
+  it('formats dates with the local calendar day instead of UTC', () => {
+    expect(toLocalDateKey(new Date(2024, 0, 5, 23, 30))).toBe('2024-01-05')
+    expect(toLocalDateKey(new Date(2024, 11, 31, 0, 0))).toBe('2024-12-31')
+  })
+
+  it('reads date keys as local midnight so they keep their day', () => {
+    const date = fromLocalDateKey('2024-03-10')
+
+    expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2024, 2, 10, 0])
+    expect(toLocalDateKey(fromLocalDateKey('2024-03-10T18:00:00.000Z'))).toBe('2024-03-10')
+  })
+})
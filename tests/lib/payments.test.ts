@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import {
+  assertPayment,
+  createOrderPayment,
+  formatPaymentsForReceipt,
+  getAmountPaid,
+  getBalanceDue,
+  getPaymentStatus
+} from '../../src/lib/orders/payments.ts'
+import type { Order, OrderPayment } from '../../src/types/index.ts'
+
+const payment = (amount: number, extra: Partial<OrderPayment> = {}): OrderPayment => ({
+  id: `pay-${amount}`,
+  amount,
+  method: 'cash',
+  paid_at: '2026-03-01T12:00:00.000Z',
+  ...extra
+})
+
+const order = (payments: Array<OrderPayment>, total = 350): Pick<Order, 'status' | 'total' | 'payments'> => ({
+  status: 'ready',
+  total,
+  payments
+})
+
+describe('order payments', () => {
+  it('computes the balance and status from the recorded payments', () => {
+    expect(getPaymentStatus(order([]))).toBe('unpaid')
+    expect(getPaymentStatus(order([payment(100)]))).toBe('partial')
+    expect(getBalanceDue(order([payment(100)]))).toBe(250)
+    expect(getPaymentStatus(order([payment(100), payment(250)]))).toBe('paid')
+  })
+
+  it('rounds to cents so float sums do not leave a ghost balance', () => {
+    const paid = order([payment(0.1), payment(0.2)], 0.3)
+
+    expect(getAmountPaid(paid)).toBe(0.3)
+    expect(getBalanceDue(paid)).toBe(0)
+  })
+
+  it('never reports a negative balance when the order total drops after paying', () => {
+    expect(getBalanceDue(order([payment(400)]))).toBe(0)
+  })
+
+  it('rejects payments above the balance, non positive amounts and cancelled orders', () => {
+    const partial = order([payment(300)])
+
+    expect(() => assertPayment(partial, { amount: 50, method: 'card' })).not.toThrow()
+    expect(() => assertPayment(partial, { amount: 60, method: 'card' })).toThrow('excede el saldo')
+    expect(() => assertPayment(partial, { amount: 0, method: 'cash' })).toThrow('mayor a cero')
+    expect(() => assertPayment({ ...partial, status: 'cancelled' }, { amount: 10, method: 'cash' })).toThrow('cancelado')
+  })
+
+  it('creates payments with an id and a trimmed reference', () => {
+    const created = createOrderPayment({ amount: 99.999, method: 'transfer', reference: '  SPEI 123 ' }, '2026-03-02T10:00:00.000Z')
+
+    expect(created).toMatchObject({ amount: 100, method: 'transfer', reference: 'SPEI 123', paid_at: '2026-03-02T10:00:00.000Z' })
+    expect(created.id).toEqual(expect.any(String))
+    expect(createOrderPayment({ amount: 10, method: 'cash', reference: ' ' })).not.toHaveProperty('reference')
+  })
+
+  it('lists payments and the remaining balance for receipts', () => {
+    const receipt = formatPaymentsForReceipt(order([payment(100, { method: 'transfer', reference: 'SPEI 123' })]))
+
+    expect(receipt).toContain('💵 *Pagos:*')
+    expect(receipt).toContain('Transferencia (SPEI 123)')
+    expect(receipt).toMatch(/Resta por pagar: \$250\.00/)
+    expect(formatPaymentsForReceipt(order([payment(350)]))).toContain('PAGADO')
+    expect(formatPaymentsForReceipt(order([]))).toBe('')
+  })
+})
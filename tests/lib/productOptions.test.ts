@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getOrderItemLabel,
+  hasProductOptions,
+  resolveProductOptions,
+  validateModifierGroup,
+  validateProductOptions
+} from '../../src/lib/orders/productOptions.ts'
+import type { ModifierGroup, Product } from '../../src/types/index.ts'
+
+const relleno: ModifierGroup = {
+  id: 'g1',
+  name: 'Relleno',
+  required: true,
+  minSelections: 0,
+  maxSelections: 1,
+  modifiers: [
+    { id: 'm1', name: 'Chocolate', priceDelta: 0 },
+    { id: 'm2', name: 'Cajeta', priceDelta: 20 }
+  ]
+}
+
+const extras: ModifierGroup = {
+  id: 'g2',
+  name: 'Extras',
+  required: false,
+  minSelections: 0,
+  maxSelections: 2,
+  modifiers: [
+    { id: 'm3', name: 'Velas', priceDelta: 15 },
+    { id: 'm4', name: 'Tarjeta', priceDelta: 10 },
+    { id: 'm5', name: 'Chispas', priceDelta: 5 }
+  ]
+}
+
+const pastel: Pick<Product, 'price' | 'variants' | 'modifierGroups'> = {
+  price: 200,
+  variants: [
+    { id: 'v1', name: 'Chico', price: 150, stock: 3, isActive: true },
+    { id: 'v2', name: 'Grande', price: 300, sku: 'PAS-G', stock: 1, isActive: true },
+    { id: 'v3', name: 'Mini', price: 80, stock: 0, isActive: false }
+  ],
+  modifierGroups: [relleno, extras]
+}
+
+describe('productOptions', () => {
+  it('detects products that need the options dialog', () => {
+    expect(hasProductOptions(pastel)).toBe(true)
+    expect(hasProductOptions({ variants: [{ id: 'v3', name: 'Mini', price: 80, stock: 0, isActive: false }] })).toBe(false)
+    expect(hasProductOptions({})).toBe(false)
+  })
+
+  it('enforces required groups and max selections', () => {
+    expect(validateModifierGroup(relleno, [])).toBe('Elige una opción de Relleno')
+    expect(validateModifierGroup(relleno, ['m1'])).toBeUndefined()
+    expect(validateModifierGroup(extras, ['m3', 'm4', 'm5'])).toBe('Elige máximo 2 opciones de Extras')
+    expect(validateModifierGroup({ ...extras, minSelections: 2 }, ['m3'])).toBe('Elige al menos 2 opciones de Extras')
+  })
+
+  it('uses the variant price plus modifier deltas as the unit price', () => {
+    const { choice } = resolveProductOptions(pastel, 'v2', { g1: ['m2'], g2: ['m3'] })
+
+    expect(choice?.variant?.sku).toBe('PAS-G')
+    expect(choice?.unitPrice).toBe(335)
+    expect(choice?.modifiers).toEqual([
+      { modifier_id: 'm2', group_name: 'Relleno', name: 'Cajeta', price_delta: 20 },
+      { modifier_id: 'm3', group_name: 'Extras', name: 'Velas', price_delta: 15 }
+    ])
+  })
+
+  it('rejects missing or inactive variants and invalid selections', () => {
+    expect(resolveProductOptions(pastel, undefined, { g1: ['m1'] }).error).toBe('Elige una variante')
+    expect(resolveProductOptions(pastel, 'v3', { g1: ['m1'] }).error).toBe('Elige una variante')
+    expect(resolveProductOptions(pastel, 'v1', {}).error).toBe('Elige una opción de Relleno')
+  })
+
+  it('builds receipt labels with variant and modifiers', () => {
+    expect(getOrderItemLabel({
+      product_name: 'Pastel',
+      variant_name: 'Grande',
+      modifiers: [
+        { modifier_id: 'm2', group_name: 'Relleno', name: 'Cajeta', price_delta: 20 },
+        { modifier_id: 'm3', group_name: 'Extras', name: 'Velas', price_delta: 15 }
+      ]
+    })).toBe('Pastel (Grande · Cajeta, Velas)')
+    expect(getOrderItemLabel({ product_name: 'Concha' })).toBe('Concha')
+  })
+
+  it('validates product options before saving', () => {
+    expect(validateProductOptions(pastel)).toBeUndefined()
+    expect(validateProductOptions({ modifierGroups: [{ ...extras, modifiers: [] }] })).toBe('Agrega opciones a Extras')
+    expect(validateProductOptions({ modifierGroups: [{ ...extras, minSelections: 3, maxSelections: 2 }] }))
+      .toBe('En Extras el mínimo no puede ser mayor que el máximo')
+    expect(validateProductOptions({ variants: [{ id: 'v9', name: ' ', price: 10, stock: 0, isActive: true }] }))
+      .toBe('Ponle nombre a todas las variantes')
+  })
+})
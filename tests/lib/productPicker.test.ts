@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { getStockWarnings, searchProducts } from '../../src/lib/orders/productPicker.ts'
+import type { CatalogProduct } from '../../src/lib/orders/productPicker.ts'
+
+const product = (id: number, name: string, extra: Partial<CatalogProduct> = {}): CatalogProduct => ({
+  id,
+  businessId: 'b1',
+  name,
+  price: 10,
+  stock: 5,
+  isActive: true,
+  syncStatus: 'synced',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  ...extra
+})
+
+const products = [
+  product(1, 'Pan de muerto', { categoryName: 'Temporada', satCode: '50181900' }),
+  product(2, 'Concha', { categoryName: 'Pan dulce', satCode: '50181900' }),
+  product(3, 'Café americano', { categoryName: 'Bebidas', satCode: '50201706' }),
+  product(4, 'Bolillo', { isActive: false })
+]
+
+describe('product picker', () => {
+  it('matches name ignoring accents and puts name prefixes first', () => {
+    expect(searchProducts(products, 'cafe').map(p => p.name)).toEqual(['Café americano'])
+    expect(searchProducts(products, 'pan').map(p => p.name)).toEqual(['Pan de muerto', 'Concha'])
+  })
+
+  it('matches category and SAT code prefix', () => {
+    expect(searchProducts(products, 'bebidas').map(p => p.id)).toEqual([3])
+    expect(searchProducts(products, '50181').map(p => p.id)).toEqual([2, 1])
+  })
+
+  it('skips inactive products and limits the results', () => {
+    expect(searchProducts(products, 'bolillo')).toEqual([])
+    expect(searchProducts(products, '', 2)).toHaveLength(2)
+  })
+
+  it('warns when the quantity across items exceeds stock', () => {
+    const warnings = getStockWarnings([
+      { productId: '2', quantity: 3 },
+      { productId: '2', quantity: 4 },
+      { productId: '3', quantity: 5 },
+      { quantity: 100 }
+    ], products)
+
+    expect(warnings).toEqual([{ productId: '2', productName: 'Concha', requested: 7, available: 5 }])
+  })
+})
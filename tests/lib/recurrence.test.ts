@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import {
+  describeRecurrence,
+  getDatesToMaterialize,
+  getNextOccurrence,
+  getOccurrences,
+  getRecurringOrderId,
+  parseMonthDays,
+  validateRecurringOrder
+} from '../../src/lib/orders/recurrence.ts'
+import type { RecurrenceRule, RecurringOrder } from '../../src/types/index.ts'
+
+const weekly: RecurrenceRule = {
+  frequency: 'weekly',
+  weekdays: [1, 4], // lunes y jueves
+  monthDays: [],
+  startDate: '2026-03-01',
+  skipDates: []
+}
+
+const recurring = (overrides: Partial<RecurringOrder> = {}): RecurringOrder => ({
+  id: 1,
+  businessId: 'b1',
+  clientId: '3',
+  name: 'Pan de la semana',
+  rule: weekly,
+  items: [{ product_name: 'Bolillo', quantity: 20, unit_price: 3 }],
+  daysAhead: 7,
+  status: 'active',
+  clientGeneratedId: '0b5f1f8e-6d5e-4f59-9a39-3c1d0c7f4b11',
+  syncStatus: 'synced',
+  createdAt: '2026-03-01T00:00:00Z',
+  updatedAt: '2026-03-01T00:00:00Z',
+  ...overrides
+})
+
+describe('recurrence rules', () => {
+  it('lists weekly occurrences and honours skip and end dates', () => {
+    expect(getOccurrences(weekly, '2026-03-01', '2026-03-14')).toEqual(['2026-03-02', '2026-03-05', '2026-03-09', '2026-03-12'])
+    expect(getOccurrences({ ...weekly, skipDates: ['2026-03-05'], endDate: '2026-03-10' }, '2026-03-01', '2026-03-14'))
+      .toEqual(['2026-03-02', '2026-03-09'])
+  })
+
+  it('skips months that do not have the requested day', () => {
+    const monthly: RecurrenceRule = { ...weekly, frequency: 'monthly', weekdays: [], monthDays: [1, 31], startDate: '2026-01-01' }
+    expect(getOccurrences(monthly, '2026-01-15', '2026-04-02')).toEqual(['2026-01-31', '2026-02-01', '2026-03-01', '2026-03-31', '2026-04-01'])
+    expect(getNextOccurrence(monthly, '2026-02-02')).toBe('2026-03-01')
+  })
+
+  it('describes the rule in Spanish', () => {
+    expect(describeRecurrence(weekly)).toBe('Cada lunes y jueves')
+    expect(describeRecurrence({ ...weekly, frequency: 'monthly', monthDays: [1] })).toBe('El día 1 de cada mes')
+    expect(describeRecurrence({ ...weekly, frequency: 'monthly', monthDays: [15, 1, 28] })).toBe('Los días 1, 15 y 28 de cada mes')
+  })
+
+  it('parses and validates the form values', () => {
+    expect(parseMonthDays('15, 1 1 40 x')).toEqual([1, 15])
+    expect(validateRecurringOrder(recurring())).toBeUndefined()
+    expect(validateRecurringOrder(recurring({ rule: { ...weekly, weekdays: [] } }))).toBe('Elige al menos un día de la semana')
+    expect(validateRecurringOrder(recurring({ items: [] }))).toBe('Agrega al menos un producto')
+  })
+})
+
+describe('materialization window', () => {
+  it('generates the occurrences within the days ahead', () => {
+    expect(getDatesToMaterialize(recurring(), '2026-03-02')).toEqual(['2026-03-02', '2026-03-05', '2026-03-09'])
+  })
+
+  it('continues after the dates already generated', () => {
+    expect(getDatesToMaterialize(recurring({ generatedUntil: '2026-03-09' }), '2026-03-03')).toEqual([])
+    expect(getDatesToMaterialize(recurring({ generatedUntil: '2026-03-09' }), '2026-03-06')).toEqual(['2026-03-12'])
+  })
+
+  it('does not back-fill past dates when a paused order resumes', () => {
+    expect(getDatesToMaterialize(recurring({ status: 'paused' }), '2026-03-02')).toEqual([])
+    expect(getDatesToMaterialize(recurring({ generatedUntil: '2026-03-02' }), '2026-03-20')).toEqual(['2026-03-23', '2026-03-26'])
+  })
+
+  it('gives each delivery the same order id on every device', () => {
+    const id = getRecurringOrderId(recurring(), '2026-03-05')
+
+    expect(getRecurringOrderId(recurring({ id: 9 }), '2026-03-05')).toBe(id)
+    expect(getRecurringOrderId(recurring(), '2026-03-09')).not.toBe(id)
+    expect(getRecurringOrderId(recurring({ clientGeneratedId: 'c0a80121-7ac0-4e1b-8e3a-1d2f3a4b5c6d' }), '2026-03-05')).not.toBe(id)
+  })
+})
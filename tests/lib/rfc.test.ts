@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { calculateRfcCheckDigit, validateRfc, validateRfcWithDetails } from '../../src/lib/validation/rfc.ts'
+
+describe('RFC validation', () => {
+  it('accepts personas morales and físicas with a matching check digit', () => {
+    expect(validateRfcWithDetails('EKU9003173C9')).toEqual({ isValid: true, cleanRfc: 'EKU9003173C9', personType: 'moral', isGeneric: false })
+    expect(validateRfcWithDetails('xoji-740919 u48')).toMatchObject({ isValid: true, cleanRfc: 'XOJI740919U48', personType: 'fisica' })
+    expect(validateRfc('IIA040805DZ4')).toBe(true)
+  })
+
+  it('computes the module 11 check digit', () => {
+    expect(calculateRfcCheckDigit('GODE561231GR8')).toBe('8')
+    expect(calculateRfcCheckDigit('EKU9003173C9')).toBe('9')
+  })
+
+  it('accepts the generic RFCs even though they skip the check digit', () => {
+    expect(validateRfcWithDetails('XAXX010101000')).toMatchObject({ isValid: true, isGeneric: true })
+    expect(validateRfc('XEXX010101000')).toBe(true)
+  })
+
+  it('explains why an RFC is rejected', () => {
+    expect(validateRfcWithDetails('')).toMatchObject({ isValid: false, reason: 'RFC vacío o inválido' })
+    expect(validateRfcWithDetails('EKU900317')).toMatchObject({ isValid: false, reason: expect.stringContaining('12 caracteres') })
+    expect(validateRfcWithDetails('EKU9013173C9')).toMatchObject({ isValid: false, reason: expect.stringContaining('Formato') })
+    expect(validateRfcWithDetails('EKU9002313C9')).toMatchObject({ isValid: false, reason: 'La fecha del RFC no existe' })
+    expect(validateRfcWithDetails('EKU9003173C8')).toMatchObject({ isValid: false, reason: expect.stringContaining('dígito verificador') })
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import {
+  inferBusinessType,
+  searchSatCatalog,
+  suggestSatProductCodes,
+  validateProductSatCodes,
+  validateSatProductCode,
+  validateSatUnitCode
+} from '../../src/lib/invoicing/satCatalog.ts'
+import { SAT_PRODUCT_SERVICE_CODES, SAT_UNIT_CODES } from '../../src/lib/invoicing/satCatalogData.ts'
+
+const codes = (entries: Array<{ code: string }>) => entries.map(entry => entry.code)
+
+describe('SAT catalog search', () => {
+  it('finds codes by description or keywords ignoring accents and small typos', () => {
+    expect(codes(searchSatCatalog(SAT_PRODUCT_SERVICE_CODES, 'reposteria'))[0]).toBe('50182000')
+    expect(codes(searchSatCatalog(SAT_PRODUCT_SERVICE_CODES, 'Refrezcos'))).toEqual(['50202306'])
+    expect(codes(searchSatCatalog(SAT_PRODUCT_SERVICE_CODES, 'café'))).toContain('50201706')
+  })
+
+  it('requires every word and searches by code prefix', () => {
+    expect(searchSatCatalog(SAT_PRODUCT_SERVICE_CODES, 'pastel refresco')).toEqual([])
+    expect(codes(searchSatCatalog(SAT_PRODUCT_SERVICE_CODES, '502023'))).toEqual(['50202300', '50202301', '50202306'])
+    expect(codes(searchSatCatalog(SAT_UNIT_CODES, 'kgm'))[0]).toBe('KGM')
+  })
+
+  it('validates that codes exist in the catalog', () => {
+    expect(validateSatProductCode(SAT_PRODUCT_SERVICE_CODES, '50202306')).toMatchObject({ isValid: true, entry: { description: 'Refrescos' } })
+    expect(validateSatProductCode(SAT_PRODUCT_SERVICE_CODES, '5020')).toEqual({ isValid: false, reason: 'La clave SAT debe tener 8 dígitos' })
+    expect(validateSatProductCode(SAT_PRODUCT_SERVICE_CODES, '50000000').reason).toContain('no existe')
+    expect(validateSatUnitCode(SAT_UNIT_CODES, 'h87').isValid).toBe(true)
+    expect(validateProductSatCodes({ productCodes: SAT_PRODUCT_SERVICE_CODES, unitCodes: SAT_UNIT_CODES }, { satCode: '12345678', satUnitCode: 'ZZZ' }))
+      .toEqual({ satUnitCode: 'La unidad ZZZ no existe en el catálogo del SAT' })
+    expect(validateProductSatCodes({ productCodes: [], unitCodes: [] }, { satCode: '12345678' })).toEqual({})
+  })
+
+  it('accepts well-formed product codes missing from the bundled excerpt', () => {
+    const catalogs = { productCodes: SAT_PRODUCT_SERVICE_CODES, unitCodes: SAT_UNIT_CODES }
+
+    expect(validateProductSatCodes(catalogs, { satCode: '43211500' })).toEqual({})
+    expect(validateProductSatCodes(catalogs, { satCode: '4321' })).toEqual({ satCode: 'La clave SAT debe tener 8 dígitos' })
+  })
+})
+
+describe('SAT code suggestions', () => {
+  it('suggests codes from the product name', () => {
+    expect(codes(suggestSatProductCodes(SAT_PRODUCT_SERVICE_CODES, 'Pastel de tres leches'))[0]).toBe('50182000')
+    expect(codes(suggestSatProductCodes(SAT_PRODUCT_SERVICE_CODES, 'Ramo de rosas'))[0]).toBe('10171600')
+  })
+
+  it('prefers and falls back to the codes of the business type', () => {
+    expect(codes(suggestSatProductCodes(SAT_PRODUCT_SERVICE_CODES, 'Frappé', 'cafe'))).toEqual(['50202401', '50202306'])
+    expect(codes(suggestSatProductCodes(SAT_PRODUCT_SERVICE_CODES, 'Recomendación', 'restaurant'))).toEqual(['50202306', '50202401'])
+  })
+
+  it('infers the business type from its default categories', () => {
+    expect(inferBusinessType(['cafe-caliente', 'reposteria', 'mi-categoria'])).toBe('cafe')
+    expect(inferBusinessType(['mi-categoria'])).toBeUndefined()
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateOrderTotals,
+  formatTaxesForReceipt,
+  getOrderTotals,
+  summarizeOrderTaxes,
+  withTaxRates
+} from '../../src/lib/orders/taxes.ts'
+
+const item = (quantity: number, unit_price: number, tax_rate?: number) => ({
+  quantity,
+  unit_price,
+  ...(tax_rate !== undefined && { tax_rate })
+})
+
+describe('order taxes', () => {
+  it('breaks down IVA from tax-included prices without changing the total', () => {
+    const totals = calculateOrderTotals([item(2, 116, 0.16), item(1, 50, 0)], 'included')
+
+    expect(totals.total).toBe(282)
+    expect(totals.subtotal).toBe(250)
+    expect(totals.taxes).toEqual([
+      { rate: 0.16, base: 200, amount: 32 },
+      { rate: 0, base: 50, amount: 0 }
+    ])
+  })
+
+  it('adds IVA on top of tax-excluded prices', () => {
+    const totals = calculateOrderTotals([item(3, 100, 0.16), item(1, 100, 0.08)], 'excluded')
+
+    expect(totals.subtotal).toBe(400)
+    expect(totals.taxes).toEqual([
+      { rate: 0.16, base: 300, amount: 48 },
+      { rate: 0.08, base: 100, amount: 8 }
+    ])
+    expect(totals.total).toBe(456)
+  })
+
+  it('keeps base plus tax equal to the price when rounding included IVA', () => {
+    const totals = calculateOrderTotals([item(1, 35.5, 0.16), item(3, 12.9, 0.16)], 'included')
+
+    expect(totals.total).toBe(74.2)
+    expect(totals.subtotal + (totals.taxes[0]?.amount ?? 0)).toBeCloseTo(74.2, 2)
+  })
+
+  it('uses the default rate for items without one', () => {
+    expect(calculateOrderTotals([item(1, 100)], 'excluded', 0.08).total).toBe(108)
+    expect(withTaxRates([item(1, 10), item(1, 10, 0)], 0.16).map(i => i.tax_rate)).toEqual([0.16, 0])
+  })
+
+  it('treats orders created before the breakdown as having no separate IVA', () => {
+    expect(getOrderTotals({ total: 300 })).toEqual({ subtotal: 300, taxes: [], total: 300 })
+    expect(formatTaxesForReceipt({ total: 300 })).toBe('')
+  })
+
+  it('lists subtotal and IVA per rate for receipts', () => {
+    const receipt = formatTaxesForReceipt({ total: 116, subtotal: 100, taxes: [{ rate: 0.16, base: 100, amount: 16 }] })
+
+    expect(receipt).toMatch(/Subtotal: \$100\.00/)
+    expect(receipt).toMatch(/IVA 16%: \$16\.00/)
+  })
+
+  it('sums the breakdown of several orders by rate for reports', () => {
+    const summary = summarizeOrderTaxes([
+      { total: 116, subtotal: 100, taxes: [{ rate: 0.16, base: 100, amount: 16 }] },
+      { total: 58, subtotal: 50, taxes: [{ rate: 0.16, base: 50, amount: 8 }] },
+      { total: 40 }
+    ])
+
+    expect(summary).toEqual({ subtotal: 190, taxes: [{ rate: 0.16, base: 150, amount: 24 }], total: 214 })
+  })
+})
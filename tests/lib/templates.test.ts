@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { toDuplicateFormData, toFormItems, toTemplateItems } from '../../src/lib/orders/templates.ts'
+import type { Order } from '../../src/types/index.ts'
+
+const order: Order = {
+  id: '12',
+  business_id: 'b1',
+  branch_id: 'br1',
+  employee_id: 'e1',
+  client_id: '3',
+  client_name: 'Ana',
+  client_phone: '5512345678',
+  total: 90,
+  delivery_date: '2026-03-01',
+  delivery_time: '09:30',
+  status: 'delivered',
+  folio: 'PL-000012',
+  last_modified_at: '2026-03-01T10:00:00Z',
+  created_at: '2026-02-28T10:00:00Z',
+  items: [
+    { order_id: '12', product_name: 'Concha', quantity: 6, unit_price: 10, subtotal: 60, notes: 'Vainilla' },
+    { order_id: '12', product_name: 'Bolillo', quantity: 3, unit_price: 10, subtotal: 30 }
+  ]
+}
+
+describe('order templates', () => {
+  it('duplicates an order into form values with a new delivery date', () => {
+    expect(toDuplicateFormData(order, '2026-03-08')).toEqual({
+      clientId: '3',
+      clientName: 'Ana',
+      clientPhone: '5512345678',
+      deliveryDate: '2026-03-08',
+      deliveryTime: '09:30',
+      items: [
+        { productName: 'Concha', quantity: 6, unitPrice: 10, notes: 'Vainilla' },
+        { productName: 'Bolillo', quantity: 3, unitPrice: 10, notes: '' }
+      ]
+    })
+  })
+
+  it('stores only the filled-in form items in a template', () => {
+    const items = toTemplateItems([
+      { productName: ' Concha ', quantity: 6, unitPrice: 10, notes: '' },
+      { productName: '', quantity: 1, unitPrice: 0 }
+    ])
+
+    expect(items).toEqual([{ product_name: 'Concha', quantity: 6, unit_price: 10 }])
+    expect(toFormItems(items)).toEqual([{ productName: 'Concha', quantity: 6, unitPrice: 10, notes: '' }])
+  })
+})
@@ -42,7 +42,7 @@ describe('useOfflineSync', () => {
       const { result } = renderHook(() => useOfflineSync(), { wrapper })
 
       expect(typeof result.current.syncPendingChanges).toBe('function')
-      expect(typeof result.current.addPendingChange).toBe('function')
+      expect(typeof result.current.clearFailedItems).toBe('function')
     })
 
     it('should call syncPendingChanges when triggered', async () => {
@@ -56,18 +56,15 @@ describe('useOfflineSync', () => {
       expect(result.current.syncPendingChanges).toHaveBeenCalled()
     })
 
-    it('should call addPendingChange when triggered', async () => {
+    it('should call clearFailedItems when triggered', async () => {
       const { result } = renderHook(() => useOfflineSync(), { wrapper })
 
-      await act( () => {
-        result.current.addPendingChange({ type: 'create', data: { id: '1' } })
+      await act(async () => {
+        await result.current.clearFailedItems()
       })
 
       // The mock should have been called
-      expect(result.current.addPendingChange).toHaveBeenCalledWith({ 
-        type: 'create', 
-        data: { id: '1' } 
-      })
+      expect(result.current.clearFailedItems).toHaveBeenCalled()
     })
   })
 
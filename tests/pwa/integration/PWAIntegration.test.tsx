@@ -47,7 +47,7 @@ vi.mock('../../../src/hooks/useOfflineSync', () => ({
     updatePendingCount: vi.fn(),
     isSyncing: false,
     error: null,
-    addPendingChange: vi.fn()
+    clearFailedItems: vi.fn()
   }))
 }))
 
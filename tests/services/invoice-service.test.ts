@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { FakePacAdapter, InvoiceService } from '../../src/services/invoice-service.ts'
+import type { Order } from '../../src/types/index.ts'
+
+const issuer = { rfc: 'EKU9003173C9', name: 'ESCUELA KEMPER URGATE', taxRegime: '601', postalCode: '42501' }
+const receiver = { rfc: 'XOJI740919U48', name: 'INGRID XODAR JIMENEZ', taxRegime: '612', postalCode: '88965', cfdiUse: 'G03' }
+
+const order: Order = {
+  id: '1',
+  business_id: 'biz-1',
+  branch_id: 'branch-1',
+  employee_id: 'emp-1',
+  client_name: 'Ingrid',
+  total: 116,
+  tax_mode: 'included',
+  delivery_date: '2026-03-10',
+  status: 'delivered',
+  folio: 'PL-000123',
+  last_modified_at: '2026-03-01T10:00:00.000Z',
+  created_at: '2026-03-01T09:00:00.000Z',
+  items: [{ order_id: '1', product_name: 'Pastel', quantity: 1, unit_price: 116, subtotal: 116, tax_rate: 0.16 }]
+}
+
+describe('InvoiceService', () => {
+  afterEach(() => InvoiceService.setPacAdapter(null))
+
+  it('stamps valid invoices through the configured PAC', async () => {
+    const pac = new FakePacAdapter()
+    InvoiceService.setPacAdapter(pac)
+
+    const invoice = await InvoiceService.invoiceOrder(order, { issuer, receiver })
+
+    expect(invoice.pac).toBe('fake')
+    expect(pac.stamped).toEqual([invoice.uuid])
+    expect(invoice.cfdi.total).toBe(116)
+    expect(invoice.xml).toContain(`UUID="${invoice.uuid}"`)
+    expect(invoice.xml.trim().endsWith('</cfdi:Comprobante>')).toBe(true)
+  })
+
+  it('does not send invalid invoices to the PAC', async () => {
+    const pac = new FakePacAdapter()
+    InvoiceService.setPacAdapter(pac)
+
+    await expect(InvoiceService.invoiceOrder(order, { issuer, receiver: { ...receiver, rfc: 'NO-RFC' } })).rejects.toThrow('RFC del cliente')
+    expect(pac.stamped).toEqual([])
+  })
+
+  it('requires a PAC and surfaces its errors', async () => {
+    await expect(InvoiceService.invoiceOrder(order, { issuer, receiver })).rejects.toThrow('No hay un PAC')
+
+    InvoiceService.setPacAdapter(new FakePacAdapter({ failWith: 'Saldo de timbres insuficiente' }))
+    await expect(InvoiceService.invoiceOrder(order, { issuer, receiver })).rejects.toThrow('Saldo de timbres insuficiente')
+  })
+})
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  ProductImageService,
+  getProductImagePath,
+  getProductImageStoragePath,
+  validateProductImage
+} from '../../src/services/product-image-service.ts'
+
+const mockStorage = vi.hoisted(() => ({
+  upload: vi.fn(),
+  getPublicUrl: vi.fn(),
+  remove: vi.fn()
+}))
+
+const mockDb = vi.hoisted(() => ({
+  products: { get: vi.fn() },
+  findLocalProduct: vi.fn(),
+  queueProductImage: vi.fn(),
+  getPendingProductImages: vi.fn(),
+  applyProductImage: vi.fn(),
+  incrementProductImageRetries: vi.fn()
+}))
+
+vi.mock('../../src/utils/supabase.ts', () => ({ supabase: { storage: { from: () => mockStorage } } }))
+vi.mock('../../src/lib/offline/db.ts', () => ({ db: mockDb }))
+vi.mock('../../src/services/sync-engine.ts', () => ({ syncEngine: { requestSync: vi.fn() } }))
+
+const PUBLIC_URL = 'https://x.supabase.co/storage/v1/object/public/product_images/'
+
+const prepared = {
+  image: new File(['image'], 'pan.webp', { type: 'image/webp' }),
+  thumbnail: new File(['thumb'], 'pan-thumb.webp', { type: 'image/webp' })
+}
+
+const product = {
+  id: 3,
+  businessId: 'b1',
+  clientGeneratedId: 'abc',
+  image_url: `${PUBLIC_URL}b1/abc/1.webp`,
+  thumbnail_url: `${PUBLIC_URL}b1/abc/1-thumb.webp`
+}
+
+describe('product-image-service helpers', () => {
+  it('accepts raster images within the size limit', () => {
+    expect(validateProductImage({ type: 'image/jpeg', size: 2 * 1024 * 1024 })).toBeUndefined()
+    expect(validateProductImage({ type: 'image/svg+xml', size: 1024 })).toBe('Usa una imagen JPG, PNG, WebP o GIF')
+    expect(validateProductImage({ type: 'application/pdf', size: 1024 })).toBe('Usa una imagen JPG, PNG, WebP o GIF')
+    expect(validateProductImage({ type: 'image/png', size: 11 * 1024 * 1024 })).toBe('La imagen no debe pasar de 10 MB')
+  })
+
+  it('builds unique paths per business, product and upload', () => {
+    expect(getProductImagePath('b1', 'abc', 'image', 1700000000000)).toBe('b1/abc/1700000000000.webp')
+    expect(getProductImagePath('b1', 'abc', 'thumbnail', 1700000000000)).toBe('b1/abc/1700000000000-thumb.webp')
+  })
+
+  it('extracts the bucket path only from product image URLs', () => {
+    const url = 'https://x.supabase.co/storage/v1/object/public/product_images/b1/abc/1700000000000-thumb.webp?v=1'
+
+    expect(getProductImageStoragePath(url)).toBe('b1/abc/1700000000000-thumb.webp')
+    expect(getProductImageStoragePath('https://cdn.example.com/pan.jpg')).toBeUndefined()
+    expect(getProductImageStoragePath(undefined)).toBeUndefined()
+  })
+})
+
+describe('ProductImageService.saveForProduct', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true)
+    mockStorage.upload.mockImplementation((path: string) => Promise.resolve({ data: { path }, error: null }))
+    mockStorage.getPublicUrl.mockImplementation((path: string) => ({ data: { publicUrl: `${PUBLIC_URL}${path}` } }))
+    mockStorage.remove.mockResolvedValue({ error: null })
+    mockDb.getPendingProductImages.mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('uploads the photo and saves the product with its URLs', async () => {
+    const save = vi.fn().mockResolvedValue(undefined)
+
+    const { image_url: _image, thumbnail_url: _thumbnail, ...withoutPhoto } = product
+    const uploaded = await ProductImageService.saveForProduct(withoutPhoto, prepared, save)
+
+    expect(uploaded).toBe(true)
+    expect(mockStorage.upload).toHaveBeenCalledTimes(2)
+    expect(save).toHaveBeenCalledWith({
+      image_url: expect.stringMatching(/\/b1\/abc\/\d+\.webp$/),
+      thumbnail_url: expect.stringMatching(/\/b1\/abc\/\d+-thumb\.webp$/)
+    })
+    expect(mockStorage.remove).not.toHaveBeenCalled()
+  })
+
+  it('deletes the previous photo only after the product is saved', async () => {
+    const save = vi.fn().mockResolvedValue(undefined)
+
+    await ProductImageService.saveForProduct(product, prepared, save)
+
+    expect(mockStorage.remove).toHaveBeenCalledWith(['b1/abc/1.webp', 'b1/abc/1-thumb.webp'])
+    expect(save.mock.invocationCallOrder[0]).toBeLessThan(mockStorage.remove.mock.invocationCallOrder[0] ?? 0)
+  })
+
+  it('keeps the previous photo and drops the new upload when saving fails', async () => {
+    const save = vi.fn().mockRejectedValue(new Error('Producto no encontrado'))
+
+    await expect(ProductImageService.saveForProduct(product, prepared, save)).rejects.toThrow('Producto no encontrado')
+
+    expect(mockStorage.remove).toHaveBeenCalledTimes(1)
+    expect(mockStorage.remove.mock.calls[0]?.[0]).not.toContain('b1/abc/1.webp')
+  })
+
+  it('queues the photo on the local product when offline', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    mockDb.findLocalProduct.mockResolvedValue({ id: 3, businessId: 'b1' })
+    const save = vi.fn().mockResolvedValue(undefined)
+
+    const uploaded = await ProductImageService.saveForProduct(product, prepared, save)
+
+    expect(uploaded).toBe(false)
+    expect(save).toHaveBeenCalledWith({})
+    expect(mockStorage.upload).not.toHaveBeenCalled()
+    expect(mockDb.queueProductImage).toHaveBeenCalledWith({ productId: '3', businessId: 'b1', image: prepared.image, thumbnail: prepared.thumbnail })
+  })
+
+  it('falls back to the queue when the upload fails', async () => {
+    mockStorage.upload.mockResolvedValue({ data: null, error: { message: 'timeout' } })
+    mockDb.findLocalProduct.mockResolvedValue({ id: 3, businessId: 'b1' })
+    const save = vi.fn().mockResolvedValue(undefined)
+
+    expect(await ProductImageService.saveForProduct(product, prepared, save)).toBe(false)
+    expect(mockDb.queueProductImage).toHaveBeenCalledTimes(1)
+    expect(mockStorage.remove).not.toHaveBeenCalled()
+  })
+})
+
+describe('ProductImageService.processQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true)
+    mockStorage.upload.mockImplementation((path: string) => Promise.resolve({ data: { path }, error: null }))
+    mockStorage.getPublicUrl.mockImplementation((path: string) => ({ data: { publicUrl: `${PUBLIC_URL}${path}` } }))
+    mockStorage.remove.mockResolvedValue({ error: null })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('stores the uploaded URLs before deleting the photo they replace', async () => {
+    mockDb.getPendingProductImages.mockResolvedValue([{ id: 9, productId: '3', businessId: 'b1', ...prepared }])
+    mockDb.products.get.mockResolvedValue(product)
+
+    expect(await ProductImageService.processQueue()).toBe(1)
+
+    expect(mockDb.applyProductImage).toHaveBeenCalledWith(9, expect.objectContaining({ image_url: expect.stringContaining('/b1/abc/') }))
+    expect(mockDb.applyProductImage.mock.invocationCallOrder[0]).toBeLessThan(mockStorage.remove.mock.invocationCallOrder[0] ?? 0)
+  })
+})
@@ -0,0 +1,391 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { SyncEngine } from '../../src/services/sync-engine.ts'
+import type { SyncQueueItem } from '../../src/types/index.ts'
+
+const mockDb = vi.hoisted(() => ({
+  orders: {
+    get: vi.fn(),
+    update: vi.fn(),
+    where: vi.fn()
+  },
+  products: {
+    get: vi.fn(),
+    bulkGet: vi.fn(),
+    update: vi.fn(),
+    where: vi.fn()
+  },
+  clients: {
+    get: vi.fn()
+  },
+  recurringOrders: {
+    get: vi.fn(),
+    update: vi.fn()
+  },
+  businessCategories: {
+    get: vi.fn(),
+    update: vi.fn(),
+    where: vi.fn()
+  },
+  stockMovements: {
+    get: vi.fn(),
+    update: vi.fn()
+  },
+  deliveryCapacity: {
+    get: vi.fn()
+  },
+  getPendingSyncItems: vi.fn(),
+  getFailedSyncCount: vi.fn(),
+  getConflictCount: vi.fn(),
+  getConflicts: vi.fn(),
+  markAsSynced: vi.fn(),
+  incrementRetries: vi.fn(),
+  saveSyncSnapshot: vi.fn(),
+  getProductServerIds: vi.fn(),
+  fromServerOrder: vi.fn(),
+  mergePendingOrder: vi.fn(),
+  fromServerProduct: vi.fn(),
+  mergePendingProduct: vi.fn()
+}))
+
+vi.mock('../../src/lib/offline/db.ts', () => ({ db: mockDb }))
+vi.mock('../../src/hooks/useCSRF.ts', () => ({ csrfFetch: vi.fn() }))
+
+const queueItem = (overrides: Partial<SyncQueueItem>): SyncQueueItem => ({
+  id: 1,
+  entityType: 'order',
+  entityId: '1',
+  action: 'create',
+  timestamp: new Date().toISOString(),
+  retries: 0,
+  ...overrides
+})
+
+const okResponse = (body: unknown = {}) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  json: () => Promise.resolve(body)
+}) as Response
+
+describe('SyncEngine', () => {
+  let engine: SyncEngine
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    Object.defineProperty(navigator, 'onLine', { value: true, writable: true, configurable: true })
+
+    // Fresh instance per test so status does not leak between cases
+    engine = new SyncEngine()
+
+    mockDb.getFailedSyncCount.mockResolvedValue(0)
+    mockDb.getConflictCount.mockResolvedValue(0)
+    mockDb.getConflicts.mockResolvedValue([])
+    mockDb.markAsSynced.mockResolvedValue(undefined)
+    mockDb.incrementRetries.mockResolvedValue(undefined)
+    mockDb.orders.update.mockResolvedValue(1)
+    mockDb.getProductServerIds.mockResolvedValue(new Map())
+    mockDb.products.bulkGet.mockResolvedValue([])
+  })
+
+  it('creates orders and stores the server id on the local row', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([queueItem({ id: 7 })]).mockResolvedValue([])
+    mockDb.orders.get.mockResolvedValue({ id: 1, businessId: 'biz-1', clientName: 'Ana', deliveryDate: '2024-01-01', items: [], syncStatus: 'pending' })
+    const request = vi.fn().mockResolvedValue(okResponse({ id: 'srv-99' }))
+
+    const result = await engine.sync(request)
+
+    expect(result).toEqual({ synced: 1, failed: 0, skipped: 0 })
+    expect(request).toHaveBeenCalledWith(expect.stringContaining('/api/orders'), expect.objectContaining({ method: 'POST' }))
+    const body = JSON.parse(request.mock.calls[0]?.[1].body as string) as Record<string, unknown>
+    expect(body).not.toHaveProperty('id')
+    expect(body).not.toHaveProperty('syncStatus')
+    expect(body).toMatchObject({ business_id: 'biz-1', client_name: 'Ana', delivery_date: '2024-01-01' })
+    expect(mockDb.orders.update).toHaveBeenCalledWith(1, { syncStatus: 'synced', serverId: 'srv-99' })
+    expect(mockDb.markAsSynced).toHaveBeenCalledWith('order', '1', 7)
+    expect(mockDb.saveSyncSnapshot).toHaveBeenCalledWith('order', 'srv-99', expect.objectContaining({ id: 'srv-99', client_name: 'Ana' }))
+  })
+
+  it('sends the backend id of catalog products and keeps ad-hoc items as they are', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([queueItem({ id: 9 })]).mockResolvedValue([])
+    mockDb.orders.get.mockResolvedValue({
+      id: 1, businessId: 'biz-1', clientName: 'Ana', deliveryDate: '2024-01-01', syncStatus: 'pending',
+      items: [
+        { product_id: '4', product_name: 'Concha', quantity: 2, unit_price: 10, subtotal: 20, tax_rate: 0 },
+        { product_name: 'Pastel especial', quantity: 1, unit_price: 300, subtotal: 300 }
+      ]
+    })
+    mockDb.getProductServerIds.mockResolvedValue(new Map([['4', 'prod-srv-4']]))
+    const request = vi.fn().mockResolvedValue(okResponse({ id: 'srv-101' }))
+
+    await engine.sync(request)
+
+    expect(mockDb.getProductServerIds).toHaveBeenCalledWith(['4'])
+    const body = JSON.parse(request.mock.calls[0]?.[1].body as string) as { items: Array<Record<string, unknown>> }
+    expect(body.items[0]).toMatchObject({ product_id: 'prod-srv-4', product_name: 'Concha', tax_rate: 0 })
+    expect(body.items[1]).not.toHaveProperty('product_id')
+  })
+
+  it('replaces the provisional folio with the one assigned by the server', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([queueItem({ id: 8 })]).mockResolvedValue([])
+    mockDb.orders.get.mockResolvedValue({ id: 1, businessId: 'biz-1', clientName: 'Ana', deliveryDate: '2024-01-01', items: [], folio: 'PL-000005', folioProvisional: true, syncStatus: 'pending' })
+    const request = vi.fn().mockResolvedValue(okResponse({ id: 'srv-100', folio: 'PL-000007' }))
+
+    await engine.sync(request)
+
+    const body = JSON.parse(request.mock.calls[0]?.[1].body as string) as Record<string, unknown>
+    expect(body).not.toHaveProperty('folio')
+    expect(body).not.toHaveProperty('folioProvisional')
+    expect(mockDb.orders.update).toHaveBeenCalledWith(1, {
+      folio: 'PL-000007',
+      folioProvisional: false,
+      serverId: 'srv-100',
+      syncStatus: 'synced'
+    })
+  })
+
+  it('merges queued order updates with the server copy before sending them', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([queueItem({ id: 4, action: 'update' })]).mockResolvedValue([])
+    const local = { id: 1, serverId: 'srv-1', businessId: 'biz-1', clientName: 'Ana', deliveryDate: '2024-01-01', notes: 'Sin nuez', items: [], syncStatus: 'pending' }
+    const merged = { ...local, deliveryTime: '10:00' }
+    // Dependencias y envío leen la fila local; tras el merge ya trae los cambios del servidor
+    mockDb.orders.get.mockResolvedValueOnce(local).mockResolvedValueOnce(local).mockResolvedValue(merged)
+    mockDb.fromServerOrder.mockImplementation((_businessId: string, order: unknown) => Promise.resolve(order))
+    mockDb.mergePendingOrder.mockResolvedValue(undefined)
+    const serverOrder = { id: 'srv-1', client_name: 'Ana', delivery_date: '2024-01-01', delivery_time: '10:00' }
+    const request = vi.fn()
+      .mockResolvedValueOnce(okResponse(serverOrder))
+      .mockResolvedValue(okResponse())
+
+    const result = await engine.sync(request)
+
+    expect(result).toEqual({ synced: 1, failed: 0, skipped: 0 })
+    expect(request).toHaveBeenNthCalledWith(1, expect.stringMatching(/\/api\/orders\/srv-1$/), { method: 'GET' })
+    expect(mockDb.mergePendingOrder).toHaveBeenCalledWith(local, serverOrder)
+    const body = JSON.parse(request.mock.calls[1]?.[1].body as string) as Record<string, unknown>
+    expect(request.mock.calls[1]?.[1].method).toBe('PUT')
+    expect(body).toMatchObject({ notes: 'Sin nuez', delivery_time: '10:00' })
+    expect(mockDb.saveSyncSnapshot).toHaveBeenCalledWith('order', 'srv-1', expect.objectContaining({ id: 'srv-1', delivery_time: '10:00' }))
+  })
+
+  it('keeps the update queued without using retries when the merge ends in a conflict', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([
+      queueItem({ id: 4, action: 'update' }),
+      queueItem({ id: 5, action: 'update' })
+    ]).mockResolvedValue([])
+    mockDb.orders.get.mockResolvedValue({ id: 1, serverId: 'srv-1', businessId: 'biz-1', items: [], syncStatus: 'pending' })
+    mockDb.fromServerOrder.mockImplementation((_businessId: string, order: unknown) => Promise.resolve(order))
+    mockDb.mergePendingOrder.mockResolvedValue({ entityType: 'order', entityId: '1', fieldConflicts: [{ field: 'notes' }] })
+    const request = vi.fn().mockResolvedValue(okResponse({ id: 'srv-1' }))
+
+    const result = await engine.sync(request)
+
+    expect(result).toEqual({ synced: 0, failed: 0, skipped: 2 })
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(mockDb.markAsSynced).not.toHaveBeenCalled()
+    expect(mockDb.incrementRetries).not.toHaveBeenCalled()
+  })
+
+  it('checks queued product updates against the server copy too', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([queueItem({ id: 6, entityType: 'product', entityId: '3', action: 'update' })]).mockResolvedValue([])
+    const local = { id: 3, serverId: 'prod-srv-3', businessId: 'biz-1', name: 'Concha', price: 12, syncStatus: 'pending' }
+    mockDb.products.get.mockResolvedValue(local)
+    mockDb.fromServerProduct.mockReturnValue({ name: 'Concha', price: 15, serverId: 'prod-srv-3' })
+    mockDb.mergePendingProduct.mockResolvedValue({ entityType: 'product', entityId: '3', fieldConflicts: [{ field: 'price' }] })
+    const request = vi.fn().mockResolvedValue(okResponse({ id: 'prod-srv-3', name: 'Concha', price: 15 }))
+
+    const result = await engine.sync(request)
+
+    expect(result).toEqual({ synced: 0, failed: 0, skipped: 1 })
+    expect(request).toHaveBeenCalledWith(expect.stringMatching(/\/api\/products\/biz-1\/prod-srv-3$/), { method: 'GET' })
+    expect(mockDb.mergePendingProduct).toHaveBeenCalledWith(local, expect.objectContaining({ price: 15 }))
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  it('leaves stock out of product payloads so the backend derives it from the ledger', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([queueItem({ id: 8, entityType: 'product', entityId: '3', action: 'create' })]).mockResolvedValue([])
+    mockDb.products.get.mockResolvedValue({
+      id: 3,
+      businessId: 'biz-1',
+      name: 'Pastel',
+      price: 300,
+      stock: 4,
+      variants: [{ id: 'v1', name: 'Chico', price: 250, stock: 2, isActive: true }],
+      syncStatus: 'pending'
+    })
+    const request = vi.fn().mockResolvedValue(okResponse({ id: 'prod-srv-3' }))
+
+    await engine.sync(request)
+
+    const body = JSON.parse(request.mock.calls[0]?.[1].body as string) as { variants: Array<Record<string, unknown>> }
+    expect(body).toMatchObject({ name: 'Pastel', variants: [{ id: 'v1', name: 'Chico' }] })
+    expect(body).not.toHaveProperty('stock')
+    expect(body).not.toHaveProperty('id')
+    expect(body.variants[0]).not.toHaveProperty('stock')
+  })
+
+  it('skips later items of an entity whose earlier item failed', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([
+      queueItem({ id: 1, action: 'create' }),
+      queueItem({ id: 2, action: 'update' })
+    ]).mockResolvedValue([])
+    mockDb.orders.get.mockResolvedValue({ id: 1, businessId: 'biz-1', items: [] })
+    const request = vi.fn().mockResolvedValue({ ok: false, status: 500, statusText: 'Server Error' })
+
+    const result = await engine.sync(request)
+
+    expect(result).toEqual({ synced: 0, failed: 1, skipped: 1 })
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(mockDb.incrementRetries).toHaveBeenCalledWith(1, 'HTTP 500: Server Error')
+    expect(engine.getStatus().lastSyncError).toBe('HTTP 500: Server Error')
+  })
+
+  it('holds back stock movements while their product has not been created', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([
+      queueItem({ id: 1, entityType: 'product', entityId: '3', action: 'create' }),
+      queueItem({ id: 2, entityType: 'product', entityId: '3', action: 'update' }),
+      queueItem({ id: 3, entityType: 'stock_movement', entityId: '5', action: 'create' })
+    ]).mockResolvedValue([])
+    mockDb.products.get.mockResolvedValue({ id: 3, businessId: 'biz-1', name: 'Concha' })
+    mockDb.stockMovements.get.mockResolvedValue({ id: 5, productId: '3', type: 'sale', quantity: -2 })
+    const request = vi.fn().mockResolvedValue({ ok: false, status: 500, statusText: 'Server Error' })
+
+    const result = await engine.sync(request)
+
+    expect(result).toEqual({ synced: 0, failed: 1, skipped: 2 })
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(mockDb.incrementRetries).toHaveBeenCalledTimes(1)
+  })
+
+  it('holds back sale movements while their order has not been created', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([
+      queueItem({ id: 1, entityType: 'order', entityId: '4', action: 'create' }),
+      queueItem({ id: 2, entityType: 'stock_movement', entityId: '5', action: 'create' })
+    ]).mockResolvedValue([])
+    mockDb.orders.get.mockResolvedValue({ id: 4, businessId: 'biz-1', clientName: 'Ana', deliveryDate: '2024-01-01', items: [], syncStatus: 'pending' })
+    mockDb.products.get.mockResolvedValue({ id: 3, businessId: 'biz-1', name: 'Concha', serverId: 'prod-srv-3' })
+    mockDb.stockMovements.get.mockResolvedValue({ id: 5, productId: '3', orderId: '4', type: 'sale', quantity: -2 })
+    const request = vi.fn().mockResolvedValue({ ok: false, status: 500, statusText: 'Server Error' })
+
+    const result = await engine.sync(request)
+
+    expect(result).toEqual({ synced: 0, failed: 1, skipped: 1 })
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(request).not.toHaveBeenCalledWith(expect.stringMatching(/\/api\/stock-movements$/), expect.anything())
+  })
+
+  it('keeps a sale movement queued when its order is still not on the server', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([
+      queueItem({ id: 2, entityType: 'stock_movement', entityId: '5', action: 'create' })
+    ]).mockResolvedValue([])
+    mockDb.orders.get.mockResolvedValue({ id: 4, businessId: 'biz-1', clientName: 'Ana', deliveryDate: '2024-01-01', items: [], syncStatus: 'pending' })
+    mockDb.products.get.mockResolvedValue({ id: 3, businessId: 'biz-1', name: 'Concha', serverId: 'prod-srv-3' })
+    mockDb.stockMovements.get.mockResolvedValue({ id: 5, productId: '3', orderId: '4', type: 'sale', quantity: -2 })
+    const request = vi.fn()
+
+    const result = await engine.sync(request)
+
+    expect(result).toEqual({ synced: 0, failed: 1, skipped: 0 })
+    expect(request).not.toHaveBeenCalled()
+    expect(mockDb.incrementRetries).toHaveBeenCalledWith(2, 'Order 4 is not synced yet')
+  })
+
+  it('keeps an order queued instead of sending it without its unsynced client', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([queueItem({ id: 7 })]).mockResolvedValue([])
+    mockDb.orders.get.mockResolvedValue({ id: 1, businessId: 'biz-1', clientId: '9', clientName: 'Ana', deliveryDate: '2024-01-01', items: [], syncStatus: 'pending' })
+    mockDb.clients.get.mockResolvedValue({ id: 9, name: 'Ana', syncStatus: 'pending' })
+    const request = vi.fn()
+
+    const result = await engine.sync(request)
+
+    expect(result).toEqual({ synced: 0, failed: 1, skipped: 0 })
+    expect(request).not.toHaveBeenCalled()
+    expect(mockDb.incrementRetries).toHaveBeenCalledWith(7, 'Client 9 is not synced yet')
+  })
+
+  it('sends recurring orders with the backend ids of their client and products', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([
+      queueItem({ id: 8, entityType: 'recurring_order', entityId: '2' })
+    ]).mockResolvedValue([])
+    mockDb.recurringOrders.get.mockResolvedValue({
+      id: 2,
+      businessId: 'biz-1',
+      clientId: '9',
+      name: 'Pan de la semana',
+      items: [{ product_id: '4', product_name: 'Bolillo', quantity: 20, unit_price: 3 }],
+      generatedUntil: '2024-03-10',
+      clientGeneratedId: 'rec-uuid',
+      syncStatus: 'pending'
+    })
+    mockDb.clients.get.mockResolvedValue({ id: 9, serverId: 'client-srv-9' })
+    mockDb.getProductServerIds.mockResolvedValue(new Map([['4', 'prod-srv-4']]))
+    const request = vi.fn().mockResolvedValue(okResponse({ id: 'rec-srv-1' }))
+
+    const result = await engine.sync(request)
+
+    expect(result).toEqual({ synced: 1, failed: 0, skipped: 0 })
+    const body = JSON.parse(request.mock.calls[0]?.[1].body as string) as Record<string, unknown>
+    expect(body).toMatchObject({ clientId: 'client-srv-9', clientGeneratedId: 'rec-uuid', items: [{ product_id: 'prod-srv-4' }] })
+    expect(body).not.toHaveProperty('generatedUntil')
+    expect(mockDb.recurringOrders.update).toHaveBeenCalledWith(2, { serverId: 'rec-srv-1', syncStatus: 'synced' })
+  })
+
+  it('holds back entities with an unresolved conflict', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([queueItem({ action: 'update' })]).mockResolvedValue([])
+    mockDb.getConflicts.mockResolvedValue([{ entityType: 'order', entityId: '1' }])
+    const request = vi.fn()
+
+    const result = await engine.sync(request)
+
+    expect(result).toEqual({ synced: 0, failed: 0, skipped: 1 })
+    expect(request).not.toHaveBeenCalled()
+  })
+
+  it('sends deletes with the server id recorded in the queue item', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([
+      queueItem({ action: 'delete', serverId: 'srv-5' })
+    ]).mockResolvedValue([])
+    mockDb.orders.get.mockResolvedValue(undefined)
+    const request = vi.fn().mockResolvedValue(okResponse())
+
+    await engine.sync(request)
+
+    expect(request).toHaveBeenCalledWith(expect.stringMatching(/\/api\/orders\/srv-5$/), { method: 'DELETE' })
+  })
+
+  it('saves business settings whole under the business id', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValueOnce([queueItem({ id: 6, entityType: 'delivery_capacity', entityId: 'biz-1', action: 'update' })]).mockResolvedValue([])
+    const settings = { businessId: 'biz-1', maxOrdersPerDay: 20, maxOrdersPerSlot: 4, slotMinutes: 60, openingTime: '09:00', closingTime: '18:00', enforcement: 'block', updatedAt: '2024-01-01T00:00:00.000Z' }
+    mockDb.deliveryCapacity.get.mockResolvedValue(settings)
+    const request = vi.fn().mockResolvedValue(okResponse())
+
+    const result = await engine.sync(request)
+
+    expect(result.synced).toBe(1)
+    expect(mockDb.deliveryCapacity.get).toHaveBeenCalledWith('biz-1')
+    expect(request).toHaveBeenCalledWith(expect.stringMatching(/\/api\/delivery-capacity\/biz-1$/), { method: 'PUT', body: JSON.stringify(settings) })
+    expect(mockDb.markAsSynced).toHaveBeenCalledWith('delivery_capacity', 'biz-1', 6)
+  })
+
+  it('does not call the backend while offline', async () => {
+    Object.defineProperty(navigator, 'onLine', { value: false, writable: true, configurable: true })
+    const request = vi.fn()
+
+    const result = await engine.sync(request)
+
+    expect(result).toEqual({ synced: 0, failed: 0, skipped: 0 })
+    expect(request).not.toHaveBeenCalled()
+    expect(mockDb.getPendingSyncItems).not.toHaveBeenCalled()
+  })
+
+  it('notifies subscribers with pending and failed counts', async () => {
+    mockDb.getPendingSyncItems.mockResolvedValue([queueItem({}), queueItem({ id: 2 })])
+    mockDb.getFailedSyncCount.mockResolvedValue(1)
+    mockDb.getConflictCount.mockResolvedValue(3)
+    const listener = vi.fn()
+    engine.subscribe(listener)
+
+    await engine.refreshCounts()
+
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ pendingCount: 2, failedCount: 1, conflictCount: 3 }))
+  })
+})
@@ -192,7 +192,8 @@ const mockDb = {
   },
   getPendingSyncItems: vi.fn().mockResolvedValue([]),
   markAsSynced: vi.fn().mockResolvedValue(undefined),
-  incrementRetries: vi.fn().mockResolvedValue(undefined)
+  incrementRetries: vi.fn().mockResolvedValue(undefined),
+  getConflicts: vi.fn().mockResolvedValue([])
 }
 
 vi.mock('../src/lib/offline/db', () => ({
@@ -209,7 +210,7 @@ vi.mock('../src/hooks/useOfflineSync', () => ({
     updatePendingCount: vi.fn(),
     isSyncing: false,
     error: null,
-    addPendingChange: vi.fn()
+    clearFailedItems: vi.fn().mockResolvedValue(undefined)
   }))
 }))
 
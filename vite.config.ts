@@ -75,6 +75,23 @@ export default defineConfig({
               }
             }
           },
+          {
+            // ✅ Fotos de productos: nombre único por subida, así que CacheFirst
+            // nunca sirve una versión vieja y las listas se ven sin conexión
+            // (debe ir antes de la regla general de Supabase)
+            urlPattern: /^https:\/\/.*\.supabase\.co\/storage\/v1\/object\/public\/product_images\/.*/i,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'product-images-cache',
+              expiration: {
+                maxEntries: 500,
+                maxAgeSeconds: 60 * 60 * 24 * 30 // 30 días
+              },
+              cacheableResponse: {
+                statuses: [0, 200]
+              }
+            }
+          },
           {
             urlPattern: /^https:\/\/.*\.supabase\.co\/.*/i,
             handler: 'NetworkFirst',